@@ -0,0 +1,117 @@
+// Times the document edits behind dragging and recoloring on a generated 20,000-element SVG,
+// and fails when the median frame of either takes longer than the editor can afford while
+// staying interactive. Only the core edits and serialization are timed, not React rendering
+// the canvas; the slowest frame is printed but not checked, since garbage collection and
+// warm-up make it noisy. Pass --write to save the generated document, to try it in the editor.
+//
+//   node cli/benchmark.ts [--elements 20000] [--write large.svg]
+//
+import { writeFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+import { performance } from 'node:perf_hooks'
+import { applyCommand, createHistory, findNode, parseSvgMarkup, recordChange, serializeNode } from '../src/core/index.ts'
+import type { SvgNode } from '../src/core/index.ts'
+
+// Document work per pointer move; at 60 frames a second React still needs the rest of the frame
+const FRAME_BUDGET = 8
+const FRAMES = 120
+const GROUP_SIZE = 100
+const COLORS = ['#0f172a', '#2563eb', '#16a34a', '#f59e0b', '#dc2626']
+
+// Rows of groups, each with a mix of shapes, so lookups and edits reach deep into the document
+const largeDocument = (elements: number) => {
+  const groups: string[] = []
+  for (let g = 0; g * GROUP_SIZE < elements; g++) {
+    const shapes: string[] = []
+    for (let i = 0; i < GROUP_SIZE && g * GROUP_SIZE + i < elements; i++) {
+      const x = (i % 10) * 12
+      const y = Math.floor(i / 10) * 12
+      const fill = COLORS[(g + i) % COLORS.length]
+      shapes.push(
+        i % 3 === 0
+          ? `    <rect id="r-${g}-${i}" x="${x}" y="${y}" width="10" height="10" fill="${fill}"/>`
+          : i % 3 === 1
+            ? `    <circle id="c-${g}-${i}" cx="${x + 5}" cy="${y + 5}" r="5" fill="${fill}"/>`
+            : `    <path id="p-${g}-${i}" d="M${x} ${y}h10l-5 10z" fill="${fill}" stroke="#000"/>`,
+      )
+    }
+    groups.push(`  <g id="group-${g}" transform="translate(${(g % 20) * 130} ${Math.floor(g / 20) * 130})">\n${shapes.join('\n')}\n  </g>`)
+  }
+  const columns = Math.min(20, groups.length)
+  const rows = Math.ceil(groups.length / 20)
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${columns * 130} ${rows * 130}">\n${groups.join('\n')}\n</svg>\n`
+}
+
+const countNodes = (node: SvgNode): number => node.children.reduce((sum, child) => sum + countNodes(child), 1)
+
+const time = <T>(run: () => T): [T, number] => {
+  const start = performance.now()
+  const result = run()
+  return [result, performance.now() - start]
+}
+
+// Median and slowest of the per-frame times
+const summarize = (times: number[]) => {
+  const sorted = [...times].sort((a, b) => a - b)
+  return { median: sorted[Math.floor(sorted.length / 2)], worst: sorted[sorted.length - 1] }
+}
+
+const main = async () => {
+  const { values } = parseArgs({ options: { elements: { type: 'string', default: '20000' }, write: { type: 'string' } } })
+  const elements = Number(values.elements)
+  if (!Number.isInteger(elements) || elements < 1) throw new Error('--elements must be a positive whole number')
+
+  const markup = largeDocument(elements)
+  if (values.write) await writeFile(values.write, markup)
+  const [tree, parseTime] = time(() => parseSvgMarkup(markup)!)
+  console.log(`${countNodes(tree)} nodes, ${(markup.length / 1024).toFixed(0)} KB, parsed in ${parseTime.toFixed(0)} ms`)
+
+  // Elements from the first, middle and last groups; the parser takes node ids from id attributes
+  const groups = Math.ceil(elements / GROUP_SIZE)
+  const selection = ['r-0-0', `c-${Math.floor(groups / 2)}-1`, `p-${groups - 1}-2`].filter((id) => findNode(tree, id))
+
+  // A drag applies the whole offset so far to the tree from when it started, once per pointer move
+  const dragTimes: number[] = []
+  let dragged = tree
+  for (let frame = 1; frame <= FRAMES; frame++) {
+    const [result, took] = time(() => {
+      selection.forEach((id) => findNode(tree, id))
+      return applyCommand(tree, { type: 'move', ids: selection, dx: frame, dy: frame / 2 })
+    })
+    dragged = result.tree
+    dragTimes.push(took)
+  }
+
+  // Dragging across the color picker sets the fill again on every move
+  const recolorTimes: number[] = []
+  let recolored = dragged
+  for (let frame = 0; frame < FRAMES; frame++) {
+    const fill = `#${(frame * 2).toString(16).padStart(2, '0')}8040`
+    const [result, took] = time(() => applyCommand(dragged, { type: 'set-attribute', ids: selection, name: 'fill', value: fill }))
+    recolored = result.tree
+    recolorTimes.push(took)
+  }
+
+  const [, recolorAllTime] = time(() => applyCommand(tree, { type: 'recolor', from: COLORS[1], to: '#7c3aed' }))
+  const [, historyTime] = time(() => recordChange(recordChange(createHistory(tree), dragged, 'Move'), recolored, 'Change fill'))
+  const [, serializeTime] = time(() => serializeNode(recolored))
+
+  const drag = summarize(dragTimes)
+  const recolor = summarize(recolorTimes)
+  console.log(`drag:          ${drag.median.toFixed(2)} ms a frame (slowest ${drag.worst.toFixed(2)} ms)`)
+  console.log(`recolor:       ${recolor.median.toFixed(2)} ms a frame (slowest ${recolor.worst.toFixed(2)} ms)`)
+  console.log(`recolor all:   ${recolorAllTime.toFixed(0)} ms`)
+  console.log(`record undo:   ${historyTime.toFixed(0)} ms for both edits`)
+  console.log(`serialize:     ${serializeTime.toFixed(0)} ms`)
+
+  const slow = Object.entries({ drag, recolor }).filter(([, { median }]) => median > FRAME_BUDGET)
+  if (slow.length) {
+    console.error(`\nOver the ${FRAME_BUDGET} ms frame budget: ${slow.map(([name]) => name).join(', ')}`)
+    process.exit(1)
+  }
+}
+
+main().catch((error: Error) => {
+  console.error(error.message)
+  process.exit(1)
+})
@@ -0,0 +1,69 @@
+// Checks the optimizer's output against reviewed copies. Each fixtures/optimize/<name>.svg is
+// run through the passes named by its expected files: <name>.<pass>.svg holds the result of
+// that pass alone and <name>.all.svg the result of every pass. Outputs must also keep their
+// ids unique. Pass --update to rewrite the expected files after reviewing a change.
+//
+//   node cli/check-optimize.ts [--update]
+//
+import { readdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { parseArgs } from 'node:util'
+import { OPTIMIZE_PASSES, optimizeDocument, parseSvgMarkup, serializeNode, walkNodes } from '../src/core/index.ts'
+import type { OptimizePass, SvgNode } from '../src/core/index.ts'
+
+const FIXTURES = join(import.meta.dirname, 'fixtures', 'optimize')
+
+const parse = (markup: string, name: string): SvgNode => {
+  const tree = parseSvgMarkup(markup)
+  if (!tree) throw new Error(`${name}: no <svg> element`)
+  return tree
+}
+
+const duplicateIds = (tree: SvgNode) => {
+  const seen = new Set<string>()
+  const duplicates = new Set<string>()
+  walkNodes(tree, (node) => {
+    const id = node.attrs.id
+    if (id !== undefined && seen.has(id)) duplicates.add(id)
+    if (id !== undefined) seen.add(id)
+  })
+  return [...duplicates]
+}
+
+const main = async () => {
+  const { values } = parseArgs({ options: { update: { type: 'boolean' } } })
+  const known = OPTIMIZE_PASSES.map(({ pass }) => pass)
+  const files = (await readdir(FIXTURES)).filter((name) => name.endsWith('.svg')).sort()
+  const failures: string[] = []
+  let count = 0
+  for (const input of files.filter((name) => name.split('.').length === 2)) {
+    const stem = input.slice(0, -'.svg'.length)
+    const tree = parse(await readFile(join(FIXTURES, input), 'utf8'), input)
+    for (const expected of files.filter((name) => name.startsWith(`${stem}.`) && name !== input)) {
+      const pass = expected.slice(stem.length + 1, -'.svg'.length)
+      if (pass !== 'all' && !known.includes(pass as OptimizePass)) {
+        failures.push(`${expected}: "${pass}" is not an optimization pass`)
+        continue
+      }
+      const optimized = optimizeDocument(tree, pass === 'all' ? {} : { passes: [pass as OptimizePass] })
+      const output = `${serializeNode(optimized, { format: 'pretty' })}\n`
+      count++
+      const duplicates = duplicateIds(parse(output, expected))
+      if (duplicates.length) failures.push(`${expected}: duplicate ids ${duplicates.join(', ')}`)
+      if (values.update) {
+        await writeFile(join(FIXTURES, expected), output)
+      } else if (output !== (await readFile(join(FIXTURES, expected), 'utf8'))) {
+        failures.push(`${expected}: output differs from the expected file; review it and rerun with --update\n${output}`)
+      }
+    }
+  }
+
+  if (failures.length) {
+    console.error(failures.join('\n\n'))
+    console.error(`\n${failures.length} optimizer failure(s) in ${count} outputs`)
+    process.exit(1)
+  }
+  console.log(`${count} optimizer outputs ${values.update ? 'written' : 'match'}`)
+}
+
+void main()
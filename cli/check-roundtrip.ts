@@ -0,0 +1,105 @@
+// Checks that loading and exporting SVG files is lossless. Every fixture in
+// fixtures/roundtrip must come back byte-for-byte from the pretty serializer; the ones in
+// fixtures/roundtrip/canonical are written in other styles and only need to parse back
+// into the same tree from both output formats. Each fixtures/roundtrip/selection/<name>.svg
+// lists element ids in a data-selection attribute on its root; copying or exporting those
+// must give <name>.expected.svg, which keeps how the elements looked in the document.
+// Undo is checked on every fixture too: removing the last element and reversing the rest,
+// then undoing, must give the document back exactly.
+//
+//   node cli/check-roundtrip.ts
+//
+import { readdir, readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { copyFragment, createHistory, isElementNode, parseSvgMarkup, recordChange, redoEntry, serializeNode, undoEntry } from '../src/core/index.ts'
+import type { SvgNode } from '../src/core/index.ts'
+
+const FIXTURES = join(import.meta.dirname, 'fixtures', 'roundtrip')
+
+const parse = (markup: string, name: string): SvgNode => {
+  const tree = parseSvgMarkup(markup)
+  if (!tree) throw new Error(`${name}: no <svg> element`)
+  return tree
+}
+
+const firstDifference = (a: string, b: string) => {
+  let index = 0
+  while (index < a.length && a[index] === b[index]) index++
+  return `at offset ${index}:\n  expected ${JSON.stringify(a.slice(index, index + 60))}\n  received ${JSON.stringify(b.slice(index, index + 60))}`
+}
+
+const checkFixture = async (path: string, name: string, exact: boolean): Promise<string[]> => {
+  const source = await readFile(path, 'utf8')
+  const tree = parse(source, name)
+  const failures: string[] = []
+
+  const pretty = `${serializeNode(tree, { format: 'pretty' })}\n`
+  if (exact && pretty !== source) {
+    failures.push(`${name}: pretty output differs ${firstDifference(source, pretty)}`)
+  }
+
+  const canonical = serializeNode(tree, { prolog: false })
+  for (const format of ['pretty', 'compact'] as const) {
+    const reparsed = parse(serializeNode(tree, { format }), `${name} (${format})`)
+    const again = serializeNode(reparsed, { prolog: false })
+    if (again !== canonical) {
+      failures.push(`${name}: ${format} output does not parse back to the same tree ${firstDifference(canonical, again)}`)
+    }
+  }
+  failures.push(...checkUndo(tree, name))
+  return failures
+}
+
+const checkUndo = (tree: SvgNode, name: string): string[] => {
+  const elements = tree.children.filter(isElementNode)
+  if (!elements.length) return []
+  const removed = elements[elements.length - 1]
+  const edited = { ...tree, children: tree.children.filter((child) => child !== removed).reverse() }
+  const history = recordChange(createHistory(tree), edited, 'Edit')
+  const undone = undoEntry(history).tree!
+  const redone = redoEntry(undoEntry(history)).tree!
+  const failures: string[] = []
+  const source = serializeNode(tree)
+  const restored = serializeNode(undone)
+  if (restored !== source) failures.push(`${name}: undo does not restore the document ${firstDifference(source, restored)}`)
+  const target = serializeNode(edited)
+  const replayed = serializeNode(redone)
+  if (replayed !== target) failures.push(`${name}: redo does not repeat the edit ${firstDifference(target, replayed)}`)
+  return failures
+}
+
+const checkSelection = async (dir: string, name: string): Promise<string[]> => {
+  const tree = parse(await readFile(join(dir, name), 'utf8'), name)
+  const ids = (tree.attrs['data-selection'] ?? '').split(',').filter(Boolean)
+  const expectedName = name.replace(/\.svg$/, '.expected.svg')
+  const expected = await readFile(join(dir, expectedName), 'utf8')
+  const copy = `${serializeNode(copyFragment(tree, ids), { format: 'pretty' })}\n`
+  return copy === expected ? [] : [`${name}: the copied selection differs from ${expectedName} ${firstDifference(expected, copy)}`]
+}
+
+const main = async () => {
+  const failures: string[] = []
+  let count = 0
+  for (const [dir, exact] of [[FIXTURES, true], [join(FIXTURES, 'canonical'), false]] as const) {
+    const names = (await readdir(dir)).filter((name) => name.endsWith('.svg')).sort()
+    for (const name of names) {
+      failures.push(...(await checkFixture(join(dir, name), name, exact)))
+      count++
+    }
+  }
+  const selections = join(FIXTURES, 'selection')
+  for (const name of (await readdir(selections)).filter((name) => name.endsWith('.svg')).sort()) {
+    failures.push(...(await checkFixture(join(selections, name), name, true)))
+    if (!name.endsWith('.expected.svg')) failures.push(...(await checkSelection(selections, name)))
+    count++
+  }
+
+  if (failures.length) {
+    console.error(failures.join('\n\n'))
+    console.error(`\n${failures.length} round-trip failure(s) in ${count} fixtures`)
+    process.exit(1)
+  }
+  console.log(`${count} fixtures round-trip cleanly`)
+}
+
+void main()
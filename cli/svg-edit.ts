@@ -0,0 +1,415 @@
+#!/usr/bin/env node
+// Applies the editor's commands to SVG files on disk. Runs directly on Node 22.18+,
+// which strips the TypeScript types itself:
+//
+//   node cli/svg-edit.ts logo.svg --recolor '#000=#0f172a' --delete badge -o out.svg
+//
+import { readFile, writeFile, mkdir } from 'node:fs/promises'
+import { basename, join } from 'node:path'
+import { parseArgs } from 'node:util'
+import {
+  applyCommands,
+  BOOLEAN_OPERATIONS,
+  exportPdf,
+  OPTIMIZE_PASSES,
+  optimizeDocument,
+  parseSvgMarkup,
+  serializeNode,
+  stripGuides,
+  SvgCommandError,
+  SvgParseError,
+} from '../src/core/index.ts'
+import type { BooleanOperation, OptimizeOptions, OptimizePass, StackingMove, SvgCommand } from '../src/core/index.ts'
+
+const USAGE = `Usage: svg-edit <input.svg|-> [...inputs] [commands] [output]
+
+Commands run in the order given. <ids> is a comma-separated list of element ids.
+  --set <ids>:<name>=<value>    set (or, with an empty value, remove) an attribute
+  --delete <ids>                remove elements
+  --group <ids>                 wrap elements in a new <g> where the topmost one was
+  --duplicate <ids>[:<dx>,<dy>] copy elements, each above its original, optionally offset
+  --move <ids>:<dx>,<dy>        translate elements in their parent's coordinates
+  --recolor [<ids>:]<from>=<to> replace a fill/stroke colour, optionally only under <ids>
+  --clip <ids>                  clip sibling elements with the last (topmost) one
+  --mask <ids>                  mask sibling elements with the last (topmost) one
+  --release <ids>               undo a clip or mask, putting the shape back on top
+  --pattern <ids>:<x>,<y>,<w>,<h>
+                                turn sibling elements into a pattern tile filling a rect
+  --union <ids>                 merge sibling shapes into one path
+  --subtract <ids>              cut the shapes above out of the first (bottom) one
+  --intersect <ids>             keep only the area all shapes cover
+  --exclude <ids>               keep the area an odd number of shapes cover
+  --divide <ids>                cut the shapes (and any lines) into one path per piece
+  --to-path <ids>               convert shapes to equivalent <path> elements
+  --outline-stroke <ids>        turn strokes into filled outlines
+  --simplify <ids>[:<tolerance>]
+                                redraw paths with fewer nodes (default tolerance 0.5)
+  --reverse <ids>               reverse the direction of paths
+  --join <ids>                  combine sibling shapes into one path
+  --break-apart <ids>           split paths into one path per subpath
+  --offset <ids>:<distance>     grow shapes by <distance>, or shrink them when negative
+  --hide <ids>                  hide elements (display="none")
+  --show <ids>                  show hidden elements again
+  --bring-forward <ids>         move elements one step up among their siblings
+  --send-backward <ids>         move elements one step down among their siblings
+  --bring-to-front <ids>        move elements above all their siblings
+  --send-to-back <ids>          move elements below all their siblings
+  --reparent <ids>:<parent>     move elements on top of <parent>'s children, keeping their position
+  --rename <id>=<new id>        change an id attribute and every reference to it
+  --commands <file.json>        run a JSON array of commands (see src/core/commands.ts)
+
+Output (default: stdout, single input only):
+  -o, --out <file>              write the result to <file>
+  --out-dir <dir>               write each result to <dir>/<input name>
+  --in-place                    overwrite the inputs
+  --format <pretty|compact>     output formatting (default: pretty)
+  --strip-guides                leave out the editor's guide lines
+  --optimize                    shrink the output with the optimizer's passes
+  --passes <passes>             run only these comma-separated passes when optimizing:
+                                ${OPTIMIZE_PASSES.map(({ pass }) => pass).join(', ')}
+  --precision <n>               decimal places kept when optimizing (default: 3)
+  --strip-ids                   when optimizing, drop unused ids instead of also shortening the rest
+  --pdf                         write a vector PDF instead of SVG (--out-dir names it <input name>.pdf);
+                                anything the PDF leaves out is reported on stderr
+  -h, --help                    show this message`
+
+class UsageError extends Error {}
+
+// Flags that add a command, in the order they are listed above
+const COMMAND_FLAGS = [
+  'set',
+  'delete',
+  'group',
+  'duplicate',
+  'move',
+  'recolor',
+  'clip',
+  'mask',
+  'release',
+  'pattern',
+  ...BOOLEAN_OPERATIONS,
+  'to-path',
+  'outline-stroke',
+  'simplify',
+  'reverse',
+  'join',
+  'break-apart',
+  'offset',
+  'hide',
+  'show',
+  'bring-forward',
+  'send-backward',
+  'bring-to-front',
+  'send-to-back',
+  'reparent',
+  'rename',
+]
+
+const STACKING_MOVES: Record<string, StackingMove> = {
+  'bring-forward': 'forward',
+  'send-backward': 'backward',
+  'bring-to-front': 'front',
+  'send-to-back': 'back',
+}
+
+type Field = 'string' | 'number' | 'boolean' | 'strings' | 'bounds' | readonly string[]
+
+// What each command in a --commands file must hold; a "?" marks fields that may be left out
+const COMMAND_FIELDS: Record<SvgCommand['type'], Record<string, Field>> = {
+  'set-attribute': { ids: 'strings', name: 'string', value: 'string' },
+  delete: { ids: 'strings' },
+  group: { ids: 'strings', 'groupId?': 'string' },
+  duplicate: { ids: 'strings', 'dx?': 'number', 'dy?': 'number' },
+  move: { ids: 'strings', dx: 'number', dy: 'number' },
+  recolor: { from: 'string', to: 'string', 'ids?': 'strings', 'properties?': 'strings' },
+  clip: { ids: 'strings', 'as?': ['clip-path', 'mask'] },
+  release: { ids: 'strings' },
+  pattern: { ids: 'strings', bounds: 'bounds' },
+  boolean: { ids: 'strings', operation: BOOLEAN_OPERATIONS },
+  'to-path': { ids: 'strings' },
+  'outline-stroke': { ids: 'strings' },
+  simplify: { ids: 'strings', 'tolerance?': 'number' },
+  reverse: { ids: 'strings' },
+  join: { ids: 'strings' },
+  'break-apart': { ids: 'strings' },
+  offset: { ids: 'strings', distance: 'number' },
+  visibility: { ids: 'strings', visible: 'boolean' },
+  reorder: { ids: 'strings', to: Object.values(STACKING_MOVES) },
+  reparent: { ids: 'strings', parent: 'string', 'before?': 'string' },
+  rename: { id: 'string', name: 'string', 'as?': ['id', 'label'] },
+}
+
+const FIELD_DESCRIPTIONS: Record<string, string> = {
+  string: 'a string',
+  number: 'a number',
+  boolean: 'true or false',
+  strings: 'an array of strings',
+  bounds: 'an object with numbers x, y, width and height',
+}
+
+const matchesField = (value: unknown, field: Field) => {
+  if (typeof field !== 'string') return field.includes(value as string)
+  if (field === 'strings') return Array.isArray(value) && value.every((item) => typeof item === 'string')
+  if (field === 'bounds') {
+    return typeof value === 'object' && value !== null && ['x', 'y', 'width', 'height'].every((key) => Number.isFinite((value as Record<string, unknown>)[key]))
+  }
+  return field === 'number' ? Number.isFinite(value) : typeof value === field
+}
+
+const checkCommand = (entry: unknown, where: string): SvgCommand => {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) throw new SvgCommandError(`${where} is not an object`)
+  const command = entry as Record<string, unknown>
+  const type = Object.keys(COMMAND_FIELDS).find((known) => known === command.type) as SvgCommand['type'] | undefined
+  if (!type) throw new SvgCommandError(`${where} has an unknown type ${JSON.stringify(command.type)}`)
+  for (const [key, field] of Object.entries(COMMAND_FIELDS[type])) {
+    const name = key.replace(/\?$/, '')
+    if (command[name] === undefined && key.endsWith('?')) continue
+    if (!matchesField(command[name], field)) {
+      const expected = typeof field === 'string' ? FIELD_DESCRIPTIONS[field] : `one of ${field.join(', ')}`
+      throw new SvgCommandError(`${where} (${type}) needs "${name}" to be ${expected}`)
+    }
+  }
+  return command as SvgCommand
+}
+
+const splitIds = (value: string) => value.split(',').map((id) => id.trim()).filter(Boolean)
+
+const splitOnce = (value: string, separator: string, flag: string): [string, string] => {
+  const index = value.indexOf(separator)
+  if (index < 0) throw new UsageError(`${flag} expects "${separator}" in "${value}"`)
+  return [value.slice(0, index), value.slice(index + separator.length)]
+}
+
+const parseCommand = (flag: string, value: string): SvgCommand => {
+  switch (flag) {
+    case 'set': {
+      const [ids, assignment] = splitOnce(value, ':', '--set')
+      const [name, attrValue] = splitOnce(assignment, '=', '--set')
+      return { type: 'set-attribute', ids: splitIds(ids), name, value: attrValue }
+    }
+    case 'delete':
+      return { type: 'delete', ids: splitIds(value) }
+    case 'group':
+      return { type: 'group', ids: splitIds(value) }
+    case 'duplicate': {
+      if (!value.includes(':')) return { type: 'duplicate', ids: splitIds(value) }
+      const [ids, offset] = splitOnce(value, ':', '--duplicate')
+      const [dx, dy] = splitOnce(offset, ',', '--duplicate').map(Number)
+      return { type: 'duplicate', ids: splitIds(ids), dx, dy }
+    }
+    case 'move': {
+      const [ids, offset] = splitOnce(value, ':', '--move')
+      const [dx, dy] = splitOnce(offset, ',', '--move').map(Number)
+      return { type: 'move', ids: splitIds(ids), dx, dy }
+    }
+    case 'recolor': {
+      const scoped = value.includes(':') ? splitOnce(value, ':', '--recolor') : null
+      const [from, to] = splitOnce(scoped ? scoped[1] : value, '=', '--recolor')
+      return { type: 'recolor', from, to, ids: scoped ? splitIds(scoped[0]) : undefined }
+    }
+    case 'clip':
+    case 'mask':
+      return { type: 'clip', ids: splitIds(value), as: flag === 'mask' ? 'mask' : 'clip-path' }
+    case 'release':
+      return { type: 'release', ids: splitIds(value) }
+    case 'pattern': {
+      const [ids, box] = splitOnce(value, ':', '--pattern')
+      const [x, y, width, height] = box.split(',').map(Number)
+      return { type: 'pattern', ids: splitIds(ids), bounds: { x, y, width, height } }
+    }
+    case 'union':
+    case 'subtract':
+    case 'intersect':
+    case 'exclude':
+    case 'divide':
+      return { type: 'boolean', ids: splitIds(value), operation: flag as BooleanOperation }
+    case 'to-path':
+    case 'outline-stroke':
+    case 'reverse':
+    case 'join':
+    case 'break-apart':
+      return { type: flag, ids: splitIds(value) }
+    case 'simplify': {
+      const [ids, tolerance] = value.includes(':') ? splitOnce(value, ':', '--simplify') : [value, undefined]
+      return { type: 'simplify', ids: splitIds(ids), tolerance: tolerance === undefined ? undefined : Number(tolerance) }
+    }
+    case 'offset': {
+      const [ids, distance] = splitOnce(value, ':', '--offset')
+      return { type: 'offset', ids: splitIds(ids), distance: Number(distance) }
+    }
+    case 'hide':
+    case 'show':
+      return { type: 'visibility', ids: splitIds(value), visible: flag === 'show' }
+    case 'bring-forward':
+    case 'send-backward':
+    case 'bring-to-front':
+    case 'send-to-back':
+      return { type: 'reorder', ids: splitIds(value), to: STACKING_MOVES[flag] }
+    case 'reparent': {
+      const [ids, parent] = splitOnce(value, ':', '--reparent')
+      return { type: 'reparent', ids: splitIds(ids), parent }
+    }
+    case 'rename': {
+      const [id, name] = splitOnce(value, '=', '--rename')
+      return { type: 'rename', id, name }
+    }
+  }
+  throw new UsageError(`Unknown command --${flag}`)
+}
+
+const readCommandFile = async (path: string): Promise<SvgCommand[]> => {
+  const parsed: unknown = JSON.parse(await readFile(path, 'utf8'))
+  if (!Array.isArray(parsed)) throw new UsageError(`${path} must contain a JSON array of commands`)
+  return parsed.map((entry: unknown, index) => checkCommand(entry, `${path}: command ${index + 1}`))
+}
+
+const readInput = async (path: string) => {
+  if (path !== '-') return readFile(path, 'utf8')
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+type OutputOptions = { format: 'pretty' | 'compact'; withoutGuides: boolean; optimize: OptimizeOptions | null; pdf: boolean }
+
+const parseOptimizePasses = (value: string): OptimizePass[] => {
+  const known = OPTIMIZE_PASSES.map(({ pass }) => pass)
+  const passes = value.split(',').map((pass) => pass.trim()).filter(Boolean)
+  const unknown = passes.find((pass) => !known.includes(pass as OptimizePass))
+  if (unknown) throw new UsageError(`Unknown optimization pass "${unknown}"`)
+  return passes as OptimizePass[]
+}
+
+const editFile = (markup: string, commands: SvgCommand[], source: string, { format, withoutGuides, optimize, pdf }: OutputOptions) => {
+  const tree = parseSvgMarkup(markup)
+  if (!tree) throw new SvgParseError(`${source}: no <svg> element found`)
+  const result = applyCommands(tree, commands)
+  const output = withoutGuides ? stripGuides(result.tree) : result.tree
+  if (pdf) {
+    const { bytes, warnings } = exportPdf(output)
+    return { data: bytes, changed: result.changed, warnings }
+  }
+  return { data: `${serializeNode(optimize ? optimizeDocument(output, optimize) : output, { format })}\n`, changed: result.changed, warnings: [] }
+}
+
+const main = async () => {
+  const { values, positionals, tokens } = parseArgs({
+    allowPositionals: true,
+    tokens: true,
+    options: {
+      set: { type: 'string', multiple: true },
+      delete: { type: 'string', multiple: true },
+      group: { type: 'string', multiple: true },
+      duplicate: { type: 'string', multiple: true },
+      move: { type: 'string', multiple: true },
+      recolor: { type: 'string', multiple: true },
+      clip: { type: 'string', multiple: true },
+      mask: { type: 'string', multiple: true },
+      release: { type: 'string', multiple: true },
+      pattern: { type: 'string', multiple: true },
+      union: { type: 'string', multiple: true },
+      subtract: { type: 'string', multiple: true },
+      intersect: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      divide: { type: 'string', multiple: true },
+      'to-path': { type: 'string', multiple: true },
+      'outline-stroke': { type: 'string', multiple: true },
+      simplify: { type: 'string', multiple: true },
+      reverse: { type: 'string', multiple: true },
+      join: { type: 'string', multiple: true },
+      'break-apart': { type: 'string', multiple: true },
+      offset: { type: 'string', multiple: true },
+      hide: { type: 'string', multiple: true },
+      show: { type: 'string', multiple: true },
+      'bring-forward': { type: 'string', multiple: true },
+      'send-backward': { type: 'string', multiple: true },
+      'bring-to-front': { type: 'string', multiple: true },
+      'send-to-back': { type: 'string', multiple: true },
+      reparent: { type: 'string', multiple: true },
+      rename: { type: 'string', multiple: true },
+      commands: { type: 'string', multiple: true },
+      out: { type: 'string', short: 'o' },
+      'out-dir': { type: 'string' },
+      'in-place': { type: 'boolean' },
+      format: { type: 'string', default: 'pretty' },
+      'strip-guides': { type: 'boolean' },
+      optimize: { type: 'boolean' },
+      passes: { type: 'string' },
+      precision: { type: 'string' },
+      'strip-ids': { type: 'boolean' },
+      pdf: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    return
+  }
+  if (!positionals.length) throw new UsageError('No input file given')
+
+  // parseArgs groups repeated flags by name; the token stream keeps the order they were typed in
+  const commands: SvgCommand[] = []
+  for (const token of tokens) {
+    if (token.kind !== 'option' || token.value === undefined) continue
+    if (token.name === 'commands') commands.push(...(await readCommandFile(token.value)))
+    else if (COMMAND_FLAGS.includes(token.name)) commands.push(parseCommand(token.name, token.value))
+  }
+
+  const targets = [values.out, values['out-dir'], values['in-place']].filter(Boolean).length
+  if (targets > 1) throw new UsageError('Use only one of --out, --out-dir and --in-place')
+  if (positionals.length > 1 && (values.out || !targets)) {
+    throw new UsageError('Several inputs need --out-dir or --in-place')
+  }
+  if (values['in-place'] && positionals.includes('-')) throw new UsageError('Cannot edit stdin in place')
+  if (values.pdf && values['in-place']) throw new UsageError('--pdf cannot replace the input; use --out or --out-dir')
+  const format = values.format
+  if (format !== 'pretty' && format !== 'compact') throw new UsageError(`Unknown --format "${format}"`)
+  const precision = values.precision === undefined ? undefined : Number(values.precision)
+  if (precision !== undefined && !Number.isInteger(precision)) throw new UsageError(`--precision must be a whole number, not "${values.precision}"`)
+  const optimize = values.optimize
+    ? {
+        passes: values.passes === undefined ? undefined : parseOptimizePasses(values.passes),
+        precision,
+        ids: values['strip-ids'] ? ('strip' as const) : ('minify' as const),
+      }
+    : null
+  const output: OutputOptions = { format, withoutGuides: values['strip-guides'] ?? false, optimize, pdf: values.pdf ?? false }
+
+  if (values['out-dir']) await mkdir(values['out-dir'], { recursive: true })
+
+  for (const input of positionals) {
+    const { data, changed, warnings } = editFile(await readInput(input), commands, input, output)
+    const name = input === '-' ? 'stdin.svg' : basename(input)
+    const destination = values['in-place']
+      ? input
+      : values['out-dir']
+        ? join(values['out-dir'], output.pdf ? `${name.replace(/\.svgz?$/i, '')}.pdf` : name)
+        : values.out
+
+    for (const warning of warnings) console.error(`${input}: warning: ${warning}`)
+    if (destination) {
+      await writeFile(destination, data)
+      console.error(`${input}: ${changed} element(s) changed -> ${destination}`)
+    } else {
+      process.stdout.write(data)
+    }
+  }
+}
+
+main().catch((error: unknown) => {
+  if (error instanceof UsageError) {
+    console.error(`svg-edit: ${error.message}\n\n${USAGE}`)
+    process.exit(2)
+  }
+  if (error instanceof SvgCommandError || error instanceof SvgParseError || error instanceof SyntaxError) {
+    console.error(`svg-edit: ${error.message}`)
+    process.exit(1)
+  }
+  if (error instanceof Error && 'code' in error) {
+    // File system errors already carry the path in their message
+    console.error(`svg-edit: ${error.message}`)
+    process.exit(1)
+  }
+  throw error
+})
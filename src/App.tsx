@@ -1,77 +1,186 @@
 import React, { useCallback, useEffect, useMemo, useState, useRef } from 'react'
 import DOMPurify from 'dompurify'
 import { HexColorPicker } from 'react-colorful'
+import {
+  addStop,
+  alignOffsets,
+  applyCommand,
+  applyCommands,
+  applyToPoint,
+  applyToVector,
+  cloneNode,
+  compose,
+  convertSegment,
+  copyFragment,
+  createGradient,
+  createHistory,
+  createShape,
+  createTextElement,
+  createUniqueId,
+  cropDocument,
+  decompose,
+  DEFAULT_HISTORY_BUDGET,
+  DEFAULT_LINE_HEIGHT,
+  deleteNode,
+  describeCommand,
+  distributeOffsets,
+  exportPdf,
+  filterTopLevel,
+  findByElementId,
+  findNode,
+  findPaintUsers,
+  findParent,
+  forkGradient,
+  formatNumber,
+  formatPoints,
+  formatTransform,
+  getAttrOrStyle,
+  getFirstText,
+  getLineHeight,
+  getNodeHandles,
+  getNodeIndices,
+  getNodeType,
+  getPaintServerId,
+  getTextLines,
+  gradientToUserSpace,
+  insertNode,
+  invert,
+  isElementNode,
+  isHidden,
+  isLayerNode,
+  isLocked,
+  jumpToEntry,
+  LABEL_ATTRIBUTE,
+  LAYER_CONTAINERS,
+  layerName,
+  LOCK_ATTRIBUTE,
+  moveHandle,
+  moveNode,
+  moveStop,
+  multiply,
+  nearestEdge,
+  nearestPointOnPath,
+  OPTIMIZE_PASSES,
+  optimizeDocument,
+  parsePaintUrl,
+  parsePathData,
+  parsePoints,
+  parseSvgMarkup,
+  parseTransformList,
+  pasteFragment,
+  placeDocument,
+  prependTransform,
+  readGradient,
+  readGuides,
+  recordChange,
+  restoreHistory,
+  rotate,
+  scale,
+  scaleAround,
+  serializeNode,
+  serializePathData,
+  setGradientKind,
+  setNodeAttribute,
+  setNodeType,
+  setTextLines,
+  setTypography,
+  SHAPE_TAGS,
+  SNAP_TARGETS,
+  snapBounds,
+  snapPoint,
+  sortStops,
+  stripGuides,
+  SvgCommandError,
+  SvgParseError,
+  translate,
+  TYPOGRAPHY_PROPERTIES,
+  unionBounds,
+  updateMultipleNodes,
+  updateNode,
+  writeGradient,
+  writeGuides,
+} from './core/index.ts'
+import type {
+  AlignEdge,
+  BooleanOperation,
+  Bounds,
+  DistributeAxis,
+  DistributeMode,
+  Gradient,
+  GradientKind,
+  Guide,
+  GuideOrientation,
+  History,
+  Matrix,
+  NodeType,
+  OptimizePass,
+  PaintProperty,
+  PathSegment,
+  Point,
+  ShapeTool,
+  SnapContext,
+  SnapGuide,
+  SnapTarget,
+  StackingMove,
+  SvgCommand,
+  SvgNode,
+  TypographyProperty,
+} from './core/index.ts'
+import {
+  clearSession,
+  deleteDocument,
+  duplicateDocument,
+  estimateStorage,
+  exportLibrary,
+  listDocuments,
+  loadRasterPresets,
+  loadDocument,
+  loadSession,
+  readLibraryArchive,
+  renameDocument,
+  saveDocument,
+  saveRasterPresets,
+  saveSession,
+  StorageFullError,
+} from './storage.ts'
+import type { DocumentSummary, LibraryArchive, SessionView, StoredDocument, StoredSession } from './storage.ts'
+import { APP_ICON_PRESET_IDS, DEFAULT_RASTER_PRESETS, downloadBlob, RASTER_FORMATS, renderRasters } from './raster.ts'
+import type { RasterFormat, RasterPreset } from './raster.ts'
 import './App.css'
 
-type SvgNode = {
-  id: string
-  tag: string
-  attrs: Record<string, string>
-  children: SvgNode[]
-  text?: string
-}
-
-const parseSvgString = (raw: string): { tree: SvgNode | null; clean: string } => {
-  const clean = DOMPurify.sanitize(raw, { USE_PROFILES: { svg: true } })
-  const parser = new DOMParser()
-  const doc = parser.parseFromString(clean, 'image/svg+xml')
-  const root = doc.querySelector('svg')
-  if (!root) return { tree: null, clean }
-
-  let counter = 0
-  const walk = (el: Element): SvgNode => {
-    const id = (el.getAttribute('data-id') || el.getAttribute('id')) ?? `node-${++counter}`
-    const attrs: Record<string, string> = {}
-    for (const { name, value } of Array.from(el.attributes)) {
-      attrs[name] = value
-    }
-    attrs['data-id'] = id
-
-    const children: SvgNode[] = []
-    el.childNodes.forEach((child) => {
-      if (child.nodeType === 1) {
-        children.push(walk(child as Element))
-      } else if (child.nodeType === 3) {
-        const textContent = child.textContent?.trim()
-        if (textContent) {
-          children.push({
-            id: `text-${++counter}`,
-            tag: '#text',
-            attrs: {},
-            children: [],
-            text: textContent,
-          })
-        }
-      }
-    })
-
-    return { id, tag: el.tagName, attrs, children }
+// DOMPurify drops the prolog, any xmlns:* and the editor guides' namespaced elements. None of
+// them can run code, so they are read from the raw markup and put back to keep exports faithful
+// to the input.
+const recoverDocumentInfo = (raw: string, tree: SvgNode) => {
+  try {
+    const original = parseSvgMarkup(raw)
+    if (!original) return
+    if (original.prolog) tree.prolog = original.prolog
+    for (const [name, value] of Object.entries(original.attrs)) {
+      if (name.startsWith('xmlns') && !(name in tree.attrs)) tree.attrs[name] = value
+    }
+    // Nor does it know the editor's guides, which are plain numbers
+    const guides = readGuides(original)
+    if (guides.length && !readGuides(tree).length) {
+      tree.children = writeGuides(tree, guides.map((guide) => ({ ...guide, id: '' }))).children
+    }
+  } catch {
+    // Malformed raw markup: keep what the sanitizer produced
   }
-
-  return { tree: walk(root), clean }
 }
 
-const serializeNode = (node: SvgNode): string => {
-  if (node.tag === '#text') {
-    return node.text ?? ''
+const parseSvgString = (raw: string): { tree: SvgNode | null; clean: string } => {
+  const clean = DOMPurify.sanitize(raw, { USE_PROFILES: { svg: true }, ADD_TAGS: ['#comment'], ADD_ATTR: [LABEL_ATTRIBUTE, LOCK_ATTRIBUTE] })
+  try {
+    const tree = parseSvgMarkup(clean)
+    if (tree) recoverDocumentInfo(raw, tree)
+    return { tree, clean }
+  } catch (err) {
+    if (err instanceof SvgParseError) return { tree: null, clean }
+    throw err
   }
-
-  const { tag, attrs, children } = node
-  const attrString = Object.entries(attrs)
-    .filter(([key]) => key !== 'data-id')
-    .map(([key, value]) => `${key}="${value}"`)
-    .join(' ')
-  const open = attrString.length ? `<${tag} ${attrString}>` : `<${tag}>`
-  const inner = (node.text ?? '') + children.map(serializeNode).join('')
-  return `${open}${inner}</${tag}>`
 }
 
-const cloneNode = (node: SvgNode): SvgNode => ({
-  ...node,
-  attrs: { ...node.attrs },
-  children: node.children.map(cloneNode),
-})
-
 const styleStringToObject = (style: string | undefined): React.CSSProperties | undefined => {
   if (!style) return undefined
   return style
@@ -88,132 +197,532 @@ const styleStringToObject = (style: string | undefined): React.CSSProperties | u
     }, {} as React.CSSProperties)
 }
 
-const getStyleValue = (style: string | undefined, key: string): string | undefined => {
-  if (!style) return undefined
-  const parts = style
-    .split(';')
-    .map((p) => p.trim())
-    .filter(Boolean)
-    .map((p) => p.split(':').map((s) => s.trim()))
-  const found = parts.find(([k]) => k === key)
-  return found ? found[1] : undefined
-}
-
-const applyStyleValue = (style: string | undefined, key: string, value: string | undefined) => {
-  const entries = style
-    ? style
-        .split(';')
-        .map((p) => p.trim())
-        .filter(Boolean)
-        .map((p) => p.split(':').map((s) => s.trim()))
-        .filter(([k]) => k !== key && k.length > 0)
-    : []
-  if (value && value.length > 0) {
-    entries.push([key, value])
+// Locking a group locks everything inside it
+const isLockedIn = (tree: SvgNode, id: string) => {
+  for (let node = findNode(tree, id); node; node = findParent(tree, node.id)) {
+    if (isLocked(node)) return true
   }
-  if (!entries.length) return ''
-  return entries.map(([k, v]) => `${k}: ${v}`).join('; ')
+  return false
 }
 
-const updateNode = (node: SvgNode, id: string, mutate: (target: SvgNode) => void): SvgNode => {
-  if (node.id === id) {
-    const next = cloneNode(node)
-    mutate(next)
-    return next
-  }
+// The rendered canvas element of each node id, kept up to date by CanvasNode. Looking elements
+// up here rather than with querySelector stays cheap however large the document is.
+const canvasElements = new Map<string, Element>()
+
+const getCanvasElement = (id: string): Element | null => canvasElements.get(id) ?? null
 
-  const next = cloneNode(node)
-  next.children = next.children.map((child) => updateNode(child, id, mutate))
-  return next
+// An element's transform attribute is expressed in its parent's user space, so pointer
+// offsets are mapped through the inverse of the parent's screen CTM (which already includes
+// the canvas zoom and the root viewBox). Falls back to undoing the zoom alone.
+const getScreenToParentMatrix = (id: string, zoom: number): Matrix => {
+  const element = getCanvasElement(id)
+  const parent = element?.parentElement
+  const ctm = parent instanceof SVGGraphicsElement ? parent.getScreenCTM() : null
+  const inverse = ctm ? invert(toMatrix(ctm)) : null
+  return inverse ?? scale(1 / zoom)
 }
 
-const updateMultipleNodes = (node: SvgNode, ids: Set<string>, mutate: (target: SvgNode) => void): SvgNode => {
-  const next = cloneNode(node)
-  if (ids.has(node.id)) {
-    mutate(next)
+type Rect = { left: number; top: number; width: number; height: number }
+
+// Handle order around a box: top-left, top, top-right, right, bottom-right, bottom, bottom-left, left.
+// The handle opposite index i is at (i + 4) % 8.
+const getHandlePoints = (rect: Rect): Point[] => [
+  { x: rect.left, y: rect.top },
+  { x: rect.left + rect.width / 2, y: rect.top },
+  { x: rect.left + rect.width, y: rect.top },
+  { x: rect.left + rect.width, y: rect.top + rect.height / 2 },
+  { x: rect.left + rect.width, y: rect.top + rect.height },
+  { x: rect.left + rect.width / 2, y: rect.top + rect.height },
+  { x: rect.left, y: rect.top + rect.height },
+  { x: rect.left, y: rect.top + rect.height / 2 },
+]
+
+const RESIZE_CURSORS = ['nwse-resize', 'ns-resize', 'nesw-resize', 'ew-resize', 'nwse-resize', 'ns-resize', 'nesw-resize', 'ew-resize']
+
+const ROTATE_HANDLE_OFFSET = 24
+
+const toMatrix = (m: DOMMatrix | SVGMatrix): Matrix => ({ a: m.a, b: m.b, c: m.c, d: m.d, e: m.e, f: m.f })
+
+// Center of an element's own bounding box, in the coordinates its transform attribute maps from
+const getLocalBBoxCenter = (id: string): Point | null => {
+  const element = getCanvasElement(id)
+  if (!(element instanceof SVGGraphicsElement)) return null
+  try {
+    const box = element.getBBox()
+    return { x: box.x + box.width / 2, y: box.y + box.height / 2 }
+  } catch {
+    return null
   }
-  next.children = next.children.map((child) => updateMultipleNodes(child, ids, mutate))
-  return next
 }
 
-const findNode = (node: SvgNode | null, id: string | null): SvgNode | null => {
-  if (!node || !id) return null
-  if (node.id === id) return node
-  for (const child of node.children) {
-    const found = findNode(child, id)
-    if (found) return found
+const getElementScreenMatrix = (id: string): Matrix | null => {
+  const element = getCanvasElement(id)
+  const ctm = element instanceof SVGGraphicsElement ? element.getScreenCTM() : null
+  return ctm ? toMatrix(ctm) : null
+}
+
+const NODE_EDITABLE_TAGS = new Set(['path', 'polygon', 'polyline'])
+
+// Path segments or polygon points of a node, or null when its geometry can't be read
+const readEditableGeometry = (node: SvgNode): { segments: PathSegment[]; points: Point[] } | null => {
+  if (node.tag === 'path') {
+    try {
+      return { segments: parsePathData(node.attrs.d ?? ''), points: [] }
+    } catch {
+      return null
+    }
   }
+  if (node.tag === 'polygon' || node.tag === 'polyline') return { segments: [], points: parsePoints(node.attrs.points) }
   return null
 }
 
-const getFirstText = (node: SvgNode | null): string | undefined => {
-  if (!node) return undefined
-  if (node.tag === '#text') return node.text
-  for (const child of node.children) {
-    const found = getFirstText(child)
-    if (found !== undefined) return found
+type NodeDrag = {
+  id: string
+  kind: 'anchor' | 'in' | 'out' | 'vertex'
+  index: number
+  startX: number
+  startY: number
+  // Geometry when the drag started
+  baseSegments: PathSegment[]
+  basePoints: Point[]
+  nodeType: NodeType
+  // Maps screen offsets into the element's own coordinates
+  screenToLocal: Matrix
+}
+
+type Tool = 'select' | 'text' | ShapeTool
+
+const TOOLS: { id: Tool; icon: string; label: string; shortcut?: string }[] = [
+  { id: 'select', icon: '↖', label: 'Select', shortcut: 'V' },
+  { id: 'rect', icon: '▭', label: 'Rectangle', shortcut: 'R' },
+  { id: 'ellipse', icon: '◯', label: 'Ellipse', shortcut: 'E' },
+  { id: 'line', icon: '╱', label: 'Line', shortcut: 'L' },
+  { id: 'polygon', icon: '⬠', label: 'Polygon' },
+  { id: 'star', icon: '☆', label: 'Star' },
+  { id: 'pencil', icon: '✎', label: 'Pencil', shortcut: 'P' },
+  { id: 'text', icon: 'T', label: 'Text', shortcut: 'T' },
+]
+
+const BOOLEAN_ACTIONS: { operation: BooleanOperation; label: string; title: string }[] = [
+  { operation: 'union', label: 'Union', title: 'Merge the selected shapes into one path' },
+  { operation: 'subtract', label: 'Subtract', title: 'Cut the shapes above out of the bottom one' },
+  { operation: 'intersect', label: 'Intersect', title: 'Keep only the area all shapes cover' },
+  { operation: 'exclude', label: 'Exclude', title: 'Keep the areas an odd number of shapes cover' },
+  { operation: 'divide', label: 'Divide', title: 'Cut the shapes into separate pieces; lines act as knives' },
+]
+
+const isShape = (node: SvgNode) => (SHAPE_TAGS as readonly string[]).includes(node.tag)
+
+const PATH_ACTIONS: { type: 'to-path' | 'outline-stroke' | 'reverse' | 'join' | 'break-apart'; label: string; title: string }[] = [
+  { type: 'to-path', label: 'To Path', title: 'Convert shapes to equivalent paths' },
+  { type: 'outline-stroke', label: 'Outline', title: 'Turn the stroke into a filled outline (follows line join and cap)' },
+  { type: 'reverse', label: 'Reverse', title: 'Reverse the path direction' },
+  { type: 'join', label: 'Join', title: 'Combine the selected shapes into one path' },
+  { type: 'break-apart', label: 'Break Apart', title: 'Split each subpath into its own path' },
+]
+
+// What align and distribute measure against: the selection's bounds, the first-selected
+// element or the root viewBox
+type AlignReference = 'selection' | 'key' | 'page'
+
+type LayerNames = 'label' | 'id'
+
+// Where a row dragged in the layers panel would land: in front of, behind or inside the row `id`
+type LayerDrop = { id: string; position: 'above' | 'below' | 'inside' }
+
+// How long editing has to pause before the document is written to the local library
+const AUTOSAVE_DELAY = 1000
+
+// Undo steps saved with a document; older ones are dropped to save space
+const SAVED_HISTORY_LIMIT = 50
+
+// What exports cover: the whole document, the selected elements or a rectangle picked on the canvas
+type ExportScope = 'document' | 'selection' | 'region'
+
+const EXPORT_SCOPE_HINTS: Record<ExportScope, string> = {
+  document: 'Exports the whole document. Choose the selection or a region under Export.',
+  selection: 'Exports the selected elements, cropped to their bounds.',
+  region: 'Exports the region picked under Export.',
+}
+
+// Choices in the optimizer dialog, passed to optimizeDocument as they are
+type OptimizeSettings = { passes: OptimizePass[]; precision: number; ids: 'minify' | 'strip' }
+
+// The open document's place in the local library
+type LibraryEntry = { id: string; name: string; createdAt: number }
+
+const newLibraryEntry = (name: string): LibraryEntry => ({ id: crypto.randomUUID(), name, createdAt: Date.now() })
+
+// Size of markup once saved as UTF-8
+const byteLength = (markup: string) => new TextEncoder().encode(markup).length
+
+// Markup as an image source, for previews
+const svgDataUrl = (markup: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+const STACKING_ACTIONS: { to: StackingMove; label: string; title: string }[] = [
+  { to: 'front', label: '⤒ Front', title: 'Bring to front (Cmd/Ctrl+Shift+])' },
+  { to: 'forward', label: '↑ Forward', title: 'Bring forward (Cmd/Ctrl+])' },
+  { to: 'backward', label: '↓ Backward', title: 'Send backward (Cmd/Ctrl+[)' },
+  { to: 'back', label: '⤓ Back', title: 'Send to back (Cmd/Ctrl+Shift+[)' },
+]
+
+const ALIGN_ACTIONS: { edge: AlignEdge; icon: string; title: string }[] = [
+  { edge: 'left', icon: '⇤', title: 'Align left edges' },
+  { edge: 'center', icon: '↔', title: 'Center horizontally' },
+  { edge: 'right', icon: '⇥', title: 'Align right edges' },
+  { edge: 'top', icon: '⤒', title: 'Align top edges' },
+  { edge: 'middle', icon: '↕', title: 'Center vertically' },
+  { edge: 'bottom', icon: '⤓', title: 'Align bottom edges' },
+]
+
+const DISTRIBUTE_ACTIONS: { axis: DistributeAxis; mode: DistributeMode; label: string; title: string }[] = [
+  { axis: 'horizontal', mode: 'center', label: 'H Centers', title: 'Space horizontal centers evenly' },
+  { axis: 'horizontal', mode: 'gap', label: 'H Gaps', title: 'Make the horizontal gaps equal' },
+  { axis: 'vertical', mode: 'center', label: 'V Centers', title: 'Space vertical centers evenly' },
+  { axis: 'vertical', mode: 'gap', label: 'V Gaps', title: 'Make the vertical gaps equal' },
+]
+
+type Typography = Record<TypographyProperty, string>
+
+const DEFAULT_TYPOGRAPHY: Typography = {
+  'font-family': 'sans-serif',
+  'font-size': '24',
+  'font-weight': 'normal',
+  'font-style': 'normal',
+  'letter-spacing': '0',
+  'text-anchor': 'start',
+  'dominant-baseline': 'auto',
+}
+
+const FONT_FAMILIES = ['sans-serif', 'serif', 'monospace', 'Arial', 'Helvetica', 'Georgia', 'Times New Roman', 'Courier New', 'Verdana']
+
+const DOMINANT_BASELINES = ['auto', 'alphabetic', 'middle', 'central', 'hanging', 'ideographic', 'mathematical', 'text-top', 'text-bottom']
+
+type TextEdit = {
+  id: string
+  value: string
+  // Tree to restore when the edit is cancelled
+  originalTree: SvgNode
+  // Tree holding the element being edited (for new text, the original plus an empty <text>)
+  tree: SvgNode
+  isNew: boolean
+  // Where the editor box sits, in canvas container coordinates
+  position: Point
+}
+
+// Union of the elements' bounding boxes, in the coordinates of their (shared) parent
+const getBoundsInParent = (tree: SvgNode, ids: string[]): Bounds | null => {
+  let bounds: { minX: number; minY: number; maxX: number; maxY: number } | null = null
+  for (const id of ids) {
+    const element = getCanvasElement(id)
+    const node = findNode(tree, id)
+    if (!(element instanceof SVGGraphicsElement) || !node) continue
+    const box = element.getBBox()
+    const toParent = parseTransformList(node.attrs.transform)
+    for (const corner of [
+      { x: box.x, y: box.y },
+      { x: box.x + box.width, y: box.y },
+      { x: box.x, y: box.y + box.height },
+      { x: box.x + box.width, y: box.y + box.height },
+    ]) {
+      const p = applyToPoint(toParent, corner)
+      bounds = bounds
+        ? { minX: Math.min(bounds.minX, p.x), minY: Math.min(bounds.minY, p.y), maxX: Math.max(bounds.maxX, p.x), maxY: Math.max(bounds.maxY, p.y) }
+        : { minX: p.x, minY: p.y, maxX: p.x, maxY: p.y }
+    }
   }
-  return undefined
+  return bounds && { x: bounds.minX, y: bounds.minY, width: bounds.maxX - bounds.minX, height: bounds.maxY - bounds.minY }
+}
+
+// Maps an element's own coordinates (or, with `parent`, its parent's) into the root <svg>'s user space
+const getRootSpaceMatrix = (rootId: string, id: string, parent = false): Matrix | null => {
+  const root = getCanvasElement(rootId)
+  const element = getCanvasElement(id)
+  const target = parent ? element?.parentElement : element
+  const rootCtm = root instanceof SVGGraphicsElement ? root.getScreenCTM() : null
+  const ctm = target instanceof SVGGraphicsElement ? target.getScreenCTM() : null
+  const fromScreen = rootCtm ? invert(toMatrix(rootCtm)) : null
+  return ctm && fromScreen ? multiply(fromScreen, toMatrix(ctm)) : null
+}
+
+// Axis-aligned box around an element as drawn, in the root <svg>'s user space
+const getBoundsInRoot = (rootId: string, id: string): Bounds | null => {
+  const element = getCanvasElement(id)
+  const toRoot = getRootSpaceMatrix(rootId, id)
+  if (!(element instanceof SVGGraphicsElement) || !toRoot) return null
+  return transformBox(element.getBBox(), toRoot)
+}
+
+// Axis-aligned box around `box` once mapped through `m`
+const transformBox = (box: Bounds, m: Matrix): Bounds => {
+  const corners = [
+    { x: box.x, y: box.y },
+    { x: box.x + box.width, y: box.y },
+    { x: box.x, y: box.y + box.height },
+    { x: box.x + box.width, y: box.y + box.height },
+  ].map((corner) => applyToPoint(m, corner))
+  const xs = corners.map((p) => p.x)
+  const ys = corners.map((p) => p.y)
+  return { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) }
 }
 
-const getAttrOrStyle = (node: SvgNode | null, key: string): string | undefined => {
-  if (!node) return undefined
-  return node.attrs[key] ?? getStyleValue(node.attrs.style, key)
+// Box around what a standalone <svg> draws, in its root's user space. The markup is laid out
+// offscreen for a moment, since nothing of it is on the canvas yet.
+const measureFragment = (fragment: SvgNode, markup: string): Bounds | null => {
+  const host = document.createElement('div')
+  host.style.cssText = 'position:fixed;left:0;top:0;visibility:hidden;pointer-events:none'
+  host.innerHTML = markup
+  document.body.appendChild(host)
+  try {
+    const root = host.querySelector('svg')
+    const rootCtm = root?.getScreenCTM()
+    if (!root || !rootCtm) return null
+    const fromScreen = invert(toMatrix(rootCtm))
+    if (!fromScreen) return null
+    // Element children line up with the parsed fragment's, which tells which of them are drawn
+    const nodes = fragment.children.filter(isElementNode)
+    const boxes = Array.from(root.children).flatMap((element, index) => {
+      const node = nodes[index]
+      if (!node || node.tag !== element.tagName || !isLayerNode(node) || !(element instanceof SVGGraphicsElement)) return []
+      const ctm = element.getScreenCTM()
+      return ctm ? [transformBox(element.getBBox(), multiply(fromScreen, toMatrix(ctm)))] : []
+    })
+    return unionBounds(boxes)
+  } finally {
+    host.remove()
+  }
 }
 
-const findParent = (node: SvgNode, targetId: string, parent: SvgNode | null = null): SvgNode | null => {
-  if (node.id === targetId) return parent
-  for (const child of node.children) {
-    const found = findParent(child, targetId, node)
-    if (found !== null) return found
+// The area the root viewBox shows, falling back to its width and height
+const getPageBounds = (root: SvgNode): Bounds | null => {
+  const viewBox = (root.attrs.viewBox ?? '').split(/[\s,]+/).filter(Boolean).map(Number)
+  if (viewBox.length === 4 && viewBox.every(Number.isFinite) && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { x: viewBox[0], y: viewBox[1], width: viewBox[2], height: viewBox[3] }
   }
-  return null
+  const width = parseFloat(root.attrs.width ?? '')
+  const height = parseFloat(root.attrs.height ?? '')
+  return width > 0 && height > 0 ? { x: 0, y: 0, width, height } : null
 }
 
-const removeMultipleNodes = (node: SvgNode, ids: Set<string>): SvgNode | null => {
-  if (ids.has(node.id)) return null
-  const next = cloneNode(node)
-  next.children = next.children
-    .filter((child) => !ids.has(child.id))
-    .map((child) => removeMultipleNodes(child, ids)!)
-  return next
+// How close, in screen pixels, the pointer has to come for something to snap
+const SNAP_DISTANCE = 6
+
+const SNAP_LABELS: Record<SnapTarget, { label: string; title: string }> = {
+  grid: { label: 'Grid', title: 'Snap to the document grid' },
+  guides: { label: 'Guides', title: 'Snap to guide lines' },
+  objects: { label: 'Objects', title: "Snap to other elements' edges and centers" },
+  page: { label: 'Page', title: 'Snap to the edges and center of the viewBox' },
+  spacing: { label: 'Spacing', title: 'Snap to equal gaps between neighbouring elements' },
+}
+
+// Holding Cmd/Ctrl while dragging, resizing or drawing turns snapping off
+const bypassesSnapping = (e: React.MouseEvent) => e.metaKey || e.ctrlKey
+
+type SnapSession = {
+  context: SnapContext
+  screenToDoc: Matrix
+  docToScreen: Matrix
+  // Bounds of the dragged elements when the gesture started, in root user space
+  box: Bounds | null
 }
 
-const assignNewIds = (node: SvgNode, baseId: string): SvgNode => {
-  let counter = 0
-  const newId = `${baseId}-copy${counter > 0 ? `-${counter}` : ''}`
-  counter++
-  const assignIds = (n: SvgNode): SvgNode => {
-    const childId = n.id === baseId ? newId : `${n.id}-copy`
-    return {
-      ...n,
-      id: childId,
-      attrs: { ...n.attrs, 'data-id': childId },
-      children: n.children.map(assignIds),
+// Collects what a gesture can snap to: every rendered element except the `exclude`d ones,
+// their descendants and ancestors, plus the page and grid
+const createSnapSession = (root: SvgNode, exclude: string[], targets: SnapTarget[], gridSize: number, boxIds: string[] = []): SnapSession | null => {
+  const rootElement = getCanvasElement(root.id)
+  const ctm = rootElement instanceof SVGSVGElement ? rootElement.getScreenCTM() : null
+  const docToScreen = ctm ? toMatrix(ctm) : null
+  const screenToDoc = docToScreen ? invert(docToScreen) : null
+  if (!rootElement || !docToScreen || !screenToDoc) return null
+  const excluded = exclude.map(getCanvasElement).filter((element) => element !== null)
+  const boxes: Bounds[] = []
+  if (targets.includes('objects') || targets.includes('spacing')) {
+    for (const element of Array.from(rootElement.querySelectorAll('[data-id]'))) {
+      if (!(element instanceof SVGGraphicsElement) || element.tagName === 'tspan') continue
+      // Definitions are only drawn where they are referenced
+      if (element.closest('defs, clipPath, mask, pattern, marker, symbol')) continue
+      if (excluded.some((other) => other.contains(element) || element.contains(other))) continue
+      const box = getBoundsInRoot(root.id, element.getAttribute('data-id') ?? '')
+      if (box && (box.width > 0 || box.height > 0)) boxes.push(box)
     }
   }
-  return assignIds(node)
+  return {
+    context: {
+      targets,
+      gridSize,
+      boxes,
+      page: getPageBounds(root),
+      guides: readGuides(root),
+      threshold: SNAP_DISTANCE * Math.hypot(screenToDoc.a, screenToDoc.b),
+    },
+    screenToDoc,
+    docToScreen,
+    box: unionBounds(boxIds.map((id) => getBoundsInRoot(root.id, id)).filter((box) => box !== null)),
+  }
+}
+
+const NO_GUIDES: SnapGuide[] = []
+
+// Maps smart guides from root user space into canvas container coordinates
+const toCanvasGuides = (container: HTMLElement | null, session: SnapSession, guides: SnapGuide[]): SnapGuide[] =>
+  guides.map((guide) => {
+    const a = applyToPoint(session.docToScreen, { x: guide.x1, y: guide.y1 })
+    const b = applyToPoint(session.docToScreen, { x: guide.x2, y: guide.y2 })
+    const from = toCanvasPoint(container, a.x, a.y)
+    const to = toCanvasPoint(container, b.x, b.y)
+    return { kind: guide.kind, x1: from.x, y1: from.y, x2: to.x, y2: to.y }
+  })
+
+// Converts a client point to coordinates inside the scrolling canvas container
+const toCanvasPoint = (container: HTMLElement | null, clientX: number, clientY: number): Point => {
+  if (!container) return { x: clientX, y: clientY }
+  const rect = container.getBoundingClientRect()
+  return { x: clientX - rect.left + container.scrollLeft, y: clientY - rect.top + container.scrollTop }
+}
+
+type CanvasView = {
+  // Root user space to screen
+  docToScreen: Matrix
+  // Root user space to the canvas container's scrolled content, where overlays are placed
+  docToContent: Matrix
+  // The canvas container's border box on screen
+  frame: Rect
+  // Size of the scrolled content
+  contentWidth: number
+  contentHeight: number
 }
 
-const parseTransform = (transform: string): { translate?: { x: number; y: number }; rotate?: number } => {
-  const result: { translate?: { x: number; y: number }; rotate?: number } = {}
-  const translateMatch = transform.match(/translate\(([^)]+)\)/)
-  if (translateMatch) {
-    const [x, y] = translateMatch[1].split(/[,\s]+/).map(Number)
-    result.translate = { x: x || 0, y: y || 0 }
+const measureCanvasView = (rootId: string, container: HTMLElement): CanvasView | null => {
+  const root = getCanvasElement(rootId)
+  const ctm = root instanceof SVGSVGElement ? root.getScreenCTM() : null
+  if (!ctm) return null
+  const rect = container.getBoundingClientRect()
+  const docToScreen = toMatrix(ctm)
+  // Absolutely placed children and the background are laid out inside the border
+  const toContent = translate(container.scrollLeft - rect.left - container.clientLeft, container.scrollTop - rect.top - container.clientTop)
+  return {
+    docToScreen,
+    docToContent: multiply(toContent, docToScreen),
+    frame: { left: rect.left, top: rect.top, width: rect.width, height: rect.height },
+    contentWidth: container.scrollWidth,
+    contentHeight: container.scrollHeight,
   }
-  const rotateMatch = transform.match(/rotate\(([^)]+)\)/)
-  if (rotateMatch) {
-    result.rotate = Number(rotateMatch[1]) || 0
+}
+
+const RULER_SIZE = 20
+
+// Ticks for a ruler `length` pixels long whose zero lies at `origin`. Labelled ticks are 1, 2
+// or 5 times a power of ten apart, whichever keeps them at least 50px apart, with four or five
+// small ticks between them.
+const getRulerTicks = (origin: number, scale: number, length: number) => {
+  if (!(scale > 0)) return []
+  const minimum = 50 / scale
+  const power = 10 ** Math.floor(Math.log10(minimum))
+  const multiple = [1, 2, 5, 10].find((n) => n * power >= minimum) ?? 10
+  const step = multiple * power
+  const divisions = multiple === 2 ? 4 : 5
+  const minor = step / divisions
+  const first = Math.ceil(-origin / scale / minor)
+  const last = Math.floor((length - origin) / scale / minor)
+  const ticks: { at: number; value: number; major: boolean }[] = []
+  for (let i = first; i <= last && ticks.length < 1000; i++) {
+    const value = i * minor
+    ticks.push({ at: origin + value * scale, value, major: i % divisions === 0 })
   }
-  return result
+  return ticks
+}
+
+type GuideDrag = {
+  id: string
+  orientation: GuideOrientation
+  // Tree before the gesture, to tell whether it changed anything
+  baseTree: SvgNode
+}
+
+type DrawState = {
+  tool: ShapeTool
+  // Id the new element will get
+  id: string
+  start: Point
+  // Tree before the shape was started; each pointer move rebuilds the shape on top of it
+  baseTree: SvgNode
+  // Maps screen points into the root <svg>'s user space
+  screenToDoc: Matrix
+}
+
+type GradientDrag = {
+  // Node id of the gradient element
+  nodeId: string
+  handle: 'start' | 'end' | 'center' | 'radius'
+  startX: number
+  startY: number
+  base: Gradient
+  // Maps screen offsets into gradient space
+  screenToGradient: Matrix
+}
+
+// CSS preview of a gradient's stops
+const gradientPreview = (gradient: Gradient) =>
+  `linear-gradient(90deg, ${sortStops(gradient.stops)
+    .map((stop) => `color-mix(in srgb, ${stop.color} ${Math.round(stop.opacity * 100)}%, transparent) ${Math.round(stop.offset * 100)}%`)
+    .join(', ')})`
+
+type TransformSession = {
+  kind: 'resize' | 'rotate'
+  // Resize handle index (see getHandlePoints), -1 for the rotate handle
+  handle: number
+  startX: number
+  startY: number
+  // Screen-space box around the whole selection when the gesture started
+  bounds: Rect
+  targets: {
+    id: string
+    baseTransform: string
+    parentToScreen: Matrix
+    screenToParent: Matrix
+  }[]
 }
 
-const buildTransform = (translate?: { x: number; y: number }, rotate?: number): string => {
-  const parts: string[] = []
-  if (translate) parts.push(`translate(${translate.x} ${translate.y})`)
-  if (rotate !== undefined) parts.push(`rotate(${rotate})`)
-  return parts.join(' ')
+// The parts of a pointer event a resize or rotate gesture reads
+type PointerInput = Pick<React.MouseEvent, 'clientX' | 'clientY' | 'shiftKey' | 'altKey'>
+
+// Works out the screen-space matrix a resize or rotate gesture has produced so far
+const getSessionMatrix = (session: TransformSession, e: PointerInput): Matrix => {
+  const { bounds } = session
+  const center = { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 }
+
+  if (session.kind === 'rotate') {
+    const startAngle = Math.atan2(session.startY - center.y, session.startX - center.x)
+    const angle = Math.atan2(e.clientY - center.y, e.clientX - center.x)
+    let degrees = ((angle - startAngle) * 180) / Math.PI
+    if (e.shiftKey) degrees = Math.round(degrees / 15) * 15
+    return rotate(degrees, center.x, center.y)
+  }
+
+  const points = getHandlePoints(bounds)
+  const handle = points[session.handle]
+  const anchor = e.altKey ? center : points[(session.handle + 4) % 8]
+  // Follow the pointer relative to where the handle was grabbed, so it doesn't jump
+  const pointer = { x: handle.x + e.clientX - session.startX, y: handle.y + e.clientY - session.startY }
+  const affectsX = session.handle !== 1 && session.handle !== 5
+  const affectsY = session.handle !== 3 && session.handle !== 7
+  const factor = (to: number, from: number, origin: number) => {
+    if (Math.abs(from - origin) < 1e-6) return 1
+    const value = (to - origin) / (from - origin)
+    // Never collapse to zero, which would make the transform singular
+    return Math.abs(value) < 0.01 ? Math.sign(value || 1) * 0.01 : value
+  }
+  let sx = affectsX ? factor(pointer.x, handle.x, anchor.x) : 1
+  let sy = affectsY ? factor(pointer.y, handle.y, anchor.y) : 1
+  if (e.shiftKey) {
+    const uniform = affectsX && affectsY ? Math.max(Math.abs(sx), Math.abs(sy)) : Math.abs(affectsX ? sx : sy)
+    sx = Math.sign(sx) * uniform
+    sy = Math.sign(sy) * uniform
+  }
+  return scaleAround(sx, sy, anchor)
 }
 
 function App() {
@@ -234,22 +743,109 @@ function App() {
   const [opacity, setOpacity] = useState('1')
   const [rotation, setRotation] = useState(0)
   const [dragState, setDragState] = useState<{
-    id: string
     startX: number
     startY: number
-    baseTransform: string
+    // The whole selection moves together; each element converts screen pixel offsets into its
+    // own parent's coordinates
+    targets: { id: string; baseTransform: string; screenToParent: Matrix }[]
   } | null>(null)
+  const [transformSession, setTransformSession] = useState<TransformSession | null>(null)
+  const [nodeDrag, setNodeDrag] = useState<NodeDrag | null>(null)
+  const [tool, setTool] = useState<Tool>('select')
+  const [cornerRadius, setCornerRadius] = useState(0)
+  const [polygonSides, setPolygonSides] = useState(5)
+  const [starInnerRadius, setStarInnerRadius] = useState(0.5)
+  const [drawState, setDrawState] = useState<DrawState | null>(null)
+  const [typography, setTypographyState] = useState<Typography>(DEFAULT_TYPOGRAPHY)
+  const [lineHeight, setLineHeight] = useState(DEFAULT_LINE_HEIGHT)
+  const [textEdit, setTextEdit] = useState<TextEdit | null>(null)
+  // Which paint the gradient editor works on
+  const [paintTarget, setPaintTarget] = useState<PaintProperty>('fill')
+  const [activeStop, setActiveStop] = useState(0)
+  const [gradientDrag, setGradientDrag] = useState<GradientDrag | null>(null)
+  const [simplifyTolerance, setSimplifyTolerance] = useState(0.5)
+  const [offsetDistance, setOffsetDistance] = useState(2)
+  // How far duplicates land from their originals, in document units along both axes
+  const [duplicateOffset, setDuplicateOffset] = useState(10)
+  // Where the pointer last was over the canvas, in screen pixels, for pasting at the cursor
+  const canvasPointerRef = useRef<Point | null>(null)
+  // Set by Cmd/Ctrl+Shift+V, which pastes in place, just before the browser's paste event
+  const pasteInPlaceRef = useRef(false)
+  const [alignReference, setAlignReference] = useState<AlignReference>('selection')
+  const [snapTargets, setSnapTargets] = useState<SnapTarget[]>(['guides', 'objects', 'page', 'spacing'])
+  // Grid spacing in document units, used for both the visible grid and snapping
+  const [gridSize, setGridSize] = useState(10)
+  // Where the document sits in the canvas, for the grid, rulers and guides
+  const [canvasView, setCanvasView] = useState<CanvasView | null>(null)
+  const [showRulers, setShowRulers] = useState(true)
+  const [guideDrag, setGuideDrag] = useState<GuideDrag | null>(null)
+  // Whether exports keep the guides' metadata block
+  const [exportGuides, setExportGuides] = useState(true)
+  // Optimization for SVG downloads: when on, Download SVG shows the optimizer's result for review first
+  const [optimizeExport, setOptimizeExport] = useState(false)
+  const [optimizeOptions, setOptimizeOptions] = useState<OptimizeSettings>({
+    passes: OPTIMIZE_PASSES.map(({ pass }) => pass),
+    precision: 3,
+    ids: 'minify',
+  })
+  // The export the optimizer dialog is open for
+  const [optimizerSource, setOptimizerSource] = useState<SvgNode | null>(null)
+  // Part of the document that exports cover, with the padding around a selection and the picked region
+  const [exportScope, setExportScope] = useState<ExportScope>('document')
+  const [exportPadding, setExportPadding] = useState(0)
+  const [exportRegion, setExportRegion] = useState<Bounds | null>(null)
+  // Picking a region to export, and the rectangle dragged so far in client coordinates
+  const [pickingRegion, setPickingRegion] = useState(false)
+  const [regionDrag, setRegionDrag] = useState<{ start: Point; end: Point } | null>(null)
+  // Raster export: saved presets, the ones ticked for exporting together, and the preset being edited
+  const [rasterPresets, setRasterPresets] = useState<RasterPreset[]>(DEFAULT_RASTER_PRESETS)
+  const [checkedPresets, setCheckedPresets] = useState<Set<string>>(() => new Set(['png-1x']))
+  const [rasterDraft, setRasterDraft] = useState<RasterPreset>(DEFAULT_RASTER_PRESETS[0])
+  const [showRasterExport, setShowRasterExport] = useState(false)
+  const [rasterExporting, setRasterExporting] = useState(false)
+  // What the last PDF export left out or drew differently, shown after the download
+  const [pdfWarnings, setPdfWarnings] = useState<string[] | null>(null)
+  // Smart guides of the current gesture, in canvas container coordinates
+  const [snapLines, setSnapLines] = useState<SnapGuide[]>([])
+  const snapSessionRef = useRef<SnapSession | null>(null)
+  // Mirrors textEdit so blur and key handlers never finish the same edit twice
+  const textEditRef = useRef<TextEdit | null>(null)
+  // Freehand trail of the pencil, in document coordinates
+  const drawTrailRef = useRef<Point[]>([])
+  // Path node or polygon vertex picked in the node editor
+  const [activeNode, setActiveNode] = useState<{ id: string; index: number } | null>(null)
   const hasDraggedRef = useRef(false)
   const mouseDownPosRef = useRef<{ x: number; y: number } | null>(null)
   const [zoom, setZoom] = useState(1)
   const [showGrid, setShowGrid] = useState(false)
   const [canvasBg, setCanvasBg] = useState('#ffffff')
-  const [history, setHistory] = useState<SvgNode[]>([])
-  const [historyIndex, setHistoryIndex] = useState(-1)
+  const [exportFormat, setExportFormat] = useState<'compact' | 'pretty'>('compact')
+  const [history, setHistory] = useState<History>(() => createHistory(null))
+  const [showHistory, setShowHistory] = useState(false)
   const [showShortcuts, setShowShortcuts] = useState(false)
-  const [showTreeView, setShowTreeView] = useState(false)
+  const [showLayers, setShowLayers] = useState(true)
+  const [collapsedLayers, setCollapsedLayers] = useState<Set<string>>(new Set())
+  const [renamingLayer, setRenamingLayer] = useState<string | null>(null)
+  // Whether renaming a layer writes its inkscape:label or its id
+  const [layerNames, setLayerNames] = useState<LayerNames>('label')
+  const [layerDrop, setLayerDrop] = useState<LayerDrop | null>(null)
+  const [currentDocument, setCurrentDocument] = useState<LibraryEntry | null>(null)
+  const [library, setLibrary] = useState<DocumentSummary[]>([])
+  const [showLibrary, setShowLibrary] = useState(false)
+  const [renamingDocument, setRenamingDocument] = useState<string | null>(null)
+  const [restoreOffer, setRestoreOffer] = useState<{ session: StoredSession; name: string } | null>(null)
+  const [savedAt, setSavedAt] = useState<number | null>(null)
+  const [storageIssue, setStorageIssue] = useState<string | null>(null)
+  const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(null)
+  // Ids being dragged in the layers panel
+  const layerDragRef = useRef<string[] | null>(null)
+  const layersListRef = useRef<HTMLDivElement>(null)
+  // The scrolling box around the canvas, which overlays are positioned in
+  const canvasContainerRef = useRef<HTMLDivElement>(null)
   const historySaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const latestTreeRef = useRef<SvgNode | null>(null)
+  // What the library last received, so autosave skips writes that would change nothing
+  const lastSavedRef = useRef<{ id: string; name: string; tree: SvgNode; history: History } | null>(null)
   const prevSelectedIdsRef = useRef<string>('')
 
   const selectedNodes = useMemo(() => {
@@ -259,41 +855,37 @@ function App() {
       .filter((node): node is SvgNode => node !== null)
   }, [svgTree, selectedIds])
 
-  // History management
-  const saveToHistory = useCallback((tree: SvgNode | null) => {
+  // Path commands skip anything that is not a shape; boolean operations and join need only shapes
+  const hasShapeSelected = selectedNodes.some(isShape)
+  const onlyShapesSelected = hasShapeSelected && selectedNodes.every(isShape)
+  const alignableCount = selectedNodes.filter((node) => node.id !== svgTree?.id).length
+
+  // History management. Entries record what changed rather than copies of the document;
+  // edits without a `label` are named after what they changed ("Change fill")
+  const saveToHistory = useCallback((tree: SvgNode | null, label?: string) => {
     if (!tree) return
-    const newHistory = history.slice(0, historyIndex + 1)
-    newHistory.push(cloneNode(tree))
-    setHistory(newHistory)
-    setHistoryIndex(newHistory.length - 1)
-  }, [history, historyIndex])
+    setHistory((current) => recordChange(current, tree, label))
+  }, [])
 
-  const updateTreeWithHistory = useCallback((newTree: SvgNode | null) => {
+  const updateTreeWithHistory = useCallback((newTree: SvgNode | null, label?: string) => {
     if (!newTree) return
-    saveToHistory(newTree)
+    saveToHistory(newTree, label)
     setSvgTree(newTree)
     latestTreeRef.current = newTree
   }, [saveToHistory])
 
-  const undo = useCallback(() => {
-    if (historyIndex > 0) {
-      const newIndex = historyIndex - 1
-      setHistoryIndex(newIndex)
-      const tree = cloneNode(history[newIndex])
-      setSvgTree(tree)
-      latestTreeRef.current = tree
-    }
-  }, [history, historyIndex])
+  // Undo, redo and the history panel all move to a step of the history
+  const jumpToHistory = useCallback((index: number) => {
+    if (!history.tree || index === history.index || index < 0 || index > history.entries.length) return
+    const next = jumpToEntry(history, index)
+    setHistory(next)
+    setSvgTree(next.tree)
+    latestTreeRef.current = next.tree
+  }, [history])
 
-  const redo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1
-      setHistoryIndex(newIndex)
-      const tree = cloneNode(history[newIndex])
-      setSvgTree(tree)
-      latestTreeRef.current = tree
-    }
-  }, [history, historyIndex])
+  const undo = useCallback(() => jumpToHistory(history.index - 1), [history.index, jumpToHistory])
+
+  const redo = useCallback(() => jumpToHistory(history.index + 1), [history.index, jumpToHistory])
 
   useEffect(() => {
     // Only sync when selection changes, not when tree updates
@@ -326,10 +918,15 @@ function App() {
     const firstId = Array.from(selectedIds)[0]
     const firstNode = findNode(svgTree, firstId)
     if (firstNode) {
-      const fill = getAttrOrStyle(firstNode, 'fill')
+      // Gradient paints show their first stop in the flat color pickers
+      const paintColor = (value: string | undefined) => {
+        const gradientId = parsePaintUrl(value)
+        return gradientId ? readGradient(svgTree, gradientId)?.stops[0]?.color : value
+      }
+      const fill = paintColor(getAttrOrStyle(firstNode, 'fill'))
       setFillColor(fill || '#0ea5e9')
 
-      const stroke = getAttrOrStyle(firstNode, 'stroke')
+      const stroke = paintColor(getAttrOrStyle(firstNode, 'stroke'))
       setStrokeColor(stroke || '#0f172a')
 
       const width = getAttrOrStyle(firstNode, 'stroke-width')
@@ -350,20 +947,24 @@ function App() {
       const opacityValue = getAttrOrStyle(firstNode, 'opacity')
       setOpacity(opacityValue || '1')
 
-      const transform = firstNode.attrs.transform || ''
-      const parsed = parseTransform(transform)
-      if (parsed.rotate !== undefined) {
-        setRotation(parsed.rotate)
-      } else {
-        setRotation(0)
-      }
+      const { rotation: angle } = decompose(parseTransformList(firstNode.attrs.transform))
+      setRotation(Number(formatNumber(angle, 2)))
 
-      const text = getFirstText(firstNode)
+      const text = firstNode.tag === 'text' ? getTextLines(firstNode).join('\n') : getFirstText(firstNode)
       if (text !== undefined) {
         setTextValue(text)
       } else {
         setTextValue('')
       }
+
+      if (firstNode.tag === 'text' || firstNode.tag === 'tspan') {
+        const values = { ...DEFAULT_TYPOGRAPHY }
+        for (const property of TYPOGRAPHY_PROPERTIES) {
+          values[property] = getAttrOrStyle(firstNode, property) ?? DEFAULT_TYPOGRAPHY[property]
+        }
+        setTypographyState(values)
+        if (firstNode.tag === 'text') setLineHeight(getLineHeight(firstNode))
+      }
     }
   }, [selectedIds, svgTree])
 
@@ -376,7 +977,9 @@ function App() {
     }
   }, [])
 
-  const handleSvgInput = useCallback((value: string) => {
+  // Loads markup as the open document. With a `name` it starts a new library document;
+  // otherwise edits to the markup keep saving to the current one.
+  const handleSvgInput = useCallback((value: string, name?: string) => {
     setRawSvg(value)
     const { tree, clean } = parseSvgString(value)
     if (!tree) {
@@ -384,29 +987,253 @@ function App() {
       setSvgTree(null)
       latestTreeRef.current = null
       setSelectedIds(new Set())
-      setHistory([])
-      setHistoryIndex(-1)
+      setHistory(createHistory(null))
       return
     }
     setError(null)
-    const initialHistory = [cloneNode(tree)]
-    setHistory(initialHistory)
-    setHistoryIndex(0)
+    setHistory(createHistory(tree))
     setSvgTree(tree)
     latestTreeRef.current = tree
     setRawSvg(clean)
     setSelectedIds(new Set([tree.id]))
+    setCurrentDocument((current) => (name !== undefined || !current ? newLibraryEntry(name ?? 'Untitled') : current))
   }, [])
 
   const handleFile = useCallback((file: File) => {
     const reader = new FileReader()
     reader.onload = () => {
       const text = reader.result?.toString() || ''
-      handleSvgInput(text)
+      handleSvgInput(text, file.name.replace(/\.svg$/i, ''))
     }
     reader.readAsText(file)
   }, [handleSvgInput])
 
+  const sessionView = useMemo<SessionView>(
+    () => ({ zoom, showGrid, gridSize, showRulers, showLayers, canvasBg, exportFormat, selectedIds: Array.from(selectedIds) }),
+    [canvasBg, exportFormat, gridSize, selectedIds, showGrid, showLayers, showRulers, zoom],
+  )
+
+  const refreshLibrary = useCallback(async () => {
+    try {
+      setLibrary(await listDocuments())
+      setStorageUsage(await estimateStorage())
+    } catch {
+      setStorageIssue('This browser does not allow local storage here, so documents are not saved.')
+    }
+  }, [])
+
+  // Writes the open document and the session to the local library. When the quota is used
+  // up it tries once more without the undo history before giving up.
+  const autosave = useCallback(async () => {
+    if (!svgTree || !currentDocument) return
+    const { id, name, createdAt } = currentDocument
+    const saved = lastSavedRef.current
+    try {
+      if (saved?.id !== id || saved.name !== name || saved.tree !== svgTree || saved.history !== history) {
+        // An edit still waiting for its history entry is saved as one, so the entries replay onto `tree`
+        const saving = history.tree === svgTree ? history : recordChange(history, svgTree)
+        const start = Math.max(0, saving.index - SAVED_HISTORY_LIMIT)
+        const entry: StoredDocument = {
+          id,
+          name,
+          tree: svgTree,
+          history: saving.entries.slice(start, start + SAVED_HISTORY_LIMIT),
+          historyIndex: saving.index - start,
+          size: byteLength(serializeNode(svgTree)),
+          createdAt,
+          updatedAt: Date.now(),
+        }
+        let issue: string | null = null
+        try {
+          await saveDocument(entry)
+        } catch (err) {
+          if (!(err instanceof StorageFullError)) throw err
+          await saveDocument({ ...entry, history: [], historyIndex: 0 })
+          issue = 'Browser storage is nearly full, so undo history is no longer saved with this document.'
+        }
+        lastSavedRef.current = { id, name, tree: svgTree, history }
+        setStorageIssue(issue)
+        setLibrary((list) => [
+          { id, name, size: entry.size, createdAt, updatedAt: entry.updatedAt },
+          ...list.filter((summary) => summary.id !== id),
+        ])
+      }
+      await saveSession({ documentId: id, view: sessionView, savedAt: Date.now() })
+      setSavedAt(Date.now())
+    } catch (err) {
+      setStorageIssue(
+        err instanceof StorageFullError
+          ? 'Browser storage is full, so changes are not being saved. Delete or export documents in My documents to make room.'
+          : 'Autosave failed, so changes are not being saved in this browser.',
+      )
+    }
+  }, [currentDocument, history, sessionView, svgTree])
+
+  // Autosave once editing pauses, and right away when the tab is hidden or closed
+  const autosaveRef = useRef(autosave)
+  useEffect(() => {
+    autosaveRef.current = autosave
+    if (!svgTree) return
+    const timeout = setTimeout(() => void autosave(), AUTOSAVE_DELAY)
+    return () => clearTimeout(timeout)
+  }, [autosave, svgTree])
+
+  useEffect(() => {
+    const flush = () => {
+      if (document.visibilityState === 'hidden') void autosaveRef.current()
+    }
+    document.addEventListener('visibilitychange', flush)
+    return () => document.removeEventListener('visibilitychange', flush)
+  }, [])
+
+  // On startup, offer to reopen the document from the last session
+  useEffect(() => {
+    void refreshLibrary()
+    loadSession()
+      .then(async (session) => {
+        const entry = session ? await loadDocument(session.documentId) : null
+        if (session && entry && !latestTreeRef.current) setRestoreOffer({ session, name: entry.name })
+      })
+      .catch(() => {
+        // No IndexedDB here; refreshLibrary reports that
+      })
+    loadRasterPresets()
+      .then((saved) => {
+        if (saved?.length) setRasterPresets(saved)
+      })
+      .catch(() => {
+        // The built-in presets still work without storage
+      })
+  }, [refreshLibrary])
+
+  // Opens a library document with its undo history, and with `view` the session's editor settings
+  const openDocument = useCallback(async (id: string, view?: SessionView) => {
+    await autosave()
+    const entry = await loadDocument(id).catch(() => null)
+    if (!entry) {
+      setError('That document is no longer in the library.')
+      void refreshLibrary()
+      return
+    }
+    const restored = restoreHistory(entry.tree, entry.history, entry.historyIndex)
+    setHistory(restored)
+    setSvgTree(entry.tree)
+    latestTreeRef.current = entry.tree
+    setRawSvg(serializeNode(entry.tree, { format: 'pretty' }))
+    setCurrentDocument({ id: entry.id, name: entry.name, createdAt: entry.createdAt })
+    lastSavedRef.current = { id: entry.id, name: entry.name, tree: entry.tree, history: restored }
+    const selection = view?.selectedIds.filter((selected) => findNode(entry.tree, selected)) ?? []
+    setSelectedIds(new Set(selection.length ? selection : [entry.tree.id]))
+    if (view) {
+      setZoom(view.zoom)
+      setShowGrid(view.showGrid)
+      setGridSize(view.gridSize)
+      setShowRulers(view.showRulers)
+      setShowLayers(view.showLayers)
+      setCanvasBg(view.canvasBg)
+      setExportFormat(view.exportFormat)
+    }
+    setRestoreOffer(null)
+    setError(null)
+  }, [autosave, refreshLibrary])
+
+  const declineRestore = useCallback(() => {
+    setRestoreOffer(null)
+    void clearSession().catch(() => {})
+  }, [])
+
+  const renameInLibrary = useCallback(async (id: string, name: string) => {
+    setRenamingDocument(null)
+    const trimmed = name.trim()
+    if (!trimmed) return
+    if (id === currentDocument?.id) setCurrentDocument({ ...currentDocument, name: trimmed })
+    try {
+      await renameDocument(id, trimmed)
+    } catch {
+      setError('The document could not be renamed.')
+    }
+    void refreshLibrary()
+  }, [currentDocument, refreshLibrary])
+
+  const duplicateInLibrary = useCallback(async (id: string, name: string) => {
+    // The copy should include edits that have not been autosaved yet
+    if (id === currentDocument?.id) await autosave()
+    try {
+      await duplicateDocument(id, `${name} copy`)
+    } catch (err) {
+      setError(err instanceof StorageFullError ? 'Browser storage is full, so the document could not be duplicated.' : 'The document could not be duplicated.')
+    }
+    void refreshLibrary()
+  }, [autosave, currentDocument, refreshLibrary])
+
+  // Deleting the open document closes it too, so autosave does not bring it back
+  const deleteFromLibrary = useCallback(async (id: string, name: string) => {
+    if (!window.confirm(`Delete "${name}" from this browser? This cannot be undone.`)) return
+    try {
+      await deleteDocument(id)
+    } catch {
+      setError('The document could not be deleted.')
+      return
+    }
+    if (id === currentDocument?.id) {
+      setSvgTree(null)
+      latestTreeRef.current = null
+      setHistory(createHistory(null))
+      setSelectedIds(new Set())
+      setRawSvg('')
+      setCurrentDocument(null)
+      lastSavedRef.current = null
+      void clearSession().catch(() => {})
+    }
+    void refreshLibrary()
+  }, [currentDocument, refreshLibrary])
+
+  const exportLibraryFile = useCallback(async () => {
+    let archive: LibraryArchive
+    try {
+      archive = await exportLibrary()
+    } catch {
+      setError('The library could not be read from browser storage.')
+      return
+    }
+    downloadBlob(new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' }), 'svg-library.json')
+  }, [])
+
+  // Adds the documents of an exported library as new documents, sanitized like any loaded SVG
+  const importLibraryFile = useCallback(async (file: File) => {
+    const documents = readLibraryArchive(await file.text())
+    if (!documents) {
+      setError(`${file.name} is not an exported document library.`)
+      return
+    }
+    let skipped = 0
+    for (const archived of documents) {
+      const { tree } = parseSvgString(archived.svg)
+      if (!tree) {
+        skipped++
+        continue
+      }
+      try {
+        await saveDocument({
+          id: crypto.randomUUID(),
+          name: archived.name,
+          tree,
+          history: [],
+          historyIndex: 0,
+          size: byteLength(archived.svg),
+          createdAt: archived.createdAt,
+          updatedAt: archived.updatedAt,
+        })
+      } catch (err) {
+        setError(err instanceof StorageFullError ? 'Browser storage filled up before the whole library was imported.' : 'The library could not be imported.')
+        void refreshLibrary()
+        return
+      }
+    }
+    setError(skipped ? `${skipped} of the imported documents had no <svg> and were skipped.` : null)
+    void refreshLibrary()
+  }, [refreshLibrary])
+
   const handleNodeClick = useCallback((nodeId: string, e: React.MouseEvent) => {
     e.stopPropagation()
     
@@ -466,97 +1293,414 @@ function App() {
     }
   }, [svgTree])
 
-  const renderNode = (node: SvgNode): React.ReactNode => {
-    if (node.tag === '#text') {
-      return node.text
-    }
-
-    const { tag, attrs, children } = node
-    const isSelected = selectedIds.has(node.id)
-    const baseStyle =
-      typeof attrs.style === 'string' ? styleStringToObject(attrs.style) : attrs.style
-    const mergedStyle: React.CSSProperties = {
-      ...(baseStyle ?? {}),
-      cursor: 'pointer',
-      ...(node.tag === 'svg'
-        ? {
-            maxWidth: '100%',
-            height: 'auto',
-            display: 'block',
-          }
-        : {}),
-    }
-    // prevent passing style string to React style prop
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { style: _ignoredStyle, ...restAttrs } = attrs
-    const mergedAttrs = {
-      ...restAttrs,
-      key: node.id,
-      'data-id': node.id,
-      'data-selected': isSelected ? 'true' : undefined,
-      onClick: (e: React.MouseEvent) => {
+  // Canvas elements are memoized and get `canvasActions`, which never changes identity and
+  // forwards to the handlers of the latest render kept here
+  const canvasHandlersRef = useRef<CanvasActions | null>(null)
+  useEffect(() => {
+    canvasHandlersRef.current = {
+      click: (id, e) => {
+        if (tool !== 'select') return
         e.stopPropagation()
-        handleNodeClick(node.id, e)
+        handleNodeClick(id, e)
       },
-      onMouseDown: (e: React.MouseEvent) => {
-        if (node.tag === 'svg') return
+      press: (node, e) => {
+        // Drawing tools handle the press on the canvas itself
+        if (node.tag === 'svg' || tool !== 'select') return
         e.stopPropagation()
         // Track mouse down position to detect if it was a drag in onClick
         hasDraggedRef.current = false
         mouseDownPosRef.current = { x: e.clientX, y: e.clientY }
         // Only initialize drag state if element is already selected
-        if (isSelected) {
-        setDragState({
-          id: node.id,
-          startX: e.clientX,
-          startY: e.clientY,
-          baseTransform: node.attrs.transform ?? '',
-        })
+        if (selectedIds.has(node.id) && svgTree) {
+          const ids = filterTopLevel(svgTree, Array.from(selectedIds).filter((id) => id !== svgTree.id && !isLockedIn(svgTree, id)))
+          setDragState({
+            startX: e.clientX,
+            startY: e.clientY,
+            targets: ids.map((id) => ({
+              id,
+              baseTransform: findNode(svgTree, id)?.attrs.transform ?? '',
+              screenToParent: getScreenToParentMatrix(id, zoom),
+            })),
+          })
         }
       },
-      style: {
-        ...mergedStyle,
+      doubleClick: (node, e) => {
+        if (node.tag === 'text' && tool === 'select') {
+          e.stopPropagation()
+          startTextEdit(node.id)
+          return
+        }
+        // Double-clicking the outline of a path or polygon being edited adds a node there
+        if (!selectedIds.has(node.id) || selectedIds.size !== 1 || !NODE_EDITABLE_TAGS.has(node.tag)) return
+        e.stopPropagation()
+        insertNodeAt(node.id, { x: e.clientX, y: e.clientY })
       },
     }
+  })
+  const canvasActions = useMemo<CanvasActions>(
+    () => ({
+      click: (id, e) => canvasHandlersRef.current?.click(id, e),
+      press: (node, e) => canvasHandlersRef.current?.press(node, e),
+      doubleClick: (node, e) => canvasHandlersRef.current?.doubleClick(node, e),
+    }),
+    [],
+  )
 
-    return React.createElement(tag, mergedAttrs, children.map(renderNode))
+  const openTextEditor = (edit: TextEdit) => {
+    textEditRef.current = edit
+    setTextEdit(edit)
   }
 
-  // Component to render selection handles and bounding boxes
-  const SelectionOverlay = () => {
-    const [bboxes, setBboxes] = useState<Map<string, DOMRect>>(new Map())
+  // Opens the inline editor on an existing <text> element, below its current box
+  const startTextEdit = (id: string, tree = svgTree) => {
+    const node = tree ? findNode(tree, id) : null
+    const element = getCanvasElement(id)
+    if (!tree || !node || !element) return
+    const rect = element.getBoundingClientRect()
+    setSelectedIds(new Set([id]))
+    openTextEditor({
+      id,
+      value: getTextLines(node).join('\n'),
+      originalTree: tree,
+      tree,
+      isNew: false,
+      position: toCanvasPoint(canvasContainerRef.current, rect.left, rect.bottom + 4),
+    })
+  }
 
-    useEffect(() => {
-      if (selectedIds.size === 0) {
-        setBboxes(new Map())
+  const editTextValue = (value: string) => {
+    const edit = textEditRef.current
+    if (!edit) return
+    const next = updateNode(edit.tree, edit.id, (node) => setTextLines(node, value.split('\n')))
+    openTextEditor({ ...edit, value })
+    latestTreeRef.current = next
+    setSvgTree(next)
+  }
+
+  // Ends inline editing and returns the resulting tree. Text left empty is removed.
+  const finishTextEdit = (keep: boolean): SvgNode | null => {
+    const edit = textEditRef.current
+    if (!edit) return svgTree
+    textEditRef.current = null
+    setTextEdit(null)
+    if (!keep || (edit.isNew && !edit.value.trim())) {
+      setSvgTree(edit.originalTree)
+      return edit.originalTree
+    }
+    if (!edit.value.trim()) {
+      const result = applyCommand(edit.originalTree, { type: 'delete', ids: [edit.id] })
+      updateTreeWithHistory(result.tree)
+      setSelectedIds(new Set(result.selection))
+      return result.tree
+    }
+    const original = findNode(edit.originalTree, edit.id)
+    if (original && getTextLines(original).join('\n') === edit.value) {
+      setSvgTree(edit.originalTree)
+      return edit.originalTree
+    }
+    const next = updateNode(edit.tree, edit.id, (node) => setTextLines(node, edit.value.split('\n')))
+    updateTreeWithHistory(next)
+    setSelectedIds(new Set([edit.id]))
+    return next
+  }
+
+  // Starts drawing a new shape with the active tool, or places/edits text with the text tool
+  const handleCanvasPointerDown = (e: React.MouseEvent) => {
+    if (tool === 'select' || !svgTree || e.button !== 0) return
+    const root = getCanvasElement(svgTree.id)
+    const ctm = root instanceof SVGSVGElement ? root.getScreenCTM() : null
+    const screenToDoc = ctm ? invert(toMatrix(ctm)) : null
+    if (!screenToDoc) return
+    e.preventDefault()
+
+    if (tool === 'text') {
+      const tree = finishTextEdit(true) ?? svgTree
+      const clicked = (e.target as Element).closest('text')?.getAttribute('data-id')
+      if (clicked && findNode(tree, clicked)) {
+        startTextEdit(clicked, tree)
         return
       }
+      const id = createUniqueId(tree, 'text')
+      const style = Object.fromEntries(
+        TYPOGRAPHY_PROPERTIES.filter(
+          (property) => property === 'font-family' || property === 'font-size' || typography[property] !== DEFAULT_TYPOGRAPHY[property],
+        ).map((property) => [property, typography[property]]),
+      )
+      const text = createTextElement(id, applyToPoint(screenToDoc, { x: e.clientX, y: e.clientY }), { fill: fillColor, ...style }, lineHeight)
+      const withText = updateNode(tree, tree.id, (root) => {
+        root.children.push(text)
+      })
+      setSvgTree(withText)
+      setSelectedIds(new Set([id]))
+      openTextEditor({ id, value: '', originalTree: tree, tree: withText, isNew: true, position: toCanvasPoint(canvasContainerRef.current, e.clientX, e.clientY + 4) })
+      return
+    }
 
-      const updateBboxes = () => {
-        const newBboxes = new Map<string, DOMRect>()
-        const canvasContainer = document.querySelector('[class*="overflow-auto"]') as HTMLElement
-        if (!canvasContainer) return
+    // Freehand strokes follow the pointer exactly; the other tools snap both corners
+    const session = tool === 'pencil' ? null : createSnapSession(svgTree, [], snapTargets, gridSize)
+    snapSessionRef.current = session
+    let start = applyToPoint(screenToDoc, { x: e.clientX, y: e.clientY })
+    if (session && !bypassesSnapping(e)) {
+      const { offset } = snapPoint(start, session.context)
+      start = { x: start.x + offset.x, y: start.y + offset.y }
+    }
+    drawTrailRef.current = [start]
+    latestTreeRef.current = svgTree
+    setDrawState({
+      tool,
+      id: createUniqueId(svgTree, tool),
+      start,
+      baseTree: svgTree,
+      screenToDoc,
+    })
+  }
 
-        selectedIds.forEach((id) => {
-          const element = document.querySelector(`[data-id="${id}"]`) as HTMLElement | SVGElement | null
-          if (element && element.tagName !== 'svg') {
-            try {
-              // Get the element's bounding rect (already includes zoom transform)
-              const elementRect = element.getBoundingClientRect()
-              // Get the canvas container's bounding rect
-              const containerRect = canvasContainer.getBoundingClientRect()
+  // Starts a resize or rotate gesture on a selection handle. The pointer math happens in
+  // screen space; each element gets that screen matrix conjugated into its parent's space.
+  const startTransformSession = (kind: TransformSession['kind'], handle: number, e: React.MouseEvent) => {
+    e.stopPropagation()
+    e.preventDefault()
+    if (!svgTree) return
+    const ids = filterTopLevel(svgTree, Array.from(selectedIds).filter((id) => id !== svgTree.id && !isLockedIn(svgTree, id)))
+    snapSessionRef.current = kind === 'resize' ? createSnapSession(svgTree, ids, snapTargets, gridSize) : null
+    const targets: TransformSession['targets'] = []
+    let bounds: Rect | null = null
+    for (const id of ids) {
+      const element = getCanvasElement(id)
+      const node = findNode(svgTree, id)
+      const parent = element?.parentElement
+      const ctm = parent instanceof SVGGraphicsElement ? parent.getScreenCTM() : null
+      const parentToScreen = ctm ? toMatrix(ctm) : null
+      const screenToParent = parentToScreen ? invert(parentToScreen) : null
+      if (!element || !node || !parentToScreen || !screenToParent) continue
 
-              // Calculate position relative to container, accounting for scroll
-              const scrollLeft = canvasContainer.scrollLeft
-              const scrollTop = canvasContainer.scrollTop
+      const rect = element.getBoundingClientRect()
+      if (bounds) {
+        const left = Math.min(bounds.left, rect.left)
+        const top = Math.min(bounds.top, rect.top)
+        const right = Math.max(bounds.left + bounds.width, rect.right)
+        const bottom = Math.max(bounds.top + bounds.height, rect.bottom)
+        bounds = { left, top, width: right - left, height: bottom - top }
+      } else {
+        bounds = { left: rect.left, top: rect.top, width: rect.width, height: rect.height }
+      }
+      targets.push({ id, baseTransform: node.attrs.transform ?? '', parentToScreen, screenToParent })
+    }
+    if (!bounds || !targets.length) return
+    setTransformSession({ kind, handle, startX: e.clientX, startY: e.clientY, bounds, targets })
+  }
 
-              // Position relative to container viewport (accounting for scroll)
-              const x = elementRect.left - containerRect.left + scrollLeft
-              const y = elementRect.top - containerRect.top + scrollTop
-              const width = elementRect.width
-              const height = elementRect.height
+  // Anchors, control handles and vertices of a selected path, polygon or polyline. Points
+  // live in the element's own coordinates and are mapped through its screen matrix.
+  const renderNodeEditor = (id: string) => {
+    const node = svgTree ? findNode(svgTree, id) : null
+    const geometry = node && NODE_EDITABLE_TAGS.has(node.tag) ? readEditableGeometry(node) : null
+    const toScreen = getElementScreenMatrix(id)
+    const container = canvasContainerRef.current
+    if (!node || !geometry || !toScreen || !container) return null
 
-              newBboxes.set(id, new DOMRect(x, y, width, height))
+    const containerRect = container.getBoundingClientRect()
+    const place = (p: Point) => {
+      const screen = applyToPoint(toScreen, p)
+      return {
+        x: screen.x - containerRect.left + container.scrollLeft,
+        y: screen.y - containerRect.top + container.scrollTop,
+      }
+    }
+    const active = activeNode?.id === id ? activeNode.index : -1
+
+    const startNodeDrag = (kind: NodeDrag['kind'], index: number, e: React.MouseEvent) => {
+      e.stopPropagation()
+      e.preventDefault()
+      const screenToLocal = invert(toScreen)
+      if (!screenToLocal) return
+      hasDraggedRef.current = false
+      setActiveNode({ id, index })
+      setNodeDrag({
+        id,
+        kind,
+        index,
+        startX: e.clientX,
+        startY: e.clientY,
+        baseSegments: geometry.segments,
+        basePoints: geometry.points,
+        nodeType: kind === 'vertex' ? 'corner' : getNodeType(geometry.segments, index),
+        screenToLocal,
+      })
+    }
+
+    const marker = (key: string, at: Point, shape: 'square' | 'circle', selected: boolean, props: React.HTMLAttributes<HTMLDivElement>) => {
+      const size = shape === 'square' ? 8 : 7
+      return (
+        <div
+          key={key}
+          {...props}
+          style={{
+            position: 'absolute',
+            left: `${at.x - size / 2}px`,
+            top: `${at.y - size / 2}px`,
+            width: `${size}px`,
+            height: `${size}px`,
+            borderRadius: shape === 'circle' ? '50%' : 0,
+            backgroundColor: selected ? '#3b82f6' : 'white',
+            border: '1.5px solid #3b82f6',
+            boxSizing: 'border-box',
+            cursor: 'move',
+            pointerEvents: 'auto',
+          }}
+        />
+      )
+    }
+
+    if (node.tag !== 'path') {
+      return geometry.points.map((point, index) =>
+        marker(`vertex-${index}`, place(point), 'square', index === active, {
+          title: 'Drag to move, double-click to delete',
+          onMouseDown: (e) => startNodeDrag('vertex', index, e),
+          onDoubleClick: (e) => {
+            e.stopPropagation()
+            removeEditableNode(id, index)
+          },
+        }),
+      )
+    }
+
+    const handles = active >= 0 ? getNodeHandles(geometry.segments, active) : null
+    const anchor = handles ? place(handles.anchor) : null
+    return (
+      <>
+        {anchor && handles && (
+          <svg
+            style={{ position: 'absolute', left: 0, top: 0, width: '100%', height: '100%', overflow: 'visible', pointerEvents: 'none' }}
+          >
+            {(['in', 'out'] as const).map((side) => {
+              const handle = handles[side]
+              if (!handle) return null
+              const at = place(handle)
+              return <line key={side} x1={anchor.x} y1={anchor.y} x2={at.x} y2={at.y} stroke="#3b82f6" strokeWidth={1} />
+            })}
+          </svg>
+        )}
+        {getNodeIndices(geometry.segments).map((index) =>
+          marker(`node-${index}`, place(geometry.segments[index] as Point), 'square', index === active, {
+            title: 'Drag to move, double-click to delete',
+            onMouseDown: (e) => startNodeDrag('anchor', index, e),
+            onDoubleClick: (e) => {
+              e.stopPropagation()
+              removeEditableNode(id, index)
+            },
+          }),
+        )}
+        {handles &&
+          (['in', 'out'] as const).map((side) => {
+            const handle = handles[side]
+            if (!handle) return null
+            return marker(`handle-${side}`, place(handle), 'circle', false, {
+              title: 'Drag to shape the curve (Alt moves this handle alone)',
+              onMouseDown: (e) => startNodeDrag(side, active, e),
+            })
+          })}
+      </>
+    )
+  }
+
+  // Start/end or center/radius handles of the gradient the paint editor is working on
+  const renderGradientHandles = (id: string) => {
+    const element = getCanvasElement(id)
+    const ctm = element instanceof SVGGraphicsElement ? element.getScreenCTM() : null
+    if (!paintGradient || !ctm || !(element instanceof SVGGraphicsElement)) return null
+    const { gradient, nodeId } = paintGradient
+    const box = element.getBBox()
+    const toScreen = multiply(toMatrix(ctm), gradientToUserSpace(gradient, box))
+    const screenToGradient = invert(toScreen)
+    if (!screenToGradient) return null
+
+    const handles =
+      gradient.kind === 'linear'
+        ? ([
+            ['start', gradient.start],
+            ['end', gradient.end],
+          ] as const)
+        : ([
+            ['center', gradient.center],
+            ['radius', { x: gradient.center.x + gradient.radius, y: gradient.center.y }],
+          ] as const)
+    const placed = handles.map(([handle, point]) => {
+      const screen = applyToPoint(toScreen, point)
+      return { handle, ...toCanvasPoint(canvasContainerRef.current, screen.x, screen.y) }
+    })
+
+    return (
+      <>
+        <svg
+          style={{ position: 'absolute', left: 0, top: 0, width: '100%', height: '100%', overflow: 'visible', pointerEvents: 'none' }}
+        >
+          <line x1={placed[0].x} y1={placed[0].y} x2={placed[1].x} y2={placed[1].y} stroke="#f59e0b" strokeWidth={1.5} strokeDasharray="4 3" />
+        </svg>
+        {placed.map(({ handle, x, y }, index) => (
+          <div
+            key={handle}
+            title={`Gradient ${handle}`}
+            onMouseDown={(e) => {
+              e.stopPropagation()
+              e.preventDefault()
+              hasDraggedRef.current = false
+              setGradientDrag({ nodeId, handle, startX: e.clientX, startY: e.clientY, base: gradient, screenToGradient })
+            }}
+            style={{
+              position: 'absolute',
+              left: `${x - 5}px`,
+              top: `${y - 5}px`,
+              width: '10px',
+              height: '10px',
+              borderRadius: index === 0 ? '50%' : 0,
+              backgroundColor: 'white',
+              border: '2px solid #f59e0b',
+              boxSizing: 'border-box',
+              cursor: 'move',
+              pointerEvents: 'auto',
+            }}
+          />
+        ))}
+      </>
+    )
+  }
+
+  // Component to render selection handles and bounding boxes
+  const SelectionOverlay = () => {
+    const [bboxes, setBboxes] = useState<Map<string, DOMRect>>(new Map())
+
+    useEffect(() => {
+      if (selectedIds.size === 0) {
+        setBboxes(new Map())
+        return
+      }
+
+      const updateBboxes = () => {
+        const newBboxes = new Map<string, DOMRect>()
+        const canvasContainer = canvasContainerRef.current
+        if (!canvasContainer) return
+
+        selectedIds.forEach((id) => {
+          const element = getCanvasElement(id)
+          if (element && element.tagName !== 'svg') {
+            try {
+              // Get the element's bounding rect (already includes zoom transform)
+              const elementRect = element.getBoundingClientRect()
+              // Get the canvas container's bounding rect
+              const containerRect = canvasContainer.getBoundingClientRect()
+
+              // Calculate position relative to container, accounting for scroll
+              const scrollLeft = canvasContainer.scrollLeft
+              const scrollTop = canvasContainer.scrollTop
+
+              // Position relative to container viewport (accounting for scroll)
+              const x = elementRect.left - containerRect.left + scrollLeft
+              const y = elementRect.top - containerRect.top + scrollTop
+              const width = elementRect.width
+              const height = elementRect.height
+
+              newBboxes.set(id, new DOMRect(x, y, width, height))
             } catch {
               // Ignore errors
             }
@@ -589,18 +1733,6 @@ function App() {
           const bbox = bboxes.get(id)
           if (!bbox) return null
 
-          const handleSize = 8
-          const handles = [
-            { x: bbox.left, y: bbox.top },
-            { x: bbox.left + bbox.width / 2, y: bbox.top },
-            { x: bbox.left + bbox.width, y: bbox.top },
-            { x: bbox.left + bbox.width, y: bbox.top + bbox.height / 2 },
-            { x: bbox.left + bbox.width, y: bbox.top + bbox.height },
-            { x: bbox.left + bbox.width / 2, y: bbox.top + bbox.height },
-            { x: bbox.left, y: bbox.top + bbox.height },
-            { x: bbox.left, y: bbox.top + bbox.height / 2 },
-          ]
-
           return (
             <React.Fragment key={id}>
               {/* Bounding box */}
@@ -616,10 +1748,73 @@ function App() {
                   pointerEvents: 'none',
                 }}
               />
+              {/* Path nodes and polygon vertices */}
+              {selectedIds.size === 1 && renderNodeEditor(id)}
+              {selectedIds.size === 1 && renderGradientHandles(id)}
+            </React.Fragment>
+          )
+        })}
+        {/* Selection frame with resize and rotate handles around everything selected */}
+        {(() => {
+          const frame = Array.from(bboxes.values()).reduce<DOMRect | null>((acc, box) => {
+            if (!acc) return box
+            const left = Math.min(acc.left, box.left)
+            const top = Math.min(acc.top, box.top)
+            return new DOMRect(left, top, Math.max(acc.right, box.right) - left, Math.max(acc.bottom, box.bottom) - top)
+          }, null)
+          if (!frame) return null
+          const handleSize = 8
+          const rotateHandle = { x: frame.left + frame.width / 2, y: frame.top - ROTATE_HANDLE_OFFSET }
+          return (
+            <>
+              {bboxes.size > 1 && (
+                <div
+                  style={{
+                    position: 'absolute',
+                    left: `${frame.left}px`,
+                    top: `${frame.top}px`,
+                    width: `${frame.width}px`,
+                    height: `${frame.height}px`,
+                    border: '1px solid #3b82f6',
+                    boxSizing: 'border-box',
+                    pointerEvents: 'none',
+                  }}
+                />
+              )}
+              <div
+                style={{
+                  position: 'absolute',
+                  left: `${rotateHandle.x}px`,
+                  top: `${rotateHandle.y}px`,
+                  width: 1,
+                  height: `${ROTATE_HANDLE_OFFSET}px`,
+                  backgroundColor: '#3b82f6',
+                  pointerEvents: 'none',
+                }}
+              />
+              <div
+                title="Rotate (Shift snaps to 15°)"
+                onMouseDown={(e) => startTransformSession('rotate', -1, e)}
+                style={{
+                  position: 'absolute',
+                  left: `${rotateHandle.x - handleSize / 2 - 1}px`,
+                  top: `${rotateHandle.y - handleSize / 2 - 1}px`,
+                  width: `${handleSize + 2}px`,
+                  height: `${handleSize + 2}px`,
+                  borderRadius: '50%',
+                  backgroundColor: 'white',
+                  border: '2px solid #3b82f6',
+                  boxSizing: 'border-box',
+                  cursor: 'grab',
+                  pointerEvents: 'auto',
+                }}
+              />
               {/* Control handles */}
-              {handles.map((handle, idx) => (
+              {getHandlePoints(frame).map((handle, idx) => (
                 <div
                   key={idx}
+                  title="Resize (Shift keeps proportions, Alt scales from the center)"
+                  onMouseDown={(e) => startTransformSession('resize', idx, e)}
                   style={{
                     position: 'absolute',
                     left: `${handle.x - handleSize / 2}px`,
@@ -629,76 +1824,33 @@ function App() {
                     backgroundColor: '#3b82f6',
                     border: '1px solid white',
                     boxSizing: 'border-box',
-                    pointerEvents: 'none',
+                    cursor: RESIZE_CURSORS[idx],
+                    pointerEvents: 'auto',
                   }}
                 />
               ))}
-              {/* Vertex points for polygons */}
-              {(() => {
-                const node = findNode(svgTree, id)
-                if (!node || (node.tag !== 'polygon' && node.tag !== 'polyline')) return null
-
-                if (node.attrs.points) {
-                  const svgEl = document.querySelector('svg[data-id="' + svgTree.id + '"]') as SVGSVGElement
-                  if (!svgEl) return null
-
-                  try {
-                    const points = node.attrs.points
-                      .trim()
-                      .split(/[\s,]+/)
-                      .map(Number)
-                      .filter((n) => !isNaN(n))
-
-                    const element = document.querySelector(`[data-id="${id}"]`) as HTMLElement | SVGElement | null
-                    if (!element || !(element instanceof SVGElement)) return null
-
-                    const svgGraphicsElement = element as SVGGraphicsElement
-
-                    return (
-                      <>
-                        {Array.from({ length: points.length / 2 }, (_, i) => {
-                          const x = points[i * 2]
-                          const y = points[i * 2 + 1]
-                          const pt = svgEl.createSVGPoint()
-                          pt.x = x
-                          pt.y = y
-                          const screenCTM = svgGraphicsElement.getScreenCTM()
-                          if (!screenCTM) return null
-                          const svgRect = svgEl.getBoundingClientRect()
-                          const screenPt = pt.matrixTransform(screenCTM)
-
-                          return (
-                            <div
-                              key={`vertex-${i}`}
-                              style={{
-                                position: 'absolute',
-                                left: screenPt.x - svgRect.left - 4,
-                                top: screenPt.y - svgRect.top - 4,
-                                width: 8,
-                                height: 8,
-                                borderRadius: '50%',
-                                backgroundColor: '#ef4444',
-                                border: '1px solid white',
-                                boxSizing: 'border-box',
-                              }}
-                            />
-                          )
-                        })}
-                      </>
-                    )
-                  } catch {
-                    return null
-                  }
-                }
-                return null
-              })()}
-            </React.Fragment>
+            </>
           )
-        })}
+        })()}
       </div>
     )
   }
 
+  // Debounce history save - clear existing timeout and set a new one
+  const scheduleHistorySave = useCallback((tree: SvgNode) => {
+    // Store latest tree in ref for history save
+    latestTreeRef.current = tree
+    if (historySaveTimeoutRef.current) {
+      clearTimeout(historySaveTimeoutRef.current)
+    }
+    historySaveTimeoutRef.current = setTimeout(() => {
+      const treeToSave = latestTreeRef.current
+      if (treeToSave) {
+        saveToHistory(treeToSave)
+      }
+    }, 500) // Save to history 500ms after user stops changing
+  }, [saveToHistory])
+
   // Update attribute without immediately saving to history (for rapid changes like color picker)
   const updateAttributeWithoutHistory = useCallback((key: string, value: string) => {
     if (selectedIds.size === 0) return
@@ -706,52 +1858,24 @@ function App() {
     // Use functional update to always get the latest tree state
     setSvgTree((currentTree) => {
       if (!currentTree) return currentTree
-      const next = updateMultipleNodes(currentTree, selectedIds, (node) => {
-      if (key === 'fill' || key === 'stroke') {
-        const styleValue = applyStyleValue(node.attrs.style, key, value || undefined)
-        if (styleValue) node.attrs.style = styleValue
-        else delete node.attrs.style
-      }
-      if (value) node.attrs[key] = value
-      else delete node.attrs[key]
-    })
-      
-      // Store latest tree in ref for history save
-      latestTreeRef.current = next
-      
-      // Debounce history save - clear existing timeout and set a new one
-      if (historySaveTimeoutRef.current) {
-        clearTimeout(historySaveTimeoutRef.current)
-      }
-      historySaveTimeoutRef.current = setTimeout(() => {
-        const treeToSave = latestTreeRef.current
-        if (treeToSave) {
-          saveToHistory(treeToSave)
-        }
-      }, 500) // Save to history 500ms after user stops changing
-      
+      const next = updateMultipleNodes(currentTree, selectedIds, (node) => setNodeAttribute(node, key, value))
+      scheduleHistorySave(next)
       return next
     })
-  }, [selectedIds, saveToHistory])
+  }, [selectedIds, scheduleHistorySave])
 
   const updateAttribute = useCallback((key: string, value: string) => {
     if (selectedIds.size === 0 || !svgTree) return
-    const next = updateMultipleNodes(svgTree, selectedIds, (node) => {
-      if (key === 'fill' || key === 'stroke') {
-        const styleValue = applyStyleValue(node.attrs.style, key, value || undefined)
-        if (styleValue) node.attrs.style = styleValue
-        else delete node.attrs.style
-      }
-      if (value) node.attrs[key] = value
-      else delete node.attrs[key]
-    })
+    const next = updateMultipleNodes(svgTree, selectedIds, (node) => setNodeAttribute(node, key, value))
     updateTreeWithHistory(next)
   }, [selectedIds, svgTree, updateTreeWithHistory])
 
   const updateText = useCallback((value: string) => {
     if (selectedIds.size === 0 || !svgTree) return
     const next = updateMultipleNodes(svgTree, selectedIds, (node) => {
-      if (node.tag === '#text') {
+      if (node.tag === 'text') {
+        setTextLines(node, value.split('\n'))
+      } else if (node.tag === '#text') {
         node.text = value
       } else {
         node.children = node.children.map((child) =>
@@ -762,8 +1886,140 @@ function App() {
     updateTreeWithHistory(next)
   }, [selectedIds, svgTree, updateTreeWithHistory])
 
+  // Font settings apply to every selected text and tspan, and become the defaults for new text
+  const updateTypography = useCallback((property: TypographyProperty, value: string) => {
+    setTypographyState((prev) => ({ ...prev, [property]: value }))
+    if (!svgTree) return
+    const ids = new Set(selectedNodes.filter((n) => n.tag === 'text' || n.tag === 'tspan').map((n) => n.id))
+    if (!ids.size) return
+    updateTreeWithHistory(updateMultipleNodes(svgTree, ids, (node) => setTypography(node, property, value)))
+  }, [svgTree, selectedNodes, updateTreeWithHistory])
+
+  const updateLineHeight = useCallback((value: number) => {
+    if (!Number.isFinite(value) || value <= 0) return
+    setLineHeight(value)
+    if (!svgTree) return
+    const ids = new Set(selectedNodes.filter((n) => n.tag === 'text').map((n) => n.id))
+    if (!ids.size) return
+    updateTreeWithHistory(updateMultipleNodes(svgTree, ids, (node) => setTextLines(node, getTextLines(node), value)))
+  }, [svgTree, selectedNodes, updateTreeWithHistory])
+
   const handlePointerMove = useCallback(
     (e: React.MouseEvent) => {
+      if (drawState) {
+        let end = applyToPoint(drawState.screenToDoc, { x: e.clientX, y: e.clientY })
+        const session = snapSessionRef.current
+        if (session && !bypassesSnapping(e)) {
+          const { offset, guides } = snapPoint(end, session.context)
+          end = { x: end.x + offset.x, y: end.y + offset.y }
+          setSnapLines(toCanvasGuides(canvasContainerRef.current, session, guides))
+        } else {
+          setSnapLines(NO_GUIDES)
+        }
+        if (drawState.tool === 'pencil') drawTrailRef.current.push(end)
+        const shape = createShape(
+          drawState.tool,
+          { start: drawState.start, end, points: drawTrailRef.current },
+          { fill: fillColor, stroke: strokeColor, strokeWidth },
+          drawState.id,
+          {
+            cornerRadius,
+            sides: polygonSides,
+            innerRadius: starInnerRadius,
+            constrain: e.shiftKey,
+            fromCenter: e.altKey,
+            // Smooth the pencil trail by about one screen pixel, whatever the zoom
+            tolerance: Math.hypot(drawState.screenToDoc.a, drawState.screenToDoc.b),
+          },
+        )
+        const next = shape
+          ? updateNode(drawState.baseTree, drawState.baseTree.id, (root) => {
+              root.children.push(shape)
+            })
+          : drawState.baseTree
+        latestTreeRef.current = next
+        setSvgTree(next)
+        return
+      }
+      if (transformSession) {
+        let pointer: PointerInput = e
+        const session = snapSessionRef.current
+        if (session && transformSession.kind === 'resize' && !bypassesSnapping(e)) {
+          // Snap where the grabbed handle would land, along the axes it resizes
+          const handle = getHandlePoints(transformSession.bounds)[transformSession.handle]
+          const dragged = { x: handle.x + e.clientX - transformSession.startX, y: handle.y + e.clientY - transformSession.startY }
+          const { offset, guides } = snapPoint(applyToPoint(session.screenToDoc, dragged), session.context, {
+            x: transformSession.handle !== 1 && transformSession.handle !== 5,
+            y: transformSession.handle !== 3 && transformSession.handle !== 7,
+          })
+          const shift = applyToVector(session.docToScreen, offset)
+          pointer = { clientX: e.clientX + shift.x, clientY: e.clientY + shift.y, shiftKey: e.shiftKey, altKey: e.altKey }
+          setSnapLines(toCanvasGuides(canvasContainerRef.current, session, guides))
+        } else {
+          setSnapLines(NO_GUIDES)
+        }
+        const screenMatrix = getSessionMatrix(transformSession, pointer)
+        const byId = new Map(transformSession.targets.map((target) => [target.id, target]))
+        setSvgTree((currentTree) => {
+          if (!currentTree) return currentTree
+          const next = updateMultipleNodes(currentTree, new Set(byId.keys()), (node) => {
+            const target = byId.get(node.id)!
+            const local = compose(target.screenToParent, screenMatrix, target.parentToScreen)
+            const transform = prependTransform(target.baseTransform, local)
+            if (transform) node.attrs.transform = transform
+            else delete node.attrs.transform
+          })
+          latestTreeRef.current = next
+          return next
+        })
+        return
+      }
+      if (gradientDrag) {
+        hasDraggedRef.current = true
+        const { base, handle } = gradientDrag
+        const offset = applyToVector(gradientDrag.screenToGradient, { x: e.clientX - gradientDrag.startX, y: e.clientY - gradientDrag.startY })
+        const shift = (p: Point) => ({ x: p.x + offset.x, y: p.y + offset.y })
+        let next: Gradient = base
+        if (handle === 'start') next = { ...base, start: shift(base.start) }
+        else if (handle === 'end') next = { ...base, end: shift(base.end) }
+        else if (handle === 'center') next = { ...base, center: shift(base.center), focal: base.focal && shift(base.focal) }
+        else {
+          const point = shift({ x: base.center.x + base.radius, y: base.center.y })
+          next = { ...base, radius: Math.hypot(point.x - base.center.x, point.y - base.center.y) }
+        }
+        setSvgTree((currentTree) => {
+          if (!currentTree) return currentTree
+          const updated = updateNode(currentTree, gradientDrag.nodeId, (node) => writeGradient(node, next))
+          latestTreeRef.current = updated
+          return updated
+        })
+        return
+      }
+      if (nodeDrag) {
+        hasDraggedRef.current = true
+        const offset = applyToVector(nodeDrag.screenToLocal, { x: e.clientX - nodeDrag.startX, y: e.clientY - nodeDrag.startY })
+        const shift = (p: Point) => ({ x: p.x + offset.x, y: p.y + offset.y })
+        setSvgTree((currentTree) => {
+          if (!currentTree) return currentTree
+          const next = updateNode(currentTree, nodeDrag.id, (node) => {
+            if (nodeDrag.kind === 'vertex') {
+              node.attrs.points = formatPoints(nodeDrag.basePoints.map((p, i) => (i === nodeDrag.index ? shift(p) : p)))
+              return
+            }
+            const handles = getNodeHandles(nodeDrag.baseSegments, nodeDrag.index)
+            const dragged = handles && (nodeDrag.kind === 'anchor' ? handles.anchor : handles[nodeDrag.kind])
+            if (!dragged) return
+            const segments =
+              nodeDrag.kind === 'anchor'
+                ? moveNode(nodeDrag.baseSegments, nodeDrag.index, shift(dragged))
+                : moveHandle(nodeDrag.baseSegments, nodeDrag.index, nodeDrag.kind, shift(dragged), e.altKey ? 'corner' : nodeDrag.nodeType)
+            node.attrs.d = serializePathData(segments)
+          })
+          latestTreeRef.current = next
+          return next
+        })
+        return
+      }
       if (!dragState) return
       // Check if mouse has moved significantly (more than 5px) to consider it a drag
         const dx = e.clientX - dragState.startX
@@ -776,24 +2032,71 @@ function App() {
       
       // Only update transform if we've actually dragged
       if (hasDraggedRef.current) {
+        // Snap targets are measured once, before the element first moves
+        if (!snapSessionRef.current && svgTree) {
+          const ids = dragState.targets.map((target) => target.id)
+          snapSessionRef.current = createSnapSession(svgTree, ids, snapTargets, gridSize, ids)
+        }
+        const session = snapSessionRef.current
+        let snapped = { x: 0, y: 0 }
+        if (session?.box && !bypassesSnapping(e)) {
+          const moved = applyToVector(session.screenToDoc, { x: dx, y: dy })
+          const { offset, guides } = snapBounds({ ...session.box, x: session.box.x + moved.x, y: session.box.y + moved.y }, session.context)
+          snapped = applyToVector(session.docToScreen, offset)
+          setSnapLines(toCanvasGuides(canvasContainerRef.current, session, guides))
+        } else {
+          setSnapLines(NO_GUIDES)
+        }
         // Use functional update to get latest tree state
         setSvgTree((currentTree) => {
           if (!currentTree) return currentTree
-          const scaledDx = dx / zoom
-          const scaledDy = dy / zoom
-          const transform = `${dragState.baseTransform ? `${dragState.baseTransform} ` : ''}translate(${scaledDx} ${scaledDy})`
-          const next = updateNode(currentTree, dragState.id, (node) => {
-          node.attrs.transform = transform
-        })
+          const targets = new Map(dragState.targets.map((target) => [target.id, target]))
+          const next = updateMultipleNodes(currentTree, new Set(targets.keys()), (node) => {
+            const target = targets.get(node.id)!
+            const offset = applyToVector(target.screenToParent, { x: dx + snapped.x, y: dy + snapped.y })
+            const transform = prependTransform(target.baseTransform, translate(offset.x, offset.y))
+            if (transform) node.attrs.transform = transform
+            else delete node.attrs.transform
+          })
           latestTreeRef.current = next
           return next
       })
       }
     },
-    [dragState, zoom],
+    [dragState, transformSession, nodeDrag, gradientDrag, drawState, fillColor, strokeColor, strokeWidth, cornerRadius, polygonSides, starInnerRadius, svgTree, snapTargets, gridSize],
   )
 
   const handlePointerUp = useCallback(() => {
+    snapSessionRef.current = null
+    setSnapLines(NO_GUIDES)
+    if (drawState) {
+      const latest = latestTreeRef.current
+      if (latest && findNode(latest, drawState.id)) {
+        updateTreeWithHistory(latest)
+        setSelectedIds(new Set([drawState.id]))
+      } else {
+        // A click without a drag draws nothing
+        setSvgTree(drawState.baseTree)
+      }
+      setDrawState(null)
+      return
+    }
+    if (transformSession) {
+      // The whole gesture becomes a single undo step
+      if (latestTreeRef.current) updateTreeWithHistory(latestTreeRef.current)
+      setTransformSession(null)
+      return
+    }
+    if (nodeDrag) {
+      if (hasDraggedRef.current && latestTreeRef.current) updateTreeWithHistory(latestTreeRef.current)
+      setNodeDrag(null)
+      return
+    }
+    if (gradientDrag) {
+      if (hasDraggedRef.current && latestTreeRef.current) updateTreeWithHistory(latestTreeRef.current)
+      setGradientDrag(null)
+      return
+    }
     if (dragState) {
       if (hasDraggedRef.current && latestTreeRef.current) {
         // Only update history if actual dragging occurred
@@ -803,9 +2106,12 @@ function App() {
         // The drag state was initialized but no movement occurred
         setSvgTree((currentTree) => {
           if (!currentTree || !dragState) return currentTree
-          // Reset transform to original
-          const next = updateNode(currentTree, dragState.id, (node) => {
-            node.attrs.transform = dragState.baseTransform
+          // Reset transforms to the originals
+          const targets = new Map(dragState.targets.map((target) => [target.id, target]))
+          const next = updateMultipleNodes(currentTree, new Set(targets.keys()), (node) => {
+            const { baseTransform } = targets.get(node.id)!
+            if (baseTransform) node.attrs.transform = baseTransform
+            else delete node.attrs.transform
           })
           latestTreeRef.current = next
           return next
@@ -814,21 +2120,240 @@ function App() {
       setDragState(null)
       // Note: Don't reset hasDraggedRef here - let onClick check it first
     }
-  }, [dragState, updateTreeWithHistory])
+  }, [dragState, transformSession, nodeDrag, gradientDrag, drawState, updateTreeWithHistory])
+
+  // Applies a node edit to a path's `d` or a polygon's `points` as one undo step
+  const editGeometry = useCallback(
+    (id: string, editSegments: (segments: PathSegment[]) => PathSegment[], editPoints: (points: Point[]) => Point[]) => {
+      if (!svgTree) return
+      const node = findNode(svgTree, id)
+      const geometry = node ? readEditableGeometry(node) : null
+      if (!geometry) return
+      const next = updateNode(svgTree, id, (n) => {
+        if (n.tag === 'path') n.attrs.d = serializePathData(editSegments(geometry.segments))
+        else n.attrs.points = formatPoints(editPoints(geometry.points))
+      })
+      updateTreeWithHistory(next)
+    },
+    [svgTree, updateTreeWithHistory],
+  )
+
+  const removeEditableNode = useCallback(
+    (id: string, index: number) => {
+      editGeometry(
+        id,
+        (segments) => deleteNode(segments, index),
+        // Keep enough points for the shape to stay visible
+        (points) => (points.length > 2 ? points.filter((_, i) => i !== index) : points),
+      )
+      setActiveNode(null)
+    },
+    [editGeometry],
+  )
+
+  const insertNodeAt = useCallback(
+    (id: string, screenPoint: Point) => {
+      const toScreen = getElementScreenMatrix(id)
+      const toLocal = toScreen ? invert(toScreen) : null
+      const node = svgTree ? findNode(svgTree, id) : null
+      const geometry = node ? readEditableGeometry(node) : null
+      if (!toLocal || !node || !geometry) return
+      const local = applyToPoint(toLocal, screenPoint)
+      if (node.tag === 'path') {
+        const hit = nearestPointOnPath(geometry.segments, local)
+        if (hit.index < 0) return
+        editGeometry(id, (segments) => insertNode(segments, hit.index, hit.t), (points) => points)
+        setActiveNode({ id, index: hit.index })
+      } else {
+        const edge = nearestEdge(geometry.points, local, node.tag === 'polygon')
+        if (edge.index < 0) return
+        editGeometry(id, (segments) => segments, (points) => [...points.slice(0, edge.index + 1), edge.point, ...points.slice(edge.index + 1)])
+        setActiveNode({ id, index: edge.index + 1 })
+      }
+    },
+    [svgTree, editGeometry],
+  )
+
+  // Gradient painting the first selected element, and everything else that uses it
+  const paintGradient = useMemo(() => {
+    const node = selectedNodes[0]
+    const gradientId = node && svgTree ? getPaintServerId(node, paintTarget) : null
+    const gradient = gradientId && svgTree ? readGradient(svgTree, gradientId) : null
+    const gradientNode = gradientId && svgTree ? findByElementId(svgTree, gradientId) : null
+    if (!gradient || !gradientNode || !svgTree) return null
+    const users = findPaintUsers(svgTree, gradient.id)
+    return { gradient, nodeId: gradientNode.id, users }
+  }, [selectedNodes, svgTree, paintTarget])
+
+  const paintTargetIds = useMemo(
+    () => (svgTree ? Array.from(selectedIds).filter((id) => id !== svgTree.id) : []),
+    [selectedIds, svgTree],
+  )
+
+  // `live` edits (dragging a color) are folded into one history entry once they settle
+  const updateGradient = useCallback((next: Gradient, live = false) => {
+    if (!svgTree || !paintGradient) return
+    const tree = updateNode(svgTree, paintGradient.nodeId, (node) => writeGradient(node, next))
+    if (live) {
+      setSvgTree(tree)
+      scheduleHistorySave(tree)
+    } else {
+      updateTreeWithHistory(tree)
+    }
+  }, [svgTree, paintGradient, scheduleHistorySave, updateTreeWithHistory])
+
+  const setPaintType = useCallback((type: 'flat' | GradientKind) => {
+    if (!svgTree || !paintTargetIds.length) return
+    const flatColor = paintTarget === 'fill' ? fillColor : strokeColor
+    if (type === 'flat') {
+      if (!paintGradient) return
+      const color = sortStops(paintGradient.gradient.stops)[0]?.color ?? flatColor
+      const ids = new Set(paintTargetIds)
+      updateTreeWithHistory(updateMultipleNodes(svgTree, ids, (node) => setNodeAttribute(node, paintTarget, color)))
+      return
+    }
+    if (paintGradient) {
+      updateGradient(setGradientKind(paintGradient.gradient, type))
+      return
+    }
+    const result = createGradient(svgTree, type, flatColor, paintTargetIds, paintTarget)
+    updateTreeWithHistory(result.tree)
+    setActiveStop(0)
+  }, [svgTree, paintTargetIds, paintTarget, fillColor, strokeColor, paintGradient, updateGradient, updateTreeWithHistory])
+
+  // Gives the selection its own copy of a gradient other elements also use
+  const makeGradientUnique = useCallback(() => {
+    if (!svgTree || !paintGradient) return
+    updateTreeWithHistory(forkGradient(svgTree, paintGradient.gradient.id, paintTargetIds, paintTarget).tree)
+  }, [svgTree, paintGradient, paintTargetIds, paintTarget, updateTreeWithHistory])
+
+  const updateStop = useCallback((index: number, change: Partial<Gradient['stops'][number]>, live = false) => {
+    if (!paintGradient) return
+    const stops = paintGradient.gradient.stops.map((stop, i) => (i === index ? { ...stop, ...change } : stop))
+    updateGradient({ ...paintGradient.gradient, stops: change.offset === undefined ? stops : sortStops(stops) }, live)
+  }, [paintGradient, updateGradient])
+
+  // "linear gradient #id" style label when the first selected element paints with a reference
+  const paintLabel = (property: PaintProperty) => {
+    const id = selectedNodes[0] ? getPaintServerId(selectedNodes[0], property) : null
+    const server = id && svgTree ? findByElementId(svgTree, id) : null
+    if (!id) return null
+    const kind = server?.tag === 'linearGradient' ? 'linear gradient' : server?.tag === 'radialGradient' ? 'radial gradient' : server?.tag ?? 'missing'
+    return `${kind} #${id}`
+  }
+
+  // The node picked in the editor, while its element is the only one selected
+  const activePathNode = useMemo(() => {
+    if (!activeNode || selectedIds.size !== 1 || !selectedIds.has(activeNode.id) || !svgTree) return null
+    const node = findNode(svgTree, activeNode.id)
+    const geometry = node?.tag === 'path' ? readEditableGeometry(node) : null
+    const segment = geometry?.segments[activeNode.index]
+    if (!geometry || !segment || segment.type === 'Z') return null
+    return { ...activeNode, segment, type: getNodeType(geometry.segments, activeNode.index) }
+  }, [activeNode, selectedIds, svgTree])
 
   const exportSvg = useCallback(() => {
     if (!svgTree) return ''
-    return serializeNode(svgTree)
-  }, [svgTree])
+    return serializeNode(exportGuides ? svgTree : stripGuides(svgTree), { format: exportFormat })
+  }, [svgTree, exportFormat, exportGuides])
 
-  const downloadSvg = () => {
-    const svgString = exportSvg()
+  // What downloads and image exports cover: the whole document, the selection on its own, or a
+  // picked rectangle of the page. Worked out when exporting, as the selection's box comes from the canvas.
+  const exportSource = (): SvgNode | null => {
+    if (!svgTree) return null
+    const base = exportGuides ? svgTree : stripGuides(svgTree)
+    try {
+      if (exportScope === 'selection') {
+        const ids = filterTopLevel(svgTree, Array.from(selectedIds).filter((id) => id !== svgTree.id))
+        const bounds = unionBounds(ids.map((id) => getBoundsInRoot(svgTree.id, id)).filter((box) => box !== null))
+        if (!bounds) {
+          setError('Select the elements to export first')
+          return null
+        }
+        return cropDocument(copyFragment(base, ids), bounds, exportPadding)
+      }
+      if (exportScope === 'region') {
+        if (!exportRegion) {
+          setError('Pick a region of the canvas to export first')
+          return null
+        }
+        return cropDocument(base, exportRegion)
+      }
+    } catch (err) {
+      if (!(err instanceof SvgCommandError)) throw err
+      setError(err.message)
+      return null
+    }
+    return base
+  }
+
+  // Keeps the rectangle dragged while picking, mapped into the root's user space, as the export region
+  const finishRegionPick = (end: Point) => {
+    const start = regionDrag?.start
+    setRegionDrag(null)
+    setPickingRegion(false)
+    const root = svgTree ? getCanvasElement(svgTree.id) : null
+    const ctm = root instanceof SVGSVGElement ? root.getScreenCTM() : null
+    const screenToDoc = ctm ? invert(toMatrix(ctm)) : null
+    // A click without a drag leaves the previous region as it was
+    if (!start || !screenToDoc || Math.abs(end.x - start.x) < 3 || Math.abs(end.y - start.y) < 3) return
+    const box = { x: Math.min(start.x, end.x), y: Math.min(start.y, end.y), width: Math.abs(end.x - start.x), height: Math.abs(end.y - start.y) }
+    setExportRegion(transformBox(box, screenToDoc))
+    setExportScope('region')
+  }
+
+  useEffect(() => {
+    if (!pickingRegion) return
+    const cancel = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return
+      setPickingRegion(false)
+      setRegionDrag(null)
+    }
+    window.addEventListener('keydown', cancel)
+    return () => window.removeEventListener('keydown', cancel)
+  }, [pickingRegion])
+
+  const exportMarkup = () => {
+    const source = exportSource()
+    return source ? serializeNode(source, { format: exportFormat }) : ''
+  }
+
+  const openOptimizer = () => {
+    const source = exportSource()
+    if (source) setOptimizerSource(source)
+  }
+
+  // Before and after of the optimizer, only worked out while its dialog is open
+  const optimized = useMemo(() => {
+    if (!optimizerSource) return null
+    const before = serializeNode(optimizerSource, { format: exportFormat })
+    const after = serializeNode(optimizeDocument(optimizerSource, optimizeOptions), { format: exportFormat })
+    return { before, after, beforeSize: byteLength(before), afterSize: byteLength(after) }
+  }, [optimizerSource, optimizeOptions, exportFormat])
+
+  const toggleOptimizePass = (pass: OptimizePass, on: boolean) => {
+    setOptimizeOptions((options) => ({
+      ...options,
+      passes: on ? [...options.passes, pass] : options.passes.filter((p) => p !== pass),
+    }))
+  }
+
+  const copyOptimized = async () => {
+    if (!optimized) return
+    try {
+      await navigator.clipboard.writeText(optimized.after)
+    } catch {
+      setError('The browser did not allow writing to the clipboard.')
+    }
+  }
+
+  const downloadSvg = (svgString = exportMarkup()) => {
     if (!svgString) return
     const blob = new Blob([svgString], { type: 'image/svg+xml' })
     const url = URL.createObjectURL(blob)
     const link = document.createElement('a')
     link.href = url
-    link.download = 'edited.svg'
+    link.download = exportScope === 'document' ? 'edited.svg' : `${exportScope}.svg`
     link.click()
     URL.revokeObjectURL(url)
   }
@@ -862,12 +2387,153 @@ function App() {
     [],
   )
 
+  // Keeps the grid, rulers and guides lined up with the document. The view is measured after
+  // layout settles, and again on scroll, once a zoom transition ends and when the window resizes.
+  useEffect(() => {
+    if (!svgTree) return
+    const container = canvasContainerRef.current
+    let frame = 0
+    const measure = () => {
+      const view = container ? measureCanvasView(svgTree.id, container) : null
+      setCanvasView((current) => (JSON.stringify(current) === JSON.stringify(view) ? current : view))
+    }
+    const schedule = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(measure)
+    }
+    const timeout = setTimeout(measure, 0)
+    container?.addEventListener('scroll', schedule)
+    container?.addEventListener('transitionend', schedule)
+    window.addEventListener('resize', schedule)
+    return () => {
+      clearTimeout(timeout)
+      cancelAnimationFrame(frame)
+      container?.removeEventListener('scroll', schedule)
+      container?.removeEventListener('transitionend', schedule)
+      window.removeEventListener('resize', schedule)
+    }
+  }, [svgTree, zoom, showRulers])
+
+  const guides = useMemo(() => (svgTree ? readGuides(svgTree) : []), [svgTree])
+  // Grid step on screen, in pixels
+  const gridStep = canvasView ? gridSize * Math.hypot(canvasView.docToScreen.a, canvasView.docToScreen.b) : 0
+
+  // Pulling out of a ruler adds a guide and drags it straight away
+  const startGuideFromRuler = (orientation: GuideOrientation, e: React.MouseEvent) => {
+    if (!svgTree || !canvasView || e.button !== 0) return
+    e.preventDefault()
+    const toDoc = invert(canvasView.docToScreen)
+    if (!toDoc) return
+    const point = applyToPoint(toDoc, { x: e.clientX, y: e.clientY })
+    const next = writeGuides(svgTree, [...guides, { id: '', orientation, position: orientation === 'vertical' ? point.x : point.y, locked: false }])
+    const added = readGuides(next)
+    latestTreeRef.current = next
+    setSvgTree(next)
+    setGuideDrag({ id: added[added.length - 1].id, orientation, baseTree: svgTree })
+  }
+
+  const startGuideDrag = (id: string, orientation: GuideOrientation, e: React.MouseEvent) => {
+    if (!svgTree || e.button !== 0) return
+    e.preventDefault()
+    e.stopPropagation()
+    latestTreeRef.current = svgTree
+    setGuideDrag({ id, orientation, baseTree: svgTree })
+  }
+
+  // A guide follows the pointer anywhere on the page; letting go outside the canvas (such as
+  // back on a ruler) deletes it
+  useEffect(() => {
+    if (!guideDrag || !canvasView) return
+    const toDoc = invert(canvasView.docToScreen)
+    if (!toDoc) return
+    const move = (e: MouseEvent) => {
+      const point = applyToPoint(toDoc, { x: e.clientX, y: e.clientY })
+      const position = guideDrag.orientation === 'vertical' ? point.x : point.y
+      setSvgTree((currentTree) => {
+        if (!currentTree) return currentTree
+        const next = writeGuides(currentTree, readGuides(currentTree).map((guide) => (guide.id === guideDrag.id ? { ...guide, position } : guide)))
+        latestTreeRef.current = next
+        return next
+      })
+    }
+    const up = (e: MouseEvent) => {
+      const rect = canvasContainerRef.current?.getBoundingClientRect()
+      const inside = rect && e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom
+      const latest = latestTreeRef.current ?? guideDrag.baseTree
+      const next = inside ? latest : writeGuides(latest, readGuides(latest).filter((guide) => guide.id !== guideDrag.id))
+      const unchanged = (tree: SvgNode) => JSON.stringify(readGuides(tree).map(({ orientation, position, locked }) => [orientation, position, locked]))
+      // A click on a ruler, or a drag that ends where it started, leaves no history entry
+      if (unchanged(next) === unchanged(guideDrag.baseTree)) setSvgTree(guideDrag.baseTree)
+      else updateTreeWithHistory(next)
+      setGuideDrag(null)
+    }
+    window.addEventListener('mousemove', move)
+    window.addEventListener('mouseup', up)
+    return () => {
+      window.removeEventListener('mousemove', move)
+      window.removeEventListener('mouseup', up)
+    }
+  }, [guideDrag, canvasView, updateTreeWithHistory])
+
+  const updateGuides = (update: (guides: Guide[]) => Guide[]) => {
+    if (!svgTree) return
+    updateTreeWithHistory(writeGuides(svgTree, update(guides)))
+  }
+
+  // Ruler along the top (horizontal) or left (vertical) edge of the canvas, in user units
+  const renderRuler = (orientation: 'horizontal' | 'vertical') => {
+    const horizontal = orientation === 'horizontal'
+    const className = 'select-none bg-slate-50 text-slate-500'
+    // The top ruler adds horizontal guides, the left one vertical guides
+    const onMouseDown = (e: React.MouseEvent) => startGuideFromRuler(horizontal ? 'horizontal' : 'vertical', e)
+    if (!canvasView) return <div className={className} onMouseDown={onMouseDown} />
+    const { docToScreen, frame } = canvasView
+    const scale = horizontal ? docToScreen.a : docToScreen.d
+    const origin = horizontal ? docToScreen.e - frame.left : docToScreen.f - frame.top
+    const length = horizontal ? frame.width : frame.height
+    const ticks = getRulerTicks(origin, scale, length)
+    return (
+      <svg
+        className={className}
+        width={horizontal ? '100%' : RULER_SIZE}
+        height={horizontal ? RULER_SIZE : '100%'}
+        onMouseDown={onMouseDown}
+        style={{ cursor: horizontal ? 'ns-resize' : 'ew-resize' }}
+      >
+        {ticks.map(({ at, value, major }) => {
+          const size = major ? RULER_SIZE : RULER_SIZE / 4
+          return (
+            <React.Fragment key={at}>
+              {horizontal ? (
+                <line x1={at} y1={RULER_SIZE - size} x2={at} y2={RULER_SIZE} stroke="#94a3b8" strokeWidth={1} />
+              ) : (
+                <line x1={RULER_SIZE - size} y1={at} x2={RULER_SIZE} y2={at} stroke="#94a3b8" strokeWidth={1} />
+              )}
+              {major && (
+                <text
+                  x={horizontal ? at + 2 : 9}
+                  y={horizontal ? 9 : at - 2}
+                  fontSize={9}
+                  fill="currentColor"
+                  transform={horizontal ? undefined : `rotate(-90 9 ${at - 2})`}
+                >
+                  {formatNumber(value)}
+                </text>
+              )}
+            </React.Fragment>
+          )
+        })}
+      </svg>
+    )
+  }
+
   // Helper to get all selectable node IDs
   const getAllSelectableIds = useCallback((tree: SvgNode): string[] => {
     const getAllNodeIds = (node: SvgNode): string[] => {
       const ids: string[] = []
-      // Don't include root SVG or text nodes
-      if (node.id !== tree.id && node.tag !== '#text') {
+      // Don't include root SVG, text/comment nodes or anything locked
+      if (isLocked(node)) return []
+      if (node.id !== tree.id && isElementNode(node)) {
         ids.push(node.id)
       }
       for (const child of node.children) {
@@ -897,36 +2563,14 @@ function App() {
   const deleteSelected = useCallback(() => {
     if (selectedIds.size === 0 || !svgTree) return
     // Can't delete root SVG
-    const idsToDelete = new Set(Array.from(selectedIds).filter((id) => id !== svgTree.id))
-    if (idsToDelete.size === 0) return
-    const next = removeMultipleNodes(svgTree, idsToDelete)
-    if (next) {
-      updateTreeWithHistory(next)
-      setSelectedIds(new Set([svgTree.id])) // Select root after deletion
-    }
+    const idsToDelete = Array.from(selectedIds).filter((id) => id !== svgTree.id)
+    if (idsToDelete.length === 0) return
+    const result = applyCommand(svgTree, { type: 'delete', ids: idsToDelete })
+    updateTreeWithHistory(result.tree)
+    setSelectedIds(new Set(result.selection)) // Select root after deletion
   }, [selectedIds, svgTree, updateTreeWithHistory])
 
-  const duplicateSelected = useCallback(() => {
-    if (selectedIds.size === 0 || !svgTree) return
-    // For multi-select, duplicate the first selected item (can be enhanced later)
-    const firstId = Array.from(selectedIds)[0]
-    if (firstId === svgTree.id) {
-      // Can't duplicate root SVG
-      return
-    }
-    const parent = findParent(svgTree, firstId)
-    if (!parent) return
-    const nodeToDuplicate = findNode(svgTree, firstId)
-    if (!nodeToDuplicate) return
-    const duplicated = assignNewIds(cloneNode(nodeToDuplicate), firstId)
-    const next = updateNode(svgTree, parent.id, (p) => {
-      p.children.push(duplicated)
-    })
-    updateTreeWithHistory(next)
-    setSelectedIds(new Set([duplicated.id]))
-  }, [selectedIds, svgTree, updateTreeWithHistory])
-
-  const updateOpacity = useCallback((value: string) => {
+  const updateOpacity = useCallback((value: string) => {
     if (selectedIds.size === 0 || !svgTree) return
     updateAttribute('opacity', value)
     setOpacity(value)
@@ -935,9 +2579,12 @@ function App() {
   const updateRotation = useCallback((angle: number) => {
     if (selectedIds.size === 0 || !svgTree) return
     const next = updateMultipleNodes(svgTree, selectedIds, (n) => {
-      const transform = n.attrs.transform || ''
-      const parsed = parseTransform(transform)
-      const newTransform = buildTransform(parsed.translate, angle)
+      // Turn by the difference around the element's bounding-box center, keeping its scale
+      const current = parseTransformList(n.attrs.transform)
+      const { rotation: currentAngle } = decompose(current)
+      const center = getLocalBBoxCenter(n.id)
+      const pivot = center ? applyToPoint(current, center) : { x: current.e, y: current.f }
+      const newTransform = formatTransform(multiply(rotate(angle - currentAngle, pivot.x, pivot.y), current))
       if (newTransform) {
         n.attrs.transform = newTransform
       } else {
@@ -948,35 +2595,367 @@ function App() {
     setRotation(angle)
   }, [selectedIds, svgTree, updateTreeWithHistory])
 
-  const groupSelected = useCallback(() => {
-    if (selectedIds.size === 0 || !svgTree) return
-    // For multi-select, group the first selected item only (can be enhanced to group multiple)
-    const firstId = Array.from(selectedIds)[0]
-    if (firstId === svgTree.id) return
-    const node = findNode(svgTree, firstId)
-    if (!node) return
-    const parent = findParent(svgTree, firstId)
-    if (!parent) return
+  // Runs a command, reporting refusals (such as elements with different parents) instead of
+  // throwing. Commands that change nothing, like raising the topmost element, add no history.
+  const runCommand = useCallback((command: SvgCommand, select: boolean) => {
+    if (!svgTree) return
+    try {
+      const result = applyCommand(svgTree, command)
+      if (result.changed) updateTreeWithHistory(result.tree, describeCommand(command))
+      if (select) setSelectedIds(new Set(result.selection))
+      setError(null)
+    } catch (err) {
+      if (!(err instanceof SvgCommandError)) throw err
+      setError(err.message)
+    }
+  }, [svgTree, updateTreeWithHistory])
+
+  // Runs a command on the top-level selected elements and selects what it returns
+  const runSelectionCommand = useCallback((build: (ids: string[]) => SvgCommand | null) => {
+    if (!svgTree) return
+    const ids = filterTopLevel(svgTree, Array.from(selectedIds).filter((id) => id !== svgTree.id))
+    if (!ids.length) return
+    const command = build(ids)
+    if (command) runCommand(command, true)
+  }, [runCommand, selectedIds, svgTree])
 
-    // Create a group element with unique ID
-    const timestamp = Date.now()
-    const newGroup: SvgNode = {
-      id: `group-${timestamp}`,
-      tag: 'g',
-      attrs: { 'data-id': `group-${timestamp}` },
-      children: [cloneNode(node)],
+  const duplicateSelected = useCallback(
+    () => runSelectionCommand((ids) => ({ type: 'duplicate', ids, dx: duplicateOffset, dy: duplicateOffset })),
+    [duplicateOffset, runSelectionCommand],
+  )
+
+  // The selection as a standalone SVG document, with the definitions it uses
+  const copySelection = useCallback(() => {
+    if (!svgTree) return null
+    const ids = Array.from(selectedIds).filter((id) => id !== svgTree.id)
+    return ids.length ? serializeNode(copyFragment(svgTree, ids), { format: exportFormat }) : null
+  }, [exportFormat, selectedIds, svgTree])
+
+  // Adds pasted SVG to the document, centered on the pointer while it is over the canvas and
+  // otherwise where its coordinates put it. With no document open it becomes the document.
+  const pasteSvg = useCallback((markup: string, inPlace: boolean) => {
+    if (!svgTree) {
+      handleSvgInput(markup)
+      return
     }
+    const { tree: fragment, clean } = parseSvgString(markup)
+    if (!fragment) {
+      setError('The clipboard holds no <svg> to paste.')
+      return
+    }
+    const offset = { x: 0, y: 0 }
+    const pointer = canvasPointerRef.current
+    if (!inPlace && pointer) {
+      const rootElement = getCanvasElement(svgTree.id)
+      const ctm = rootElement instanceof SVGSVGElement ? rootElement.getScreenCTM() : null
+      const screenToDoc = ctm ? invert(toMatrix(ctm)) : null
+      const bounds = measureFragment(fragment, clean)
+      if (screenToDoc && bounds) {
+        const target = applyToPoint(screenToDoc, pointer)
+        offset.x = target.x - (bounds.x + bounds.width / 2)
+        offset.y = target.y - (bounds.y + bounds.height / 2)
+      }
+    }
+    try {
+      const result = pasteFragment(svgTree, fragment, offset.x, offset.y)
+      updateTreeWithHistory(result.tree)
+      setSelectedIds(new Set(result.selection))
+      setError(null)
+    } catch (err) {
+      if (!(err instanceof SvgCommandError)) throw err
+      setError(err.message)
+    }
+  }, [handleSvgInput, svgTree, updateTreeWithHistory])
 
-    // Replace node with group containing the node
-    const next = updateNode(svgTree, parent.id, (p) => {
-      const index = p.children.findIndex((c) => c.id === firstId)
-      if (index >= 0) {
-        p.children[index] = newGroup
+  const copyToSystemClipboard = useCallback(async (cut: boolean) => {
+    const markup = copySelection()
+    if (!markup) return
+    try {
+      await navigator.clipboard.writeText(markup)
+    } catch {
+      setError('The browser did not allow writing to the clipboard.')
+      return
+    }
+    if (cut) deleteSelected()
+  }, [copySelection, deleteSelected])
+
+  const pasteFromSystemClipboard = useCallback(async () => {
+    let markup: string
+    try {
+      markup = await navigator.clipboard.readText()
+    } catch {
+      setError('The browser did not allow reading the clipboard.')
+      return
+    }
+    pasteSvg(markup, true)
+  }, [pasteSvg])
+
+  // Cmd/Ctrl+C, X and V go through the browser's clipboard events, which can carry SVG both
+  // as text and as image/svg+xml. Text fields keep their own copy and paste.
+  useEffect(() => {
+    const inTextField = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement
+      return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable
+    }
+    const handleCopy = (e: ClipboardEvent) => {
+      if (inTextField(e) || !e.clipboardData || !document.getSelection()?.isCollapsed) return
+      const markup = copySelection()
+      if (!markup) return
+      e.preventDefault()
+      e.clipboardData.setData('text/plain', markup)
+      e.clipboardData.setData('image/svg+xml', markup)
+      if (e.type === 'cut') deleteSelected()
+    }
+    const handlePaste = (e: ClipboardEvent) => {
+      const inPlace = pasteInPlaceRef.current
+      pasteInPlaceRef.current = false
+      if (inTextField(e) || !e.clipboardData) return
+      const markup = e.clipboardData.getData('image/svg+xml') || e.clipboardData.getData('text/plain')
+      if (!/<svg[\s>]/i.test(markup)) return
+      e.preventDefault()
+      pasteSvg(markup, inPlace)
+    }
+    document.addEventListener('copy', handleCopy)
+    document.addEventListener('cut', handleCopy)
+    document.addEventListener('paste', handlePaste)
+    return () => {
+      document.removeEventListener('copy', handleCopy)
+      document.removeEventListener('cut', handleCopy)
+      document.removeEventListener('paste', handlePaste)
+    }
+  }, [copySelection, deleteSelected, pasteSvg])
+
+  // Adds .svg files to the document as new groups, centered on `at` (a screen point over the
+  // canvas) or on the page, and scaled down to fit the page if they are larger
+  const placeFiles = useCallback(async (files: File[], at: Point | null) => {
+    const svgFiles = files.filter((file) => file.type === 'image/svg+xml' || /\.svg$/i.test(file.name))
+    if (!svgFiles.length) {
+      setError('Only .svg files can be placed.')
+      return
+    }
+    const sources = await Promise.all(svgFiles.map(async (file) => ({ name: file.name, text: await file.text() })))
+    const host = latestTreeRef.current
+    if (!host) return
+    const page = getPageBounds(host)
+    let point = page ? { x: page.x + page.width / 2, y: page.y + page.height / 2 } : { x: 0, y: 0 }
+    if (at) {
+      const rootElement = getCanvasElement(host.id)
+      const ctm = rootElement instanceof SVGSVGElement ? rootElement.getScreenCTM() : null
+      const screenToDoc = ctm ? invert(toMatrix(ctm)) : null
+      if (screenToDoc) point = applyToPoint(screenToDoc, at)
+    }
+    let next = host
+    const placed: string[] = []
+    const problems: string[] = []
+    for (const { name, text } of sources) {
+      const { tree } = parseSvgString(text)
+      if (!tree) {
+        problems.push(`${name} has no <svg> tag.`)
+        continue
       }
+      try {
+        const result = placeDocument(next, tree, { at: point, fit: page ?? undefined, name })
+        next = result.tree
+        placed.push(...result.selection)
+      } catch (err) {
+        if (!(err instanceof SvgCommandError)) throw err
+        problems.push(`${name}: ${err.message}`)
+      }
+    }
+    if (placed.length) {
+      updateTreeWithHistory(next)
+      setSelectedIds(new Set(placed))
+    }
+    setError(problems.length ? problems.join(' ') : null)
+  }, [updateTreeWithHistory])
+
+  // Dropping .svg files on the canvas places them at the drop point, or opens the first one
+  // when no document is loaded yet
+  const handleCanvasDrop = useCallback((e: React.DragEvent) => {
+    const files = Array.from(e.dataTransfer.files)
+    if (!files.length) return
+    e.preventDefault()
+    if (svgTree) placeFiles(files, { x: e.clientX, y: e.clientY })
+    else handleFile(files[0])
+  }, [handleFile, placeFiles, svgTree])
+
+  // Selected elements from different parents are gathered into one group where the topmost one was
+  const groupSelected = useCallback(() => runSelectionCommand((ids) => ({ type: 'group', ids })), [runSelectionCommand])
+
+  const reorderSelected = useCallback((to: StackingMove) => runSelectionCommand((ids) => ({ type: 'reorder', ids, to })), [runSelectionCommand])
+
+  const selectLayer = useCallback((id: string, e: React.MouseEvent) => {
+    if (e.ctrlKey || e.metaKey || e.shiftKey) {
+      setSelectedIds((prev) => {
+        const next = new Set(prev)
+        if (next.has(id)) next.delete(id)
+        else next.add(id)
+        return next
+      })
+    } else {
+      setSelectedIds(new Set([id]))
+    }
+  }, [])
+
+  const toggleLayerCollapsed = useCallback((id: string) => {
+    setCollapsedLayers((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
     })
-    updateTreeWithHistory(next)
-    setSelectedIds(new Set([newGroup.id]))
-  }, [selectedIds, svgTree, updateTreeWithHistory])
+  }, [])
+
+  const renameLayer = useCallback((id: string, name: string) => {
+    setRenamingLayer(null)
+    const node = svgTree ? findNode(svgTree, id) : null
+    const current = node?.attrs[layerNames === 'label' ? LABEL_ATTRIBUTE : 'id'] ?? ''
+    if (node && name.trim() !== current) runCommand({ type: 'rename', id, name, as: layerNames }, false)
+  }, [layerNames, runCommand, svgTree])
+
+  // Dragging a selected row takes the whole selection along
+  const startLayerDrag = useCallback((id: string, e: React.DragEvent) => {
+    if (!svgTree) return
+    layerDragRef.current = selectedIds.has(id) ? filterTopLevel(svgTree, Array.from(selectedIds).filter((other) => other !== svgTree.id)) : [id]
+    e.dataTransfer.effectAllowed = 'move'
+    e.dataTransfer.setData('text/plain', id)
+  }, [selectedIds, svgTree])
+
+  // The upper and lower part of a row drop in front of or behind it, the middle of a group drops inside
+  const dragOverLayer = useCallback((node: SvgNode, e: React.DragEvent) => {
+    const ids = layerDragRef.current
+    if (!svgTree || !ids) return
+    if (ids.some((id) => findNode(findNode(svgTree, id), node.id))) {
+      setLayerDrop(null)
+      return
+    }
+    e.preventDefault()
+    const rect = e.currentTarget.getBoundingClientRect()
+    const ratio = (e.clientY - rect.top) / rect.height
+    const position: LayerDrop['position'] = LAYER_CONTAINERS.has(node.tag)
+      ? ratio < 0.25 ? 'above' : ratio > 0.75 ? 'below' : 'inside'
+      : ratio < 0.5 ? 'above' : 'below'
+    setLayerDrop((prev) => (prev?.id === node.id && prev.position === position ? prev : { id: node.id, position }))
+  }, [svgTree])
+
+  const endLayerDrag = useCallback(() => {
+    layerDragRef.current = null
+    setLayerDrop(null)
+  }, [])
+
+  const dropLayers = useCallback((e: React.DragEvent) => {
+    e.preventDefault()
+    const ids = layerDragRef.current
+    endLayerDrag()
+    if (!svgTree || !ids || !layerDrop) return
+    const parent = layerDrop.position === 'inside' ? findNode(svgTree, layerDrop.id) : findParent(svgTree, layerDrop.id)
+    if (!parent) return
+    // Rows are listed front to back, so dropping above a row puts the elements after it in the document
+    let before: string | undefined
+    if (layerDrop.position === 'below') before = layerDrop.id
+    else if (layerDrop.position === 'above') {
+      const index = parent.children.findIndex((child) => child.id === layerDrop.id)
+      before = parent.children.slice(index + 1).find((child) => !ids.includes(child.id))?.id
+    }
+    runCommand({ type: 'reparent', ids, parent: parent.id, before }, true)
+  }, [endLayerDrag, layerDrop, runCommand, svgTree])
+
+  // Canvas selections show up in the layers panel: collapsed groups around them open and
+  // the list scrolls to the latest one
+  useEffect(() => {
+    const last = Array.from(selectedIds).pop()
+    if (!svgTree || !last) return
+    const ancestors = new Set<string>()
+    for (const id of selectedIds) {
+      for (let parent = findParent(svgTree, id); parent; parent = findParent(svgTree, parent.id)) ancestors.add(parent.id)
+    }
+    let frame = requestAnimationFrame(() => {
+      setCollapsedLayers((prev) => (Array.from(prev).some((id) => ancestors.has(id)) ? new Set(Array.from(prev).filter((id) => !ancestors.has(id))) : prev))
+      frame = requestAnimationFrame(() => {
+        const list = layersListRef.current
+        const row = list?.querySelector(`[data-layer-id="${CSS.escape(last)}"]`)
+        if (!list || !row) return
+        const listRect = list.getBoundingClientRect()
+        const rowRect = row.getBoundingClientRect()
+        if (rowRect.top < listRect.top) list.scrollTop += rowRect.top - listRect.top
+        else if (rowRect.bottom > listRect.bottom) list.scrollTop += rowRect.bottom - listRect.bottom
+      })
+    })
+    return () => cancelAnimationFrame(frame)
+    // Only selection changes reveal rows; edits leave the panel where the user scrolled it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedIds])
+
+  const clipSelected = useCallback((as: 'clip-path' | 'mask') => runSelectionCommand((ids) => ({ type: 'clip', ids, as })), [runSelectionCommand])
+
+  const releaseSelected = useCallback(() => runSelectionCommand((ids) => ({ type: 'release', ids })), [runSelectionCommand])
+
+  const patternFromSelection = useCallback(() => {
+    runSelectionCommand((ids) => {
+      const bounds = svgTree ? getBoundsInParent(svgTree, ids) : null
+      return bounds ? { type: 'pattern', ids, bounds } : null
+    })
+  }, [runSelectionCommand, svgTree])
+
+  const combineSelected = useCallback((operation: BooleanOperation) => runSelectionCommand((ids) => ({ type: 'boolean', ids, operation })), [runSelectionCommand])
+
+  const editSelectedPaths = useCallback(
+    (type: 'to-path' | 'outline-stroke' | 'reverse' | 'join' | 'break-apart') => runSelectionCommand((ids) => ({ type, ids })),
+    [runSelectionCommand],
+  )
+
+  // Moves each element by an offset given in root user space. The offset is mapped into the
+  // element's parent coordinates and prepended to its transform, so rotated, scaled and
+  // nested elements move along the page axes.
+  const moveInRootSpace = useCallback((ids: string[], offsets: Point[]) => {
+    if (!svgTree) return
+    const commands: SvgCommand[] = []
+    ids.forEach((id, i) => {
+      const offset = offsets[i]
+      if (Math.abs(offset.x) < 1e-9 && Math.abs(offset.y) < 1e-9) return
+      const parentToRoot = getRootSpaceMatrix(svgTree.id, id, true)
+      const rootToParent = parentToRoot ? invert(parentToRoot) : null
+      if (!rootToParent) return
+      const delta = applyToVector(rootToParent, offset)
+      commands.push({ type: 'move', ids: [id], dx: delta.x, dy: delta.y })
+    })
+    if (commands.length) updateTreeWithHistory(applyCommands(svgTree, commands).tree)
+  }, [svgTree, updateTreeWithHistory])
+
+  // Top-level selected elements with their bounds in root user space
+  const getAlignTargets = useCallback(() => {
+    if (!svgTree) return { ids: [], boxes: [] }
+    const targets = filterTopLevel(svgTree, Array.from(selectedIds).filter((id) => id !== svgTree.id))
+      .map((id) => ({ id, box: getBoundsInRoot(svgTree.id, id) }))
+      .filter((target): target is { id: string; box: Bounds } => target.box !== null)
+    return { ids: targets.map((target) => target.id), boxes: targets.map((target) => target.box) }
+  }, [selectedIds, svgTree])
+
+  const alignSelected = useCallback((edge: AlignEdge) => {
+    if (!svgTree) return
+    const { ids, boxes } = getAlignTargets()
+    const keyId = Array.from(selectedIds).find((id) => id !== svgTree.id)
+    const reference =
+      alignReference === 'page' ? getPageBounds(svgTree) : alignReference === 'key' && keyId ? getBoundsInRoot(svgTree.id, keyId) : unionBounds(boxes)
+    if (!reference) {
+      setError(alignReference === 'page' ? 'The document has no viewBox or size to align to' : 'Nothing to align')
+      return
+    }
+    moveInRootSpace(ids, alignOffsets(boxes, edge, reference))
+  }, [alignReference, getAlignTargets, moveInRootSpace, selectedIds, svgTree])
+
+  // Relative to the page the elements are spread across the viewBox; otherwise the
+  // outermost ones stay where they are
+  const distributeSelected = useCallback((axis: DistributeAxis, mode: DistributeMode) => {
+    if (!svgTree) return
+    const { ids, boxes } = getAlignTargets()
+    const page = alignReference === 'page' ? getPageBounds(svgTree) : null
+    if (alignReference === 'page' && !page) {
+      setError('The document has no viewBox or size to distribute across')
+      return
+    }
+    moveInRootSpace(ids, distributeOffsets(boxes, axis, mode, page ?? undefined))
+  }, [alignReference, getAlignTargets, moveInRootSpace, svgTree])
 
   const ungroupSelected = useCallback(() => {
     if (selectedIds.size === 0 || !svgTree) return
@@ -999,43 +2978,64 @@ function App() {
     }
   }, [selectedIds, svgTree, updateTreeWithHistory])
 
-  const exportToPng = useCallback(async () => {
-    if (!svgTree) return
-    const svgString = exportSvg()
-    if (!svgString) return
+  // Draws the export (see exportSource) with each preset and downloads the images
+  const exportRasters = async (presets: RasterPreset[]) => {
+    const markup = presets.length ? exportMarkup() : ''
+    if (!markup) return
+    setRasterExporting(true)
+    try {
+      const name = (currentDocument?.name ?? 'export').replace(/\.svgz?$/i, '')
+      const files = await renderRasters(markup, presets, name)
+      files.forEach(({ blob, fileName }) => downloadBlob(blob, fileName))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the image')
+    } finally {
+      setRasterExporting(false)
+    }
+  }
 
-    const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' })
-    const url = URL.createObjectURL(svgBlob)
-    const img = new Image()
-    img.onload = () => {
-      const canvas = document.createElement('canvas')
-      // Use natural dimensions or fallback to reasonable defaults
-      canvas.width = img.naturalWidth || 800
-      canvas.height = img.naturalHeight || 600
-      const ctx = canvas.getContext('2d')
-      if (ctx) {
-        ctx.fillStyle = canvasBg
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
-        ctx.drawImage(img, 0, 0)
-        canvas.toBlob((blob) => {
-          if (blob) {
-            const pngUrl = URL.createObjectURL(blob)
-            const link = document.createElement('a')
-            link.href = pngUrl
-            link.download = 'export.png'
-            link.click()
-            URL.revokeObjectURL(pngUrl)
-          }
-        })
-      }
-      URL.revokeObjectURL(url)
+  const exportPdfFile = () => {
+    const source = exportSource()
+    if (!source) return
+    try {
+      const { bytes, warnings } = exportPdf(source)
+      const name = (currentDocument?.name ?? 'export').replace(/\.svgz?$/i, '')
+      downloadBlob(new Blob([bytes], { type: 'application/pdf' }), `${exportScope === 'document' ? name : `${name}-${exportScope}`}.pdf`)
+      if (warnings.length) setPdfWarnings(warnings)
+    } catch (err) {
+      if (!(err instanceof SvgCommandError)) throw err
+      setError(err.message)
     }
-    img.onerror = () => {
-      URL.revokeObjectURL(url)
-      setError('Failed to export PNG')
+  }
+
+  const storeRasterPresets = (presets: RasterPreset[]) => {
+    setRasterPresets(presets)
+    saveRasterPresets(presets).catch(() => setError('The export presets could not be saved in this browser'))
+  }
+
+  const editRasterDraft = (change: Partial<RasterPreset>) => setRasterDraft((draft) => ({ ...draft, ...change }))
+
+  // Saves the draft over the preset it was opened from, or as a new one
+  const saveRasterDraft = (asNew: boolean) => {
+    const name = rasterDraft.name.trim() || 'Untitled preset'
+    const exists = rasterPresets.some((preset) => preset.id === rasterDraft.id)
+    if (asNew || !exists) {
+      const preset = { ...rasterDraft, id: crypto.randomUUID(), name }
+      storeRasterPresets([...rasterPresets, preset])
+      setRasterDraft(preset)
+    } else {
+      const preset = { ...rasterDraft, name }
+      storeRasterPresets(rasterPresets.map((p) => (p.id === preset.id ? preset : p)))
+      setRasterDraft(preset)
     }
-    img.src = url
-  }, [svgTree, canvasBg, exportSvg])
+  }
+
+  const deleteRasterPreset = (id: string) => {
+    const remaining = rasterPresets.filter((preset) => preset.id !== id)
+    storeRasterPresets(remaining)
+    setCheckedPresets((checked) => new Set(Array.from(checked).filter((presetId) => presetId !== id)))
+    if (rasterDraft.id === id && remaining.length) setRasterDraft(remaining[0])
+  }
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -1044,6 +3044,10 @@ function App() {
         return
       }
 
+      if ((e.metaKey || e.ctrlKey) && e.code === 'KeyV') {
+        pasteInPlaceRef.current = e.shiftKey
+      }
+
       if ((e.metaKey || e.ctrlKey) && e.key === 'a') {
         e.preventDefault()
         selectAll()
@@ -1053,6 +3057,9 @@ function App() {
       } else if ((e.metaKey || e.ctrlKey) && (e.key === 'y' || (e.key === 'z' && e.shiftKey))) {
         e.preventDefault()
         redo()
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && activeNode && selectedIds.has(activeNode.id)) {
+        e.preventDefault()
+        removeEditableNode(activeNode.id, activeNode.index)
       } else if (e.key === 'Delete' || e.key === 'Backspace') {
         e.preventDefault()
         deleteSelected()
@@ -1065,6 +3072,14 @@ function App() {
       } else if ((e.metaKey || e.ctrlKey) && e.key === 'g' && e.shiftKey) {
         e.preventDefault()
         ungroupSelected()
+      } else if ((e.metaKey || e.ctrlKey) && (e.code === 'BracketRight' || e.code === 'BracketLeft')) {
+        e.preventDefault()
+        const up = e.code === 'BracketRight'
+        reorderSelected(e.shiftKey ? (up ? 'front' : 'back') : up ? 'forward' : 'backward')
+      } else if (e.key === 'Escape' && tool !== 'select') {
+        setTool('select')
+      } else if (!e.metaKey && !e.ctrlKey && !e.altKey && TOOLS.some((t) => t.shortcut === e.key.toUpperCase())) {
+        setTool(TOOLS.find((t) => t.shortcut === e.key.toUpperCase())!.id)
       } else if (e.key === '?') {
         e.preventDefault()
         setShowShortcuts((prev) => !prev)
@@ -1073,7 +3088,20 @@ function App() {
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [selectAll, undo, redo, deleteSelected, duplicateSelected, groupSelected, ungroupSelected])
+  }, [selectAll, undo, redo, deleteSelected, duplicateSelected, groupSelected, ungroupSelected, reorderSelected, activeNode, selectedIds, removeEditableNode, tool])
+
+  const layerActions: LayerActions = {
+    select: selectLayer,
+    toggleCollapsed: toggleLayerCollapsed,
+    toggleHidden: (node) => runCommand({ type: 'visibility', ids: [node.id], visible: isHidden(node) }, false),
+    toggleLocked: (node) => runCommand({ type: 'set-attribute', ids: [node.id], name: LOCK_ATTRIBUTE, value: isLocked(node) ? '' : 'true' }, false),
+    startRename: setRenamingLayer,
+    rename: renameLayer,
+    dragStart: startLayerDrag,
+    dragOver: dragOverLayer,
+    drop: dropLayers,
+    dragEnd: endLayerDrag,
+  }
 
   return (
     <div className="min-h-screen">
@@ -1091,7 +3119,7 @@ function App() {
             <button
               className="rounded-lg bg-white px-3 py-2 text-sm font-medium text-slate-700 shadow-sm ring-1 ring-slate-200 transition hover:shadow disabled:opacity-50"
               onClick={undo}
-              disabled={historyIndex <= 0 || !svgTree}
+              disabled={history.index === 0 || !svgTree}
               title="Undo (Cmd/Ctrl+Z)"
             >
               ↶ Undo
@@ -1099,7 +3127,7 @@ function App() {
             <button
               className="rounded-lg bg-white px-3 py-2 text-sm font-medium text-slate-700 shadow-sm ring-1 ring-slate-200 transition hover:shadow disabled:opacity-50"
               onClick={redo}
-              disabled={historyIndex >= history.length - 1 || !svgTree}
+              disabled={history.index === history.entries.length || !svgTree}
               title="Redo (Cmd/Ctrl+Shift+Z)"
             >
               ↷ Redo
@@ -1114,11 +3142,26 @@ function App() {
             </button>
             <button
               className="rounded-lg bg-white px-3 py-2 text-sm font-medium text-slate-700 shadow-sm ring-1 ring-slate-200 transition hover:shadow disabled:opacity-50"
-              onClick={() => setShowTreeView(!showTreeView)}
+              onClick={() => setShowLayers(!showLayers)}
+              disabled={!svgTree}
+              title={showLayers ? 'Hide the layers panel' : 'Show the layers panel'}
+            >
+              🗂 Layers
+            </button>
+            <button
+              className="rounded-lg bg-white px-3 py-2 text-sm font-medium text-slate-700 shadow-sm ring-1 ring-slate-200 transition hover:shadow"
+              onClick={() => setShowLibrary(!showLibrary)}
+              title="Documents saved in this browser"
+            >
+              📚 My documents
+            </button>
+            <button
+              className="rounded-lg bg-white px-3 py-2 text-sm font-medium text-slate-700 shadow-sm ring-1 ring-slate-200 transition hover:shadow disabled:opacity-50"
+              onClick={() => setShowHistory(!showHistory)}
               disabled={!svgTree}
-              title="Element Tree"
+              title={showHistory ? 'Hide the history panel' : 'Show the history panel'}
             >
-              🌳 Tree
+              🕘 History
             </button>
             <button
               className="rounded-lg bg-white px-3 py-2 text-sm font-medium text-slate-700 shadow-sm ring-1 ring-slate-200 transition hover:shadow"
@@ -1136,17 +3179,27 @@ function App() {
             </button>
             <button
               className="rounded-lg bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-60"
-              onClick={downloadSvg}
+              onClick={() => (optimizeExport ? openOptimizer() : downloadSvg())}
               disabled={!svgTree}
+              title={optimizeExport ? 'Review the optimized SVG, then download it' : undefined}
             >
               Download SVG
             </button>
             <button
               className="rounded-lg bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-60"
-              onClick={exportToPng}
+              onClick={() => setShowRasterExport(true)}
               disabled={!svgTree}
+              title="Export PNG, JPEG or WebP images"
             >
-              Export PNG
+              Export image…
+            </button>
+            <button
+              className="rounded-lg bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-60"
+              onClick={exportPdfFile}
+              disabled={!svgTree}
+              title="Download a vector PDF for print"
+            >
+              Export PDF
             </button>
             </div>
           </div>
@@ -1201,7 +3254,72 @@ function App() {
               )}
               </div>
             </div>
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <div className="flex rounded-lg border border-slate-200 bg-white p-0.5 shadow-sm">
+                {TOOLS.map((t) => (
+                  <button
+                    key={t.id}
+                    className={`h-7 w-7 rounded-md text-sm transition ${
+                      tool === t.id ? 'bg-slate-900 text-white' : 'text-slate-700 hover:bg-slate-100'
+                    }`}
+                    onClick={() => setTool(t.id)}
+                    title={t.shortcut ? `${t.label} (${t.shortcut})` : t.label}
+                  >
+                    {t.icon}
+                  </button>
+                ))}
+              </div>
+              {tool === 'rect' && (
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                  <span>Corner radius:</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={cornerRadius}
+                    onChange={(e) => setCornerRadius(Math.max(0, Number(e.target.value)))}
+                    className="w-16 rounded-md border border-slate-200 bg-white px-2 py-0.5 text-xs outline-none focus:border-sky-400"
+                  />
+                </label>
+              )}
+              {(tool === 'polygon' || tool === 'star') && (
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                  <span>{tool === 'star' ? 'Points:' : 'Sides:'}</span>
+                  <input
+                    type="number"
+                    min="3"
+                    max="64"
+                    value={polygonSides}
+                    onChange={(e) => setPolygonSides(Math.min(64, Math.max(3, Math.round(Number(e.target.value)))))}
+                    className="w-14 rounded-md border border-slate-200 bg-white px-2 py-0.5 text-xs outline-none focus:border-sky-400"
+                  />
+                </label>
+              )}
+              {tool === 'star' && (
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                  <span>Inner radius:</span>
+                  <input
+                    type="range"
+                    min="0.05"
+                    max="0.95"
+                    step="0.05"
+                    value={starInnerRadius}
+                    onChange={(e) => setStarInnerRadius(Number(e.target.value))}
+                    className="w-20"
+                  />
+                  <span>{Math.round(starInnerRadius * 100)}%</span>
+                </label>
+              )}
+            </div>
             <div className="mt-3 flex gap-2">
+              <label className="flex items-center gap-2 text-xs text-slate-600" title="Drag from a ruler onto the canvas to add a guide">
+                <input
+                  type="checkbox"
+                  checked={showRulers}
+                  onChange={(e) => setShowRulers(e.target.checked)}
+                  className="rounded border-slate-300"
+                />
+                Rulers
+              </label>
               <label className="flex items-center gap-2 text-xs text-slate-600">
                 <input
                   type="checkbox"
@@ -1211,6 +3329,18 @@ function App() {
                 />
                 Grid
               </label>
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                <span>Size:</span>
+                <input
+                  type="number"
+                  min="0.1"
+                  step="1"
+                  value={gridSize}
+                  onChange={(e) => setGridSize(Number(e.target.value))}
+                  className="w-14 rounded-md border border-slate-200 bg-white px-2 py-0.5 text-xs outline-none focus:border-sky-400"
+                  title="Grid spacing, in document units"
+                />
+              </label>
               <label className="flex items-center gap-2 text-xs text-slate-600">
                 <span>Background:</span>
                 <input
@@ -1221,18 +3351,62 @@ function App() {
                 />
               </label>
             </div>
+            <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-slate-600" title="Hold Cmd/Ctrl while dragging to move freely">
+              <span>Snap to:</span>
+              {SNAP_TARGETS.map((target) => (
+                <label key={target} className="flex items-center gap-1" title={SNAP_LABELS[target].title}>
+                  <input
+                    type="checkbox"
+                    checked={snapTargets.includes(target)}
+                    onChange={(e) =>
+                      setSnapTargets((current) => (e.target.checked ? [...current, target] : current.filter((other) => other !== target)))
+                    }
+                    className="rounded border-slate-300"
+                  />
+                  {SNAP_LABELS[target].label}
+                </label>
+              ))}
+            </div>
+            <div className="mt-3 grid" style={{ gridTemplateColumns: showRulers ? `${RULER_SIZE}px minmax(0, 1fr)` : 'minmax(0, 1fr)' }}>
+            {showRulers && (
+              <>
+                <div className="rounded-tl-md border-b border-r border-slate-200 bg-slate-50" />
+                <div className="border-b border-slate-200">{renderRuler('horizontal')}</div>
+                <div className="border-r border-slate-200">{renderRuler('vertical')}</div>
+              </>
+            )}
             <div
-              className="mt-3 overflow-auto rounded-xl border border-slate-200 bg-white p-4 relative"
-              onMouseMove={handlePointerMove}
+              ref={canvasContainerRef}
+              className="overflow-auto rounded-xl border border-slate-200 bg-white p-4 relative"
+              onMouseDown={handleCanvasPointerDown}
+              onMouseMove={(e) => {
+                canvasPointerRef.current = { x: e.clientX, y: e.clientY }
+                handlePointerMove(e)
+              }}
               onMouseUp={handlePointerUp}
-              onMouseLeave={handlePointerUp}
+              onMouseLeave={() => {
+                canvasPointerRef.current = null
+                handlePointerUp()
+              }}
               onWheel={handleWheel}
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return
+                e.preventDefault()
+                e.dataTransfer.dropEffect = 'copy'
+              }}
+              onDrop={handleCanvasDrop}
               style={{
-                backgroundImage: showGrid
-                  ? `linear-gradient(#e2e8f0 1px, transparent 1px), linear-gradient(90deg, #e2e8f0 1px, transparent 1px)`
-                  : 'none',
-                backgroundSize: '20px 20px',
+                // Grid lines closer than a few pixels would only grey out the canvas
+                backgroundImage:
+                  showGrid && gridStep >= 4
+                    ? `linear-gradient(#e2e8f0 1px, transparent 1px), linear-gradient(90deg, #e2e8f0 1px, transparent 1px)`
+                    : 'none',
+                backgroundSize: gridStep ? `${gridStep}px ${gridStep}px` : undefined,
+                backgroundPosition: canvasView ? `${canvasView.docToContent.e}px ${canvasView.docToContent.f}px` : undefined,
+                // Scrolls along with the drawing
+                backgroundAttachment: 'local',
                 backgroundColor: canvasBg,
+                cursor: tool === 'select' ? undefined : tool === 'text' ? 'text' : 'crosshair',
               }}
             >
               {svgTree ? (
@@ -1241,16 +3415,114 @@ function App() {
                     className="flex justify-center transition-transform duration-200 ease-in-out"
                     style={{ transform: `scale(${zoom})`, transformOrigin: 'center' }}
                   >
-                  {renderNode(svgTree)}
+                  <CanvasNode node={svgTree} selectedIds={selectedIds} tool={tool} actions={canvasActions} />
                 </div>
+                  {canvasView &&
+                    guides.map((guide) => {
+                      const vertical = guide.orientation === 'vertical'
+                      const at = vertical
+                        ? applyToPoint(canvasView.docToContent, { x: guide.position, y: 0 }).x
+                        : applyToPoint(canvasView.docToContent, { x: 0, y: guide.position }).y
+                      // A few pixels either side of the line can be grabbed
+                      return (
+                        <div
+                          key={guide.id}
+                          onMouseDown={(e) => startGuideDrag(guide.id, guide.orientation, e)}
+                          title={guide.locked ? undefined : 'Drag to move; drop outside the canvas to delete'}
+                          className="absolute"
+                          style={{
+                            left: vertical ? at - 3 : 0,
+                            top: vertical ? 0 : at - 3,
+                            width: vertical ? 7 : canvasView.contentWidth,
+                            height: vertical ? canvasView.contentHeight : 7,
+                            cursor: vertical ? 'ew-resize' : 'ns-resize',
+                            pointerEvents: guide.locked || guideDrag ? 'none' : undefined,
+                          }}
+                        >
+                          <div
+                            className="absolute"
+                            style={{
+                              left: vertical ? 3 : 0,
+                              top: vertical ? 0 : 3,
+                              width: vertical ? 1 : '100%',
+                              height: vertical ? '100%' : 1,
+                              backgroundColor: guide.locked ? '#94a3b8' : '#06b6d4',
+                            }}
+                          />
+                        </div>
+                      )
+                    })}
                   {selectedIds.size > 0 && <SelectionOverlay />}
+                  {snapLines.length > 0 && (
+                    <svg className="pointer-events-none absolute left-0 top-0 overflow-visible" width="1" height="1">
+                      {snapLines.map((guide, i) => (
+                        <line
+                          key={i}
+                          x1={guide.x1}
+                          y1={guide.y1}
+                          x2={guide.x2}
+                          y2={guide.y2}
+                          stroke={guide.kind === 'spacing' ? '#f97316' : '#ec4899'}
+                          strokeWidth={1}
+                          strokeDasharray={guide.kind === 'spacing' ? '3 2' : undefined}
+                        />
+                      ))}
+                    </svg>
+                  )}
+                  {textEdit && (
+                    <textarea
+                      autoFocus
+                      value={textEdit.value}
+                      rows={Math.max(1, textEdit.value.split('\n').length)}
+                      placeholder="Type text…"
+                      onChange={(e) => editTextValue(e.target.value)}
+                      onBlur={() => finishTextEdit(true)}
+                      onMouseDown={(e) => e.stopPropagation()}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Escape') {
+                          e.preventDefault()
+                          finishTextEdit(false)
+                        } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                          e.preventDefault()
+                          finishTextEdit(true)
+                        }
+                      }}
+                      title="Enter adds a line, Cmd/Ctrl+Enter finishes, Esc cancels"
+                      className="absolute z-10 min-w-40 resize rounded-md border border-sky-400 bg-white/90 px-2 py-1 text-sm text-slate-800 shadow-lg outline-none ring-2 ring-sky-200"
+                      style={{ left: `${textEdit.position.x}px`, top: `${textEdit.position.y}px` }}
+                    />
+                  )}
                 </>
               ) : (
-                <div className="flex h-72 flex-col items-center justify-center text-slate-500">
-                  <p className="text-sm">Upload or paste an SVG to start editing.</p>
+                <div className="flex h-72 flex-col items-center justify-center gap-3 text-slate-500">
+                  {restoreOffer ? (
+                    <>
+                      <p className="text-sm">
+                        Restore “{restoreOffer.name}” from your last session ({new Date(restoreOffer.session.savedAt).toLocaleString()})?
+                      </p>
+                      <div className="flex gap-2">
+                        <button
+                          className="rounded-md bg-sky-600 px-3 py-1.5 text-sm font-medium text-white shadow-sm transition hover:bg-sky-700"
+                          onClick={() => openDocument(restoreOffer.session.documentId, restoreOffer.session.view)}
+                        >
+                          Restore
+                        </button>
+                        <button
+                          className="rounded-md border border-slate-200 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50"
+                          onClick={declineRestore}
+                          title="The document stays in My documents"
+                        >
+                          Start fresh
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-sm">Upload or paste an SVG to start editing.</p>
+                  )}
                 </div>
               )}
             </div>
+            </div>
           </section>
 
           <section className="glass scroll-slim lg:col-span-4 space-y-4 rounded-2xl p-4 shadow-soft">
@@ -1275,13 +3547,205 @@ function App() {
                 value={rawSvg}
                 onChange={(e) => handleSvgInput(e.target.value)}
               />
+              {svgTree && (
+                <div className="flex items-center justify-between text-xs text-slate-500">
+                  <span>Or drop .svg files on the canvas to place them</span>
+                  <label
+                    className="cursor-pointer rounded-md border border-slate-200 bg-white px-2 py-1 font-medium text-slate-700 shadow-sm transition hover:bg-slate-50"
+                    title="Add SVG files to this document as new groups, centered on the page"
+                  >
+                    Place SVG…
+                    <input
+                      type="file"
+                      accept=".svg,image/svg+xml"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        const files = Array.from(e.target.files ?? [])
+                        e.target.value = ''
+                        if (files.length) placeFiles(files, null)
+                      }}
+                    />
+                  </label>
+                </div>
+              )}
             </div>
 
+            {showLibrary && (
+              <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-slate-700">My documents</span>
+                  <span className="text-xs text-slate-500">
+                    {savedAt && currentDocument ? `Saved ${new Date(savedAt).toLocaleTimeString()}` : 'Autosaves while you edit'}
+                  </span>
+                </div>
+                {storageIssue && <p className="rounded-md bg-amber-50 px-2 py-1 text-xs text-amber-800">{storageIssue}</p>}
+                <div className="scroll-slim max-h-56 overflow-y-auto">
+                  {library.length === 0 && <p className="py-2 text-xs text-slate-500">Nothing saved in this browser yet.</p>}
+                  {library.map((entry) => (
+                    <div
+                      key={entry.id}
+                      className={`flex items-center gap-2 rounded-md px-2 py-1 text-xs ${entry.id === currentDocument?.id ? 'bg-sky-50' : 'hover:bg-slate-50'}`}
+                    >
+                      {renamingDocument === entry.id ? (
+                        <input
+                          autoFocus
+                          defaultValue={entry.name}
+                          onBlur={(e) => renameInLibrary(entry.id, e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') renameInLibrary(entry.id, e.currentTarget.value)
+                            else if (e.key === 'Escape') setRenamingDocument(null)
+                          }}
+                          className="min-w-0 flex-1 rounded border border-sky-400 px-1 py-0.5 text-xs text-slate-800 outline-none"
+                        />
+                      ) : (
+                        <button
+                          className={`min-w-0 flex-1 truncate text-left ${entry.id === currentDocument?.id ? 'font-semibold text-sky-700' : 'text-slate-700'}`}
+                          onClick={() => entry.id !== currentDocument?.id && openDocument(entry.id)}
+                          onDoubleClick={() => setRenamingDocument(entry.id)}
+                          title={`Open (double-click to rename) · last changed ${new Date(entry.updatedAt).toLocaleString()}`}
+                        >
+                          {entry.name}
+                        </button>
+                      )}
+                      <span className="shrink-0 text-slate-400">{formatBytes(entry.size)}</span>
+                      <button className="shrink-0 text-slate-500 hover:text-slate-800" onClick={() => setRenamingDocument(entry.id)} title="Rename">
+                        ✎
+                      </button>
+                      <button className="shrink-0 text-slate-500 hover:text-slate-800" onClick={() => duplicateInLibrary(entry.id, entry.name)} title="Duplicate">
+                        ⧉
+                      </button>
+                      <button className="shrink-0 text-slate-500 hover:text-rose-600" onClick={() => deleteFromLibrary(entry.id, entry.name)} title="Delete">
+                        🗑
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-slate-500">
+                    {storageUsage ? `Using ${formatBytes(storageUsage.usage)} of ${formatBytes(storageUsage.quota)}` : ''}
+                  </span>
+                  <div className="flex gap-1">
+                    <button
+                      className="rounded-md border border-slate-200 bg-white px-2 py-1 font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                      onClick={exportLibraryFile}
+                      disabled={library.length === 0}
+                      title="Download every document as one JSON archive"
+                    >
+                      Export library
+                    </button>
+                    <label
+                      className="cursor-pointer rounded-md border border-slate-200 bg-white px-2 py-1 font-medium text-slate-700 shadow-sm transition hover:bg-slate-50"
+                      title="Add the documents from an exported library archive"
+                    >
+                      Import…
+                      <input
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0]
+                          e.target.value = ''
+                          if (file) importLibraryFile(file)
+                        }}
+                      />
+                    </label>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {showLayers && svgTree && (
+              <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-slate-700">Layers</span>
+                  <label className="flex items-center gap-1 text-xs text-slate-600" title="What renaming a layer (double-click) writes">
+                    Rename as
+                    <select
+                      value={layerNames}
+                      onChange={(e) => setLayerNames(e.target.value as LayerNames)}
+                      className="rounded-md border border-slate-200 bg-white px-1 py-0.5 text-xs text-slate-700 outline-none focus:border-sky-400"
+                    >
+                      <option value="label">Label</option>
+                      <option value="id">Id</option>
+                    </select>
+                  </label>
+                </div>
+                <div
+                  ref={layersListRef}
+                  className="max-h-72 overflow-y-auto rounded-lg border border-slate-200 p-1"
+                  onDragLeave={(e) => {
+                    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setLayerDrop(null)
+                  }}
+                >
+                  {svgTree.children.some(isLayerNode) ? (
+                    svgTree.children
+                      .filter(isLayerNode)
+                      .reverse()
+                      .map((child) => (
+                        <LayerRow
+                          key={child.id}
+                          node={child}
+                          level={0}
+                          view={{ selectedIds, collapsed: collapsedLayers, renaming: renamingLayer, names: layerNames, drop: layerDrop }}
+                          actions={layerActions}
+                        />
+                      ))
+                  ) : (
+                    <p className="px-2 py-1 text-xs text-slate-400">The document is empty</p>
+                  )}
+                </div>
+                <div className="grid grid-cols-4 gap-1">
+                  {STACKING_ACTIONS.map(({ to, label, title }) => (
+                    <button
+                      key={to}
+                      className="rounded-md border border-slate-200 bg-white px-1 py-1.5 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                      onClick={() => reorderSelected(to)}
+                      disabled={!alignableCount}
+                      title={title}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {showHistory && svgTree && (
+              <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-slate-700">History</span>
+                  <span className="text-xs text-slate-500" title="Estimated memory used by undo steps; the oldest are dropped beyond the budget">
+                    {formatBytes(history.size)} of {formatBytes(DEFAULT_HISTORY_BUDGET)}
+                  </span>
+                </div>
+                <div className="scroll-slim max-h-56 overflow-y-auto text-xs">
+                  {[{ label: 'Start', time: null }, ...history.entries].map((entry, index) => (
+                    <button
+                      key={index}
+                      className={`flex w-full items-center justify-between gap-2 rounded-md px-2 py-1 text-left ${
+                        index === history.index
+                          ? 'bg-sky-50 font-semibold text-sky-700'
+                          : index > history.index
+                            ? 'text-slate-400 hover:bg-slate-50'
+                            : 'text-slate-700 hover:bg-slate-50'
+                      }`}
+                      onClick={() => jumpToHistory(index)}
+                      title={index > history.index ? 'Redo up to this step' : 'Undo back to this step'}
+                    >
+                      <span className="truncate">{entry.label}</span>
+                      {entry.time !== null && <span className="shrink-0 text-slate-400">{new Date(entry.time).toLocaleTimeString()}</span>}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="grid gap-3 rounded-xl border border-slate-200 bg-white p-3 sm:grid-cols-2">
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium text-slate-700">Fill color</span>
-                  <span className="text-xs text-slate-500">{fillColor}</span>
+                  <span className="text-xs text-slate-500">{paintLabel('fill') ?? fillColor}</span>
                 </div>
                 <div className="overflow-hidden rounded-lg border border-slate-200 bg-slate-50 p-2">
                   <HexColorPicker
@@ -1297,7 +3761,7 @@ function App() {
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium text-slate-700">Stroke</span>
-                  <span className="text-xs text-slate-500">{strokeColor}</span>
+                  <span className="text-xs text-slate-500">{paintLabel('stroke') ?? strokeColor}</span>
                 </div>
                 <div className="overflow-hidden rounded-lg border border-slate-200 bg-slate-50 p-2">
                   <HexColorPicker
@@ -1408,23 +3872,274 @@ function App() {
               </div>
             </div>
 
+            <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-slate-700">Paint</span>
+                <div className="flex rounded-md bg-slate-100 p-0.5">
+                  {(['fill', 'stroke'] as const).map((property) => (
+                    <button
+                      key={property}
+                      className={`rounded px-2 py-0.5 text-xs font-medium capitalize transition ${
+                        paintTarget === property ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                      }`}
+                      onClick={() => setPaintTarget(property)}
+                    >
+                      {property}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {(['flat', 'linear', 'radial'] as const).map((type) => (
+                  <button
+                    key={type}
+                    className={`rounded-md px-2 py-1 text-xs font-medium capitalize shadow-sm transition disabled:cursor-not-allowed disabled:opacity-50 ${
+                      (paintGradient?.gradient.kind ?? 'flat') === type ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                    }`}
+                    onClick={() => setPaintType(type)}
+                    disabled={!paintTargetIds.length}
+                  >
+                    {type}
+                  </button>
+                ))}
+              </div>
+              {paintGradient && (
+                <div className="space-y-2">
+                  {paintGradient.users.length > 1 && (
+                    <div className="flex items-center justify-between gap-2 rounded-md bg-amber-50 px-2 py-1 text-xs text-amber-800">
+                      <span>
+                        #{paintGradient.gradient.id} is shared by {paintGradient.users.length} elements; edits change all of them.
+                      </span>
+                      <button className="shrink-0 font-semibold text-amber-900 hover:underline" onClick={makeGradientUnique}>
+                        Make unique
+                      </button>
+                    </div>
+                  )}
+                  <div
+                    className="h-4 rounded border border-slate-200"
+                    style={{ backgroundImage: `${gradientPreview(paintGradient.gradient)}, repeating-conic-gradient(#e2e8f0 0% 25%, white 0% 50%) 50% / 8px 8px` }}
+                  />
+                  <div className="space-y-1">
+                    {paintGradient.gradient.stops.map((stop, index) => (
+                      <div
+                        key={index}
+                        className={`flex items-center gap-1 rounded-md px-1 py-0.5 ${index === activeStop ? 'bg-sky-50 ring-1 ring-sky-200' : ''}`}
+                      >
+                        <button
+                          className="h-5 w-5 shrink-0 rounded border border-slate-300"
+                          style={{ backgroundColor: stop.color, opacity: Math.max(stop.opacity, 0.15) }}
+                          onClick={() => setActiveStop(index)}
+                          title="Edit this stop's color"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={Math.round(stop.offset * 100)}
+                          onChange={(e) => updateStop(index, { offset: Math.min(1, Math.max(0, Number(e.target.value) / 100)) })}
+                          className="w-14 rounded-md border border-slate-200 bg-white px-1 py-0.5 text-xs text-slate-800 outline-none focus:border-sky-400"
+                          title="Offset (%)"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          max="1"
+                          step="0.05"
+                          value={stop.opacity}
+                          onChange={(e) => updateStop(index, { opacity: Math.min(1, Math.max(0, Number(e.target.value))) })}
+                          className="w-14 rounded-md border border-slate-200 bg-white px-1 py-0.5 text-xs text-slate-800 outline-none focus:border-sky-400"
+                          title="Opacity"
+                        />
+                        <div className="ml-auto flex">
+                          <button
+                            className="rounded px-1 text-xs text-slate-500 hover:bg-slate-100 hover:text-slate-800 disabled:opacity-30"
+                            onClick={() => updateGradient({ ...paintGradient.gradient, stops: moveStop(paintGradient.gradient.stops, index, -1) })}
+                            disabled={index === 0}
+                            title="Move up"
+                          >
+                            ↑
+                          </button>
+                          <button
+                            className="rounded px-1 text-xs text-slate-500 hover:bg-slate-100 hover:text-slate-800 disabled:opacity-30"
+                            onClick={() => updateGradient({ ...paintGradient.gradient, stops: moveStop(paintGradient.gradient.stops, index, 1) })}
+                            disabled={index === paintGradient.gradient.stops.length - 1}
+                            title="Move down"
+                          >
+                            ↓
+                          </button>
+                          <button
+                            className="rounded px-1 text-xs text-slate-500 hover:bg-slate-100 hover:text-slate-800 disabled:opacity-30"
+                            onClick={() => {
+                              updateGradient({ ...paintGradient.gradient, stops: paintGradient.gradient.stops.filter((_, i) => i !== index) })
+                              setActiveStop(0)
+                            }}
+                            disabled={paintGradient.gradient.stops.length <= 2}
+                            title="Remove stop"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <button
+                      className="text-xs font-semibold text-sky-600 hover:text-sky-700"
+                      onClick={() => updateGradient({ ...paintGradient.gradient, stops: addStop(paintGradient.gradient.stops) })}
+                    >
+                      + Add stop
+                    </button>
+                    <label className="flex items-center gap-1 text-xs text-slate-600">
+                      <span>Spread</span>
+                      <select
+                        value={paintGradient.gradient.spreadMethod}
+                        onChange={(e) => updateGradient({ ...paintGradient.gradient, spreadMethod: e.target.value as Gradient['spreadMethod'] })}
+                        className="rounded-md border border-slate-200 bg-white px-1 py-0.5 text-xs text-slate-800 outline-none focus:border-sky-400"
+                      >
+                        <option value="pad">pad</option>
+                        <option value="reflect">reflect</option>
+                        <option value="repeat">repeat</option>
+                      </select>
+                    </label>
+                  </div>
+                  {paintGradient.gradient.stops[activeStop] && (
+                    <div className="overflow-hidden rounded-lg border border-slate-200 bg-slate-50 p-2">
+                      <HexColorPicker
+                        color={paintGradient.gradient.stops[activeStop].color}
+                        onChange={(color) => updateStop(activeStop, { color }, true)}
+                      />
+                    </div>
+                  )}
+                  <p className="text-xs text-slate-500">Drag the orange handles on the canvas to move the gradient.</p>
+                </div>
+              )}
+            </div>
+
             <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-3">
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium text-slate-700">Text</span>
-                <span className="text-xs text-slate-500">Works on text nodes</span>
+                <span className="text-xs text-slate-500">One line per row; double-click text to edit in place</span>
               </div>
-              <input
-                type="text"
+              <textarea
+                rows={Math.min(6, Math.max(2, textValue.split('\n').length))}
                 value={textValue}
                 onChange={(e) => {
                   setTextValue(e.target.value)
                   updateText(e.target.value)
                 }}
                 placeholder="Edit selected text"
-                className="w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-800 shadow-inner outline-none focus:border-sky-400 focus:bg-white focus:ring-2 focus:ring-sky-200"
+                className="w-full resize-none rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-800 shadow-inner outline-none focus:border-sky-400 focus:bg-white focus:ring-2 focus:ring-sky-200"
               />
             </div>
 
+            <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-slate-700">Typography</span>
+                <span className="text-xs text-slate-500">Selected text and new text</span>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="col-span-2 flex flex-col gap-1">
+                  <span className="text-xs text-slate-600">Font family</span>
+                  <input
+                    list="font-families"
+                    value={typography['font-family']}
+                    onChange={(e) => updateTypography('font-family', e.target.value)}
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1 text-sm text-slate-800 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-200"
+                  />
+                  <datalist id="font-families">
+                    {FONT_FAMILIES.map((family) => (
+                      <option key={family} value={family} />
+                    ))}
+                  </datalist>
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-slate-600">Size</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={typography['font-size']}
+                    onChange={(e) => updateTypography('font-size', e.target.value)}
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1 text-sm text-slate-800 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-200"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-slate-600">Line height</span>
+                  <input
+                    type="number"
+                    min="0.5"
+                    step="0.05"
+                    value={lineHeight}
+                    onChange={(e) => updateLineHeight(Number(e.target.value))}
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1 text-sm text-slate-800 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-200"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-slate-600">Weight</span>
+                  <select
+                    value={typography['font-weight']}
+                    onChange={(e) => updateTypography('font-weight', e.target.value)}
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1 text-sm text-slate-800 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-200"
+                  >
+                    {['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'].map((weight) => (
+                      <option key={weight} value={weight}>
+                        {weight}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-slate-600">Style</span>
+                  <select
+                    value={typography['font-style']}
+                    onChange={(e) => updateTypography('font-style', e.target.value)}
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1 text-sm text-slate-800 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-200"
+                  >
+                    <option value="normal">normal</option>
+                    <option value="italic">italic</option>
+                    <option value="oblique">oblique</option>
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-slate-600">Letter spacing</span>
+                  <input
+                    type="number"
+                    step="0.5"
+                    value={typography['letter-spacing']}
+                    onChange={(e) => updateTypography('letter-spacing', e.target.value)}
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1 text-sm text-slate-800 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-200"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-slate-600">Baseline</span>
+                  <select
+                    value={typography['dominant-baseline']}
+                    onChange={(e) => updateTypography('dominant-baseline', e.target.value)}
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1 text-sm text-slate-800 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-200"
+                  >
+                    {DOMINANT_BASELINES.map((baseline) => (
+                      <option key={baseline} value={baseline}>
+                        {baseline}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {(['start', 'middle', 'end'] as const).map((anchor) => (
+                  <button
+                    key={anchor}
+                    className={`rounded-md px-2 py-1 text-xs font-medium capitalize shadow-sm transition ${
+                      typography['text-anchor'] === anchor ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                    }`}
+                    onClick={() => updateTypography('text-anchor', anchor)}
+                    title={`text-anchor: ${anchor}`}
+                  >
+                    {anchor}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="grid grid-cols-2 gap-3 rounded-xl border border-slate-200 bg-white p-3">
               <label className="flex flex-col gap-1">
                 <span className="text-sm font-medium text-slate-700">Opacity</span>
@@ -1449,6 +4164,61 @@ function App() {
               </label>
             </div>
 
+            {activePathNode && (
+              <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-slate-700">Path Node</span>
+                  <span className="text-xs text-slate-500">Double-click the outline to add nodes</span>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['corner', 'smooth', 'symmetric'] as NodeType[]).map((type) => (
+                    <button
+                      key={type}
+                      className={`rounded-md px-2 py-1 text-xs font-medium capitalize shadow-sm transition ${
+                        activePathNode.type === type ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                      }`}
+                      onClick={() => editGeometry(activePathNode.id, (segments) => setNodeType(segments, activePathNode.index, type), (points) => points)}
+                    >
+                      {type}
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    className="rounded-md bg-slate-100 px-2 py-1 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-200 disabled:cursor-not-allowed disabled:opacity-50"
+                    onClick={() => editGeometry(activePathNode.id, (segments) => convertSegment(segments, activePathNode.index, 'line'), (points) => points)}
+                    disabled={activePathNode.segment.type === 'M' || activePathNode.segment.type === 'L'}
+                    title="Straighten the segment ending at this node"
+                  >
+                    Segment to line
+                  </button>
+                  <button
+                    className="rounded-md bg-slate-100 px-2 py-1 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-200 disabled:cursor-not-allowed disabled:opacity-50"
+                    onClick={() => editGeometry(activePathNode.id, (segments) => convertSegment(segments, activePathNode.index, 'curve'), (points) => points)}
+                    disabled={activePathNode.segment.type === 'M' || activePathNode.segment.type === 'C'}
+                    title="Turn the segment ending at this node into a curve"
+                  >
+                    Segment to curve
+                  </button>
+                  <button
+                    className="rounded-md bg-slate-100 px-2 py-1 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-200 disabled:cursor-not-allowed disabled:opacity-50"
+                    onClick={() => editGeometry(activePathNode.id, (segments) => insertNode(segments, activePathNode.index), (points) => points)}
+                    disabled={activePathNode.segment.type === 'M'}
+                    title="Add a node halfway along the segment ending at this node"
+                  >
+                    Add node before
+                  </button>
+                  <button
+                    className="rounded-md bg-rose-600 px-2 py-1 text-xs font-medium text-white shadow-sm transition hover:bg-rose-700"
+                    onClick={() => removeEditableNode(activePathNode.id, activePathNode.index)}
+                    title="Delete node (Delete/Backspace)"
+                  >
+                    Delete node
+                  </button>
+                </div>
+              </div>
+            )}
+
             <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-3">
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium text-slate-700">Element Actions</span>
@@ -1496,20 +4266,342 @@ function App() {
                 >
                   📦 Ungroup
                 </button>
+                <button
+                  className="rounded-md bg-slate-700 px-3 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => clipSelected('clip-path')}
+                  disabled={selectedNodes.length < 2 || (svgTree ? selectedIds.has(svgTree.id) : false)}
+                  title="Clip the other selected elements with the topmost one"
+                >
+                  ✂️ Clip
+                </button>
+                <button
+                  className="rounded-md bg-slate-700 px-3 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => clipSelected('mask')}
+                  disabled={selectedNodes.length < 2 || (svgTree ? selectedIds.has(svgTree.id) : false)}
+                  title="Mask the other selected elements with the topmost one"
+                >
+                  🎭 Mask
+                </button>
+                <button
+                  className="rounded-md bg-slate-700 px-3 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={releaseSelected}
+                  disabled={!selectedNodes.some((node) => getAttrOrStyle(node, 'clip-path') || getAttrOrStyle(node, 'mask'))}
+                  title="Release the clip path or mask"
+                >
+                  ↩️ Release
+                </button>
+                <button
+                  className="rounded-md bg-slate-700 px-3 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={patternFromSelection}
+                  disabled={selectedNodes.length === 0 || (svgTree ? selectedIds.has(svgTree.id) : false)}
+                  title="Turn the selection into a pattern fill"
+                >
+                  ▦ Pattern
+                </button>
+              </div>
+              <div className="mt-2 grid grid-cols-3 gap-1">
+                <button
+                  className="rounded-md border border-slate-200 bg-white px-1 py-1.5 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => copyToSystemClipboard(false)}
+                  disabled={selectedNodes.length === 0 || (svgTree ? selectedIds.has(svgTree.id) : false)}
+                  title="Copy the selection as SVG (Cmd/Ctrl+C)"
+                >
+                  Copy
+                </button>
+                <button
+                  className="rounded-md border border-slate-200 bg-white px-1 py-1.5 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => copyToSystemClipboard(true)}
+                  disabled={selectedNodes.length === 0 || (svgTree ? selectedIds.has(svgTree.id) : false)}
+                  title="Cut the selection as SVG (Cmd/Ctrl+X)"
+                >
+                  Cut
+                </button>
+                <button
+                  className="rounded-md border border-slate-200 bg-white px-1 py-1.5 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={pasteFromSystemClipboard}
+                  title="Paste SVG in place (Cmd/Ctrl+Shift+V); Cmd/Ctrl+V pastes at the pointer"
+                >
+                  Paste
+                </button>
+              </div>
+              <label className="mt-2 flex items-center justify-between text-xs text-slate-600">
+                Duplicate offset
+                <input
+                  type="number"
+                  step="1"
+                  value={duplicateOffset}
+                  onChange={(e) => setDuplicateOffset(Number(e.target.value))}
+                  className="w-16 rounded-md border border-slate-200 px-2 py-1 text-xs text-slate-700 outline-none focus:border-sky-400"
+                  title="How far duplicates move right and down from the originals, in document units"
+                />
+              </label>
+              <div className="mt-2 grid grid-cols-5 gap-1">
+                {BOOLEAN_ACTIONS.map(({ operation, label, title }) => (
+                  <button
+                    key={operation}
+                    className="rounded-md border border-slate-200 bg-white px-1 py-1.5 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    onClick={() => combineSelected(operation)}
+                    disabled={selectedNodes.length < 2 || !onlyShapesSelected}
+                    title={title}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="mt-2 grid grid-cols-3 gap-1">
+                {PATH_ACTIONS.map(({ type, label, title }) => (
+                  <button
+                    key={type}
+                    className="rounded-md border border-slate-200 bg-white px-1 py-1.5 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    onClick={() => editSelectedPaths(type)}
+                    disabled={type === 'join' ? selectedNodes.length < 2 || !onlyShapesSelected : !hasShapeSelected}
+                    title={title}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="mt-2 flex items-center gap-1">
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.1"
+                  value={simplifyTolerance}
+                  onChange={(e) => setSimplifyTolerance(Number(e.target.value))}
+                  className="w-16 rounded-md border border-slate-200 px-2 py-1 text-xs text-slate-700 outline-none focus:border-sky-400"
+                  title="Simplify tolerance, in document units"
+                />
+                <button
+                  className="flex-1 rounded-md border border-slate-200 bg-white px-1 py-1.5 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => runSelectionCommand((ids) => ({ type: 'simplify', ids, tolerance: simplifyTolerance }))}
+                  disabled={!hasShapeSelected}
+                  title="Redraw paths with fewer nodes, staying within the tolerance"
+                >
+                  Simplify
+                </button>
+              </div>
+              <div className="mt-2 flex items-center gap-1">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={offsetDistance}
+                  onChange={(e) => setOffsetDistance(Number(e.target.value))}
+                  className="w-16 rounded-md border border-slate-200 px-2 py-1 text-xs text-slate-700 outline-none focus:border-sky-400"
+                  title="Offset distance, in document units"
+                />
+                <button
+                  className="flex-1 rounded-md border border-slate-200 bg-white px-1 py-1.5 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => runSelectionCommand((ids) => ({ type: 'offset', ids, distance: -offsetDistance }))}
+                  disabled={!hasShapeSelected || !(offsetDistance > 0)}
+                  title="Shrink the shapes by the distance"
+                >
+                  Inset
+                </button>
+                <button
+                  className="flex-1 rounded-md border border-slate-200 bg-white px-1 py-1.5 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => runSelectionCommand((ids) => ({ type: 'offset', ids, distance: offsetDistance }))}
+                  disabled={!hasShapeSelected || !(offsetDistance > 0)}
+                  title="Grow the shapes by the distance"
+                >
+                  Outset
+                </button>
               </div>
             </div>
 
             <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-3">
               <div className="flex items-center justify-between">
-                <span className="text-sm font-medium text-slate-700">Export</span>
+                <span className="text-sm font-medium text-slate-700">Align &amp; Distribute</span>
+                <select
+                  value={alignReference}
+                  onChange={(e) => setAlignReference(e.target.value as AlignReference)}
+                  className="rounded-md border border-slate-200 bg-white px-1 py-0.5 text-xs text-slate-700 outline-none focus:border-sky-400"
+                  title="Align relative to"
+                >
+                  <option value="selection">Selection</option>
+                  <option value="key">First selected</option>
+                  <option value="page">Page</option>
+                </select>
+              </div>
+              <div className="grid grid-cols-6 gap-1">
+                {ALIGN_ACTIONS.map(({ edge, icon, title }) => (
+                  <button
+                    key={edge}
+                    className="rounded-md border border-slate-200 bg-white px-1 py-1.5 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    onClick={() => alignSelected(edge)}
+                    disabled={alignableCount < (alignReference === 'page' ? 1 : 2)}
+                    title={title}
+                  >
+                    {icon}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-4 gap-1">
+                {DISTRIBUTE_ACTIONS.map(({ axis, mode, label, title }) => (
+                  <button
+                    key={`${axis}-${mode}`}
+                    className="rounded-md border border-slate-200 bg-white px-1 py-1.5 text-xs font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    onClick={() => distributeSelected(axis, mode)}
+                    disabled={alignableCount < (alignReference === 'page' ? 1 : 3)}
+                    title={title}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-slate-700">Guides</span>
                 <button
-                  className="text-xs font-semibold text-sky-600 hover:text-sky-700"
-                  onClick={copyToClipboard}
-                  disabled={!svgTree}
+                  className="text-xs font-semibold text-rose-600 hover:text-rose-700 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => updateGuides(() => [])}
+                  disabled={!guides.length}
                 >
-                  Copy
+                  Clear all
                 </button>
               </div>
+              {guides.length ? (
+                <div className="space-y-1">
+                  {guides.map((guide) => (
+                    <div key={guide.id} className="flex items-center gap-2 text-xs text-slate-600">
+                      <span className="w-4 text-center" title={guide.orientation === 'vertical' ? 'Vertical guide (x)' : 'Horizontal guide (y)'}>
+                        {guide.orientation === 'vertical' ? '┃' : '━'}
+                      </span>
+                      {/* Applied on blur or Enter, so partly typed numbers don't move the guide */}
+                      <input
+                        key={guide.position}
+                        type="number"
+                        defaultValue={formatNumber(guide.position, 3)}
+                        onBlur={(e) => {
+                          const position = Number(e.target.value)
+                          if (e.target.value !== '' && Number.isFinite(position) && position !== guide.position) {
+                            updateGuides((current) => current.map((other) => (other.id === guide.id ? { ...other, position } : other)))
+                          }
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') e.currentTarget.blur()
+                        }}
+                        className="w-20 rounded-md border border-slate-200 px-2 py-1 text-xs text-slate-700 outline-none focus:border-sky-400"
+                        title="Position in user units"
+                      />
+                      <label className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={guide.locked}
+                          onChange={(e) =>
+                            updateGuides((current) => current.map((other) => (other.id === guide.id ? { ...other, locked: e.target.checked } : other)))
+                          }
+                          className="rounded border-slate-300"
+                        />
+                        Locked
+                      </label>
+                      <button
+                        className="ml-auto text-slate-400 hover:text-rose-600"
+                        onClick={() => updateGuides((current) => current.filter((other) => other.id !== guide.id))}
+                        title="Delete guide"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-slate-500">Drag from a ruler onto the canvas to add a guide.</p>
+              )}
+            </div>
+
+            <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-slate-700">Export</span>
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-1 text-xs text-slate-600" title="Keep the guides' metadata in exported files">
+                    <input
+                      type="checkbox"
+                      checked={exportGuides}
+                      onChange={(e) => setExportGuides(e.target.checked)}
+                      className="rounded border-slate-300"
+                    />
+                    Guides
+                  </label>
+                  <label className="flex items-center gap-1 text-xs text-slate-600" title="Optimize downloaded SVG files">
+                    <input
+                      type="checkbox"
+                      checked={optimizeExport}
+                      onChange={(e) => setOptimizeExport(e.target.checked)}
+                      className="rounded border-slate-300"
+                    />
+                    Optimize
+                  </label>
+                  <button
+                    className="text-xs font-semibold text-sky-600 hover:text-sky-700 disabled:opacity-50"
+                    onClick={openOptimizer}
+                    disabled={!svgTree}
+                    title="Choose optimization passes and compare the result"
+                  >
+                    Passes…
+                  </button>
+                  <select
+                    value={exportFormat}
+                    onChange={(e) => setExportFormat(e.target.value as 'compact' | 'pretty')}
+                    className="rounded-md border border-slate-200 bg-white px-1 py-0.5 text-xs text-slate-700 outline-none focus:border-sky-400"
+                    title="Output formatting"
+                  >
+                    <option value="compact">Compact</option>
+                    <option value="pretty">Pretty</option>
+                  </select>
+                  <button
+                    className="text-xs font-semibold text-sky-600 hover:text-sky-700"
+                    onClick={copyToClipboard}
+                    disabled={!svgTree}
+                  >
+                    Copy
+                  </button>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                <span>Downloads cover</span>
+                <select
+                  value={exportScope}
+                  onChange={(e) => setExportScope(e.target.value as ExportScope)}
+                  className="rounded-md border border-slate-200 bg-white px-1 py-0.5 text-xs text-slate-700 outline-none focus:border-sky-400"
+                  title="What Download SVG, Export image and Export PDF save"
+                >
+                  <option value="document">Whole document</option>
+                  <option value="selection">Selection</option>
+                  <option value="region">Region</option>
+                </select>
+                {exportScope === 'selection' && (
+                  <label className="flex items-center gap-1" title="Room left around the selected elements, in document units">
+                    Padding
+                    <input
+                      type="number"
+                      min={0}
+                      value={exportPadding}
+                      onChange={(e) => setExportPadding(Math.max(0, Number(e.target.value) || 0))}
+                      className="w-14 rounded-md border border-slate-200 px-1 py-0.5"
+                    />
+                  </label>
+                )}
+                {exportScope === 'region' && (
+                  <>
+                    <button
+                      className="font-semibold text-sky-600 hover:text-sky-700 disabled:opacity-50"
+                      onClick={() => setPickingRegion(true)}
+                      disabled={!svgTree}
+                    >
+                      {exportRegion ? 'Pick again' : 'Pick region'}
+                    </button>
+                    {exportRegion && (
+                      <span>
+                        {formatNumber(exportRegion.width, 2)} × {formatNumber(exportRegion.height, 2)} at {formatNumber(exportRegion.x, 2)},{' '}
+                        {formatNumber(exportRegion.y, 2)}
+                      </span>
+                    )}
+                  </>
+                )}
+              </div>
               <textarea
                 value={exportSvg()}
                 readOnly
@@ -1521,41 +4613,403 @@ function App() {
         </div>
       </div>
 
-      {/* Element Tree View */}
-      {showTreeView && svgTree && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={() => setShowTreeView(false)}>
-          <div className="max-h-[80vh] w-full max-w-2xl rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+      {/* Export region picker */}
+      {pickingRegion && (
+        <div
+          className="fixed inset-0 z-40 cursor-crosshair"
+          onMouseDown={(e) => setRegionDrag({ start: { x: e.clientX, y: e.clientY }, end: { x: e.clientX, y: e.clientY } })}
+          onMouseMove={(e) => {
+            if (regionDrag) setRegionDrag({ ...regionDrag, end: { x: e.clientX, y: e.clientY } })
+          }}
+          onMouseUp={(e) => finishRegionPick({ x: e.clientX, y: e.clientY })}
+        >
+          <div className="pointer-events-none absolute left-1/2 top-4 -translate-x-1/2 rounded-lg bg-slate-900/80 px-3 py-1.5 text-sm text-white">
+            Drag a rectangle over the canvas to export it · Esc cancels
+          </div>
+          {regionDrag && (
+            <div
+              className="pointer-events-none absolute border-2 border-dashed border-sky-500 bg-sky-500/10"
+              style={{
+                left: Math.min(regionDrag.start.x, regionDrag.end.x),
+                top: Math.min(regionDrag.start.y, regionDrag.end.y),
+                width: Math.abs(regionDrag.end.x - regionDrag.start.x),
+                height: Math.abs(regionDrag.end.y - regionDrag.start.y),
+              }}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Raster export */}
+      {/* PDF export warnings */}
+      {pdfWarnings && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={() => setPdfWarnings(null)}>
+          <div className="w-full max-w-lg rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
             <div className="mb-4 flex items-center justify-between">
-              <h2 className="text-xl font-semibold text-slate-900">Element Tree</h2>
+              <h2 className="text-xl font-semibold text-slate-900">PDF exported with warnings</h2>
+              <button onClick={() => setPdfWarnings(null)} className="rounded-lg p-2 text-slate-500 hover:bg-slate-100">
+                ✕
+              </button>
+            </div>
+            <p className="mb-3 text-sm text-slate-600">The PDF was downloaded, but it differs from the SVG:</p>
+            <ul className="max-h-72 list-disc space-y-1 overflow-auto pl-5 text-sm text-slate-700">
+              {pdfWarnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+            <button
+              className="mt-4 w-full rounded-lg bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700"
+              onClick={() => setPdfWarnings(null)}
+            >
+              OK
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showRasterExport && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={() => setShowRasterExport(false)}>
+          <div className="w-full max-w-3xl rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-slate-900">Export image</h2>
               <button
-                onClick={() => setShowTreeView(false)}
+                onClick={() => setShowRasterExport(false)}
                 className="rounded-lg p-2 text-slate-500 hover:bg-slate-100"
               >
                 ✕
               </button>
             </div>
-            <div className="max-h-[60vh] overflow-auto rounded-lg border border-slate-200 p-4">
-              <TreeNode
-                node={svgTree}
-                selectedIds={selectedIds}
-                onSelect={(id, multi) => {
-                  if (multi) {
-                    setSelectedIds((prev) => {
-                      const next = new Set(prev)
-                      if (next.has(id)) {
-                        next.delete(id)
-                      } else {
-                        next.add(id)
-                      }
-                      return next
-                    })
-                  } else {
-                    setSelectedIds(new Set([id]))
-                    setShowTreeView(false)
-                  }
-                }}
-                level={0}
-              />
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-5">
+              <div className="space-y-2 md:col-span-2">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-medium text-slate-700">Presets</span>
+                  <div className="flex gap-2">
+                    <button
+                      className="font-semibold text-sky-600 hover:text-sky-700"
+                      onClick={() => setCheckedPresets(new Set(APP_ICON_PRESET_IDS.filter((id) => rasterPresets.some((p) => p.id === id))))}
+                      title="Tick every app icon size"
+                    >
+                      App icons
+                    </button>
+                    <button className="font-semibold text-slate-500 hover:text-slate-700" onClick={() => setCheckedPresets(new Set())}>
+                      None
+                    </button>
+                  </div>
+                </div>
+                <div className="scroll-slim max-h-72 space-y-0.5 overflow-auto">
+                  {rasterPresets.map((preset) => (
+                    <div
+                      key={preset.id}
+                      className={`flex items-center gap-2 rounded-md px-2 py-1 text-sm ${preset.id === rasterDraft.id ? 'bg-sky-50 text-sky-800' : 'text-slate-700 hover:bg-slate-50'}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={checkedPresets.has(preset.id)}
+                        onChange={(e) =>
+                          setCheckedPresets((checked) => {
+                            const next = new Set(checked)
+                            if (e.target.checked) next.add(preset.id)
+                            else next.delete(preset.id)
+                            return next
+                          })
+                        }
+                        className="rounded border-slate-300"
+                      />
+                      <button className="flex-1 truncate text-left" onClick={() => setRasterDraft(preset)} title="Edit this preset">
+                        {preset.name}
+                      </button>
+                      <span className="text-xs text-slate-400">{preset.format.toUpperCase()}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500">{EXPORT_SCOPE_HINTS[exportScope]}</p>
+                <button
+                  className="w-full rounded-lg bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-60"
+                  onClick={() => exportRasters(rasterPresets.filter((preset) => checkedPresets.has(preset.id)))}
+                  disabled={!checkedPresets.size || rasterExporting}
+                >
+                  {rasterExporting ? 'Exporting…' : `Export ${checkedPresets.size} ticked`}
+                </button>
+              </div>
+              <div className="space-y-3 text-sm md:col-span-3">
+                <label className="flex items-center gap-2">
+                  <span className="w-24 text-slate-600">Name</span>
+                  <input
+                    value={rasterDraft.name}
+                    onChange={(e) => editRasterDraft({ name: e.target.value })}
+                    className="flex-1 rounded-md border border-slate-200 px-2 py-1"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="w-24 text-slate-600">Format</span>
+                  <select
+                    value={rasterDraft.format}
+                    onChange={(e) => editRasterDraft({ format: e.target.value as RasterFormat })}
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1"
+                  >
+                    {RASTER_FORMATS.map(({ format, label }) => (
+                      <option key={format} value={format}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <div className="flex items-center gap-2">
+                  <span className="w-24 text-slate-600">Size</span>
+                  <select
+                    value={rasterDraft.size.mode}
+                    onChange={(e) => {
+                      const mode = e.target.value
+                      editRasterDraft({
+                        size: mode === 'scale' ? { mode, scale: 1 } : mode === 'dpi' ? { mode, dpi: 300 } : { mode: 'pixels', width: 512 },
+                      })
+                    }}
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1"
+                  >
+                    <option value="scale">Scale</option>
+                    <option value="pixels">Pixels</option>
+                    <option value="dpi">DPI</option>
+                  </select>
+                  {rasterDraft.size.mode === 'scale' && (
+                    <>
+                      {[1, 2, 3].map((scale) => (
+                        <button
+                          key={scale}
+                          className={`rounded-md px-2 py-1 text-xs font-semibold ${rasterDraft.size.mode === 'scale' && rasterDraft.size.scale === scale ? 'bg-sky-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+                          onClick={() => editRasterDraft({ size: { mode: 'scale', scale } })}
+                        >
+                          {scale}x
+                        </button>
+                      ))}
+                      <input
+                        type="number"
+                        min={0.1}
+                        step={0.1}
+                        value={rasterDraft.size.scale}
+                        onChange={(e) => {
+                          const scale = Number(e.target.value)
+                          if (scale > 0) editRasterDraft({ size: { mode: 'scale', scale } })
+                        }}
+                        className="w-16 rounded-md border border-slate-200 px-1 py-1 text-xs"
+                        title="Any multiple of the drawing's size"
+                      />
+                    </>
+                  )}
+                  {rasterDraft.size.mode === 'pixels' && (
+                    <>
+                      {(['width', 'height'] as const).map((side) => (
+                        <input
+                          key={side}
+                          type="number"
+                          min={1}
+                          placeholder={side === 'width' ? 'Width' : 'Height'}
+                          value={rasterDraft.size.mode === 'pixels' ? (rasterDraft.size[side] ?? '') : ''}
+                          onChange={(e) => {
+                            const value = Math.round(Number(e.target.value))
+                            if (rasterDraft.size.mode !== 'pixels') return
+                            editRasterDraft({ size: { ...rasterDraft.size, [side]: value > 0 ? value : undefined } })
+                          }}
+                          className="w-20 rounded-md border border-slate-200 px-1 py-1 text-xs"
+                          title="Leave one side empty to keep the drawing's proportions"
+                        />
+                      ))}
+                      <span className="text-xs text-slate-400">px</span>
+                    </>
+                  )}
+                  {rasterDraft.size.mode === 'dpi' && (
+                    <input
+                      type="number"
+                      min={1}
+                      value={rasterDraft.size.dpi}
+                      onChange={(e) => {
+                        const dpi = Number(e.target.value)
+                        if (dpi > 0) editRasterDraft({ size: { mode: 'dpi', dpi } })
+                      }}
+                      className="w-20 rounded-md border border-slate-200 px-1 py-1 text-xs"
+                      title="Pixels per inch, taking the drawing's size in CSS pixels at 96 per inch"
+                    />
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="w-24 text-slate-600">Background</span>
+                  <select
+                    value={rasterDraft.background === null ? 'transparent' : 'solid'}
+                    onChange={(e) => editRasterDraft({ background: e.target.value === 'solid' ? canvasBg : null })}
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1"
+                  >
+                    <option value="transparent">Transparent</option>
+                    <option value="solid">Solid</option>
+                  </select>
+                  {rasterDraft.background !== null && (
+                    <input
+                      type="color"
+                      value={rasterDraft.background}
+                      onChange={(e) => editRasterDraft({ background: e.target.value })}
+                      className="h-7 w-10 rounded border border-slate-200"
+                    />
+                  )}
+                  {rasterDraft.background === null && rasterDraft.format === 'jpeg' && (
+                    <span className="text-xs text-slate-400">JPEG has no transparency; white is used</span>
+                  )}
+                </div>
+                {rasterDraft.format !== 'png' && (
+                  <label className="flex items-center gap-2">
+                    <span className="w-24 text-slate-600">Quality</span>
+                    <input
+                      type="range"
+                      min={0.1}
+                      max={1}
+                      step={0.01}
+                      value={rasterDraft.quality}
+                      onChange={(e) => editRasterDraft({ quality: Number(e.target.value) })}
+                      className="flex-1"
+                    />
+                    <span className="w-10 text-right text-xs text-slate-600">{Math.round(rasterDraft.quality * 100)}%</span>
+                  </label>
+                )}
+                <label className="flex items-center gap-2">
+                  <span className="w-24 text-slate-600">File name</span>
+                  <input
+                    value={rasterDraft.fileName}
+                    onChange={(e) => editRasterDraft({ fileName: e.target.value })}
+                    className="flex-1 rounded-md border border-slate-200 px-2 py-1 font-mono text-xs"
+                  />
+                  <span className="text-xs text-slate-400">
+                    .{RASTER_FORMATS.find(({ format }) => format === rasterDraft.format)?.extension}
+                  </span>
+                </label>
+                <p className="text-xs text-slate-500">
+                  {'{name}'} is the document name; {'{preset}'}, {'{width}'}, {'{height}'} and {'{scale}'} are filled in too.
+                </p>
+                <div className="flex flex-wrap justify-end gap-2 pt-2">
+                  {rasterPresets.some((preset) => preset.id === rasterDraft.id) && (
+                    <button
+                      className="rounded-lg px-3 py-2 text-sm font-medium text-rose-600 hover:bg-rose-50"
+                      onClick={() => deleteRasterPreset(rasterDraft.id)}
+                    >
+                      Delete preset
+                    </button>
+                  )}
+                  <button
+                    className="rounded-lg bg-white px-3 py-2 text-sm font-medium text-slate-700 shadow-sm ring-1 ring-slate-200 transition hover:shadow"
+                    onClick={() => saveRasterDraft(false)}
+                  >
+                    Save preset
+                  </button>
+                  <button
+                    className="rounded-lg bg-white px-3 py-2 text-sm font-medium text-slate-700 shadow-sm ring-1 ring-slate-200 transition hover:shadow"
+                    onClick={() => saveRasterDraft(true)}
+                  >
+                    Save as new
+                  </button>
+                  <button
+                    className="rounded-lg bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-60"
+                    onClick={() => exportRasters([rasterDraft])}
+                    disabled={rasterExporting}
+                  >
+                    Export
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* SVG optimizer */}
+      {optimized && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={() => setOptimizerSource(null)}>
+          <div className="w-full max-w-3xl rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-slate-900">Optimize SVG</h2>
+              <button
+                onClick={() => setOptimizerSource(null)}
+                className="rounded-lg p-2 text-slate-500 hover:bg-slate-100"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-5">
+              <div className="space-y-2 md:col-span-2">
+                {OPTIMIZE_PASSES.map(({ pass, label }) => (
+                  <label key={pass} className="flex items-center gap-2 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={optimizeOptions.passes.includes(pass)}
+                      onChange={(e) => toggleOptimizePass(pass, e.target.checked)}
+                      className="rounded border-slate-300"
+                    />
+                    <span className="flex-1">{label}</span>
+                    {pass === 'round-numbers' && (
+                      <input
+                        type="number"
+                        min={0}
+                        max={6}
+                        value={optimizeOptions.precision}
+                        onChange={(e) => {
+                          const precision = Math.round(Number(e.target.value))
+                          if (precision >= 0 && precision <= 6) setOptimizeOptions((options) => ({ ...options, precision }))
+                        }}
+                        className="w-12 rounded-md border border-slate-200 px-1 py-0.5 text-xs"
+                        title="Decimal places"
+                      />
+                    )}
+                    {pass === 'ids' && (
+                      <select
+                        value={optimizeOptions.ids}
+                        onChange={(e) => setOptimizeOptions((options) => ({ ...options, ids: e.target.value as 'minify' | 'strip' }))}
+                        className="rounded-md border border-slate-200 bg-white px-1 py-0.5 text-xs"
+                      >
+                        <option value="minify">Minify</option>
+                        <option value="strip">Strip unused</option>
+                      </select>
+                    )}
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-3 md:col-span-3">
+                <div className="grid grid-cols-2 gap-3">
+                  {[
+                    { title: 'Before', markup: optimized.before, size: optimized.beforeSize },
+                    { title: 'After', markup: optimized.after, size: optimized.afterSize },
+                  ].map(({ title, markup, size }) => (
+                    <div key={title} className="space-y-1">
+                      <div className="flex items-center justify-between text-xs text-slate-600">
+                        <span className="font-medium">{title}</span>
+                        <span>{formatBytes(size)}</span>
+                      </div>
+                      <div
+                        className="flex h-40 items-center justify-center rounded-lg border border-slate-200 p-2"
+                        style={{ backgroundColor: canvasBg }}
+                      >
+                        <img src={svgDataUrl(markup)} alt={`${title} optimization`} className="max-h-full max-w-full" />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-sm text-slate-700">
+                  {optimized.afterSize < optimized.beforeSize
+                    ? `${formatBytes(optimized.beforeSize - optimized.afterSize)} smaller (−${Math.round((1 - optimized.afterSize / optimized.beforeSize) * 100)}%)`
+                    : 'No smaller than the original'}
+                </p>
+                <div className="flex justify-end gap-2">
+                  <button
+                    className="rounded-lg bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm ring-1 ring-slate-200 transition hover:shadow"
+                    onClick={copyOptimized}
+                  >
+                    Copy
+                  </button>
+                  <button
+                    className="rounded-lg bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700"
+                    onClick={() => {
+                      downloadSvg(optimized.after)
+                      setOptimizerSource(null)
+                    }}
+                  >
+                    Download optimized
+                  </button>
+                </div>
+              </div>
             </div>
           </div>
         </div>
@@ -1581,9 +5035,27 @@ function App() {
               <ShortcutRow keys={['Cmd/Ctrl', 'Click']} action="Toggle multi-select (add/remove)" />
               <ShortcutRow keys={['Shift', 'Click']} action="Add to selection" />
               <ShortcutRow keys={['Delete']} action="Delete selected element(s)" />
+              <ShortcutRow keys={['Cmd/Ctrl', 'C']} action="Copy selection as SVG" />
+              <ShortcutRow keys={['Cmd/Ctrl', 'X']} action="Cut selection as SVG" />
+              <ShortcutRow keys={['Cmd/Ctrl', 'V']} action="Paste SVG at the pointer" />
+              <ShortcutRow keys={['Cmd/Ctrl', 'Shift', 'V']} action="Paste SVG in place" />
               <ShortcutRow keys={['Cmd/Ctrl', 'D']} action="Duplicate element" />
               <ShortcutRow keys={['Cmd/Ctrl', 'G']} action="Group elements" />
               <ShortcutRow keys={['Cmd/Ctrl', 'Shift', 'G']} action="Ungroup elements" />
+              <ShortcutRow keys={['Cmd/Ctrl', ']']} action="Bring forward (add Shift: to front)" />
+              <ShortcutRow keys={['Cmd/Ctrl', '[']} action="Send backward (add Shift: to back)" />
+              <ShortcutRow keys={['Shift', 'Drag handle']} action="Keep proportions / snap rotation to 15°" />
+              <ShortcutRow keys={['Alt', 'Drag handle']} action="Resize from the center" />
+              <ShortcutRow keys={['Double-click', 'Outline']} action="Add a path node or polygon point" />
+              <ShortcutRow keys={['Alt', 'Drag control']} action="Move one curve handle independently" />
+              <ShortcutRow keys={['V / R / E / L / P']} action="Select, rectangle, ellipse, line or pencil tool" />
+              <ShortcutRow keys={['Shift', 'Draw']} action="Square, circle, 45° line or upright polygon" />
+              <ShortcutRow keys={['Alt', 'Draw']} action="Draw rectangles and ellipses from the center" />
+              <ShortcutRow keys={['Cmd/Ctrl', 'Drag']} action="Move, resize or draw without snapping" />
+              <ShortcutRow keys={['T']} action="Text tool: click to type, click text to edit" />
+              <ShortcutRow keys={['Double-click', 'Text']} action="Edit text in place" />
+              <ShortcutRow keys={['Cmd/Ctrl', 'Enter']} action="Finish editing text" />
+              <ShortcutRow keys={['Esc']} action="Back to the select tool" />
               <ShortcutRow keys={['?']} action="Show shortcuts" />
               <ShortcutRow keys={['Cmd/Ctrl', '+', 'Scroll']} action="Zoom in/out" />
             </div>
@@ -1594,21 +5066,165 @@ function App() {
   )
 }
 
-const TreeNode = ({ node, selectedIds, onSelect, level }: { node: SvgNode; selectedIds: Set<string>; onSelect: (id: string, multi: boolean) => void; level: number }) => {
-  const isSelected = selectedIds.has(node.id)
+type CanvasActions = {
+  click: (id: string, e: React.MouseEvent) => void
+  press: (node: SvgNode, e: React.MouseEvent) => void
+  doubleClick: (node: SvgNode, e: React.MouseEvent) => void
+}
+
+// One element of the drawing with its subtree. Edits copy only the nodes on the path to what
+// they change, so a subtree whose node is the same object as last render is skipped: dragging
+// or recoloring re-renders the edited elements and their ancestors, not the whole document.
+const CanvasNode = React.memo(
+  ({ node, selectedIds, tool, actions }: { node: SvgNode; selectedIds: Set<string>; tool: Tool; actions: CanvasActions }) => {
+    if (node.tag === '#text' || node.tag === '#cdata') {
+      return node.text
+    }
+    if (node.tag === '#comment') return null
+
+    const { tag, attrs, children } = node
+    const baseStyle =
+      typeof attrs.style === 'string' ? styleStringToObject(attrs.style) : attrs.style
+    const mergedStyle: React.CSSProperties = {
+      ...(baseStyle ?? {}),
+      cursor: tool === 'select' ? 'pointer' : tool === 'text' ? 'text' : 'crosshair',
+      // Locked elements let clicks through, so they can be neither picked nor dragged on the canvas
+      ...(isLocked(node) ? { pointerEvents: 'none' as const } : {}),
+      ...(node.tag === 'svg'
+        ? {
+            maxWidth: '100%',
+            height: 'auto',
+            display: 'block',
+          }
+        : {}),
+    }
+    // prevent passing style string to React style prop
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { style: _ignoredStyle, ...restAttrs } = attrs
+    const mergedAttrs = {
+      ...restAttrs,
+      'data-id': node.id,
+      'data-selected': selectedIds.has(node.id) ? 'true' : undefined,
+      ref: (element: Element | null) => {
+        if (!element) return
+        canvasElements.set(node.id, element)
+        return () => {
+          if (canvasElements.get(node.id) === element) canvasElements.delete(node.id)
+        }
+      },
+      onClick: (e: React.MouseEvent) => actions.click(node.id, e),
+      onMouseDown: (e: React.MouseEvent) => actions.press(node, e),
+      onDoubleClick: (e: React.MouseEvent) => actions.doubleClick(node, e),
+      style: mergedStyle,
+    }
+
+    return React.createElement(
+      tag,
+      mergedAttrs,
+      children.map((child) => <CanvasNode key={child.id} node={child} selectedIds={selectedIds} tool={tool} actions={actions} />),
+    )
+  },
+)
+
+type LayerView = {
+  selectedIds: Set<string>
+  collapsed: Set<string>
+  renaming: string | null
+  names: LayerNames
+  drop: LayerDrop | null
+}
+
+type LayerActions = {
+  select: (id: string, e: React.MouseEvent) => void
+  toggleCollapsed: (id: string) => void
+  toggleHidden: (node: SvgNode) => void
+  toggleLocked: (node: SvgNode) => void
+  startRename: (id: string) => void
+  rename: (id: string, name: string) => void
+  dragStart: (id: string, e: React.DragEvent) => void
+  dragOver: (node: SvgNode, e: React.DragEvent) => void
+  drop: (e: React.DragEvent) => void
+  dragEnd: () => void
+}
+
+// One row of the layers panel and, unless collapsed, its children listed front to back
+const LayerRow = ({ node, level, view, actions }: { node: SvgNode; level: number; view: LayerView; actions: LayerActions }) => {
+  const children = node.children.filter(isLayerNode).reverse()
+  const isSelected = view.selectedIds.has(node.id)
+  const isCollapsed = view.collapsed.has(node.id)
+  const hidden = isHidden(node)
+  const locked = isLocked(node)
+  const drop = view.drop?.id === node.id ? view.drop.position : null
+  const current = (view.names === 'label' ? node.attrs[LABEL_ATTRIBUTE] : node.attrs.id) ?? ''
   return (
-    <div className="select-none">
+    <div className={hidden ? 'opacity-50' : ''}>
       <div
-        className={`flex items-center gap-2 rounded px-2 py-1 hover:bg-slate-100 ${isSelected ? 'bg-sky-100 font-semibold' : ''}`}
-        style={{ paddingLeft: `${level * 1.5 + 0.5}rem` }}
-        onClick={(e) => onSelect(node.id, e.ctrlKey || e.metaKey)}
+        data-layer-id={node.id}
+        draggable={view.renaming !== node.id}
+        onClick={(e) => actions.select(node.id, e)}
+        onDoubleClick={() => actions.startRename(node.id)}
+        onDragStart={(e) => actions.dragStart(node.id, e)}
+        onDragOver={(e) => actions.dragOver(node, e)}
+        onDrop={actions.drop}
+        onDragEnd={actions.dragEnd}
+        className={`relative flex select-none items-center gap-1 rounded py-0.5 pr-1 text-xs text-slate-700 hover:bg-slate-100 ${isSelected ? 'bg-sky-100 font-semibold' : ''} ${drop === 'inside' ? 'ring-2 ring-inset ring-sky-400' : ''}`}
+        style={{ paddingLeft: `${level * 0.75 + 0.25}rem` }}
       >
-        <span className="text-xs text-slate-400">{node.tag}</span>
-        <span className="text-xs text-slate-500">{node.id}</span>
+        {drop === 'above' && <div className="pointer-events-none absolute inset-x-0 top-0 h-0.5 bg-sky-500" />}
+        {drop === 'below' && <div className="pointer-events-none absolute inset-x-0 bottom-0 h-0.5 bg-sky-500" />}
+        <button
+          className="w-4 shrink-0 text-slate-400 hover:text-slate-700"
+          onClick={(e) => {
+            e.stopPropagation()
+            if (children.length) actions.toggleCollapsed(node.id)
+          }}
+          title={children.length ? (isCollapsed ? 'Expand' : 'Collapse') : undefined}
+        >
+          {children.length ? (isCollapsed ? '▸' : '▾') : ''}
+        </button>
+        {view.renaming === node.id ? (
+          // Applied on blur or Enter; Escape puts the old name back first
+          <input
+            autoFocus
+            defaultValue={current}
+            placeholder={view.names === 'label' ? 'Label' : 'id'}
+            onClick={(e) => e.stopPropagation()}
+            onBlur={(e) => actions.rename(node.id, e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') e.currentTarget.value = current
+              if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur()
+            }}
+            className="min-w-0 flex-1 rounded border border-sky-300 px-1 text-xs font-normal outline-none"
+          />
+        ) : (
+          <span className="min-w-0 flex-1 truncate" title="Double-click to rename">
+            {layerName(node)}
+          </span>
+        )}
+        <span className="shrink-0 text-[10px] font-normal text-slate-400">{node.tag}</span>
+        <button
+          className="w-5 shrink-0 text-slate-400 hover:text-slate-700"
+          onClick={(e) => {
+            e.stopPropagation()
+            actions.toggleHidden(node)
+          }}
+          title={hidden ? 'Show' : 'Hide'}
+        >
+          {hidden ? '◌' : '👁'}
+        </button>
+        <button
+          className={`w-5 shrink-0 hover:text-slate-700 ${locked ? 'text-slate-700' : 'text-slate-300'}`}
+          onClick={(e) => {
+            e.stopPropagation()
+            actions.toggleLocked(node)
+          }}
+          title={locked ? 'Unlock' : 'Lock (ignores clicks and drags on the canvas)'}
+        >
+          {locked ? '🔒' : '🔓'}
+        </button>
       </div>
-      {node.children.filter((c) => c.tag !== '#text').map((child) => (
-        <TreeNode key={child.id} node={child} selectedIds={selectedIds} onSelect={onSelect} level={level + 1} />
-      ))}
+      {!isCollapsed &&
+        children.map((child) => <LayerRow key={child.id} node={child} level={level + 1} view={view} actions={actions} />)}
     </div>
   )
 }
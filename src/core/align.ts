@@ -0,0 +1,74 @@
+import type { Bounds } from './commands.ts'
+import type { Point } from './matrix.ts'
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom'
+
+export type DistributeAxis = 'horizontal' | 'vertical'
+
+// Spread centres evenly, or leave equal gaps between neighbours
+export type DistributeMode = 'center' | 'gap'
+
+export const unionBounds = (boxes: Bounds[]): Bounds | null => {
+  if (!boxes.length) return null
+  const minX = Math.min(...boxes.map((box) => box.x))
+  const minY = Math.min(...boxes.map((box) => box.y))
+  const maxX = Math.max(...boxes.map((box) => box.x + box.width))
+  const maxY = Math.max(...boxes.map((box) => box.y + box.height))
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+// Start and size of a box along one axis
+const span = (box: Bounds, axis: DistributeAxis) => (axis === 'horizontal' ? { start: box.x, size: box.width } : { start: box.y, size: box.height })
+
+const offsetAlong = (axis: DistributeAxis, amount: number): Point => (axis === 'horizontal' ? { x: amount, y: 0 } : { x: 0, y: amount })
+
+/**
+ * How far each box has to move so its `edge` lines up with the same edge of `reference`.
+ * Boxes and reference share one coordinate system.
+ */
+export const alignOffsets = (boxes: Bounds[], edge: AlignEdge, reference: Bounds): Point[] => {
+  const axis: DistributeAxis = edge === 'left' || edge === 'center' || edge === 'right' ? 'horizontal' : 'vertical'
+  // 0 for the start edge, 0.5 for the middle and 1 for the end
+  const position = edge === 'left' || edge === 'top' ? 0 : edge === 'center' || edge === 'middle' ? 0.5 : 1
+  const target = span(reference, axis)
+  return boxes.map((box) => {
+    const own = span(box, axis)
+    return offsetAlong(axis, target.start + target.size * position - (own.start + own.size * position))
+  })
+}
+
+/**
+ * How far each box has to move to spread the boxes evenly along `axis`. Without `within`
+ * the outermost boxes stay put and the others are spaced between them; with it the boxes
+ * are spread across that box, with the same spacing to its edges as between them.
+ */
+export const distributeOffsets = (boxes: Bounds[], axis: DistributeAxis, mode: DistributeMode, within?: Bounds): Point[] => {
+  const spans = boxes.map((box) => span(box, axis))
+  const offsets: Point[] = boxes.map(() => ({ x: 0, y: 0 }))
+  if (boxes.length < (within ? 1 : 3)) return offsets
+  const key = (i: number) => (mode === 'center' ? spans[i].start + spans[i].size / 2 : spans[i].start)
+  const order = spans.map((_, i) => i).sort((a, b) => key(a) - key(b))
+  const first = spans[order[0]]
+  const last = spans[order[order.length - 1]]
+  const range = within ? span(within, axis) : { start: first.start, size: last.start + last.size - first.start }
+  const count = order.length
+
+  if (mode === 'center') {
+    const from = within ? range.start + range.size / (count + 1) : first.start + first.size / 2
+    const to = within ? range.start + (range.size * count) / (count + 1) : last.start + last.size / 2
+    order.forEach((index, i) => {
+      const center = count > 1 ? from + ((to - from) * i) / (count - 1) : from
+      offsets[index] = offsetAlong(axis, center - (spans[index].start + spans[index].size / 2))
+    })
+    return offsets
+  }
+
+  const total = spans.reduce((sum, s) => sum + s.size, 0)
+  const gap = (range.size - total) / (within ? count + 1 : count - 1)
+  let cursor = range.start + (within ? gap : 0)
+  for (const index of order) {
+    offsets[index] = offsetAlong(axis, cursor - spans[index].start)
+    cursor += spans[index].size + gap
+  }
+  return offsets
+}
@@ -0,0 +1,410 @@
+import type { Point } from './matrix.ts'
+import { toCubicSegments } from './path.ts'
+import type { PathSegment } from './path.ts'
+
+export const BOOLEAN_OPERATIONS = ['union', 'subtract', 'intersect', 'exclude', 'divide'] as const
+
+export type BooleanOperation = (typeof BOOLEAN_OPERATIONS)[number]
+
+export type FillRule = 'nonzero' | 'evenodd'
+
+// One shape taking part in an operation, as path segments in a coordinate system shared
+// by every operand. `open` marks outlines without area (lines, open paths): divide uses
+// them as knives.
+export type BooleanOperand = { segments: PathSegment[]; fillRule?: FillRule; open?: boolean }
+
+type Cubic = [Point, Point, Point, Point]
+
+// A straight piece of an outline. Pieces flattened from a curve remember the curve and the
+// parameter range they cover, so the result can be written with curves again.
+type Edge = { a: Point; b: Point; curve: number; t0: number; t1: number }
+
+type HalfEdge = Edge & { from: string; to: string }
+
+const cross = (a: Point, b: Point, p: Point) => (b.x - a.x) * (p.y - a.y) - (p.x - a.x) * (b.y - a.y)
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })
+
+const splitCubic = ([p0, p1, p2, p3]: Cubic, t: number): [Cubic, Cubic] => {
+  const a = lerp(p0, p1, t)
+  const b = lerp(p1, p2, t)
+  const c = lerp(p2, p3, t)
+  const d = lerp(a, b, t)
+  const e = lerp(b, c, t)
+  const f = lerp(d, e, t)
+  return [
+    [p0, a, d, f],
+    [f, e, c, p3],
+  ]
+}
+
+const subCubic = (cubic: Cubic, t0: number, t1: number): Cubic => {
+  const tail = t0 > 0 ? splitCubic(cubic, t0)[1] : cubic
+  const span = 1 - t0
+  return span > 1e-12 && t1 < 1 ? splitCubic(tail, (t1 - t0) / span)[0] : tail
+}
+
+const pointOnCubic = (cubic: Cubic, t: number) => splitCubic(cubic, t)[0][3]
+
+/**
+ * Flattens an operand into closed rings of straight edges, each curve split finely enough
+ * to stay within `tolerance` of it. `drawn` leaves out the closing edges that open
+ * subpaths only get for filling.
+ */
+const flatten = (segments: PathSegment[], curves: Cubic[], tolerance: number) => {
+  const fill: Edge[] = []
+  const drawn: Edge[] = []
+  let start: Point = { x: 0, y: 0 }
+  let current = start
+  let open = false
+  const close = () => {
+    if (open && (current.x !== start.x || current.y !== start.y)) fill.push({ a: current, b: start, curve: -1, t0: 0, t1: 1 })
+    open = false
+  }
+  for (const s of segments) {
+    if (s.type === 'M') {
+      close()
+      start = current = { x: s.x, y: s.y }
+      open = true
+    } else if (s.type === 'Z') {
+      if (current.x !== start.x || current.y !== start.y) {
+        const edge = { a: current, b: start, curve: -1, t0: 0, t1: 1 }
+        fill.push(edge)
+        drawn.push(edge)
+      }
+      current = start
+      open = false
+    } else if (s.type === 'C') {
+      const cubic: Cubic = [current, { x: s.x1, y: s.y1 }, { x: s.x2, y: s.y2 }, { x: s.x, y: s.y }]
+      const curve = curves.push(cubic) - 1
+      // The polyline of n even steps strays at most 3/4 of the largest second difference / n²
+      const dd = Math.max(
+        Math.hypot(cubic[0].x - 2 * cubic[1].x + cubic[2].x, cubic[0].y - 2 * cubic[1].y + cubic[2].y),
+        Math.hypot(cubic[1].x - 2 * cubic[2].x + cubic[3].x, cubic[1].y - 2 * cubic[2].y + cubic[3].y),
+      )
+      const steps = Math.min(1000, Math.max(1, Math.ceil(Math.sqrt((0.75 * dd) / tolerance))))
+      let previous = current
+      for (let i = 1; i <= steps; i++) {
+        const point = i === steps ? cubic[3] : pointOnCubic(cubic, i / steps)
+        const edge = { a: previous, b: point, curve, t0: (i - 1) / steps, t1: i / steps }
+        fill.push(edge)
+        drawn.push(edge)
+        previous = point
+      }
+      current = cubic[3]
+      open = true
+    } else if (s.type === 'L') {
+      const edge = { a: current, b: { x: s.x, y: s.y }, curve: -1, t0: 0, t1: 1 }
+      fill.push(edge)
+      drawn.push(edge)
+      current = edge.b
+      open = true
+    }
+  }
+  close()
+  const nonEmpty = (edge: Edge) => edge.a.x !== edge.b.x || edge.a.y !== edge.b.y
+  return { fill: fill.filter(nonEmpty), drawn: drawn.filter(nonEmpty) }
+}
+
+const isInside = (edges: Edge[], fillRule: FillRule, p: Point) => {
+  let winding = 0
+  for (const { a, b } of edges) {
+    if (a.y <= p.y) {
+      if (b.y > p.y && cross(a, b, p) > 0) winding++
+    } else if (b.y <= p.y && cross(a, b, p) < 0) {
+      winding--
+    }
+  }
+  return fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0
+}
+
+const signedArea = (points: Point[]) =>
+  points.reduce((sum, p, i) => {
+    const q = points[(i + 1) % points.length]
+    return sum + p.x * q.y - q.x * p.y
+  }, 0) / 2
+
+// Which operands cover a point, by document order, decides whether it is in the result
+const PREDICATES: Record<BooleanOperation, (inside: boolean[]) => boolean> = {
+  union: (inside) => inside.some(Boolean),
+  // The bottom shape minus everything above it
+  subtract: (inside) => inside[0] && !inside.slice(1).some(Boolean),
+  intersect: (inside) => inside.every(Boolean),
+  exclude: (inside) => inside.filter(Boolean).length % 2 === 1,
+  divide: (inside) => inside.some(Boolean),
+}
+
+/**
+ * Combines shapes into new outlines. Every outline is flattened, split where it crosses
+ * another, and each piece is kept when the area on one side of it is in the result and the
+ * area on the other side is not. The kept pieces are then chained into closed subpaths,
+ * with runs that came from one curve written back as that curve.
+ *
+ * Returns one list of segments for every operation but divide, which returns one per
+ * region of the overlap (closed shapes and knife lines cut each other into pieces).
+ */
+export const booleanOperation = (operands: BooleanOperand[], operation: BooleanOperation, tolerance = 0.01): PathSegment[][] => {
+  const curves: Cubic[] = []
+  const flattened = operands.map((operand) => ({
+    ...flatten(toCubicSegments(operand.segments), curves, tolerance),
+    fillRule: operand.fillRule ?? 'nonzero',
+    knife: operation === 'divide' && !!operand.open,
+  }))
+
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const { fill } of flattened) {
+    for (const { a } of fill) {
+      minX = Math.min(minX, a.x)
+      minY = Math.min(minY, a.y)
+      maxX = Math.max(maxX, a.x)
+      maxY = Math.max(maxY, a.y)
+    }
+  }
+  if (!Number.isFinite(minX)) return []
+  const size = Math.max(1, maxX - minX, maxY - minY)
+  const snap = size * 1e-7
+
+  // Points closer than `snap` become one vertex so coincident outlines share their edges
+  const vertices = new Map<string, Point>()
+  const vertexKey = (p: Point) => {
+    const gx = Math.round(p.x / snap)
+    const gy = Math.round(p.y / snap)
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const key = `${gx + dx},${gy + dy}`
+        const existing = vertices.get(key)
+        if (existing && Math.abs(existing.x - p.x) <= snap && Math.abs(existing.y - p.y) <= snap) return key
+      }
+    }
+    const key = `${gx},${gy}`
+    vertices.set(key, p)
+    return key
+  }
+
+  const edges = flattened
+    .flatMap(({ fill, drawn, knife }, operand) =>
+      (knife ? drawn : fill).map((edge) => ({ ...edge, operand, cuts: [0, 1], minX: Math.min(edge.a.x, edge.b.x), maxX: Math.max(edge.a.x, edge.b.x) })),
+    )
+    .sort((e, f) => e.minX - f.minX)
+
+  // Split every edge wherever another one crosses or touches it. Edges are sorted by their
+  // left end, so the scan for partners stops at the first one starting past this edge.
+  for (let i = 0; i < edges.length; i++) {
+    const e = edges[i]
+    const r = { x: e.b.x - e.a.x, y: e.b.y - e.a.y }
+    const rLength = Math.hypot(r.x, r.y)
+    for (let j = i + 1; j < edges.length && edges[j].minX <= e.maxX + snap; j++) {
+      const f = edges[j]
+      if (
+        Math.max(f.a.y, f.b.y) < Math.min(e.a.y, e.b.y) - snap ||
+        Math.min(f.a.y, f.b.y) > Math.max(e.a.y, e.b.y) + snap
+      ) {
+        continue
+      }
+      const s = { x: f.b.x - f.a.x, y: f.b.y - f.a.y }
+      const sLength = Math.hypot(s.x, s.y)
+      const denominator = r.x * s.y - r.y * s.x
+      const qp = { x: f.a.x - e.a.x, y: f.a.y - e.a.y }
+      if (Math.abs(denominator) > 1e-12 * rLength * sLength) {
+        const t = (qp.x * s.y - qp.y * s.x) / denominator
+        const u = (qp.x * r.y - qp.y * r.x) / denominator
+        const te = snap / rLength
+        const tf = snap / sLength
+        if (t >= -te && t <= 1 + te && u >= -tf && u <= 1 + tf) {
+          e.cuts.push(Math.min(1, Math.max(0, t)))
+          f.cuts.push(Math.min(1, Math.max(0, u)))
+        }
+      } else if (Math.abs(qp.x * r.y - qp.y * r.x) / rLength <= snap) {
+        // Collinear: each edge is cut where the other one's ends lie on it
+        const project = (p: Point, from: Point, d: Point, lengthSq: number) => ((p.x - from.x) * d.x + (p.y - from.y) * d.y) / lengthSq
+        for (const p of [f.a, f.b]) {
+          const t = project(p, e.a, r, rLength * rLength)
+          if (t > 0 && t < 1) e.cuts.push(t)
+        }
+        for (const p of [e.a, e.b]) {
+          const u = project(p, f.a, s, sLength * sLength)
+          if (u > 0 && u < 1) f.cuts.push(u)
+        }
+      }
+    }
+  }
+
+  // Pieces between cuts, with edges shared by several outlines kept once
+  const pieces = new Map<string, Edge & { from: string; to: string; knife: boolean }>()
+  for (const e of edges) {
+    const cuts = [...new Set(e.cuts)].sort((x, y) => x - y)
+    for (let k = 0; k + 1 < cuts.length; k++) {
+      const from = vertexKey(lerp(e.a, e.b, cuts[k]))
+      const to = vertexKey(lerp(e.a, e.b, cuts[k + 1]))
+      if (from === to) continue
+      const key = from < to ? `${from}|${to}` : `${to}|${from}`
+      const knife = flattened[e.operand].knife
+      const existing = pieces.get(key)
+      if (existing) {
+        existing.knife ||= knife
+        continue
+      }
+      pieces.set(key, {
+        a: vertices.get(from)!,
+        b: vertices.get(to)!,
+        from,
+        to,
+        curve: e.curve,
+        t0: e.t0 + (e.t1 - e.t0) * cuts[k],
+        t1: e.t0 + (e.t1 - e.t0) * cuts[k + 1],
+        knife,
+      })
+    }
+  }
+
+  // Classify each piece by sampling just to its left and right, and keep it (directed so
+  // the result lies on its left) where it separates the result from the rest
+  const predicate = PREDICATES[operation]
+  const offset = size * 1e-5
+  const coverage = (p: Point) => flattened.map(({ fill, fillRule, knife }) => !knife && isInside(fill, fillRule, p))
+  let kept: HalfEdge[] = []
+  for (const piece of pieces.values()) {
+    const length = Math.hypot(piece.b.x - piece.a.x, piece.b.y - piece.a.y)
+    const mid = lerp(piece.a, piece.b, 0.5)
+    const distance = Math.min(offset, length / 4)
+    const normal = { x: (-(piece.b.y - piece.a.y) / length) * distance, y: ((piece.b.x - piece.a.x) / length) * distance }
+    const left = coverage({ x: mid.x + normal.x, y: mid.y + normal.y })
+    const right = coverage({ x: mid.x - normal.x, y: mid.y - normal.y })
+    const inLeft = predicate(left)
+    const inRight = predicate(right)
+    const boundary = operation === 'divide' ? piece.knife || left.some((inside, i) => inside !== right[i]) : inLeft !== inRight
+    if (!boundary) continue
+    if (inLeft) kept.push(piece)
+    if (inRight) kept.push({ ...piece, a: piece.b, b: piece.a, from: piece.to, to: piece.from, t0: piece.t1, t1: piece.t0 })
+  }
+
+  // Knife lines that stop inside a shape leave dead ends; trim them back
+  for (;;) {
+    const neighbours = new Map<string, Set<string>>()
+    for (const edge of kept) {
+      if (!neighbours.has(edge.from)) neighbours.set(edge.from, new Set())
+      if (!neighbours.has(edge.to)) neighbours.set(edge.to, new Set())
+      neighbours.get(edge.from)!.add(edge.to)
+      neighbours.get(edge.to)!.add(edge.from)
+    }
+    const trimmed = kept.filter((edge) => neighbours.get(edge.from)!.size > 1 && neighbours.get(edge.to)!.size > 1)
+    if (trimmed.length === kept.length) break
+    kept = trimmed
+  }
+
+  // Chain the pieces into loops. At each vertex the next piece is the first one clockwise
+  // from the way we came in, which keeps following the boundary of the same region.
+  const outgoing = new Map<string, HalfEdge[]>()
+  for (const edge of kept) {
+    const list = outgoing.get(edge.from) ?? []
+    list.push(edge)
+    outgoing.set(edge.from, list)
+  }
+  const used = new Set<HalfEdge>()
+  const loops: HalfEdge[][] = []
+  for (const first of kept) {
+    if (used.has(first)) continue
+    const loop = [first]
+    used.add(first)
+    let current = first
+    let closed = false
+    while (loop.length <= kept.length) {
+      const back = Math.atan2(current.a.y - current.b.y, current.a.x - current.b.x)
+      let next: HalfEdge | null = null
+      let best = Infinity
+      for (const candidate of outgoing.get(current.to) ?? []) {
+        let turn = (back - Math.atan2(candidate.b.y - candidate.a.y, candidate.b.x - candidate.a.x)) % (Math.PI * 2)
+        if (turn < 0) turn += Math.PI * 2
+        if (turn < 1e-12) turn = Math.PI * 2
+        if (turn < best) {
+          best = turn
+          next = candidate
+        }
+      }
+      if (next === first) {
+        closed = true
+        break
+      }
+      if (!next || used.has(next)) break
+      used.add(next)
+      loop.push(next)
+      current = next
+    }
+    if (closed && Math.abs(signedArea(loop.map((edge) => edge.a))) > size * size * 1e-12) loops.push(loop)
+  }
+
+  const regions =
+    operation === 'divide'
+      ? groupHoles(loops, offset)
+      : loops.length
+        ? [loops]
+        : []
+  return regions.map((region) => region.flatMap((loop) => loopToSegments(loop, curves)))
+}
+
+// Outer loops run counter-clockwise around their region and holes clockwise; each hole
+// goes with the smallest outer loop around it
+const groupHoles = (loops: HalfEdge[][], offset: number): HalfEdge[][][] => {
+  const area = (loop: HalfEdge[]) => signedArea(loop.map((edge) => edge.a))
+  const outers = loops.filter((loop) => area(loop) > 0).map((loop) => ({ loop, area: area(loop), holes: [] as HalfEdge[][] }))
+  for (const hole of loops.filter((loop) => area(loop) < 0)) {
+    const edge = hole.reduce((longest, e) =>
+      Math.hypot(e.b.x - e.a.x, e.b.y - e.a.y) > Math.hypot(longest.b.x - longest.a.x, longest.b.y - longest.a.y) ? e : longest,
+    )
+    const length = Math.hypot(edge.b.x - edge.a.x, edge.b.y - edge.a.y)
+    const distance = Math.min(offset, length / 4)
+    const mid = lerp(edge.a, edge.b, 0.5)
+    const sample = { x: mid.x - ((edge.b.y - edge.a.y) / length) * distance, y: mid.y + ((edge.b.x - edge.a.x) / length) * distance }
+    const owner = outers
+      .filter((outer) => isInside(outer.loop, 'nonzero', sample))
+      .reduce<(typeof outers)[number] | null>((smallest, outer) => (!smallest || outer.area < smallest.area ? outer : smallest), null)
+    owner?.holes.push(hole)
+  }
+  return outers.map((outer) => [outer.loop, ...outer.holes])
+}
+
+const continuesCurve = (previous: HalfEdge, next: HalfEdge) =>
+  previous.curve >= 0 && previous.curve === next.curve && previous.t1 === next.t0 && previous.t1 - previous.t0 > 0 === next.t1 - next.t0 > 0
+
+// Writes a loop as one closed subpath: runs of pieces from the same curve become that part
+// of the curve (with its ends pinned to the loop's vertices), straight runs become lines
+const loopToSegments = (loop: HalfEdge[], curves: Cubic[]): PathSegment[] => {
+  const start = loop.findIndex((edge, i) => !continuesCurve(loop[(i + loop.length - 1) % loop.length], edge))
+  const ordered = start > 0 ? [...loop.slice(start), ...loop.slice(0, start)] : loop
+  const segments: PathSegment[] = [{ type: 'M', x: ordered[0].a.x, y: ordered[0].a.y }]
+
+  for (let i = 0; i < ordered.length; i++) {
+    const first = ordered[i]
+    if (first.curve < 0) {
+      const next = ordered[i + 1]
+      // Drop vertices in the middle of a straight line
+      if (next && next.curve < 0 && Math.abs(cross(first.a, first.b, next.b)) <= 1e-9 * Math.hypot(next.b.x - first.a.x, next.b.y - first.a.y) ** 2) {
+        ordered[i + 1] = { ...next, a: first.a }
+        continue
+      }
+      // The closing line is left to Z
+      if (i < ordered.length - 1) segments.push({ type: 'L', x: first.b.x, y: first.b.y })
+      continue
+    }
+    let last = first
+    while (i + 1 < ordered.length && continuesCurve(last, ordered[i + 1])) last = ordered[++i]
+    const reversed = first.t0 > last.t1
+    const [p0, p1, p2, p3] = subCubic(curves[first.curve], Math.min(first.t0, last.t1), Math.max(first.t0, last.t1))
+    const [c1, c2] = reversed ? [p2, p1] : [p1, p2]
+    const [from, to] = reversed ? [p3, p0] : [p0, p3]
+    segments.push({
+      type: 'C',
+      x1: c1.x + first.a.x - from.x,
+      y1: c1.y + first.a.y - from.y,
+      x2: c2.x + last.b.x - to.x,
+      y2: c2.y + last.b.y - to.y,
+      x: last.b.x,
+      y: last.b.y,
+    })
+  }
+  segments.push({ type: 'Z' })
+  return segments
+}
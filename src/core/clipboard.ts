@@ -0,0 +1,240 @@
+import { SvgCommandError } from './commands.ts'
+import type { Bounds, CommandResult } from './commands.ts'
+import { isLayerNode } from './layers.ts'
+import { formatNumber, invert, isIdentity, multiply, prependTransform, translate } from './matrix.ts'
+import { applyStyleValue, getStyleValue } from './style.ts'
+import {
+  cloneNode,
+  ensureDefs,
+  filterTopLevel,
+  findNode,
+  findParent,
+  idAllocator,
+  referencedIds,
+  rewriteReferences,
+  updateNode,
+  userSpaceMatrix,
+  walkNodes,
+} from './tree.ts'
+import type { SvgNode } from './types.ts'
+
+// Root attributes a copied fragment keeps, so it shows the elements in the same frame
+const FRAME_ATTRIBUTES = ['viewBox', 'width', 'height', 'preserveAspectRatio']
+
+// Content of pasted documents that is about the document rather than the drawing
+export const DOCUMENT_TAGS = new Set(['title', 'desc', 'metadata'])
+
+// Properties an element takes from the groups it is in
+const INHERITED_PROPERTIES = [
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap', 'stroke-linejoin',
+  'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset', 'paint-order', 'color', 'clip-rule', 'visibility',
+  'marker-start', 'marker-mid', 'marker-end', 'font-family', 'font-size', 'font-weight', 'font-style', 'font-variant',
+  'letter-spacing', 'word-spacing', 'text-anchor', 'dominant-baseline',
+]
+
+// Group effects drawn in the group's own user space, so a copy is wrapped in a group carrying them
+const GROUP_EFFECTS = ['clip-path', 'mask', 'filter']
+
+const hasClass = (node: SvgNode): boolean => node.attrs.class !== undefined || node.children.some(hasClass)
+
+// Inline style wins over the presentation attribute, as in CSS
+const property = (node: SvgNode, name: string) => {
+  const value = (getStyleValue(node.attrs.style, name) ?? node.attrs[name])?.trim()
+  return value === 'inherit' ? undefined : value
+}
+
+const stylesheetText = (node: SvgNode) => node.children.map((child) => child.text ?? '').join('').trim()
+
+/**
+ * A copy of `node` for use directly under a root that looks as it did in `tree`: the
+ * transforms of its ancestors are folded into its own, the properties it inherited from them
+ * are set on it and their opacity is multiplied into its own. Ancestors with a clip path,
+ * mask or filter become groups around the copy, since those are drawn in the group's space.
+ */
+const placedInRoot = (tree: SvgNode, node: SvgNode) => {
+  const ancestors: SvgNode[] = []
+  for (let parent = findParent(tree, node.id); parent; parent = findParent(tree, parent.id)) ancestors.unshift(parent)
+
+  let placed = cloneNode(node)
+  for (const name of INHERITED_PROPERTIES) {
+    if (property(placed, name) !== undefined) continue
+    const value = ancestors.map((ancestor) => property(ancestor, name)).reverse().find((found) => found !== undefined)
+    if (value !== undefined) placed.attrs[name] = value
+  }
+  const opacity = [...ancestors, node].reduce((product, element) => product * Number(property(element, 'opacity') ?? 1), 1)
+  if (Number.isFinite(opacity) && opacity < 1) {
+    if (getStyleValue(placed.attrs.style, 'opacity') !== undefined) placed.attrs.style = applyStyleValue(placed.attrs.style, 'opacity', undefined)
+    if (!placed.attrs.style) delete placed.attrs.style
+    placed.attrs.opacity = formatNumber(opacity, 3)
+  }
+
+  // From the innermost wrapper outwards, each group's transform maps into the one around it
+  const wrappers = ancestors.filter((ancestor) => ancestor !== tree && GROUP_EFFECTS.some((name) => (property(ancestor, name) ?? 'none') !== 'none'))
+  let inner = userSpaceMatrix(tree, findParent(tree, node.id)!.id)
+  for (const ancestor of [...wrappers.reverse(), null]) {
+    const outer = ancestor ? userSpaceMatrix(tree, ancestor.id) : null
+    const toOuter = outer ? invert(outer) : null
+    if (ancestor && !toOuter) continue
+    const relative = toOuter ? multiply(toOuter, inner) : inner
+    if (!isIdentity(relative)) {
+      const transform = prependTransform(placed.attrs.transform, relative)
+      if (transform) placed.attrs.transform = transform
+      else delete placed.attrs.transform
+    }
+    if (!ancestor || !outer) break
+    const id = `${ancestor.id}-around-${node.id}`
+    const attrs: Record<string, string> = {}
+    for (const name of GROUP_EFFECTS) {
+      const value = property(ancestor, name)
+      if (value && value !== 'none') attrs[name] = value
+    }
+    attrs['data-id'] = id
+    placed = { id, tag: 'g', attrs, children: [placed] }
+    inner = outer
+  }
+  return placed
+}
+
+/**
+ * A standalone <svg> holding copies of the `ids` elements, for the clipboard. Each keeps its
+ * place on the page: transforms of groups it was in are folded into its own. Gradients, clip
+ * paths and anything else the copies refer to come along in a <defs>, as do the document's
+ * stylesheets when a copy has a class.
+ */
+export const copyFragment = (tree: SvgNode, ids: string[]): SvgNode => {
+  const members = filterTopLevel(tree, ids.filter((id) => id !== tree.id)).map((id) => findNode(tree, id)!)
+  if (!members.length) throw new SvgCommandError('Nothing to copy')
+
+  const byElementId = new Map<string, SvgNode>()
+  const order = new Map<string, number>()
+  walkNodes(tree, (node) => {
+    order.set(node.id, order.size)
+    if (node.attrs.id && !byElementId.has(node.attrs.id)) byElementId.set(node.attrs.id, node)
+  })
+
+  const placed = members.map((member) => placedInRoot(tree, member))
+
+  // Follow references until nothing new turns up; a gradient can point at another one
+  const copied = new Set<string>()
+  for (const member of placed) {
+    walkNodes(member, (node) => {
+      if (node.attrs.id) copied.add(node.attrs.id)
+    })
+  }
+  const pending = placed.flatMap((member) => Array.from(referencedIds(member)))
+  const referenced: SvgNode[] = []
+  while (pending.length) {
+    const id = pending.pop()!
+    const node = byElementId.get(id)
+    if (!node || copied.has(id)) continue
+    copied.add(id)
+    referenced.push(node)
+    pending.push(...referencedIds(node))
+  }
+  const defs = filterTopLevel(tree, referenced.map((node) => node.id))
+    .sort((a, b) => order.get(a)! - order.get(b)!)
+    .map((id) => cloneNode(findNode(tree, id)!))
+
+  // The document's own stylesheets sit at the top or in a top-level <defs>; each is copied once
+  const styles: SvgNode[] = []
+  if (members.some(hasClass)) {
+    const topLevel = tree.children.flatMap((child) => (child.tag === 'defs' ? child.children : [child]))
+    for (const node of topLevel) {
+      if (node.tag === 'style' && !styles.some((style) => stylesheetText(style) === stylesheetText(node))) styles.push(cloneNode(node))
+    }
+  }
+
+  const attrs: Record<string, string> = { 'data-id': 'clipboard' }
+  for (const [name, value] of Object.entries(tree.attrs)) {
+    if (name === 'xmlns' || name.startsWith('xmlns:') || FRAME_ATTRIBUTES.includes(name)) attrs[name] = value
+  }
+  const children = [...styles]
+  if (defs.length) children.push({ id: 'clipboard-defs', tag: 'defs', attrs: { 'data-id': 'clipboard-defs' }, children: defs })
+  children.push(...placed)
+  return { id: 'clipboard', tag: 'svg', attrs, children }
+}
+
+/**
+ * `svg` with its viewport cropped to `bounds`, in the root's user units, grown by
+ * `padding` on every side. The result is one CSS pixel per user unit, so exporting a copied
+ * fragment this way gives an asset the size of its content.
+ */
+export const cropDocument = (svg: SvgNode, bounds: Bounds, padding = 0): SvgNode => {
+  const x = bounds.x - padding
+  const y = bounds.y - padding
+  const width = bounds.width + 2 * padding
+  const height = bounds.height + 2 * padding
+  if (![x, y, width, height].every(Number.isFinite)) throw new SvgCommandError('The crop bounds must be numbers')
+  if (width <= 0 || height <= 0) throw new SvgCommandError('Nothing to export in an empty area')
+  const attrs: Record<string, string> = {
+    ...svg.attrs,
+    viewBox: [x, y, width, height].map((n) => formatNumber(n)).join(' '),
+    width: formatNumber(width),
+    height: formatNumber(height),
+  }
+  delete attrs.preserveAspectRatio
+  return { ...svg, attrs }
+}
+
+/**
+ * Adds the drawing of a pasted <svg> on top of the document, moved by (dx, dy) in the root's
+ * user units. Its definitions and stylesheets go into the document's <defs>. Ids that are
+ * already taken are renamed, along with the url(#...) and href references to them.
+ */
+export const pasteFragment = (tree: SvgNode, fragment: SvgNode, dx = 0, dy = 0): CommandResult => {
+  if (!Number.isFinite(dx) || !Number.isFinite(dy)) throw new SvgCommandError('Paste offsets must be numbers')
+  // A stylesheet the document already has is not added again
+  const stylesheets = new Set<string>()
+  walkNodes(tree, (node) => {
+    if (node.tag === 'style') stylesheets.add(stylesheetText(node))
+  })
+  const isNew = (node: SvgNode) => node.tag !== 'style' || !stylesheets.has(stylesheetText(node))
+
+  const drawn: SvgNode[] = []
+  const definitions: SvgNode[] = []
+  for (const child of fragment.children) {
+    if (child.tag.startsWith('#') || child.tag.includes(':') || DOCUMENT_TAGS.has(child.tag)) continue
+    if (child.tag === 'defs') definitions.push(...child.children.filter((node) => !node.tag.startsWith('#') && isNew(node)))
+    else if (isLayerNode(child)) drawn.push(child)
+    else if (isNew(child)) definitions.push(child)
+  }
+  if (!drawn.length) throw new SvgCommandError('The pasted SVG has nothing to draw')
+
+  // Add the <defs> first so its id is taken before the pasted elements get theirs
+  const { tree: base, defsId } = definitions.length ? ensureDefs(tree) : { tree, defsId: null }
+  const newId = idAllocator(base)
+  const renames = new Map<string, string>()
+  const assignIds = (node: SvgNode): SvgNode => {
+    if (node.tag.startsWith('#')) return { ...node, id: newId('node') }
+    const wanted = node.attrs.id
+    const id = newId(wanted ?? node.tag, wanted)
+    const attrs: Record<string, string> = { ...node.attrs, 'data-id': id }
+    if (wanted !== undefined) {
+      attrs.id = id
+      if (id !== wanted) renames.set(wanted, id)
+    }
+    return { ...node, id, attrs, children: node.children.map(assignIds) }
+  }
+
+  // Renaming walks everything first, so references are rewritten whichever side of them the target is
+  const renamed = rewriteReferences({ ...fragment, children: [...definitions, ...drawn].map(assignIds) }, renames).children
+  const pastedDefs = renamed.slice(0, definitions.length)
+  const pasted = renamed.slice(definitions.length).map((node) => {
+    if (!dx && !dy) return node
+    const transform = prependTransform(node.attrs.transform, translate(dx, dy))
+    const attrs = { ...node.attrs }
+    if (transform) attrs.transform = transform
+    else delete attrs.transform
+    return { ...node, attrs }
+  })
+
+  const withDefs = defsId
+    ? updateNode(base, defsId, (defs) => {
+        defs.children.push(...pastedDefs)
+      })
+    : base
+  const next = updateNode(withDefs, withDefs.id, (root) => {
+    root.children.push(...pasted)
+  })
+  return { tree: next, selection: pasted.map((node) => node.id), changed: pasted.length }
+}
@@ -0,0 +1,742 @@
+import { applyStyleValue, getAttrOrStyle, getStyleValue, setNodeAttribute } from './style.ts'
+import { booleanOperation } from './boolean.ts'
+import type { BooleanOperation } from './boolean.ts'
+import { GEOMETRY_ATTRIBUTES, shapeToSegments, transformSegments } from './geometry.ts'
+import { parsePaintUrl } from './gradient.ts'
+import { applyToVector, formatNumber, formatTransform, invert, multiply, parseTransformList, prependTransform, translate } from './matrix.ts'
+import { LABEL_ATTRIBUTE, LAYER_CONTAINERS, isLayerNode } from './layers.ts'
+import { isDrawSegment, joinOpenSubpaths, reversePathData, serializePathData, splitSubpaths } from './path.ts'
+import type { PathSegment } from './path.ts'
+import { simplifyPath } from './simplify.ts'
+import { offsetPath, outlineStroke } from './stroke.ts'
+import type { LineCap, LineJoin } from './stroke.ts'
+import {
+  assignNewIds,
+  createUniqueId,
+  ensureDefs,
+  findNode,
+  findParent,
+  filterTopLevel,
+  idAllocator,
+  referencedIds,
+  removeMultipleNodes,
+  rewriteReferences,
+  updateMultipleNodes,
+  updateNode,
+  userSpaceMatrix,
+  walkNodes,
+} from './tree.ts'
+import type { SvgNode } from './types.ts'
+
+export type RecolorProperty = 'fill' | 'stroke' | 'stop-color'
+
+export type Bounds = { x: number; y: number; width: number; height: number }
+
+// One step up or down the stacking order, or all the way to the top or bottom
+export type StackingMove = 'forward' | 'backward' | 'front' | 'back'
+
+export type SvgCommand =
+  | { type: 'set-attribute'; ids: string[]; name: string; value: string }
+  | { type: 'delete'; ids: string[] }
+  | { type: 'group'; ids: string[]; groupId?: string }
+  | { type: 'duplicate'; ids: string[]; dx?: number; dy?: number }
+  | { type: 'move'; ids: string[]; dx: number; dy: number }
+  | { type: 'recolor'; from: string; to: string; ids?: string[]; properties?: RecolorProperty[] }
+  | { type: 'clip'; ids: string[]; as?: 'clip-path' | 'mask' }
+  | { type: 'release'; ids: string[] }
+  | { type: 'pattern'; ids: string[]; bounds: Bounds }
+  | { type: 'boolean'; ids: string[]; operation: BooleanOperation }
+  | { type: 'to-path'; ids: string[] }
+  | { type: 'outline-stroke'; ids: string[] }
+  | { type: 'simplify'; ids: string[]; tolerance?: number }
+  | { type: 'reverse'; ids: string[] }
+  | { type: 'join'; ids: string[] }
+  | { type: 'break-apart'; ids: string[] }
+  | { type: 'offset'; ids: string[]; distance: number }
+  | { type: 'visibility'; ids: string[]; visible: boolean }
+  | { type: 'reorder'; ids: string[]; to: StackingMove }
+  | { type: 'reparent'; ids: string[]; parent: string; before?: string }
+  | { type: 'rename'; id: string; name: string; as?: 'id' | 'label' }
+
+export type CommandResult = {
+  tree: SvgNode
+  // Ids the editor should select after the command ran
+  selection: string[]
+  // Number of elements the command touched
+  changed: number
+}
+
+export class SvgCommandError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SvgCommandError'
+  }
+}
+
+const normalizeColor = (color: string) => {
+  const value = color.trim().toLowerCase()
+  const short = value.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/)
+  return short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}` : value
+}
+
+const resolveTargets = (tree: SvgNode, ids: string[], allowRoot = false): Set<string> => {
+  if (!Array.isArray(ids) || !ids.length) throw new SvgCommandError('No target ids given')
+  for (const id of ids) {
+    if (!findNode(tree, id)) throw new SvgCommandError(`No element with id "${id}"`)
+    if (!allowRoot && id === tree.id) throw new SvgCommandError('The root <svg> cannot be targeted')
+  }
+  return new Set(ids)
+}
+
+const setAttribute = (tree: SvgNode, ids: string[], name: string, value: string): CommandResult => {
+  const targets = resolveTargets(tree, ids, true)
+  return {
+    tree: updateMultipleNodes(tree, targets, (node) => setNodeAttribute(node, name, value)),
+    selection: ids,
+    changed: targets.size,
+  }
+}
+
+const deleteNodes = (tree: SvgNode, ids: string[]): CommandResult => {
+  const targets = resolveTargets(tree, ids)
+  return {
+    tree: removeMultipleNodes(tree, targets) ?? tree,
+    selection: [tree.id],
+    changed: targets.size,
+  }
+}
+
+// Copies of the targets (ancestors first, as filterTopLevel gives them) whose transforms are
+// adjusted so they are drawn in the same place once they are children of `parentId`
+const adoptNodes = (tree: SvgNode, ids: string[], parentId: string): SvgNode[] => {
+  const toParent = invert(userSpaceMatrix(tree, parentId))
+  if (!toParent) throw new SvgCommandError(`"${parentId}" is scaled to nothing`)
+  return filterTopLevel(tree, ids).map((id) => {
+    const node = findNode(tree, id)!
+    const oldParent = findParent(tree, id)!
+    if (oldParent.id === parentId) return node
+    const transform = prependTransform(node.attrs.transform, multiply(toParent, userSpaceMatrix(tree, oldParent.id)))
+    const attrs = { ...node.attrs }
+    if (transform) attrs.transform = transform
+    else delete attrs.transform
+    return { ...node, attrs }
+  })
+}
+
+// Wraps the targets in a new <g> placed where the topmost target was, keeping their stacking
+// order. Targets from other parents are moved in with their transforms adjusted, so nothing
+// moves on the canvas.
+const groupNodes = (tree: SvgNode, ids: string[], groupId?: string): CommandResult => {
+  resolveTargets(tree, ids)
+  // Document order is stacking order, so the last one is drawn on top
+  const members = filterTopLevel(tree, ids)
+  const top = members[members.length - 1]
+  const parent = findParent(tree, top)!
+  const id = groupId ?? createUniqueId(tree, 'group')
+  if (findNode(tree, id)) throw new SvgCommandError(`Id "${id}" is already in use`)
+
+  const group: SvgNode = { id, tag: 'g', attrs: { 'data-id': id }, children: adoptNodes(tree, members, parent.id) }
+  const next = updateNode(removeMultipleNodes(tree, new Set(members.slice(0, -1))) ?? tree, parent.id, (p) => {
+    p.children = p.children.map((child) => (child.id === top ? group : child))
+  })
+  return { tree: next, selection: [id], changed: members.length }
+}
+
+// Copies the targets under fresh ids, each just above its original and shifted by (dx, dy)
+// in the root's user units
+const duplicateNodes = (tree: SvgNode, ids: string[], dx: number, dy: number): CommandResult => {
+  if (!Number.isFinite(dx) || !Number.isFinite(dy)) throw new SvgCommandError('Duplicate offsets must be numbers')
+  resolveTargets(tree, ids)
+  const newId = idAllocator(tree)
+  const copies = new Map<string, SvgNode>()
+  for (const id of filterTopLevel(tree, ids)) {
+    const parent = findParent(tree, id)!
+    const copy = assignNewIds(findNode(tree, id)!, newId)
+    if (dx || dy) {
+      const toParent = invert(userSpaceMatrix(tree, parent.id))
+      if (!toParent) throw new SvgCommandError(`"${parent.id}" is scaled to nothing`)
+      const offset = applyToVector(toParent, { x: dx, y: dy })
+      const transform = prependTransform(copy.attrs.transform, translate(offset.x, offset.y))
+      if (transform) copy.attrs.transform = transform
+      else delete copy.attrs.transform
+    }
+    copies.set(id, copy)
+  }
+  const parents = new Set(Array.from(copies.keys(), (id) => findParent(tree, id)!.id))
+  const next = updateMultipleNodes(tree, parents, (parent) => {
+    parent.children = parent.children.flatMap((child) => {
+      const copy = copies.get(child.id)
+      return copy ? [child, copy] : [child]
+    })
+  })
+  return { tree: next, selection: Array.from(copies.values(), (copy) => copy.id), changed: copies.size }
+}
+
+const moveNodes = (tree: SvgNode, ids: string[], dx: number, dy: number): CommandResult => {
+  if (!Number.isFinite(dx) || !Number.isFinite(dy)) throw new SvgCommandError('Move offsets must be numbers')
+  resolveTargets(tree, ids)
+  // Descendants of another target move with it already
+  const targets = new Set(filterTopLevel(tree, ids))
+  const next = updateMultipleNodes(tree, targets, (node) => {
+    // Prepending keeps the offset in the parent's coordinate space
+    const transform = prependTransform(node.attrs.transform, translate(dx, dy))
+    if (transform) node.attrs.transform = transform
+    else delete node.attrs.transform
+  })
+  return { tree: next, selection: ids, changed: targets.size }
+}
+
+const recolor = (
+  tree: SvgNode,
+  from: string,
+  to: string,
+  ids: string[] | undefined,
+  properties: RecolorProperty[],
+): CommandResult => {
+  const scopes = ids?.length ? resolveTargets(tree, ids, true) : new Set([tree.id])
+  const match = normalizeColor(from)
+  const affected = new Set<string>()
+  walkNodes(tree, (node) => {
+    for (const property of properties) {
+      const attr = node.attrs[property]
+      const styled = getStyleValue(node.attrs.style, property)
+      if ((attr && normalizeColor(attr) === match) || (styled && normalizeColor(styled) === match)) {
+        affected.add(node.id)
+      }
+    }
+  })
+
+  // Only keep matches that live inside one of the requested scopes
+  const inScope = new Set<string>()
+  for (const scopeId of scopes) {
+    const scope = findNode(tree, scopeId)
+    if (!scope) continue
+    walkNodes(scope, (node) => {
+      if (affected.has(node.id)) inScope.add(node.id)
+    })
+  }
+
+  const next = updateMultipleNodes(tree, inScope, (node) => {
+    for (const property of properties) {
+      const attr = node.attrs[property]
+      if (attr && normalizeColor(attr) === match) node.attrs[property] = to
+      const styled = getStyleValue(node.attrs.style, property)
+      if (styled && normalizeColor(styled) === match) {
+        node.attrs.style = applyStyleValue(node.attrs.style, property, to)
+      }
+    }
+  })
+  return { tree: next, selection: ids ?? [], changed: inScope.size }
+}
+
+// Document-ordered children of `parent` that are targets; the last one is drawn on top
+const siblingTargets = (tree: SvgNode, ids: string[], minimum: number) => {
+  const targets = resolveTargets(tree, ids)
+  if (targets.size < minimum) throw new SvgCommandError(`Select at least ${minimum} elements`)
+  const parent = findParent(tree, ids[0])
+  if (!parent) throw new SvgCommandError(`No element with id "${ids[0]}"`)
+  const members = parent.children.filter((child) => targets.has(child.id))
+  if (members.length !== targets.size) throw new SvgCommandError('The elements must share the same parent')
+  return { parent, members }
+}
+
+// Moves the topmost target into a new <clipPath> or <mask> in <defs> and groups the rest
+// under a <g> that references it. The group has no transform, so the clip shape keeps
+// the coordinates it had as a sibling.
+const clipNodes = (tree: SvgNode, ids: string[], as: 'clip-path' | 'mask'): CommandResult => {
+  const { members } = siblingTargets(tree, ids, 2)
+  const shape = members[members.length - 1]
+  const rest = members.slice(0, -1).map((member) => member.id)
+
+  const { tree: withDefs, defsId } = ensureDefs(removeMultipleNodes(tree, new Set([shape.id])) ?? tree)
+  const tag = as === 'mask' ? 'mask' : 'clipPath'
+  const containerId = createUniqueId(withDefs, as === 'mask' ? 'mask' : 'clip')
+  const withContainer = updateNode(withDefs, defsId, (defs) => {
+    defs.children.push({ id: containerId, tag, attrs: { id: containerId, 'data-id': containerId }, children: [shape] })
+  })
+
+  const grouped = groupNodes(withContainer, rest)
+  const next = updateNode(grouped.tree, grouped.selection[0], (group) => {
+    group.attrs[as] = `url(#${containerId})`
+  })
+  return { tree: next, selection: grouped.selection, changed: members.length }
+}
+
+const referencedContainer = (tree: SvgNode, node: SvgNode) => {
+  for (const property of ['clip-path', 'mask'] as const) {
+    const id = parsePaintUrl(node.attrs[property] ?? getStyleValue(node.attrs.style, property))
+    if (!id) continue
+    let container: SvgNode | null = null
+    walkNodes(tree, (candidate) => {
+      if (!container && candidate.attrs.id === id && (candidate.tag === 'clipPath' || candidate.tag === 'mask')) container = candidate
+    })
+    if (container) return { property, container: container as SvgNode }
+  }
+  return null
+}
+
+const countReferences = (tree: SvgNode, elementId: string) => {
+  let count = 0
+  walkNodes(tree, (node) => {
+    for (const property of ['clip-path', 'mask'] as const) {
+      if (parsePaintUrl(node.attrs[property] ?? getStyleValue(node.attrs.style, property)) === elementId) count++
+    }
+  })
+  return count
+}
+
+// Undoes clipNodes: the clip or mask contents go back on top of the element, the
+// reference is removed, and a plain wrapper group is dissolved
+const releaseNodes = (tree: SvgNode, ids: string[]): CommandResult => {
+  resolveTargets(tree, ids)
+  let next = tree
+  const selection: string[] = []
+  let changed = 0
+  for (const id of ids) {
+    const node = findNode(next, id)
+    const parent = findParent(next, id)
+    const reference = node && referencedContainer(next, node)
+    if (!node || !parent || !reference) continue
+    const { property, container } = reference
+    const shared = countReferences(next, container.attrs.id) > 1
+    const restored = shared ? withFreshIds(next, container.children) : container.children
+
+    if (!shared) next = removeMultipleNodes(next, new Set([container.id])) ?? next
+    const unwrap = node.tag === 'g' && Object.keys(node.attrs).every((key) => key === property || key === 'id' || key === 'data-id')
+    next = updateNode(next, parent.id, (p) => {
+      const index = p.children.findIndex((child) => child.id === id)
+      const released = { ...node, attrs: { ...node.attrs } }
+      delete released.attrs[property]
+      released.attrs.style = applyStyleValue(released.attrs.style, property, undefined)
+      if (!released.attrs.style) delete released.attrs.style
+      const replacement = unwrap ? released.children : [released]
+      p.children.splice(index, 1, ...replacement, ...restored)
+    })
+    selection.push(...(unwrap ? node.children.map((child) => child.id) : [id]), ...restored.map((child) => child.id))
+    changed++
+  }
+  if (!changed) throw new SvgCommandError('Nothing to release: the elements have no clip path or mask')
+  return { tree: next, selection, changed }
+}
+
+// Copies of `nodes` whose node ids and id attributes do not clash with anything in `tree`
+const withFreshIds = (tree: SvgNode, nodes: SvgNode[]): SvgNode[] => {
+  const newId = idAllocator(tree)
+  const rename = (node: SvgNode): SvgNode => {
+    if (node.tag.startsWith('#')) return { ...node }
+    const id = newId(node.tag)
+    const attrs: Record<string, string> = { ...node.attrs, 'data-id': id }
+    if (node.attrs.id !== undefined) attrs.id = id
+    return { ...node, id, attrs, children: node.children.map(rename) }
+  }
+  return nodes.map(rename)
+}
+
+// Moves the targets into a <pattern> tile covering `bounds` and puts a rectangle filled
+// with that pattern where they were
+const patternNodes = (tree: SvgNode, ids: string[], bounds: Bounds): CommandResult => {
+  const { parent, members } = siblingTargets(tree, ids, 1)
+  if (!(bounds.width > 0) || !(bounds.height > 0)) throw new SvgCommandError('The pattern needs a positive width and height')
+  const num = (value: number) => formatNumber(value, 3)
+  const targets = new Set(members.map((member) => member.id))
+
+  const { tree: withDefs, defsId } = ensureDefs(tree)
+  const patternId = createUniqueId(withDefs, 'pattern')
+  const rectId = createUniqueId(withDefs, 'rect')
+  const offset = formatTransform(translate(-bounds.x, -bounds.y))
+  const withPattern = updateNode(withDefs, defsId, (defs) => {
+    defs.children.push({
+      id: patternId,
+      tag: 'pattern',
+      attrs: {
+        id: patternId,
+        patternUnits: 'userSpaceOnUse',
+        x: num(bounds.x),
+        y: num(bounds.y),
+        width: num(bounds.width),
+        height: num(bounds.height),
+        'data-id': patternId,
+      },
+      children: offset ? [{ id: `${patternId}-tile`, tag: 'g', attrs: { transform: offset, 'data-id': `${patternId}-tile` }, children: members }] : members,
+    })
+  })
+
+  const next = updateNode(withPattern, parent.id, (p) => {
+    const insertAt = p.children.reduce((last, child, index) => (targets.has(child.id) ? index : last), -1)
+    const rect: SvgNode = {
+      id: rectId,
+      tag: 'rect',
+      attrs: {
+        id: rectId,
+        x: num(bounds.x),
+        y: num(bounds.y),
+        width: num(bounds.width),
+        height: num(bounds.height),
+        fill: `url(#${patternId})`,
+        'data-id': rectId,
+      },
+      children: [],
+    }
+    const before = p.children.slice(0, insertAt + 1).filter((child) => !targets.has(child.id))
+    const after = p.children.slice(insertAt + 1)
+    p.children = [...before, rect, ...after]
+  })
+  return { tree: next, selection: [rectId], changed: members.length }
+}
+
+// Replaces sibling shapes with the outline(s) of a boolean operation on them. Each shape's
+// own transform is baked into the geometry; the result keeps the topmost shape's style
+// and id, in its place.
+const combineNodes = (tree: SvgNode, ids: string[], operation: BooleanOperation): CommandResult => {
+  const { parent, members } = siblingTargets(tree, ids, 2)
+  const operands = members.map((member) => {
+    const segments = shapeToSegments(member)
+    if (!segments) throw new SvgCommandError(`Boolean operations need shapes or paths, not <${member.tag}>`)
+    const fillRule = getAttrOrStyle(member, 'fill-rule') === 'evenodd' ? ('evenodd' as const) : ('nonzero' as const)
+    const open = member.tag === 'line' || member.tag === 'polyline' || (member.tag === 'path' && !segments.some((s) => s.type === 'Z'))
+    return { segments: transformSegments(segments, parseTransformList(member.attrs.transform)), fillRule, open }
+  })
+  const results = booleanOperation(operands, operation).filter((segments) => segments.length)
+  if (!results.length) throw new SvgCommandError(`The ${operation} of these shapes is empty`)
+
+  // Divide gives one path per piece, stacked in the topmost shape's place
+  const top = { ...members[members.length - 1], attrs: { ...members[members.length - 1].attrs } }
+  delete top.attrs.transform
+  const newId = idAllocator(tree)
+  const paths = results.map((segments, i) => pathFrom(top, segments, i ? newId('path') : top.id))
+  return { tree: replaceMembers(tree, parent, members, paths), selection: paths.map((path) => path.id), changed: members.length }
+}
+
+// Puts `replacement` where the topmost of `members` was, and drops the members
+const replaceMembers = (tree: SvgNode, parent: SvgNode, members: SvgNode[], replacement: SvgNode[]) => {
+  const targets = new Set(members.map((member) => member.id))
+  return updateNode(tree, parent.id, (p) => {
+    const insertAt = p.children.reduce((last, child, index) => (targets.has(child.id) ? index : last), -1)
+    const before = p.children.slice(0, insertAt + 1).filter((child) => !targets.has(child.id))
+    p.children = [...before, ...replacement, ...p.children.slice(insertAt + 1)]
+  })
+}
+
+// A <path> drawing `segments` with everything but the geometry of `node` (its transform
+// included). Under a new id the id attribute is only written if `node` had one, and
+// child elements such as <title> stay with the original id.
+const pathFrom = (node: SvgNode, segments: PathSegment[], id = node.id): SvgNode => {
+  const attrs: Record<string, string> = { ...node.attrs }
+  for (const name of GEOMETRY_ATTRIBUTES) delete attrs[name]
+  attrs.d = serializePathData(segments)
+  if (id !== node.id) {
+    attrs['data-id'] = id
+    if (attrs.id !== undefined) attrs.id = id
+  }
+  return { id, tag: 'path', attrs, children: id === node.id ? node.children : [] }
+}
+
+const clearProperty = (attrs: Record<string, string>, name: string) => {
+  delete attrs[name]
+  const style = applyStyleValue(attrs.style, name, undefined)
+  if (style) attrs.style = style
+  else delete attrs.style
+}
+
+/**
+ * Runs `rewrite` on every target that has path geometry and swaps the target for the
+ * elements it returns. Targets it returns null for (and non-shapes) are left alone; when
+ * nothing changed the command fails with `nothing`.
+ */
+const rewriteShapes = (
+  tree: SvgNode,
+  ids: string[],
+  nothing: string,
+  rewrite: (node: SvgNode, segments: PathSegment[], newId: (prefix: string) => string) => SvgNode[] | null,
+): CommandResult => {
+  resolveTargets(tree, ids)
+  const newId = idAllocator(tree)
+  let next = tree
+  const selection: string[] = []
+  for (const id of ids) {
+    const node = findNode(next, id)
+    const parent = findParent(next, id)
+    const segments = node && shapeToSegments(node)
+    const replacement = node && parent && segments?.length ? rewrite(node, segments, newId) : null
+    if (!parent || !replacement) continue
+    next = updateNode(next, parent.id, (p) => {
+      p.children.splice(
+        p.children.findIndex((child) => child.id === id),
+        1,
+        ...replacement,
+      )
+    })
+    selection.push(...replacement.map((element) => element.id))
+  }
+  if (!selection.length) throw new SvgCommandError(nothing)
+  return { tree: next, selection, changed: selection.length }
+}
+
+const STROKE_PROPERTIES = [
+  'stroke',
+  'stroke-width',
+  'stroke-linejoin',
+  'stroke-linecap',
+  'stroke-miterlimit',
+  'stroke-dasharray',
+  'stroke-dashoffset',
+  'stroke-opacity',
+]
+
+// Replaces the stroke with a filled outline of it. A shape that is also filled becomes a
+// group of its fill and the outline, so both still show.
+const outlineStrokes = (tree: SvgNode, ids: string[]) =>
+  rewriteShapes(tree, ids, 'Nothing to outline: none of the elements has a stroke', (node, segments, newId) => {
+    const paint = getAttrOrStyle(node, 'stroke')
+    if (!paint || paint === 'none') return null
+    const join = getAttrOrStyle(node, 'stroke-linejoin')
+    const cap = getAttrOrStyle(node, 'stroke-linecap')
+    const outline = outlineStroke(segments, {
+      width: parseFloat(getAttrOrStyle(node, 'stroke-width') ?? '1'),
+      linejoin: join === 'round' || join === 'bevel' ? (join as LineJoin) : 'miter',
+      linecap: cap === 'round' || cap === 'square' ? (cap as LineCap) : 'butt',
+      miterLimit: parseFloat(getAttrOrStyle(node, 'stroke-miterlimit') ?? '4') || 4,
+    })
+    if (!outline.length) return null
+
+    // Lines have no inside to fill
+    const filled = node.tag !== 'line' && getAttrOrStyle(node, 'fill') !== 'none'
+    const body = filled ? pathFrom(node, segments, newId('path')) : null
+    const stroke = pathFrom(node, outline, body ? newId('path') : node.id)
+    const opacity = getAttrOrStyle(node, 'stroke-opacity')
+    for (const name of [...STROKE_PROPERTIES, 'fill', 'fill-opacity', 'fill-rule']) clearProperty(stroke.attrs, name)
+    stroke.attrs.fill = paint
+    if (opacity) stroke.attrs['fill-opacity'] = opacity
+    if (!body) return [stroke]
+
+    for (const name of STROKE_PROPERTIES) clearProperty(body.attrs, name)
+    // Opacity has to apply to the pair, or the fill would show through the outline
+    const group: SvgNode = { id: node.id, tag: 'g', attrs: { 'data-id': node.id }, children: [...node.children, body, stroke] }
+    if (node.attrs.id !== undefined) group.attrs = { id: node.attrs.id, ...group.attrs }
+    const groupOpacity = getAttrOrStyle(node, 'opacity')
+    for (const element of [body, stroke]) clearProperty(element.attrs, 'opacity')
+    if (groupOpacity) group.attrs.opacity = groupOpacity
+    return [group]
+  })
+
+// Merges sibling shapes into one path in the topmost shape's coordinate system, linking
+// open subpaths whose ends meet
+const joinPaths = (tree: SvgNode, ids: string[]): CommandResult => {
+  const { parent, members } = siblingTargets(tree, ids, 2)
+  const top = members[members.length - 1]
+  const toTop = invert(parseTransformList(top.attrs.transform))
+  if (!toTop) throw new SvgCommandError('The topmost element has a transform that cannot be undone')
+  const segments = members.flatMap((member) => {
+    const own = shapeToSegments(member)
+    if (!own) throw new SvgCommandError(`Only shapes and paths can be joined, not <${member.tag}>`)
+    return transformSegments(own, multiply(toTop, parseTransformList(member.attrs.transform)))
+  })
+  const path = pathFrom(top, joinOpenSubpaths(segments))
+  return { tree: replaceMembers(tree, parent, members, [path]), selection: [path.id], changed: members.length }
+}
+
+const editPaths = (tree: SvgNode, command: Extract<SvgCommand, { type: 'to-path' | 'simplify' | 'reverse' | 'break-apart' | 'offset' }>) => {
+  switch (command.type) {
+    case 'to-path':
+      return rewriteShapes(tree, command.ids, 'Nothing to convert: the elements are already paths or not shapes', (node, segments) =>
+        node.tag === 'path' ? null : [pathFrom(node, segments)],
+      )
+    case 'simplify': {
+      const tolerance = command.tolerance ?? 0.5
+      if (!(tolerance > 0)) throw new SvgCommandError('The tolerance must be a positive number')
+      return rewriteShapes(tree, command.ids, 'Nothing to simplify within that tolerance', (node, segments) => {
+        if (node.tag !== 'path' && node.tag !== 'polyline' && node.tag !== 'polygon') return null
+        const simplified = simplifyPath(segments, tolerance)
+        return simplified.filter(isDrawSegment).length < segments.filter(isDrawSegment).length ? [pathFrom(node, simplified)] : null
+      })
+    }
+    case 'reverse':
+      return rewriteShapes(tree, command.ids, 'Nothing to reverse', (node, segments) => [pathFrom(node, reversePathData(segments))])
+    case 'break-apart':
+      return rewriteShapes(tree, command.ids, 'Nothing to break apart: every path has a single subpath', (node, segments, newId) => {
+        const subpaths = splitSubpaths(segments)
+        return subpaths.length > 1 ? subpaths.map((subpath, i) => pathFrom(node, subpath, i ? newId('path') : node.id)) : null
+      })
+    case 'offset': {
+      const { distance } = command
+      if (!Number.isFinite(distance)) throw new SvgCommandError('The offset must be a number')
+      return rewriteShapes(tree, command.ids, 'The offset leaves nothing of the elements', (node, segments) => {
+        const rule = getAttrOrStyle(node, 'fill-rule') === 'evenodd' ? 'evenodd' : 'nonzero'
+        const offset = offsetPath(segments, distance, rule)
+        return offset.length ? [pathFrom(node, offset)] : null
+      })
+    }
+  }
+}
+
+// Hiding sets display="none"; showing also clears a display:none from the inline style
+const setVisibility = (tree: SvgNode, ids: string[], visible: boolean): CommandResult => {
+  const targets = resolveTargets(tree, ids)
+  const next = updateMultipleNodes(tree, targets, (node) => {
+    if (!visible) {
+      node.attrs.display = 'none'
+      return
+    }
+    if (node.attrs.display === 'none') delete node.attrs.display
+    if (getStyleValue(node.attrs.style, 'display') === 'none') clearProperty(node.attrs, 'display')
+  })
+  return { tree: next, selection: ids, changed: targets.size }
+}
+
+// `layers` reordered by one stacking move; the first entry is drawn at the bottom
+const restack = (layers: SvgNode[], targets: Set<string>, to: StackingMove) => {
+  const moving = layers.filter((node) => targets.has(node.id))
+  const staying = layers.filter((node) => !targets.has(node.id))
+  if (to === 'front') return [...staying, ...moving]
+  if (to === 'back') return [...moving, ...staying]
+  // One step: each run of targets trades places with the sibling just above (or below) it
+  const order = [...layers]
+  const step = to === 'forward' ? 1 : -1
+  const indices = order.map((_, index) => index)
+  if (to === 'forward') indices.reverse()
+  for (const index of indices) {
+    const other = index + step
+    if (other < 0 || other >= order.length) continue
+    if (targets.has(order[index].id) && !targets.has(order[other].id)) {
+      ;[order[index], order[other]] = [order[other], order[index]]
+    }
+  }
+  return order
+}
+
+// Restacks the targets among their siblings. Only drawn siblings count, so every step
+// changes what is painted over what; <defs>, <title> and the like keep their places.
+const reorderNodes = (tree: SvgNode, ids: string[], to: StackingMove): CommandResult => {
+  const targets = resolveTargets(tree, ids)
+  const parents = new Set(ids.map((id) => findParent(tree, id)!.id))
+  let changed = 0
+  const next = updateMultipleNodes(tree, parents, (parent) => {
+    const slots = parent.children.flatMap((child, index) => (isLayerNode(child) ? [index] : []))
+    const layers = slots.map((slot) => parent.children[slot])
+    const order = restack(layers, targets, to)
+    order.forEach((node, i) => {
+      if (node !== layers[i] && targets.has(node.id)) changed++
+      parent.children[slots[i]] = node
+    })
+  })
+  return { tree: next, selection: ids, changed }
+}
+
+// Moves the targets into `parentId`, just below `before` or on top of its other children.
+// Targets that change parent get their transform adjusted so they stay where they were drawn.
+const reparentNodes = (tree: SvgNode, ids: string[], parentId: string, before?: string): CommandResult => {
+  const targets = resolveTargets(tree, ids)
+  const parent = findNode(tree, parentId)
+  if (!parent) throw new SvgCommandError(`No element with id "${parentId}"`)
+  if (!LAYER_CONTAINERS.has(parent.tag)) throw new SvgCommandError(`Elements cannot be moved into a <${parent.tag}>`)
+  if (ids.some((id) => findNode(findNode(tree, id), parentId))) throw new SvgCommandError('An element cannot be moved into itself')
+  if (before !== undefined) {
+    if (!parent.children.some((child) => child.id === before)) throw new SvgCommandError(`"${before}" is not a child of "${parentId}"`)
+    if (targets.has(before)) throw new SvgCommandError(`"${before}" is one of the elements being moved`)
+  }
+
+  const moved = adoptNodes(tree, ids, parentId)
+
+  const next = updateNode(removeMultipleNodes(tree, targets) ?? tree, parentId, (p) => {
+    const index = before === undefined ? -1 : p.children.findIndex((child) => child.id === before)
+    p.children.splice(index < 0 ? p.children.length : index, 0, ...moved)
+  })
+  const selection = moved.map((node) => node.id)
+  // Dropping elements back where they were changes nothing
+  const order = (node: SvgNode | null) => node?.children.map((child) => child.id).join('\n')
+  if (moved.every((node) => findParent(tree, node.id)?.id === parentId) && order(parent) === order(findNode(next, parentId))) {
+    return { tree, selection, changed: 0 }
+  }
+  return { tree: next, selection, changed: moved.length }
+}
+
+const VALID_ID = /^[A-Za-z_][\w.-]*$/
+
+// Writes the element's label, or its id attribute along with every reference to the old id.
+// An empty name removes the label, or an id nothing refers to.
+const renameNode = (tree: SvgNode, id: string, name: string, as: 'id' | 'label'): CommandResult => {
+  const node = findNode(tree, id)
+  if (!node) throw new SvgCommandError(`No element with id "${id}"`)
+  const value = name.trim()
+  if (as === 'label') {
+    return { tree: updateNode(tree, id, (n) => setNodeAttribute(n, LABEL_ATTRIBUTE, value)), selection: [id], changed: 1 }
+  }
+
+  const previous = node.attrs.id
+  if (value === (previous ?? '')) return { tree, selection: [id], changed: 0 }
+  if (!value) {
+    if (previous !== undefined && referencedIds(tree).has(previous)) throw new SvgCommandError(`"${previous}" is still referenced and needs an id`)
+  } else {
+    if (!VALID_ID.test(value)) throw new SvgCommandError(`"${value}" is not a valid id`)
+    let taken = false
+    walkNodes(tree, (other) => {
+      if (other.id !== id && (other.id === value || other.attrs.id === value)) taken = true
+    })
+    if (taken) throw new SvgCommandError(`Id "${value}" is already in use`)
+  }
+
+  const renamed = updateNode(tree, id, (n) => setNodeAttribute(n, 'id', value))
+  const next = previous !== undefined && value ? rewriteReferences(renamed, new Map([[previous, value]])) : renamed
+  return { tree: next, selection: [id], changed: 1 }
+}
+
+/**
+ * Applies one editing command to a tree and returns the new tree. The input is never
+ * mutated, so callers can keep it for undo. Throws `SvgCommandError` when a command
+ * targets ids that do not exist or cannot be edited.
+ */
+export const applyCommand = (tree: SvgNode, command: SvgCommand): CommandResult => {
+  switch (command.type) {
+    case 'set-attribute':
+      return setAttribute(tree, command.ids, command.name, command.value)
+    case 'delete':
+      return deleteNodes(tree, command.ids)
+    case 'group':
+      return groupNodes(tree, command.ids, command.groupId)
+    case 'duplicate':
+      return duplicateNodes(tree, command.ids, command.dx ?? 0, command.dy ?? 0)
+    case 'move':
+      return moveNodes(tree, command.ids, command.dx, command.dy)
+    case 'recolor':
+      return recolor(tree, command.from, command.to, command.ids, command.properties ?? ['fill', 'stroke'])
+    case 'clip':
+      return clipNodes(tree, command.ids, command.as ?? 'clip-path')
+    case 'release':
+      return releaseNodes(tree, command.ids)
+    case 'pattern':
+      return patternNodes(tree, command.ids, command.bounds)
+    case 'boolean':
+      return combineNodes(tree, command.ids, command.operation)
+    case 'outline-stroke':
+      return outlineStrokes(tree, command.ids)
+    case 'join':
+      return joinPaths(tree, command.ids)
+    case 'to-path':
+    case 'simplify':
+    case 'reverse':
+    case 'break-apart':
+    case 'offset':
+      return editPaths(tree, command)
+    case 'visibility':
+      return setVisibility(tree, command.ids, command.visible)
+    case 'reorder':
+      return reorderNodes(tree, command.ids, command.to)
+    case 'reparent':
+      return reparentNodes(tree, command.ids, command.parent, command.before)
+    case 'rename':
+      return renameNode(tree, command.id, command.name, command.as ?? 'id')
+    default: {
+      const unknown: never = command
+      throw new SvgCommandError(`Unknown command "${(unknown as { type: unknown }).type}"`)
+    }
+  }
+}
+
+export const applyCommands = (tree: SvgNode, commands: SvgCommand[]): CommandResult =>
+  commands.reduce<CommandResult>(
+    (result, command) => {
+      const next = applyCommand(result.tree, command)
+      return { ...next, changed: result.changed + next.changed }
+    },
+    { tree, selection: [], changed: 0 },
+  )
@@ -0,0 +1,176 @@
+import { applyToPoint } from './matrix.ts'
+import type { Matrix, Point } from './matrix.ts'
+import { parsePathData, parsePoints, splitSubpaths, toCubicSegments } from './path.ts'
+import type { PathSegment } from './path.ts'
+import type { SvgNode } from './types.ts'
+
+// Elements whose outline can be written as path data
+export const SHAPE_TAGS = ['rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'path'] as const
+
+// Attributes that only describe geometry; they do not carry over to a converted <path>
+export const GEOMETRY_ATTRIBUTES = ['x', 'y', 'width', 'height', 'rx', 'ry', 'cx', 'cy', 'r', 'x1', 'y1', 'x2', 'y2', 'points', 'd', 'pathLength']
+
+const length = (value: string | undefined) => {
+  const number = parseFloat(value ?? '')
+  return Number.isFinite(number) ? number : 0
+}
+
+const ellipseSegments = (cx: number, cy: number, rx: number, ry: number): PathSegment[] => {
+  if (rx <= 0 || ry <= 0) return []
+  const arc = (x: number, y: number): PathSegment => ({ type: 'A', rx, ry, angle: 0, largeArc: false, sweep: true, x, y })
+  return [
+    { type: 'M', x: cx + rx, y: cy },
+    arc(cx, cy + ry),
+    arc(cx - rx, cy),
+    arc(cx, cy - ry),
+    arc(cx + rx, cy),
+    { type: 'Z' },
+  ]
+}
+
+const rectSegments = (node: SvgNode): PathSegment[] => {
+  const x = length(node.attrs.x)
+  const y = length(node.attrs.y)
+  const width = length(node.attrs.width)
+  const height = length(node.attrs.height)
+  if (width <= 0 || height <= 0) return []
+  // A missing radius takes the other one's value, and both are capped at half the side
+  const rxValue = node.attrs.rx ?? node.attrs.ry
+  const ryValue = node.attrs.ry ?? node.attrs.rx
+  const rx = Math.min(Math.max(0, length(rxValue)), width / 2)
+  const ry = Math.min(Math.max(0, length(ryValue)), height / 2)
+  if (!rx || !ry) {
+    return [
+      { type: 'M', x, y },
+      { type: 'L', x: x + width, y },
+      { type: 'L', x: x + width, y: y + height },
+      { type: 'L', x, y: y + height },
+      { type: 'Z' },
+    ]
+  }
+  const arc = (ax: number, ay: number): PathSegment => ({ type: 'A', rx, ry, angle: 0, largeArc: false, sweep: true, x: ax, y: ay })
+  return [
+    { type: 'M', x: x + rx, y },
+    { type: 'L', x: x + width - rx, y },
+    arc(x + width, y + ry),
+    { type: 'L', x: x + width, y: y + height - ry },
+    arc(x + width - rx, y + height),
+    { type: 'L', x: x + rx, y: y + height },
+    arc(x, y + height - ry),
+    { type: 'L', x, y: y + ry },
+    arc(x + rx, y),
+    { type: 'Z' },
+  ]
+}
+
+/**
+ * The outline of a basic shape or path as absolute path segments, in the element's own
+ * coordinates (its `transform` is not applied). Returns null for elements that have no
+ * path equivalent, such as text, images and groups.
+ */
+export const shapeToSegments = (node: SvgNode): PathSegment[] | null => {
+  const { attrs } = node
+  switch (node.tag) {
+    case 'rect':
+      return rectSegments(node)
+    case 'circle': {
+      const r = length(attrs.r)
+      return ellipseSegments(length(attrs.cx), length(attrs.cy), r, r)
+    }
+    case 'ellipse':
+      return ellipseSegments(length(attrs.cx), length(attrs.cy), length(attrs.rx), length(attrs.ry))
+    case 'line':
+      return [
+        { type: 'M', x: length(attrs.x1), y: length(attrs.y1) },
+        { type: 'L', x: length(attrs.x2), y: length(attrs.y2) },
+      ]
+    case 'polyline':
+    case 'polygon': {
+      const points = parsePoints(attrs.points)
+      if (!points.length) return []
+      const segments: PathSegment[] = points.map((p, i) => ({ type: i ? 'L' : 'M', x: p.x, y: p.y }))
+      return node.tag === 'polygon' ? [...segments, { type: 'Z' }] : segments
+    }
+    case 'path':
+      return parsePathData(attrs.d ?? '')
+  }
+  return null
+}
+
+// Maps every point through `m`. Arcs and quadratics become cubics first, since an
+// affine transform keeps a cubic a cubic but can skew an arc's axes.
+export const transformSegments = (segments: PathSegment[], m: Matrix): PathSegment[] =>
+  toCubicSegments(segments).map((s) => {
+    switch (s.type) {
+      case 'C': {
+        const c1 = applyToPoint(m, { x: s.x1, y: s.y1 })
+        const c2 = applyToPoint(m, { x: s.x2, y: s.y2 })
+        const end = applyToPoint(m, s)
+        return { type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y }
+      }
+      case 'M':
+      case 'L':
+        return { type: s.type, ...applyToPoint(m, s) }
+      default:
+        return s
+    }
+  })
+
+export type Polyline = {
+  points: Point[]
+  closed: boolean
+  // Indices into `points` of the path's own nodes (the rest were sampled along curves)
+  nodes: number[]
+}
+
+/**
+ * Approximates every subpath with straight lines that stay within `tolerance` of the
+ * curves. Repeated points are dropped; a closed subpath does not repeat its first point.
+ */
+export const flattenSubpaths = (segments: PathSegment[], tolerance: number): Polyline[] =>
+  splitSubpaths(toCubicSegments(segments)).flatMap((subpath) => {
+    const points: Point[] = []
+    const nodes: number[] = []
+    const add = (p: Point, node: boolean) => {
+      const last = points[points.length - 1]
+      if (!last || last.x !== p.x || last.y !== p.y) points.push(p)
+      if (node && nodes[nodes.length - 1] !== points.length - 1) nodes.push(points.length - 1)
+    }
+    let current: Point = { x: 0, y: 0 }
+    for (const s of subpath) {
+      if (s.type === 'C') {
+        const p0 = current
+        // n even steps stray at most 3/4 of the largest second difference / n²
+        const dd = Math.max(
+          Math.hypot(p0.x - 2 * s.x1 + s.x2, p0.y - 2 * s.y1 + s.y2),
+          Math.hypot(s.x1 - 2 * s.x2 + s.x, s.y1 - 2 * s.y2 + s.y),
+        )
+        const steps = Math.min(1000, Math.max(1, Math.ceil(Math.sqrt((0.75 * dd) / tolerance))))
+        for (let i = 1; i < steps; i++) {
+          const t = i / steps
+          const u = 1 - t
+          add(
+            {
+              x: u * u * u * p0.x + 3 * u * u * t * s.x1 + 3 * u * t * t * s.x2 + t * t * t * s.x,
+              y: u * u * u * p0.y + 3 * u * u * t * s.y1 + 3 * u * t * t * s.y2 + t * t * t * s.y,
+            },
+            false,
+          )
+        }
+      }
+      if (s.type !== 'Z') {
+        current = { x: s.x, y: s.y }
+        add(current, true)
+      }
+    }
+    const closed = subpath[subpath.length - 1].type === 'Z'
+    if (closed && points.length > 1) {
+      const first = points[0]
+      const last = points[points.length - 1]
+      if (first.x === last.x && first.y === last.y) {
+        points.pop()
+        if (nodes[nodes.length - 1] === points.length) nodes.pop()
+      }
+    }
+    return points.length ? [{ points, closed, nodes }] : []
+  })
@@ -0,0 +1,286 @@
+import { IDENTITY, formatNumber, formatTransform, isIdentity, multiply, parseTransformList } from './matrix.ts'
+import type { Matrix, Point } from './matrix.ts'
+import { getAttrOrStyle, setNodeAttribute } from './style.ts'
+import { createUniqueId, ensureDefs, updateMultipleNodes, updateNode, walkNodes } from './tree.ts'
+import type { SvgNode } from './types.ts'
+
+export type GradientKind = 'linear' | 'radial'
+
+export type SpreadMethod = 'pad' | 'reflect' | 'repeat'
+
+export type PaintProperty = 'fill' | 'stroke'
+
+// Offset is 0..1, opacity 0..1
+export type GradientStop = { offset: number; color: string; opacity: number }
+
+/**
+ * A gradient with everything inherited through `href` resolved. Coordinates are in the
+ * gradient's own space: fractions of the bounding box for `objectBoundingBox` units,
+ * user units otherwise. Linear gradients use start/end, radial ones center/radius/focal.
+ */
+export type Gradient = {
+  id: string
+  kind: GradientKind
+  stops: GradientStop[]
+  spreadMethod: SpreadMethod
+  units: 'objectBoundingBox' | 'userSpaceOnUse'
+  transform: Matrix
+  start: Point
+  end: Point
+  center: Point
+  radius: number
+  // Null when the focal point is the center
+  focal: Point | null
+}
+
+const GRADIENT_TAGS: Record<string, GradientKind> = { linearGradient: 'linear', radialGradient: 'radial' }
+
+// Attributes writeGradient owns; anything else on the element is left alone
+const GEOMETRY_ATTRIBUTES = ['x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'fx', 'fy', 'fr', 'spreadMethod', 'gradientUnits', 'gradientTransform']
+
+// Returns the id inside a `url(#id)` paint value (with or without quotes or a fallback)
+export const parsePaintUrl = (value: string | undefined): string | null => {
+  const match = value?.match(/url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/)
+  return match ? match[1] : null
+}
+
+export const getPaintServerId = (node: SvgNode, property: PaintProperty) => parsePaintUrl(getAttrOrStyle(node, property))
+
+// Elements are referenced by their `id` attribute, which is not always the editor's node id
+export const findByElementId = (tree: SvgNode, elementId: string): SvgNode | null => {
+  let found: SvgNode | null = null
+  walkNodes(tree, (node) => {
+    if (!found && node.attrs.id === elementId) found = node
+  })
+  return found
+}
+
+const hrefOf = (node: SvgNode) => {
+  const href = node.attrs.href ?? node.attrs['xlink:href']
+  return href?.startsWith('#') ? href.slice(1) : null
+}
+
+const parseLength = (value: string | undefined, fallback: number, bboxUnits: boolean) => {
+  if (value === undefined) return fallback
+  const amount = parseFloat(value)
+  if (!Number.isFinite(amount)) return fallback
+  return bboxUnits && value.trim().endsWith('%') ? amount / 100 : amount
+}
+
+const parseOffset = (value: string | undefined) => {
+  const amount = parseFloat(value ?? '0')
+  if (!Number.isFinite(amount)) return 0
+  return Math.min(1, Math.max(0, value?.trim().endsWith('%') ? amount / 100 : amount))
+}
+
+/**
+ * Reads gradient `elementId`, following its `href` chain for attributes and stops it
+ * does not set itself. Returns null when there is no such gradient.
+ */
+export const readGradient = (tree: SvgNode, elementId: string): Gradient | null => {
+  const node = findByElementId(tree, elementId)
+  if (!node || !GRADIENT_TAGS[node.tag]) return null
+
+  // The element itself first, then the gradients it inherits from
+  const chain: SvgNode[] = []
+  for (let current: SvgNode | null = node; current && !chain.includes(current); ) {
+    chain.push(current)
+    const href = hrefOf(current)
+    current = href ? findByElementId(tree, href) : null
+  }
+  const attr = (name: string) => chain.find((n) => n.attrs[name] !== undefined)?.attrs[name]
+  const stopSource = chain.find((n) => n.children.some((child) => child.tag === 'stop'))
+
+  const units = attr('gradientUnits') === 'userSpaceOnUse' ? 'userSpaceOnUse' : 'objectBoundingBox'
+  const bbox = units === 'objectBoundingBox'
+  const spread = attr('spreadMethod')
+  const center = { x: parseLength(attr('cx'), 0.5, bbox), y: parseLength(attr('cy'), 0.5, bbox) }
+  const fx = attr('fx')
+  const fy = attr('fy')
+  return {
+    id: elementId,
+    kind: GRADIENT_TAGS[node.tag],
+    stops: (stopSource?.children ?? [])
+      .filter((child) => child.tag === 'stop')
+      .map((stop) => ({
+        offset: parseOffset(stop.attrs.offset),
+        color: getAttrOrStyle(stop, 'stop-color') ?? '#000000',
+        opacity: Number(getAttrOrStyle(stop, 'stop-opacity') ?? 1),
+      })),
+    spreadMethod: spread === 'reflect' || spread === 'repeat' ? spread : 'pad',
+    units,
+    transform: parseTransformList(attr('gradientTransform')),
+    start: { x: parseLength(attr('x1'), 0, bbox), y: parseLength(attr('y1'), 0, bbox) },
+    end: { x: parseLength(attr('x2'), bbox ? 1 : 0, bbox), y: parseLength(attr('y2'), 0, bbox) },
+    center,
+    radius: parseLength(attr('r'), 0.5, bbox),
+    focal:
+      fx !== undefined || fy !== undefined
+        ? { x: parseLength(fx, center.x, bbox), y: parseLength(fy, center.y, bbox) }
+        : null,
+  }
+}
+
+const num = (value: number) => formatNumber(value, 4)
+
+/**
+ * Writes `gradient` into its element: tag, geometry, transform, spread method and stops. The stops
+ * are written on the element itself, so it no longer inherits them through `href`.
+ * Mutates `node` in place.
+ */
+export const writeGradient = (node: SvgNode, gradient: Gradient) => {
+  node.tag = gradient.kind === 'linear' ? 'linearGradient' : 'radialGradient'
+  for (const name of GEOMETRY_ATTRIBUTES) delete node.attrs[name]
+  if (gradient.units === 'userSpaceOnUse') node.attrs.gradientUnits = 'userSpaceOnUse'
+  if (gradient.kind === 'linear') {
+    Object.assign(node.attrs, {
+      x1: num(gradient.start.x),
+      y1: num(gradient.start.y),
+      x2: num(gradient.end.x),
+      y2: num(gradient.end.y),
+    })
+  } else {
+    Object.assign(node.attrs, { cx: num(gradient.center.x), cy: num(gradient.center.y), r: num(gradient.radius) })
+    if (gradient.focal) Object.assign(node.attrs, { fx: num(gradient.focal.x), fy: num(gradient.focal.y) })
+  }
+  if (gradient.spreadMethod !== 'pad') node.attrs.spreadMethod = gradient.spreadMethod
+  if (!isIdentity(gradient.transform)) node.attrs.gradientTransform = formatTransform(gradient.transform)
+
+  const base = node.attrs.id ?? node.id
+  node.children = [
+    ...node.children.filter((child) => child.tag !== 'stop'),
+    ...gradient.stops.map((stop, index): SvgNode => {
+      const id = `${base}-stop-${index + 1}`
+      const attrs: Record<string, string> = { offset: num(stop.offset), 'stop-color': stop.color }
+      if (stop.opacity < 1) attrs['stop-opacity'] = num(stop.opacity)
+      attrs['data-id'] = id
+      return { id, tag: 'stop', attrs, children: [] }
+    }),
+  ]
+}
+
+// Default geometry for a fresh gradient across the bounding box
+const defaultGeometry = () => ({
+  units: 'objectBoundingBox' as const,
+  transform: IDENTITY,
+  start: { x: 0, y: 0 },
+  end: { x: 1, y: 0 },
+  center: { x: 0.5, y: 0.5 },
+  radius: 0.5,
+  focal: null,
+})
+
+// Switches between linear and radial, keeping the stops and resetting the geometry
+export const setGradientKind = (gradient: Gradient, kind: GradientKind): Gradient =>
+  gradient.kind === kind ? gradient : { ...gradient, kind, ...defaultGeometry() }
+
+const parseHex = (color: string): number[] | null => {
+  const value = color.trim().toLowerCase()
+  const short = value.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/)
+  if (short) return short.slice(1).map((c) => parseInt(c + c, 16))
+  const long = value.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/)
+  return long ? long.slice(1).map((c) => parseInt(c, 16)) : null
+}
+
+const mixColors = (a: string, b: string, t: number) => {
+  const from = parseHex(a)
+  const to = parseHex(b)
+  if (!from || !to) return t < 0.5 ? a : b
+  return `#${from.map((c, i) => Math.round(c + (to[i] - c) * t).toString(16).padStart(2, '0')).join('')}`
+}
+
+export const sortStops = (stops: GradientStop[]) => [...stops].sort((a, b) => a.offset - b.offset)
+
+// Adds a stop in the widest gap between stops, colored to match what is drawn there
+export const addStop = (stops: GradientStop[]): GradientStop[] => {
+  const sorted = sortStops(stops)
+  if (!sorted.length) return [{ offset: 0, color: '#000000', opacity: 1 }]
+  let gap = { index: sorted.length, size: 1 - sorted[sorted.length - 1].offset }
+  sorted.forEach((stop, index) => {
+    const size = index ? stop.offset - sorted[index - 1].offset : stop.offset
+    if (size > gap.size) gap = { index, size }
+  })
+  const before = sorted[gap.index - 1] ?? sorted[0]
+  const after = sorted[gap.index] ?? sorted[sorted.length - 1]
+  const offset = gap.index === 0 ? 0 : gap.index === sorted.length ? 1 : (before.offset + after.offset) / 2
+  const stop = {
+    offset,
+    color: mixColors(before.color, after.color, 0.5),
+    opacity: (before.opacity + after.opacity) / 2,
+  }
+  return [...sorted.slice(0, gap.index), stop, ...sorted.slice(gap.index)]
+}
+
+// Swaps a stop with its neighbour: the colors trade places, the offsets stay put
+export const moveStop = (stops: GradientStop[], index: number, direction: -1 | 1): GradientStop[] => {
+  const other = index + direction
+  if (!stops[index] || !stops[other]) return stops
+  const next = [...stops]
+  next[index] = { ...stops[other], offset: stops[index].offset }
+  next[other] = { ...stops[index], offset: stops[other].offset }
+  return next
+}
+
+/**
+ * Elements that paint with gradient `elementId` (through fill or stroke, as an attribute
+ * or inline style) and gradients that inherit from it. More than one user means an edit
+ * shows up in several places.
+ */
+export const findPaintUsers = (tree: SvgNode, elementId: string): SvgNode[] => {
+  const users: SvgNode[] = []
+  walkNodes(tree, (node) => {
+    if (GRADIENT_TAGS[node.tag] ? hrefOf(node) === elementId : getPaintServerId(node, 'fill') === elementId || getPaintServerId(node, 'stroke') === elementId) {
+      users.push(node)
+    }
+  })
+  return users
+}
+
+// Adds `gradient` to <defs> under a fresh id (based on `prefix`) and points `property` of `ids` at it
+const insertGradient = (tree: SvgNode, gradient: Omit<Gradient, 'id'>, prefix: string, ids: string[], property: PaintProperty) => {
+  const { tree: withDefs, defsId } = ensureDefs(tree)
+  const id = createUniqueId(withDefs, prefix)
+  const node: SvgNode = { id, tag: 'linearGradient', attrs: { id, 'data-id': id }, children: [] }
+  writeGradient(node, { ...gradient, id })
+  const inserted = updateNode(withDefs, defsId, (defs) => {
+    defs.children.push(node)
+  })
+  return {
+    tree: updateMultipleNodes(inserted, new Set(ids), (target) => setNodeAttribute(target, property, `url(#${id})`)),
+    gradientId: id,
+  }
+}
+
+// Creates a two-stop gradient from `color` to transparent and paints `ids` with it
+export const createGradient = (tree: SvgNode, kind: GradientKind, color: string, ids: string[], property: PaintProperty) =>
+  insertGradient(
+    tree,
+    {
+      kind,
+      stops: [
+        { offset: 0, color, opacity: 1 },
+        { offset: 1, color, opacity: 0 },
+      ],
+      spreadMethod: 'pad',
+      ...defaultGeometry(),
+    },
+    `${kind}-gradient`,
+    ids,
+    property,
+  )
+
+/**
+ * Gives `ids` their own copy of a shared gradient, so editing it no longer changes the
+ * other users. The copy keeps the gradient transform and resolves inherited stops.
+ */
+export const forkGradient = (tree: SvgNode, elementId: string, ids: string[], property: PaintProperty) => {
+  const gradient = readGradient(tree, elementId)
+  if (!gradient) return { tree, gradientId: elementId }
+  return insertGradient(tree, gradient, elementId, ids, property)
+}
+
+// Matrix from gradient space to the painted element's user space, given its bounding box
+export const gradientToUserSpace = (gradient: Gradient, bbox: { x: number; y: number; width: number; height: number }): Matrix => {
+  if (gradient.units === 'userSpaceOnUse') return gradient.transform
+  return multiply({ a: bbox.width, b: 0, c: 0, d: bbox.height, e: bbox.x, f: bbox.y }, gradient.transform)
+}
@@ -0,0 +1,93 @@
+import { formatNumber } from './matrix.ts'
+import { idAllocator, updateNode } from './tree.ts'
+import type { SvgNode } from './types.ts'
+
+// Guides live in the document as
+//   <metadata><svge:guides xmlns:svge="urn:svg-editor:guides"><svge:guide orientation="vertical" position="120"/></svge:guides></metadata>
+// which renderers ignore and other editors carry along untouched.
+export const GUIDES_NAMESPACE = 'urn:svg-editor:guides'
+
+const PREFIX = 'svge'
+const CONTAINER_TAG = `${PREFIX}:guides`
+const GUIDE_TAG = `${PREFIX}:guide`
+
+// A vertical guide marks an x position, a horizontal one a y position
+export type GuideOrientation = 'horizontal' | 'vertical'
+
+export type Guide = {
+  // Node id of the guide element; leave empty for a new guide and writeGuides assigns one
+  id: string
+  orientation: GuideOrientation
+  // In the root's user units
+  position: number
+  locked: boolean
+}
+
+// The <metadata> under the root that holds the guides, and the guides element inside it
+const findContainer = (tree: SvgNode) => {
+  for (const metadata of tree.children) {
+    if (metadata.tag !== 'metadata') continue
+    const container = metadata.children.find((child) => child.tag === CONTAINER_TAG)
+    if (container) return { metadata, container }
+  }
+  return null
+}
+
+/** The guides saved in the document, in document order. */
+export const readGuides = (tree: SvgNode): Guide[] => {
+  const found = findContainer(tree)
+  if (!found) return []
+  return found.container.children.flatMap((node) => {
+    const position = parseFloat(node.attrs.position ?? '')
+    const orientation = node.attrs.orientation
+    if (node.tag !== GUIDE_TAG || !Number.isFinite(position)) return []
+    if (orientation !== 'horizontal' && orientation !== 'vertical') return []
+    return [{ id: node.id, orientation, position, locked: node.attrs.locked === 'true' }]
+  })
+}
+
+/**
+ * Replaces the document's guides. The metadata block is added under the root when the
+ * first guide is written, and removed again (if it holds nothing else) when the last goes.
+ */
+export const writeGuides = (tree: SvgNode, guides: Guide[]): SvgNode => {
+  const found = findContainer(tree)
+  if (!guides.length) {
+    if (!found) return tree
+    const { metadata, container } = found
+    const rest = metadata.children.filter((child) => child !== container)
+    const empty = rest.every((child) => child.tag === '#text' && !child.text?.trim())
+    return updateNode(tree, tree.id, (root) => {
+      if (empty) root.children = root.children.filter((child) => child.id !== metadata.id)
+      else root.children = root.children.map((child) => (child.id === metadata.id ? { ...child, children: rest } : child))
+    })
+  }
+
+  const freshId = idAllocator(tree)
+
+  const children: SvgNode[] = guides.map((guide) => {
+    const id = guide.id || freshId('guide')
+    const attrs: Record<string, string> = { 'data-id': id, orientation: guide.orientation, position: formatNumber(guide.position) }
+    if (guide.locked) attrs.locked = 'true'
+    return { id, tag: GUIDE_TAG, attrs, children: [] }
+  })
+
+  if (found) {
+    return updateNode(tree, found.container.id, (container) => {
+      container.children = children
+    })
+  }
+  const metadataId = freshId('metadata')
+  const containerId = freshId('guides')
+  return updateNode(tree, tree.id, (root) => {
+    root.children.unshift({
+      id: metadataId,
+      tag: 'metadata',
+      attrs: { 'data-id': metadataId },
+      children: [{ id: containerId, tag: CONTAINER_TAG, attrs: { 'data-id': containerId, [`xmlns:${PREFIX}`]: GUIDES_NAMESPACE }, children }],
+    })
+  })
+}
+
+// Removes the guides, for exports meant for use outside the editor
+export const stripGuides = (tree: SvgNode): SvgNode => writeGuides(tree, [])
@@ -0,0 +1,329 @@
+import type { SvgCommand } from './commands.ts'
+import { parseTransformList } from './matrix.ts'
+import { findNode } from './tree.ts'
+import type { SvgNode } from './types.ts'
+
+// Values before and after a change; null when the attribute (or text) is absent
+type ValueChange = [string | null, string | null]
+
+/**
+ * What one edit did to one element, enough to replay it in either direction. Children are
+ * recorded by id order, with snapshots only of the subtrees that were added or removed, so
+ * an entry costs about as much as the elements it touched rather than the whole document.
+ */
+export type NodeChange = {
+  id: string
+  attrs?: Record<string, ValueChange>
+  text?: ValueChange
+  children?: { before: string[]; after: string[]; removed: SvgNode[]; added: SvgNode[] }
+  // The whole document, when the root itself was swapped for another one
+  root?: { before: SvgNode; after: SvgNode }
+}
+
+export type HistoryEntry = {
+  label: string
+  changes: NodeChange[]
+  // Estimated memory use in bytes, counted against the history's budget
+  size: number
+  time: number
+}
+
+/**
+ * Undo history as reversible changes. `tree` is the document after the first `index`
+ * entries; undo replays entry `index - 1` backwards, redo replays entry `index` forwards.
+ */
+export type History = { tree: SvgNode | null; entries: HistoryEntry[]; index: number; size: number }
+
+export type RecordOptions = {
+  // Merges into the previous entry when it has the same label and elements and is this recent (ms)
+  mergeWithin?: number
+  // Oldest entries are dropped once the entries together are estimated to use more than this
+  budget?: number
+  now?: number
+}
+
+// Estimated bytes that keep an editing session of a large illustration responsive
+export const DEFAULT_HISTORY_BUDGET = 64 * 1024 * 1024
+
+// Colour-picker and slider drags arrive faster than this between changes
+export const DEFAULT_MERGE_WINDOW = 1000
+
+export const createHistory = (tree: SvgNode | null): History => ({ tree, entries: [], index: 0, size: 0 })
+
+// Picks up saved `entries` again, with `tree` as the document after the first `index` of them
+export const restoreHistory = (tree: SvgNode, entries: HistoryEntry[], index: number): History => ({
+  tree,
+  entries,
+  index: Math.max(0, Math.min(index, entries.length)),
+  size: entries.reduce((sum, entry) => sum + entry.size, 0),
+})
+
+const diffValue = (before: string | undefined, after: string | undefined): ValueChange | null =>
+  before === after ? null : [before ?? null, after ?? null]
+
+const diffNode = (before: SvgNode, after: SvgNode, changes: NodeChange[]) => {
+  if (before === after) return
+  const change: NodeChange = { id: after.id }
+
+  for (const name of new Set([...Object.keys(before.attrs), ...Object.keys(after.attrs)])) {
+    const value = diffValue(before.attrs[name], after.attrs[name])
+    if (value) (change.attrs ??= {})[name] = value
+  }
+  const text = diffValue(before.text, after.text)
+  if (text) change.text = text
+
+  const beforeIds = before.children.map((child) => child.id)
+  const afterIds = after.children.map((child) => child.id)
+  const previous = new Map(before.children.map((child) => [child.id, child]))
+  if (beforeIds.length !== afterIds.length || beforeIds.some((id, i) => id !== afterIds[i])) {
+    const kept = new Set(afterIds)
+    change.children = {
+      before: beforeIds,
+      after: afterIds,
+      removed: before.children.filter((child) => !kept.has(child.id)),
+      added: after.children.filter((child) => !previous.has(child.id)),
+    }
+  }
+  if (change.attrs || change.text || change.children) changes.push(change)
+
+  for (const child of after.children) {
+    const old = previous.get(child.id)
+    if (old) diffNode(old, child, changes)
+  }
+}
+
+/** The changes that turn `before` into `after`; empty when they are the same document. */
+export const diffTrees = (before: SvgNode, after: SvgNode): NodeChange[] => {
+  if (before.id !== after.id || before.prolog !== after.prolog) return [{ id: after.id, root: { before, after } }]
+  const changes: NodeChange[] = []
+  diffNode(before, after, changes)
+  return changes
+}
+
+/**
+ * Replays `changes` forwards (redo) or backwards (undo). Subtrees without changes are reused
+ * as they are rather than copied.
+ */
+export const applyChanges = (tree: SvgNode, changes: NodeChange[], direction: 'undo' | 'redo'): SvgNode => {
+  const forward = direction === 'redo'
+  const root = changes.find((change) => change.root)?.root
+  if (root) return forward ? root.after : root.before
+
+  const byId = new Map(changes.map((change) => [change.id, change]))
+  const rebuild = (node: SvgNode): SvgNode => {
+    const children = node.children.map(rebuild)
+    const change = byId.get(node.id)
+    if (!change) return children.every((child, i) => child === node.children[i]) ? node : { ...node, children }
+
+    const next: SvgNode = { ...node, attrs: { ...node.attrs }, children }
+    for (const [name, [before, after]] of Object.entries(change.attrs ?? {})) {
+      const value = forward ? after : before
+      if (value === null) delete next.attrs[name]
+      else next.attrs[name] = value
+    }
+    if (change.text) {
+      const value = forward ? change.text[1] : change.text[0]
+      if (value === null) delete next.text
+      else next.text = value
+    }
+    if (change.children) {
+      const pool = new Map([...children, ...(forward ? change.children.added : change.children.removed)].map((child) => [child.id, child]))
+      next.children = (forward ? change.children.after : change.children.before).map((id) => pool.get(id)).filter((child) => child !== undefined)
+    }
+    return next
+  }
+  return rebuild(tree)
+}
+
+// Rough bytes for keeping `changes` around: strings at two bytes a character plus object overhead
+const estimateSize = (changes: NodeChange[]) => {
+  const nodeSize = (node: SvgNode): number =>
+    64 +
+    2 * (node.id.length + node.tag.length + (node.text?.length ?? 0)) +
+    Object.entries(node.attrs).reduce((sum, [name, value]) => sum + 2 * (name.length + value.length) + 16, 0) +
+    node.children.reduce((sum, child) => sum + nodeSize(child), 0)
+  return changes.reduce((sum, change) => {
+    let size = 64 + 2 * change.id.length
+    for (const [name, [before, after]] of Object.entries(change.attrs ?? {})) {
+      size += 32 + 2 * (name.length + (before?.length ?? 0) + (after?.length ?? 0))
+    }
+    if (change.text) size += 2 * ((change.text[0]?.length ?? 0) + (change.text[1]?.length ?? 0))
+    if (change.children) {
+      const { before, after, removed, added } = change.children
+      size += 16 * (before.length + after.length) + [...removed, ...added].reduce((sum, node) => sum + nodeSize(node), 0)
+    }
+    if (change.root) size += nodeSize(change.root.before) + nodeSize(change.root.after)
+    return sum + size
+  }, 0)
+}
+
+const plural = (count: number, tag: string | undefined) => (count === 1 && tag ? tag : `${count} element${count === 1 ? '' : 's'}`)
+
+const styleProperties = (style: string | null) =>
+  new Map(
+    (style ?? '')
+      .split(';')
+      .map((entry) => entry.split(':').map((part) => part.trim()))
+      .filter(([name]) => name)
+      .map(([name, value]) => [name, value]),
+  )
+
+/**
+ * A short name for `changes`, such as "Change fill" or "Move 3 elements", for edits made
+ * without a label of their own. `tree` is the document after the change.
+ */
+export const describeChanges = (tree: SvgNode, changes: NodeChange[]): string => {
+  if (changes.some((change) => change.root)) return 'Replace document'
+  const tagOf = (ids: string[]) => (ids.length === 1 ? findNode(tree, ids[0])?.tag : undefined)
+  const elements = (nodes: SvgNode[]) => nodes.filter((node) => !node.tag.startsWith('#'))
+
+  const added = changes.flatMap((change) => elements(change.children?.added ?? []))
+  const removed = changes.flatMap((change) => elements(change.children?.removed ?? []))
+  const addedIds = new Set(added.map((node) => node.id))
+  const moved = removed.filter((node) => addedIds.has(node.id))
+  if (moved.length && moved.length === added.length && moved.length === removed.length) {
+    return `Move ${plural(moved.length, tagOf(moved.map((node) => node.id)))} to another group`
+  }
+  if (added.length && added.length > moved.length) {
+    const movedIds = new Set(moved.map((node) => node.id))
+    const fresh = added.filter((node) => !movedIds.has(node.id))
+    return `Add ${plural(fresh.length, fresh.length === 1 ? fresh[0].tag : undefined)}`
+  }
+  if (removed.length) return `Delete ${plural(removed.length, removed.length === 1 ? removed[0].tag : undefined)}`
+  if (changes.some((change) => change.children)) return 'Change stacking order'
+
+  const edited = changes.filter((change) => change.attrs)
+  if (changes.some((change) => change.text)) return 'Edit text'
+  const ids = edited.map((change) => change.id)
+  const names = new Set(edited.flatMap((change) => Object.keys(change.attrs!)))
+  if (names.size === 1 && names.has('transform')) {
+    // Only the translation changed: the elements were moved rather than scaled or rotated
+    const movedOnly = edited.every(({ attrs }) => {
+      const [before, after] = attrs!.transform.map((value) => parseTransformList(value ?? undefined))
+      return before.a === after.a && before.b === after.b && before.c === after.c && before.d === after.d
+    })
+    return `${movedOnly ? 'Move' : 'Transform'} ${plural(ids.length, tagOf(ids))}`
+  }
+  // Fill and stroke are mirrored into the style attribute, so a style change names its properties
+  const properties = new Set(names)
+  if (names.has('style')) {
+    properties.delete('style')
+    for (const { attrs } of edited) {
+      if (!attrs!.style) continue
+      const [before, after] = attrs!.style.map(styleProperties)
+      for (const name of new Set([...before.keys(), ...after.keys()])) {
+        if (before.get(name) !== after.get(name)) properties.add(name)
+      }
+    }
+  }
+  if (properties.size === 1) return `Change ${[...properties][0]}`
+  return `Edit ${plural(ids.length, tagOf(ids))}`
+}
+
+const REORDER_LABELS = { forward: 'Bring forward', backward: 'Send backward', front: 'Bring to front', back: 'Send to back' }
+
+/** The history label for running `command`. */
+export const describeCommand = (command: SvgCommand): string => {
+  const count = 'ids' in command && command.ids ? command.ids.length : 0
+  const things = `${count} element${count === 1 ? '' : 's'}`
+  switch (command.type) {
+    case 'set-attribute':
+      return `Change ${command.name}`
+    case 'delete':
+      return `Delete ${things}`
+    case 'group':
+      return `Group ${things}`
+    case 'duplicate':
+      return `Duplicate ${things}`
+    case 'move':
+      return `Move ${things}`
+    case 'recolor':
+      return 'Replace colour'
+    case 'clip':
+      return command.as === 'mask' ? 'Mask' : 'Clip'
+    case 'release':
+      return 'Release clip or mask'
+    case 'pattern':
+      return 'Make pattern'
+    case 'boolean':
+      return command.operation[0].toUpperCase() + command.operation.slice(1)
+    case 'to-path':
+      return 'Convert to path'
+    case 'outline-stroke':
+      return 'Outline stroke'
+    case 'simplify':
+      return 'Simplify'
+    case 'reverse':
+      return 'Reverse path'
+    case 'join':
+      return 'Join paths'
+    case 'break-apart':
+      return 'Break apart'
+    case 'offset':
+      return command.distance < 0 ? 'Inset' : 'Outset'
+    case 'visibility':
+      return `${command.visible ? 'Show' : 'Hide'} ${things}`
+    case 'reorder':
+      return REORDER_LABELS[command.to]
+    case 'reparent':
+      return `Move ${things} to another group`
+    case 'rename':
+      return 'Rename'
+  }
+}
+
+// Drops the oldest entries until the rest fit in `budget`, then redo entries if that is not enough
+const trimToBudget = (history: History, budget: number): History => {
+  let { entries, index, size } = history
+  while (size > budget && entries.length > 1) {
+    const dropOldest = index > 0
+    const dropped = dropOldest ? entries[0] : entries[entries.length - 1]
+    entries = dropOldest ? entries.slice(1) : entries.slice(0, -1)
+    if (dropOldest) index--
+    size -= dropped.size
+  }
+  return { ...history, entries, index, size }
+}
+
+/**
+ * Records the edit from `history.tree` to `tree` as a new entry, discarding anything that
+ * could have been redone. Repeats of the previous edit within `mergeWithin` milliseconds,
+ * such as the steps of a colour-picker drag, extend that entry instead.
+ */
+export const recordChange = (history: History, tree: SvgNode, label?: string, options: RecordOptions = {}): History => {
+  const { mergeWithin = DEFAULT_MERGE_WINDOW, budget = DEFAULT_HISTORY_BUDGET, now = Date.now() } = options
+  if (!history.tree) return createHistory(tree)
+  const changes = diffTrees(history.tree, tree)
+  if (!changes.length) return history
+
+  const entries = history.entries.slice(0, history.index)
+  let size = entries.reduce((sum, entry) => sum + entry.size, 0)
+  const name = label ?? describeChanges(tree, changes)
+  const last = entries[entries.length - 1]
+  const sameElements = (a: NodeChange[], b: NodeChange[]) => a.length === b.length && a.every((change, i) => change.id === b[i].id)
+  if (last && last.label === name && now - last.time < mergeWithin && sameElements(last.changes, changes)) {
+    const start = applyChanges(history.tree, last.changes, 'undo')
+    const merged = diffTrees(start, tree)
+    entries.pop()
+    size -= last.size
+    if (!merged.length) return { tree, entries, index: entries.length, size }
+    const entry = { label: name, changes: merged, size: estimateSize(merged), time: now }
+    return trimToBudget({ tree, entries: [...entries, entry], index: entries.length + 1, size: size + entry.size }, budget)
+  }
+  const entry = { label: name, changes, size: estimateSize(changes), time: now }
+  return trimToBudget({ tree, entries: [...entries, entry], index: entries.length + 1, size: size + entry.size }, budget)
+}
+
+/** Moves `history` to just after entry `index - 1`, undoing or redoing the entries in between. */
+export const jumpToEntry = (history: History, index: number): History => {
+  if (!history.tree) return history
+  const target = Math.max(0, Math.min(index, history.entries.length))
+  let tree = history.tree
+  for (let i = history.index - 1; i >= target; i--) tree = applyChanges(tree, history.entries[i].changes, 'undo')
+  for (let i = history.index; i < target; i++) tree = applyChanges(tree, history.entries[i].changes, 'redo')
+  return { ...history, tree, index: target }
+}
+
+export const undoEntry = (history: History) => jumpToEntry(history, history.index - 1)
+
+export const redoEntry = (history: History) => jumpToEntry(history, history.index + 1)
@@ -0,0 +1,141 @@
+// UI-free SVG document core, shared by the editor and the `svg-edit` CLI.
+// Nothing in here may touch the DOM or React.
+export type { SvgNode } from './types.ts'
+export { parseSvgMarkup, decodeEntities, isElementNode, SvgParseError, TEXT_CONTENT_TAGS } from './xml.ts'
+export { serializeNode, escapeText, escapeAttribute } from './serialize.ts'
+export type { SerializeOptions } from './serialize.ts'
+export {
+  indexTree,
+  cloneNode,
+  updateNode,
+  updateMultipleNodes,
+  findNode,
+  findParent,
+  removeMultipleNodes,
+  assignNewIds,
+  getFirstText,
+  walkNodes,
+  createUniqueId,
+  idAllocator,
+  filterTopLevel,
+  ensureDefs,
+  rewriteReferences,
+  referencedIds,
+  userSpaceMatrix,
+} from './tree.ts'
+export { getStyleValue, applyStyleValue, getAttrOrStyle, setNodeAttribute } from './style.ts'
+export {
+  IDENTITY,
+  multiply,
+  compose,
+  invert,
+  applyToPoint,
+  applyToVector,
+  translate,
+  scale,
+  rotate,
+  skewX,
+  skewY,
+  scaleAround,
+  parseTransformList,
+  decompose,
+  recompose,
+  formatNumber,
+  formatTransform,
+  isIdentity,
+  prependTransform,
+} from './matrix.ts'
+export type { Matrix, Point, TransformComponents } from './matrix.ts'
+export { applyCommand, applyCommands, SvgCommandError } from './commands.ts'
+export type { Bounds, SvgCommand, CommandResult, RecolorProperty, StackingMove } from './commands.ts'
+export {
+  parsePathData,
+  serializePathData,
+  isDrawSegment,
+  getStartPoint,
+  getEndPoint,
+  arcToCubics,
+  toCubicSegments,
+  pointOnSegment,
+  nearestPointOnPath,
+  insertNode,
+  getNodeHandles,
+  getNodeType,
+  moveNode,
+  moveHandle,
+  setNodeType,
+  deleteNode,
+  convertSegment,
+  getNodeIndices,
+  parsePoints,
+  formatPoints,
+  nearestEdge,
+  splitSubpaths,
+  reversePathData,
+  PathDataError,
+} from './path.ts'
+export type { PathSegment, DrawSegment, NodeType, NodeHandles } from './path.ts'
+export { createShape, regularPolygonPoints, simplifyPoints, smoothPathData } from './shapes.ts'
+export type { ShapeTool, ShapeOptions, ShapeStyle, ShapeGesture } from './shapes.ts'
+export {
+  TYPOGRAPHY_PROPERTIES,
+  DEFAULT_LINE_HEIGHT,
+  getLineHeight,
+  getTextLines,
+  setTextLines,
+  setTypography,
+  createTextElement,
+} from './text.ts'
+export type { TypographyProperty, TextStyle } from './text.ts'
+export {
+  parsePaintUrl,
+  getPaintServerId,
+  findByElementId,
+  readGradient,
+  writeGradient,
+  setGradientKind,
+  sortStops,
+  addStop,
+  moveStop,
+  findPaintUsers,
+  createGradient,
+  forkGradient,
+  gradientToUserSpace,
+} from './gradient.ts'
+export type { Gradient, GradientKind, GradientStop, SpreadMethod, PaintProperty } from './gradient.ts'
+export { SHAPE_TAGS, GEOMETRY_ATTRIBUTES, shapeToSegments, transformSegments, flattenSubpaths } from './geometry.ts'
+export type { Polyline } from './geometry.ts'
+export { BOOLEAN_OPERATIONS, booleanOperation } from './boolean.ts'
+export type { BooleanOperation, BooleanOperand, FillRule } from './boolean.ts'
+export { simplifyPath } from './simplify.ts'
+export { outlineStroke, offsetPath } from './stroke.ts'
+export type { LineJoin, LineCap, StrokeStyle } from './stroke.ts'
+export { unionBounds, alignOffsets, distributeOffsets } from './align.ts'
+export type { AlignEdge, DistributeAxis, DistributeMode } from './align.ts'
+export { SNAP_TARGETS, snapBounds, snapPoint } from './snap.ts'
+export type { SnapTarget, SnapContext, SnapGuide, SnapResult } from './snap.ts'
+export { GUIDES_NAMESPACE, readGuides, writeGuides, stripGuides } from './guides.ts'
+export type { Guide, GuideOrientation } from './guides.ts'
+export { LABEL_ATTRIBUTE, LOCK_ATTRIBUTE, LAYER_CONTAINERS, isLayerNode, isHidden, isLocked, layerName } from './layers.ts'
+export { copyFragment, cropDocument, pasteFragment } from './clipboard.ts'
+export { placeDocument } from './place.ts'
+export type { PlaceOptions } from './place.ts'
+export {
+  applyChanges,
+  createHistory,
+  DEFAULT_HISTORY_BUDGET,
+  DEFAULT_MERGE_WINDOW,
+  describeChanges,
+  describeCommand,
+  diffTrees,
+  jumpToEntry,
+  recordChange,
+  redoEntry,
+  restoreHistory,
+  undoEntry,
+} from './history.ts'
+export type { History, HistoryEntry, NodeChange, RecordOptions } from './history.ts'
+export { OPTIMIZE_PASSES, optimizeDocument } from './optimize.ts'
+export type { OptimizeOptions, OptimizePass } from './optimize.ts'
+export { exportPdf } from './pdf.ts'
+export type { PdfExport } from './pdf.ts'
@@ -0,0 +1,39 @@
+import { getStyleValue } from './style.ts'
+import type { SvgNode } from './types.ts'
+
+// Inkscape's attributes for an element's display name and lock, so both editors agree on them
+export const LABEL_ATTRIBUTE = 'inkscape:label'
+export const LOCK_ATTRIBUTE = 'sodipodi:insensitive'
+
+// Elements that are never painted where they stand, so they take no part in the stacking order
+const UNLAYERED_TAGS = new Set([
+  'defs',
+  'title',
+  'desc',
+  'metadata',
+  'style',
+  'script',
+  'clipPath',
+  'mask',
+  'pattern',
+  'marker',
+  'symbol',
+  'linearGradient',
+  'radialGradient',
+  'filter',
+])
+
+// Elements other elements can be moved into
+export const LAYER_CONTAINERS = new Set(['svg', 'g', 'a'])
+
+/** Whether `node` is drawn in the stacking order, and so gets a row in the layers panel. */
+export const isLayerNode = (node: SvgNode) =>
+  // Namespaced tags are other editors' data, such as sodipodi:namedview
+  !node.tag.startsWith('#') && !node.tag.includes(':') && !UNLAYERED_TAGS.has(node.tag)
+
+export const isHidden = (node: SvgNode) => node.attrs.display === 'none' || getStyleValue(node.attrs.style, 'display') === 'none'
+
+export const isLocked = (node: SvgNode) => node.attrs[LOCK_ATTRIBUTE] === 'true'
+
+// The label if there is one, then the id attribute, then the tag
+export const layerName = (node: SvgNode) => node.attrs[LABEL_ATTRIBUTE] || node.attrs.id || node.tag
@@ -0,0 +1,187 @@
+// 2D affine transforms as SVG writes them: matrix(a b c d e f) maps (x, y) to
+// (a*x + c*y + e, b*x + d*y + f).
+export type Matrix = { a: number; b: number; c: number; d: number; e: number; f: number }
+
+export type Point = { x: number; y: number }
+
+// translate · rotate · skewX · scale, the order `formatTransform` writes them in
+export type TransformComponents = {
+  translateX: number
+  translateY: number
+  rotation: number
+  skewX: number
+  scaleX: number
+  scaleY: number
+}
+
+const DEG = Math.PI / 180
+
+export const IDENTITY: Matrix = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 }
+
+// The result applies `n` first, then `m`, like writing "m n" in a transform list
+export const multiply = (m: Matrix, n: Matrix): Matrix => ({
+  a: m.a * n.a + m.c * n.b,
+  b: m.b * n.a + m.d * n.b,
+  c: m.a * n.c + m.c * n.d,
+  d: m.b * n.c + m.d * n.d,
+  e: m.a * n.e + m.c * n.f + m.e,
+  f: m.b * n.e + m.d * n.f + m.f,
+})
+
+export const compose = (...matrices: Matrix[]): Matrix => matrices.reduce(multiply, IDENTITY)
+
+export const invert = (m: Matrix): Matrix | null => {
+  const det = m.a * m.d - m.b * m.c
+  if (Math.abs(det) < 1e-12) return null
+  return {
+    a: m.d / det,
+    b: -m.b / det,
+    c: -m.c / det,
+    d: m.a / det,
+    e: (m.c * m.f - m.d * m.e) / det,
+    f: (m.b * m.e - m.a * m.f) / det,
+  }
+}
+
+export const applyToPoint = (m: Matrix, p: Point): Point => ({
+  x: m.a * p.x + m.c * p.y + m.e,
+  y: m.b * p.x + m.d * p.y + m.f,
+})
+
+// Like applyToPoint but ignores translation, for offsets and directions
+export const applyToVector = (m: Matrix, v: Point): Point => ({
+  x: m.a * v.x + m.c * v.y,
+  y: m.b * v.x + m.d * v.y,
+})
+
+export const translate = (tx: number, ty = 0): Matrix => ({ ...IDENTITY, e: tx, f: ty })
+
+export const scale = (sx: number, sy = sx): Matrix => ({ ...IDENTITY, a: sx, d: sy })
+
+export const rotate = (degrees: number, cx = 0, cy = 0): Matrix => {
+  const cos = Math.cos(degrees * DEG)
+  const sin = Math.sin(degrees * DEG)
+  const r: Matrix = { a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0 }
+  return cx || cy ? compose(translate(cx, cy), r, translate(-cx, -cy)) : r
+}
+
+export const skewX = (degrees: number): Matrix => ({ ...IDENTITY, c: Math.tan(degrees * DEG) })
+
+export const skewY = (degrees: number): Matrix => ({ ...IDENTITY, b: Math.tan(degrees * DEG) })
+
+// Scales by (sx, sy) while keeping `origin` fixed, which is what resize handles need
+export const scaleAround = (sx: number, sy: number, origin: Point): Matrix =>
+  compose(translate(origin.x, origin.y), scale(sx, sy), translate(-origin.x, -origin.y))
+
+const NUMBER = /[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g
+
+const TRANSFORM_FUNCTION = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g
+
+/**
+ * Parses an SVG transform list ("translate(10 5) rotate(45 0 0) scale(2)") into a
+ * single matrix. Unknown or malformed functions are skipped, and an empty or missing
+ * attribute gives the identity.
+ */
+export const parseTransformList = (transform: string | undefined): Matrix => {
+  if (!transform) return IDENTITY
+  let result = IDENTITY
+  for (const [, name, rawArgs] of transform.matchAll(TRANSFORM_FUNCTION)) {
+    const args = (rawArgs.match(NUMBER) ?? []).map(Number)
+    let m: Matrix | null = null
+    switch (name) {
+      case 'matrix':
+        if (args.length === 6) m = { a: args[0], b: args[1], c: args[2], d: args[3], e: args[4], f: args[5] }
+        break
+      case 'translate':
+        if (args.length) m = translate(args[0], args[1] ?? 0)
+        break
+      case 'scale':
+        if (args.length) m = scale(args[0], args[1] ?? args[0])
+        break
+      case 'rotate':
+        if (args.length) m = rotate(args[0], args[1] ?? 0, args[2] ?? 0)
+        break
+      case 'skewX':
+        if (args.length) m = skewX(args[0])
+        break
+      case 'skewY':
+        if (args.length) m = skewY(args[0])
+        break
+    }
+    if (m) result = multiply(result, m)
+  }
+  return result
+}
+
+export const decompose = (m: Matrix): TransformComponents => {
+  const scaleX = Math.hypot(m.a, m.b)
+  const angle = Math.atan2(m.b, m.a)
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  // Undo the rotation on the second column: what is left is sy * (tan(skew), 1)
+  const scaleY = -m.c * sin + m.d * cos
+  const shear = scaleY ? (m.c * cos + m.d * sin) / scaleY : 0
+  return {
+    translateX: m.e,
+    translateY: m.f,
+    rotation: angle / DEG,
+    skewX: Math.atan(shear) / DEG,
+    scaleX,
+    scaleY,
+  }
+}
+
+export const recompose = (c: TransformComponents): Matrix =>
+  compose(translate(c.translateX, c.translateY), rotate(c.rotation), skewX(c.skewX), scale(c.scaleX, c.scaleY))
+
+const EPSILON = 1e-9
+
+export const formatNumber = (value: number, precision = 6) => {
+  const rounded = Number(value.toFixed(precision))
+  return Object.is(rounded, -0) ? '0' : String(rounded)
+}
+
+export const isIdentity = (m: Matrix) =>
+  Math.abs(m.a - 1) < EPSILON &&
+  Math.abs(m.b) < EPSILON &&
+  Math.abs(m.c) < EPSILON &&
+  Math.abs(m.d - 1) < EPSILON &&
+  Math.abs(m.e) < EPSILON &&
+  Math.abs(m.f) < EPSILON
+
+/**
+ * Writes a matrix back as one normalized transform attribute value. Plain moves, turns
+ * and scales come out as readable translate/rotate/scale functions; anything skewed is
+ * written as matrix(). Returns '' for the identity so callers can drop the attribute.
+ */
+export const formatTransform = (m: Matrix): string => {
+  if (isIdentity(m)) return ''
+  const c = decompose(m)
+  if (Math.abs(Math.abs(c.rotation) - 180) < 1e-6) {
+    // A half turn is the same as negating both scales; "scale(-1 1)" reads better than "rotate(180) scale(1 -1)"
+    c.rotation = 0
+    c.scaleX = -c.scaleX
+    c.scaleY = -c.scaleY
+  }
+  if (Math.abs(c.skewX) > 1e-6) {
+    return `matrix(${[m.a, m.b, m.c, m.d, m.e, m.f].map((n) => formatNumber(n)).join(' ')})`
+  }
+
+  const parts: string[] = []
+  if (Math.abs(c.translateX) > EPSILON || Math.abs(c.translateY) > EPSILON) {
+    parts.push(`translate(${formatNumber(c.translateX)} ${formatNumber(c.translateY)})`)
+  }
+  if (Math.abs(c.rotation) > 1e-6) parts.push(`rotate(${formatNumber(c.rotation)})`)
+  if (Math.abs(c.scaleX - 1) > 1e-6 || Math.abs(c.scaleY - 1) > 1e-6) {
+    parts.push(
+      Math.abs(c.scaleX - c.scaleY) < 1e-6
+        ? `scale(${formatNumber(c.scaleX)})`
+        : `scale(${formatNumber(c.scaleX)} ${formatNumber(c.scaleY)})`,
+    )
+  }
+  return parts.join(' ')
+}
+
+// Returns the node's transform attribute after applying `m` on top of it (in the parent's space)
+export const prependTransform = (transform: string | undefined, m: Matrix) =>
+  formatTransform(multiply(m, parseTransformList(transform)))
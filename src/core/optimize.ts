@@ -0,0 +1,581 @@
+import { SvgCommandError } from './commands.ts'
+import { GUIDES_NAMESPACE } from './guides.ts'
+import { formatNumber, parseTransformList, prependTransform } from './matrix.ts'
+import { parsePathData, PathDataError } from './path.ts'
+import type { PathSegment } from './path.ts'
+import { getStyleValue } from './style.ts'
+import { referencedIds, rewriteReferences, walkNodes } from './tree.ts'
+import type { SvgNode } from './types.ts'
+
+export type OptimizePass =
+  | 'metadata'
+  | 'empty-groups'
+  | 'collapse-groups'
+  | 'path-data'
+  | 'round-numbers'
+  | 'style-attributes'
+  | 'default-values'
+  | 'ids'
+  | 'unused-defs'
+
+// In the order they run; the names double as the CLI's pass names
+export const OPTIMIZE_PASSES: { pass: OptimizePass; label: string }[] = [
+  { pass: 'metadata', label: 'Remove metadata, comments and editor data' },
+  { pass: 'style-attributes', label: 'Merge styles into attributes' },
+  { pass: 'default-values', label: 'Drop default attribute values' },
+  { pass: 'empty-groups', label: 'Remove empty groups' },
+  { pass: 'collapse-groups', label: 'Collapse single-child groups' },
+  { pass: 'unused-defs', label: 'Remove unreferenced <defs>' },
+  { pass: 'ids', label: 'Minify or strip unused ids' },
+  { pass: 'round-numbers', label: 'Round numbers' },
+  { pass: 'path-data', label: 'Shorten path data' },
+]
+
+export type OptimizeOptions = {
+  // Passes to run (default: all of them)
+  passes?: Iterable<OptimizePass>
+  // Decimal places kept by round-numbers and path-data (default 3)
+  precision?: number
+  // What the ids pass does: 'strip' drops ids nothing refers to, 'minify' also shortens the rest (default)
+  ids?: 'minify' | 'strip'
+}
+
+// Namespaces of editors' private data, and the prefixes those editors usually give them
+const EDITOR_NAMESPACES = new Set([
+  'http://www.inkscape.org/namespaces/inkscape',
+  'http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd',
+  'http://www.bohemiancoding.com/sketch/ns',
+  'http://www.serif.com/',
+  'http://ns.adobe.com/AdobeIllustrator/10.0/',
+  'http://ns.adobe.com/AdobeSVGViewerExtensions/3.0/',
+  'http://ns.adobe.com/Variables/1.0/',
+  'http://ns.adobe.com/SaveForWeb/1.0/',
+  'http://ns.adobe.com/Extensibility/1.0/',
+  'http://ns.adobe.com/Flows/1.0/',
+  'http://ns.adobe.com/ImageReplacement/1.0/',
+  'http://ns.adobe.com/GenericCustomNamespace/1.0/',
+  'http://ns.adobe.com/XPath/1.0/',
+  GUIDES_NAMESPACE,
+])
+const EDITOR_PREFIXES = new Set(['inkscape', 'sodipodi', 'sketch', 'serif', 'svge'])
+
+// Attributes that may also be written as CSS properties in a style attribute
+const PRESENTATION_ATTRIBUTES = new Set([
+  'alignment-baseline', 'baseline-shift', 'clip', 'clip-path', 'clip-rule', 'color', 'color-interpolation',
+  'color-interpolation-filters', 'color-rendering', 'cursor', 'direction', 'display', 'dominant-baseline',
+  'fill', 'fill-opacity', 'fill-rule', 'filter', 'flood-color', 'flood-opacity', 'font-family', 'font-size',
+  'font-size-adjust', 'font-stretch', 'font-style', 'font-variant', 'font-weight', 'image-rendering',
+  'letter-spacing', 'lighting-color', 'marker-end', 'marker-mid', 'marker-start', 'mask', 'opacity', 'overflow',
+  'paint-order', 'pointer-events', 'shape-rendering', 'stop-color', 'stop-opacity', 'stroke', 'stroke-dasharray',
+  'stroke-dashoffset', 'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit', 'stroke-opacity', 'stroke-width',
+  'text-anchor', 'text-decoration', 'text-rendering', 'unicode-bidi', 'vector-effect', 'visibility',
+  'word-spacing', 'writing-mode',
+])
+
+// Initial values of inherited properties; an element may leave one out when it would inherit the same value
+const INHERITED_DEFAULTS: Record<string, string[]> = {
+  fill: ['black', '#000', '#000000'],
+  'fill-opacity': ['1'],
+  'fill-rule': ['nonzero'],
+  'clip-rule': ['nonzero'],
+  stroke: ['none'],
+  'stroke-opacity': ['1'],
+  'stroke-width': ['1', '1px'],
+  'stroke-linecap': ['butt'],
+  'stroke-linejoin': ['miter'],
+  'stroke-miterlimit': ['4'],
+  'stroke-dasharray': ['none'],
+  'stroke-dashoffset': ['0'],
+  visibility: ['visible'],
+  'font-style': ['normal'],
+  'font-variant': ['normal'],
+  'font-weight': ['normal', '400'],
+  'text-anchor': ['start'],
+  direction: ['ltr'],
+  'letter-spacing': ['normal'],
+  'word-spacing': ['normal'],
+}
+
+// Inherited properties a group can hand down to its only child
+const INHERITED_PROPERTIES = new Set([
+  ...Object.keys(INHERITED_DEFAULTS),
+  'color', 'cursor', 'dominant-baseline', 'font-family', 'font-size', 'font-stretch', 'image-rendering',
+  'marker-start', 'marker-mid', 'marker-end', 'paint-order', 'pointer-events', 'shape-rendering',
+  'text-rendering', 'writing-mode',
+])
+
+// Containers whose content is drawn where a <use> or reference puts it, inheriting from there
+const REUSED_CONTAINERS = new Set(['defs', 'symbol', 'pattern', 'marker', 'clipPath', 'mask'])
+
+// Defaults of attributes that are not inherited, by element ('*' for every element)
+const ELEMENT_DEFAULTS: Record<string, Record<string, string[]>> = {
+  '*': { opacity: ['1'], 'clip-path': ['none'], mask: ['none'], filter: ['none'], display: ['inline'] },
+  svg: { x: ['0'], y: ['0'], preserveAspectRatio: ['xMidYMid meet', 'xMidYMid'] },
+  rect: { x: ['0'], y: ['0'] },
+  image: { x: ['0'], y: ['0'], preserveAspectRatio: ['xMidYMid meet', 'xMidYMid'] },
+  use: { x: ['0'], y: ['0'] },
+  circle: { cx: ['0'], cy: ['0'] },
+  ellipse: { cx: ['0'], cy: ['0'] },
+  line: { x1: ['0'], y1: ['0'], x2: ['0'], y2: ['0'] },
+  linearGradient: { x1: ['0', '0%'], y1: ['0', '0%'], x2: ['100%'], y2: ['0', '0%'], spreadMethod: ['pad'], gradientUnits: ['objectBoundingBox'] },
+  radialGradient: { cx: ['50%'], cy: ['50%'], r: ['50%'], spreadMethod: ['pad'], gradientUnits: ['objectBoundingBox'] },
+  stop: { offset: ['0'], 'stop-color': ['black', '#000', '#000000'], 'stop-opacity': ['1'] },
+  clipPath: { clipPathUnits: ['userSpaceOnUse'] },
+  pattern: { x: ['0'], y: ['0'] },
+}
+
+// Attributes holding numbers (and lengths) that round-numbers may shorten
+const NUMERIC_ATTRIBUTES = new Set([
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'width', 'height', 'd', 'points',
+  'transform', 'gradientTransform', 'patternTransform', 'viewBox', 'offset', 'opacity', 'fill-opacity',
+  'stroke-opacity', 'stop-opacity', 'stroke-width', 'stroke-dasharray', 'stroke-dashoffset', 'stroke-miterlimit',
+  'font-size', 'letter-spacing', 'word-spacing', 'dx', 'dy', 'refX', 'refY', 'markerWidth', 'markerHeight',
+])
+
+const NUMBER = /[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/gi
+
+const isElement = (node: SvgNode) => !node.tag.startsWith('#')
+
+const elementChildren = (node: SvgNode) => node.children.filter(isElement)
+
+// "0.5" becomes ".5" and "-0.5" becomes "-.5"
+const shortNumber = (value: number, precision: number) => formatNumber(value, precision).replace(/^(-?)0\./, '$1.')
+
+// Rebuilds the tree bottom-up; `visit` gets each element with its already rewritten children
+// and returns what replaces it: the element itself, a changed copy, or nothing
+const rewrite = (tree: SvgNode, visit: (node: SvgNode) => SvgNode | null): SvgNode => {
+  const walk = (node: SvgNode): SvgNode | null => {
+    if (!isElement(node)) return node
+    const children = node.children.map(walk).filter((child) => child !== null)
+    const changed = children.length !== node.children.length || children.some((child, i) => child !== node.children[i])
+    return visit(changed ? { ...node, children } : node)
+  }
+  return walk(tree) ?? tree
+}
+
+const withAttrs = (node: SvgNode, change: (attrs: Record<string, string>) => void): SvgNode => {
+  const attrs = { ...node.attrs }
+  change(attrs)
+  return { ...node, attrs }
+}
+
+const hasStylesheet = (tree: SvgNode) => {
+  let found = false
+  walkNodes(tree, (node) => {
+    if (node.tag === 'style') found = true
+  })
+  return found
+}
+
+// Ids that stylesheets select with #id, which renaming or removing would break
+const stylesheetIds = (tree: SvgNode) => {
+  const ids = new Set<string>()
+  walkNodes(tree, (node, parent) => {
+    if (parent?.tag !== 'style' || !node.text) return
+    for (const [, id] of node.text.replace(/\{[^}]*\}/g, '{}').matchAll(/#(-?[_a-zA-Z][\w-]*)/g)) ids.add(id)
+  })
+  return ids
+}
+
+// Prefixes declared for editor namespaces, along with the usual ones
+const editorPrefixes = (root: SvgNode) => {
+  const prefixes = new Set(EDITOR_PREFIXES)
+  for (const [name, value] of Object.entries(root.attrs)) {
+    if (name.startsWith('xmlns:') && EDITOR_NAMESPACES.has(value)) prefixes.add(name.slice(6))
+  }
+  return prefixes
+}
+
+const removeMetadata = (tree: SvgNode): SvgNode => {
+  const prefixes = editorPrefixes(tree)
+  const isEditorName = (name: string) => name.includes(':') && prefixes.has(name.slice(0, name.indexOf(':')))
+  const stripped = rewrite(tree, (node) => {
+    if (node.tag === 'metadata' || isEditorName(node.tag)) return null
+    const children = node.children.filter((child) => child.tag !== '#comment')
+    const attrs: Record<string, string> = {}
+    for (const [name, value] of Object.entries(node.attrs)) {
+      if (isEditorName(name) || (name.startsWith('xmlns:') && (prefixes.has(name.slice(6)) || EDITOR_NAMESPACES.has(value)))) continue
+      attrs[name] = value
+    }
+    return { ...node, attrs, children }
+  })
+
+  // Declarations for prefixes nothing uses any more, such as an xlink: left from an old export
+  const used = new Set<string>()
+  walkNodes(stripped, (node) => {
+    if (node.tag.includes(':')) used.add(node.tag.slice(0, node.tag.indexOf(':')))
+    for (const name of Object.keys(node.attrs)) {
+      if (name.includes(':') && !name.startsWith('xmlns:')) used.add(name.slice(0, name.indexOf(':')))
+    }
+  })
+  return withAttrs(stripped, (attrs) => {
+    for (const name of Object.keys(attrs)) {
+      if (name.startsWith('xmlns:') && !used.has(name.slice(6))) delete attrs[name]
+    }
+  })
+}
+
+// Inline style beats stylesheet rules and presentation attributes lose to them, so this only
+// runs on documents without a <style>
+const styleToAttributes = (tree: SvgNode): SvgNode => {
+  if (hasStylesheet(tree)) return tree
+  return rewrite(tree, (node) => {
+    if (!node.attrs.style) return node
+    return withAttrs(node, (attrs) => {
+      const kept: string[] = []
+      for (const declaration of attrs.style.split(';')) {
+        const colon = declaration.indexOf(':')
+        if (colon < 0) continue
+        const name = declaration.slice(0, colon).trim()
+        const value = declaration.slice(colon + 1).trim()
+        if (PRESENTATION_ATTRIBUTES.has(name) && value && !value.includes('!important') && !value.includes('var(')) attrs[name] = value
+        else kept.push(`${name}:${value}`)
+      }
+      if (kept.length) attrs.style = kept.join(';')
+      else delete attrs.style
+    })
+  })
+}
+
+const removeDefaults = (tree: SvgNode): SvgNode => {
+  // A stylesheet may set inherited properties on ancestors, so only element defaults are safe then
+  const inheritance = !hasStylesheet(tree)
+  const referenced = referencedIds(tree)
+  // `reused` content inherits from wherever it is drawn, not from its parents here
+  const walk = (node: SvgNode, inherited: Record<string, string>, reused: boolean): SvgNode => {
+    if (!isElement(node)) return node
+    const attrs = { ...node.attrs }
+    // A gradient or pattern with an href inherits the attributes it leaves out from the one it
+    // points at, so its defaults are not defaults
+    const inherits = (node.tag.endsWith('Gradient') || node.tag === 'pattern') && (attrs.href ?? attrs['xlink:href']) !== undefined
+    const own = inherits ? ELEMENT_DEFAULTS['*'] : { ...ELEMENT_DEFAULTS['*'], ...ELEMENT_DEFAULTS[node.tag] }
+    for (const [name, values] of Object.entries(own)) {
+      if (attrs[name] !== undefined && values.includes(attrs[name].trim())) delete attrs[name]
+    }
+    const inside = reused || REUSED_CONTAINERS.has(node.tag) || (node.attrs.id !== undefined && referenced.has(node.attrs.id))
+    const passed = { ...inherited }
+    for (const name of Object.keys(INHERITED_DEFAULTS)) {
+      const styled = getStyleValue(attrs.style, name)?.trim()
+      const value = styled ?? attrs[name]?.trim()
+      if (value === undefined || value === 'inherit') continue
+      const same = inherited[name] === undefined ? INHERITED_DEFAULTS[name].includes(value) : inherited[name] === value
+      if (inheritance && !inside && same && styled === undefined) delete attrs[name]
+      passed[name] = value
+    }
+    return { ...node, attrs, children: node.children.map((child) => walk(child, passed, inside)) }
+  }
+  return walk(tree, {}, false)
+}
+
+const removeEmptyGroups = (tree: SvgNode): SvgNode => {
+  const referenced = referencedIds(tree)
+  return rewrite(tree, (node) =>
+    node.tag === 'g' && !elementChildren(node).length && !(node.attrs.id && referenced.has(node.attrs.id)) ? null : node,
+  )
+}
+
+const collapseGroups = (tree: SvgNode): SvgNode => {
+  const referenced = referencedIds(tree)
+  const selected = stylesheetIds(tree)
+  return rewrite(tree, (node) => {
+    const [child, ...rest] = elementChildren(node)
+    if (node.tag !== 'g' || !child || rest.length || child.tag === 'svg') return node
+    const id = node.attrs.id
+    if (id && (referenced.has(id) || selected.has(id))) return node
+    const handedDown = Object.keys(node.attrs).filter((name) => !['id', 'data-id', 'transform'].includes(name))
+    // Only inherited properties carry over to the child; opacity, filters, clips and masks apply to the group as a whole
+    if (!handedDown.every((name) => INHERITED_PROPERTIES.has(name))) return node
+    return withAttrs(child, (attrs) => {
+      for (const name of handedDown) {
+        if (attrs[name] === undefined && getStyleValue(attrs.style, name) === undefined) attrs[name] = node.attrs[name]
+      }
+      if (node.attrs.transform) {
+        const transform = prependTransform(attrs.transform, parseTransformList(node.attrs.transform))
+        if (transform) attrs.transform = transform
+        else delete attrs.transform
+      }
+    })
+  })
+}
+
+// Keeps the <defs> content something outside <defs> refers to, directly or through other definitions
+const removeUnusedDefs = (tree: SvgNode): SvgNode => {
+  const byId = new Map<string, SvgNode>()
+  walkNodes(tree, (node) => {
+    if (node.attrs.id && !byId.has(node.attrs.id)) byId.set(node.attrs.id, node)
+  })
+  const reached = new Set<string>()
+  const follow = (node: SvgNode) => {
+    for (const id of referencedIds(node)) {
+      const target = byId.get(id)
+      if (reached.has(id) || !target) continue
+      reached.add(id)
+      follow(target)
+    }
+  }
+  // Stylesheets and scripts in <defs> still apply
+  const outside = rewrite(tree, (node) =>
+    node.tag === 'defs' ? { ...node, children: node.children.filter((child) => child.tag === 'style' || child.tag === 'script') } : node,
+  )
+  follow(outside)
+  for (const id of stylesheetIds(tree)) reached.add(id)
+
+  const isUsed = (node: SvgNode) => {
+    if (node.tag === 'style' || node.tag === 'script') return true
+    let used = false
+    walkNodes(node, (n) => {
+      if (n.attrs.id && reached.has(n.attrs.id)) used = true
+    })
+    return used
+  }
+  return rewrite(tree, (node) => {
+    if (node.tag !== 'defs') return node
+    const children = node.children.filter((child) => (isElement(child) ? isUsed(child) : child.tag !== '#comment'))
+    return children.some(isElement) ? { ...node, children } : null
+  })
+}
+
+// Short names in the order a, b, ... z, A ... Z, aa, ab ...
+const shortId = (index: number) => {
+  const letters = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'
+  let name = ''
+  for (let n = index; ; n = Math.floor(n / letters.length) - 1) {
+    name = letters[n % letters.length] + name
+    if (n < letters.length) return name
+  }
+}
+
+const optimizeIds = (tree: SvgNode, mode: 'minify' | 'strip'): SvgNode => {
+  // Scripts may look elements up by id in ways nothing here can see
+  let scripted = false
+  walkNodes(tree, (node) => {
+    if (node.tag === 'script') scripted = true
+  })
+  if (scripted) return tree
+
+  const referenced = referencedIds(tree)
+  const selected = stylesheetIds(tree)
+  const renames = new Map<string, string>()
+  if (mode === 'minify') {
+    // Ids that keep their name must not be handed out again, so every kept id is taken
+    const taken = new Set([...selected, ...referenced])
+    let next = 0
+    walkNodes(tree, (node) => {
+      const id = node.attrs.id
+      if (!id || !referenced.has(id) || selected.has(id) || renames.has(id)) return
+      let name = shortId(next++)
+      while (taken.has(name)) name = shortId(next++)
+      if (name.length < id.length) renames.set(id, name)
+    })
+  }
+  const renamed = renames.size ? rewriteReferences(tree, renames) : tree
+  return rewrite(renamed, (node) => {
+    const id = node.attrs.id
+    if (id === undefined) return node
+    if (renames.has(id)) {
+      return withAttrs(node, (attrs) => {
+        attrs.id = renames.get(id)!
+      })
+    }
+    if (referenced.has(id) || selected.has(id)) return node
+    return withAttrs(node, (attrs) => {
+      delete attrs.id
+    })
+  })
+}
+
+const PATH_COMMAND = /[MLHVCSQTAZ]/i
+const STICKY_NUMBER = new RegExp(NUMBER.source, 'iy')
+
+// Rounds the numbers in path data as written, keeping its commands. Arc flags are single
+// digits that may run into the next number ("a5 5 0 010 10"), so they are read one by one.
+// Returns null for path data it cannot read.
+const roundPathData = (d: string, precision: number): string | null => {
+  let out = ''
+  let command = ''
+  let parameter = 0
+  for (let i = 0; i < d.length; ) {
+    const char = d[i]
+    if (PATH_COMMAND.test(char)) {
+      out += char
+      command = char
+      parameter = 0
+      i++
+    } else if (/[\s,]/.test(char)) {
+      i++
+    } else if ((command === 'a' || command === 'A') && (parameter % 7 === 3 || parameter % 7 === 4)) {
+      if (char !== '0' && char !== '1') return null
+      out = appendNumber(out, char)
+      parameter++
+      i++
+    } else {
+      STICKY_NUMBER.lastIndex = i
+      const match = STICKY_NUMBER.exec(d)
+      if (!match) return null
+      out = appendNumber(out, shortNumber(parseFloat(match[0]), precision))
+      parameter++
+      i += match[0].length
+    }
+  }
+  return out
+}
+
+const roundNumbers = (tree: SvgNode, precision: number, skipPaths: boolean): SvgNode =>
+  rewrite(tree, (node) => {
+    const names = Object.keys(node.attrs).filter((name) => NUMERIC_ATTRIBUTES.has(name) && !(skipPaths && name === 'd'))
+    if (!names.length) return node
+    return withAttrs(node, (attrs) => {
+      for (const name of names) {
+        attrs[name] =
+          name === 'd'
+            ? (roundPathData(attrs.d, precision) ?? attrs.d)
+            : attrs[name].replace(NUMBER, (number) => shortNumber(parseFloat(number), precision))
+      }
+    })
+  })
+
+// Adds a number to path data, with a space only where it would otherwise run into the one before
+const appendNumber = (out: string, text: string) => {
+  if (!/[\d.]$/.test(out) || text.startsWith('-')) return out + text
+  const previous = /[\d.e+-]+$/i.exec(out)![0]
+  return text.startsWith('.') && previous.includes('.') && !/e/i.test(previous) ? out + text : `${out} ${text}`
+}
+
+// Writes path data in as few characters as it can: each segment absolute or relative,
+// whichever is shorter, H/V for straight lines, S/T where a control point is the reflection
+// of the previous one, repeated commands left implicit and numbers at `precision` decimals
+const shortenPathData = (segments: PathSegment[], precision: number): string => {
+  const round = (value: number) => Number(formatNumber(value, precision))
+  const numbers = (start: string, values: number[]) =>
+    values.reduce((out, value) => appendNumber(out, shortNumber(value, precision)), start)
+
+  let out = ''
+  let last = ''
+  const emit = (command: string, values: number[]) => {
+    // A repeated command letter may be left out, and numbers after M or m continue as L or l
+    out = numbers(command === last && values.length ? out : out + command, values)
+    last = command === 'M' ? 'L' : command === 'm' ? 'l' : command
+  }
+  const pick = (absolute: [string, number[]], relative: [string, number[]]) => {
+    const shorter = numbers('', relative[1]).length < numbers('', absolute[1]).length
+    emit(...(shorter ? relative : absolute))
+  }
+
+  let current = { x: 0, y: 0 }
+  let start = { x: 0, y: 0 }
+  let lastControl: { x: number; y: number; type: 'C' | 'Q' } | null = null
+  for (const segment of segments) {
+    if (segment.type === 'Z') {
+      emit('z', [])
+      current = start
+      lastControl = null
+      continue
+    }
+    const x = round(segment.x)
+    const y = round(segment.y)
+    const dx = x - current.x
+    const dy = y - current.y
+    switch (segment.type) {
+      case 'M':
+        pick(['M', [x, y]], ['m', [dx, dy]])
+        start = { x, y }
+        lastControl = null
+        break
+      case 'L':
+        if (dy === 0 && dx !== 0) pick(['H', [x]], ['h', [dx]])
+        else if (dx === 0 && dy !== 0) pick(['V', [y]], ['v', [dy]])
+        else pick(['L', [x, y]], ['l', [dx, dy]])
+        lastControl = null
+        break
+      case 'C': {
+        const [x1, y1, x2, y2] = [segment.x1, segment.y1, segment.x2, segment.y2].map(round)
+        const reflected = lastControl?.type === 'C' && round(2 * current.x - lastControl.x) === x1 && round(2 * current.y - lastControl.y) === y1
+        if (reflected) pick(['S', [x2, y2, x, y]], ['s', [x2 - current.x, y2 - current.y, dx, dy]])
+        else pick(['C', [x1, y1, x2, y2, x, y]], ['c', [x1 - current.x, y1 - current.y, x2 - current.x, y2 - current.y, dx, dy]])
+        lastControl = { x: x2, y: y2, type: 'C' }
+        break
+      }
+      case 'Q': {
+        const [x1, y1] = [segment.x1, segment.y1].map(round)
+        const reflected = lastControl?.type === 'Q' && round(2 * current.x - lastControl.x) === x1 && round(2 * current.y - lastControl.y) === y1
+        if (reflected) pick(['T', [x, y]], ['t', [dx, dy]])
+        else pick(['Q', [x1, y1, x, y]], ['q', [x1 - current.x, y1 - current.y, dx, dy]])
+        lastControl = { x: x1, y: y1, type: 'Q' }
+        break
+      }
+      case 'A': {
+        const head = [round(segment.rx), round(segment.ry), round(segment.angle), segment.largeArc ? 1 : 0, segment.sweep ? 1 : 0]
+        pick(['A', [...head, x, y]], ['a', [...head, dx, dy]])
+        lastControl = null
+        break
+      }
+    }
+    current = { x, y }
+  }
+  return out
+}
+
+const shortenPaths = (tree: SvgNode, precision: number): SvgNode =>
+  rewrite(tree, (node) => {
+    if (node.tag !== 'path' || !node.attrs.d) return node
+    let segments: PathSegment[]
+    try {
+      segments = parsePathData(node.attrs.d)
+    } catch (error) {
+      // Leave path data the editor cannot read as it is
+      if (error instanceof PathDataError) return node
+      throw error
+    }
+    const d = shortenPathData(segments, precision)
+    if (d.length >= node.attrs.d.length) return node
+    return withAttrs(node, (attrs) => {
+      attrs.d = d
+    })
+  })
+
+/**
+ * Runs the chosen optimization passes over a copy of `tree`, for export. Passes that could
+ * change how the drawing looks hold back where they cannot tell: styles stay inline and
+ * inherited values stay put when the document has a stylesheet, ids stay when it has scripts.
+ */
+export const optimizeDocument = (tree: SvgNode, options: OptimizeOptions = {}): SvgNode => {
+  const passes = new Set(options.passes ?? OPTIMIZE_PASSES.map(({ pass }) => pass))
+  const precision = options.precision ?? 3
+  if (!Number.isInteger(precision) || precision < 0 || precision > 10) {
+    throw new SvgCommandError('Precision must be a whole number from 0 to 10')
+  }
+  let result = tree
+  for (const { pass } of OPTIMIZE_PASSES) {
+    if (!passes.has(pass)) continue
+    switch (pass) {
+      case 'metadata':
+        result = removeMetadata(result)
+        break
+      case 'style-attributes':
+        result = styleToAttributes(result)
+        break
+      case 'default-values':
+        result = removeDefaults(result)
+        break
+      case 'empty-groups':
+        result = removeEmptyGroups(result)
+        break
+      case 'collapse-groups':
+        result = collapseGroups(result)
+        break
+      case 'unused-defs':
+        result = removeUnusedDefs(result)
+        break
+      case 'ids':
+        result = optimizeIds(result, options.ids ?? 'minify')
+        break
+      case 'round-numbers':
+        result = roundNumbers(result, precision, passes.has('path-data'))
+        break
+      case 'path-data':
+        result = shortenPaths(result, passes.has('round-numbers') ? precision : 6)
+        break
+    }
+  }
+  return result
+}
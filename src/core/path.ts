@@ -0,0 +1,730 @@
+import { formatNumber } from './matrix.ts'
+import type { Point } from './matrix.ts'
+
+// Path data with every command made absolute: H/V become L, S becomes C, T becomes Q.
+export type PathSegment =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Q'; x1: number; y1: number; x: number; y: number }
+  | { type: 'A'; rx: number; ry: number; angle: number; largeArc: boolean; sweep: boolean; x: number; y: number }
+  | { type: 'Z' }
+
+export type DrawSegment = Exclude<PathSegment, { type: 'Z' }>
+
+export type NodeType = 'corner' | 'smooth' | 'symmetric'
+
+export class PathDataError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PathDataError'
+  }
+}
+
+const ARG_COUNTS: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0 }
+
+const NUMBER = /^[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/
+
+/**
+ * Parses a `d` attribute into absolute segments. Throws `PathDataError` on anything the
+ * SVG path grammar does not allow; an empty string gives an empty list.
+ */
+export const parsePathData = (d: string): PathSegment[] => {
+  const segments: PathSegment[] = []
+  let pos = 0
+  let current = { x: 0, y: 0 }
+  let start = { x: 0, y: 0 }
+  // Control point of the previous C/S or Q/T, for reflecting into S and T
+  let lastCubic: Point | null = null
+  let lastQuad: Point | null = null
+
+  const skipSeparators = () => {
+    while (pos < d.length && /[\s,]/.test(d[pos])) pos++
+  }
+  const readNumber = () => {
+    skipSeparators()
+    const match = d.slice(pos).match(NUMBER)
+    if (!match) throw new PathDataError(`Expected a number at offset ${pos} in path data`)
+    pos += match[0].length
+    return Number(match[0])
+  }
+  // Arc flags may be written without separators ("a5 5 0 01 10 10")
+  const readFlag = () => {
+    skipSeparators()
+    const ch = d[pos]
+    if (ch !== '0' && ch !== '1') throw new PathDataError(`Expected an arc flag at offset ${pos} in path data`)
+    pos++
+    return ch === '1'
+  }
+
+  let command = ''
+  skipSeparators()
+  while (pos < d.length) {
+    if (/[a-zA-Z]/.test(d[pos])) {
+      command = d[pos++]
+      if (ARG_COUNTS[command.toUpperCase()] === undefined) {
+        throw new PathDataError(`Unknown path command "${command}"`)
+      }
+    } else if (!command) {
+      throw new PathDataError('Path data must start with a command')
+    }
+
+    const upper = command.toUpperCase()
+    const relative = command !== upper
+    const ox = relative ? current.x : 0
+    const oy = relative ? current.y : 0
+
+    switch (upper) {
+      case 'M': {
+        const x = readNumber() + ox
+        const y = readNumber() + oy
+        segments.push({ type: 'M', x, y })
+        current = { x, y }
+        start = { x, y }
+        // Further coordinate pairs are implicit line-tos
+        command = relative ? 'l' : 'L'
+        lastCubic = lastQuad = null
+        break
+      }
+      case 'L':
+      case 'T': {
+        const x = readNumber() + ox
+        const y = readNumber() + oy
+        if (upper === 'T') {
+          const c: Point = lastQuad ? { x: 2 * current.x - lastQuad.x, y: 2 * current.y - lastQuad.y } : current
+          segments.push({ type: 'Q', x1: c.x, y1: c.y, x, y })
+          lastQuad = c
+        } else {
+          segments.push({ type: 'L', x, y })
+          lastQuad = null
+        }
+        current = { x, y }
+        lastCubic = null
+        break
+      }
+      case 'H':
+      case 'V': {
+        const value = readNumber()
+        const x = upper === 'H' ? value + ox : current.x
+        const y = upper === 'V' ? value + oy : current.y
+        segments.push({ type: 'L', x, y })
+        current = { x, y }
+        lastCubic = lastQuad = null
+        break
+      }
+      case 'C':
+      case 'S': {
+        let x1: number
+        let y1: number
+        if (upper === 'C') {
+          x1 = readNumber() + ox
+          y1 = readNumber() + oy
+        } else {
+          x1 = lastCubic ? 2 * current.x - lastCubic.x : current.x
+          y1 = lastCubic ? 2 * current.y - lastCubic.y : current.y
+        }
+        const x2 = readNumber() + ox
+        const y2 = readNumber() + oy
+        const x = readNumber() + ox
+        const y = readNumber() + oy
+        segments.push({ type: 'C', x1, y1, x2, y2, x, y })
+        current = { x, y }
+        lastCubic = { x: x2, y: y2 }
+        lastQuad = null
+        break
+      }
+      case 'Q': {
+        const x1 = readNumber() + ox
+        const y1 = readNumber() + oy
+        const x = readNumber() + ox
+        const y = readNumber() + oy
+        segments.push({ type: 'Q', x1, y1, x, y })
+        current = { x, y }
+        lastQuad = { x: x1, y: y1 }
+        lastCubic = null
+        break
+      }
+      case 'A': {
+        const rx = Math.abs(readNumber())
+        const ry = Math.abs(readNumber())
+        const angle = readNumber()
+        const largeArc = readFlag()
+        const sweep = readFlag()
+        const x = readNumber() + ox
+        const y = readNumber() + oy
+        segments.push({ type: 'A', rx, ry, angle, largeArc, sweep, x, y })
+        current = { x, y }
+        lastCubic = lastQuad = null
+        break
+      }
+      case 'Z':
+        segments.push({ type: 'Z' })
+        current = start
+        lastCubic = lastQuad = null
+        break
+    }
+    skipSeparators()
+  }
+  return segments
+}
+
+export const serializePathData = (segments: PathSegment[], precision = 3): string => {
+  const n = (value: number) => formatNumber(value, precision)
+  return segments
+    .map((s) => {
+      switch (s.type) {
+        case 'M':
+        case 'L':
+          return `${s.type}${n(s.x)} ${n(s.y)}`
+        case 'C':
+          return `C${n(s.x1)} ${n(s.y1)} ${n(s.x2)} ${n(s.y2)} ${n(s.x)} ${n(s.y)}`
+        case 'Q':
+          return `Q${n(s.x1)} ${n(s.y1)} ${n(s.x)} ${n(s.y)}`
+        case 'A':
+          return `A${n(s.rx)} ${n(s.ry)} ${n(s.angle)} ${s.largeArc ? 1 : 0} ${s.sweep ? 1 : 0} ${n(s.x)} ${n(s.y)}`
+        case 'Z':
+          return 'Z'
+      }
+    })
+    .join(' ')
+}
+
+export const isDrawSegment = (segment: PathSegment): segment is DrawSegment => segment.type !== 'Z'
+
+// The point the pen is at before segment `index` runs
+export const getStartPoint = (segments: PathSegment[], index: number): Point => {
+  let current = { x: 0, y: 0 }
+  let start = { x: 0, y: 0 }
+  for (let i = 0; i < index && i < segments.length; i++) {
+    const s = segments[i]
+    if (s.type === 'Z') {
+      current = start
+    } else {
+      current = { x: s.x, y: s.y }
+      if (s.type === 'M') start = current
+    }
+  }
+  return current
+}
+
+// End point of each segment, with Z ending where its subpath started
+export const getEndPoint = (segments: PathSegment[], index: number): Point => getStartPoint(segments, index + 1)
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })
+
+const samePoint = (a: Point, b: Point) => Math.abs(a.x - b.x) < 1e-9 && Math.abs(a.y - b.y) < 1e-9
+
+/**
+ * Converts an endpoint-parameterised arc into cubic Béziers (at most 90° each), following
+ * the SVG implementation notes (F.6.5). Degenerate radii fall back to a straight line.
+ */
+export const arcToCubics = (from: Point, arc: Extract<PathSegment, { type: 'A' }>): Extract<PathSegment, { type: 'C' | 'L' }>[] => {
+  if (samePoint(from, arc)) return []
+  let { rx, ry } = arc
+  if (!rx || !ry) return [{ type: 'L', x: arc.x, y: arc.y }]
+
+  const phi = (arc.angle * Math.PI) / 180
+  const cos = Math.cos(phi)
+  const sin = Math.sin(phi)
+  const dx = (from.x - arc.x) / 2
+  const dy = (from.y - arc.y) / 2
+  const x1p = cos * dx + sin * dy
+  const y1p = -sin * dx + cos * dy
+
+  // Scale radii up when they are too small to reach the end point
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry)
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda)
+    ry *= Math.sqrt(lambda)
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p
+  let coefficient = Math.sqrt(Math.max(0, numerator / denominator))
+  if (arc.largeArc === arc.sweep) coefficient = -coefficient
+  const cxp = (coefficient * rx * y1p) / ry
+  const cyp = (-coefficient * ry * x1p) / rx
+  const cx = cos * cxp - sin * cyp + (from.x + arc.x) / 2
+  const cy = sin * cxp + cos * cyp + (from.y + arc.y) / 2
+
+  const angleBetween = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy)
+  const theta1 = angleBetween(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry)
+  let delta = angleBetween((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry)
+  if (!arc.sweep && delta > 0) delta -= 2 * Math.PI
+  if (arc.sweep && delta < 0) delta += 2 * Math.PI
+
+  const pieces = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9))
+  const step = delta / pieces
+  const k = (4 / 3) * Math.tan(step / 4)
+  const pointAt = (theta: number) => ({
+    x: cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+    y: cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos,
+  })
+  const derivativeAt = (theta: number) => ({
+    x: -rx * Math.sin(theta) * cos - ry * Math.cos(theta) * sin,
+    y: -rx * Math.sin(theta) * sin + ry * Math.cos(theta) * cos,
+  })
+
+  const result: Extract<PathSegment, { type: 'C' }>[] = []
+  for (let i = 0; i < pieces; i++) {
+    const a = theta1 + i * step
+    const b = a + step
+    const p0 = pointAt(a)
+    const p3 = i === pieces - 1 ? { x: arc.x, y: arc.y } : pointAt(b)
+    const d0 = derivativeAt(a)
+    const d1 = derivativeAt(b)
+    result.push({
+      type: 'C',
+      x1: p0.x + k * d0.x,
+      y1: p0.y + k * d0.y,
+      x2: p3.x - k * d1.x,
+      y2: p3.y - k * d1.y,
+      x: p3.x,
+      y: p3.y,
+    })
+  }
+  return result
+}
+
+// Rewrites Q and A segments as cubics so every curve can be handled the same way
+export const toCubicSegments = (segments: PathSegment[]): PathSegment[] => {
+  const result: PathSegment[] = []
+  segments.forEach((s, i) => {
+    const from = getStartPoint(segments, i)
+    if (s.type === 'Q') {
+      result.push({
+        type: 'C',
+        x1: from.x + ((s.x1 - from.x) * 2) / 3,
+        y1: from.y + ((s.y1 - from.y) * 2) / 3,
+        x2: s.x + ((s.x1 - s.x) * 2) / 3,
+        y2: s.y + ((s.y1 - s.y) * 2) / 3,
+        x: s.x,
+        y: s.y,
+      })
+    } else if (s.type === 'A') {
+      result.push(...arcToCubics(from, s))
+    } else {
+      result.push(s)
+    }
+  })
+  return result
+}
+
+// Point on segment `index` at parameter t in [0, 1]
+export const pointOnSegment = (segments: PathSegment[], index: number, t: number): Point => {
+  const from = getStartPoint(segments, index)
+  const s = segments[index]
+  switch (s.type) {
+    case 'M':
+      return { x: s.x, y: s.y }
+    case 'Z':
+    case 'L':
+      return lerp(from, getEndPoint(segments, index), t)
+    case 'Q': {
+      const a = lerp(from, { x: s.x1, y: s.y1 }, t)
+      const b = lerp({ x: s.x1, y: s.y1 }, s, t)
+      return lerp(a, b, t)
+    }
+    case 'C': {
+      const a = lerp(from, { x: s.x1, y: s.y1 }, t)
+      const b = lerp({ x: s.x1, y: s.y1 }, { x: s.x2, y: s.y2 }, t)
+      const c = lerp({ x: s.x2, y: s.y2 }, s, t)
+      return lerp(lerp(a, b, t), lerp(b, c, t), t)
+    }
+    case 'A': {
+      const cubics = arcToCubics(from, s)
+      if (!cubics.length) return from
+      const scaled = t * cubics.length
+      const piece = Math.min(cubics.length - 1, Math.floor(scaled))
+      const pieceFrom = piece === 0 ? from : { x: cubics[piece - 1].x, y: cubics[piece - 1].y }
+      return pointOnSegment([{ type: 'M', ...pieceFrom }, cubics[piece]], 1, scaled - piece)
+    }
+  }
+}
+
+/**
+ * Finds the point of the path closest to `target` by sampling each segment, which is
+ * precise enough for picking a spot under the pointer.
+ */
+export const nearestPointOnPath = (segments: PathSegment[], target: Point, samples = 48) => {
+  let best = { index: -1, t: 0, point: target, distance: Infinity }
+  segments.forEach((s, index) => {
+    if (s.type === 'M') return
+    for (let i = 0; i <= samples; i++) {
+      const t = i / samples
+      const point = pointOnSegment(segments, index, t)
+      const distance = Math.hypot(point.x - target.x, point.y - target.y)
+      if (distance < best.distance) best = { index, t, point, distance }
+    }
+  })
+  return best
+}
+
+// Splits segment `index` at t, so the path gains a node there without changing shape
+export const insertNode = (segments: PathSegment[], index: number, t = 0.5): PathSegment[] => {
+  const s = segments[index]
+  const from = getStartPoint(segments, index)
+  const next = [...segments]
+  switch (s.type) {
+    case 'L':
+    case 'Z': {
+      const end = getEndPoint(segments, index)
+      const mid = lerp(from, end, t)
+      next.splice(index, s.type === 'Z' ? 0 : 1, { type: 'L', ...mid }, ...(s.type === 'Z' ? [] : [{ type: 'L' as const, ...end }]))
+      return next
+    }
+    case 'Q': {
+      const a = lerp(from, { x: s.x1, y: s.y1 }, t)
+      const b = lerp({ x: s.x1, y: s.y1 }, s, t)
+      const mid = lerp(a, b, t)
+      next.splice(index, 1, { type: 'Q', x1: a.x, y1: a.y, ...mid }, { type: 'Q', x1: b.x, y1: b.y, x: s.x, y: s.y })
+      return next
+    }
+    case 'C': {
+      const p1 = { x: s.x1, y: s.y1 }
+      const p2 = { x: s.x2, y: s.y2 }
+      const a = lerp(from, p1, t)
+      const b = lerp(p1, p2, t)
+      const c = lerp(p2, s, t)
+      const ab = lerp(a, b, t)
+      const bc = lerp(b, c, t)
+      const mid = lerp(ab, bc, t)
+      next.splice(
+        index,
+        1,
+        { type: 'C', x1: a.x, y1: a.y, x2: ab.x, y2: ab.y, ...mid },
+        { type: 'C', x1: bc.x, y1: bc.y, x2: c.x, y2: c.y, x: s.x, y: s.y },
+      )
+      return next
+    }
+    case 'A': {
+      // Arcs are split by converting them to cubics first
+      const cubics = arcToCubics(from, s)
+      next.splice(index, 1, ...cubics)
+      if (!cubics.length) return next
+      const scaled = t * cubics.length
+      const piece = Math.min(cubics.length - 1, Math.floor(scaled))
+      return insertNode(next, index + piece, scaled - piece)
+    }
+    case 'M':
+      return next
+  }
+}
+
+// Index of the segment that closes the subpath starting at `moveIndex` back onto its start point
+const closingSegmentIndex = (segments: PathSegment[], moveIndex: number): number => {
+  const move = segments[moveIndex]
+  if (move?.type !== 'M') return -1
+  let i = moveIndex + 1
+  while (i < segments.length && segments[i].type !== 'M' && segments[i].type !== 'Z') i++
+  if (segments[i]?.type !== 'Z') return -1
+  const last = segments[i - 1]
+  return i - 1 > moveIndex && last.type !== 'Z' && samePoint(last, move) ? i - 1 : -1
+}
+
+// Segment whose control point forms the node's incoming / outgoing handle, if any
+const incomingSegment = (segments: PathSegment[], index: number): number => {
+  if (segments[index]?.type === 'M') return closingSegmentIndex(segments, index)
+  return index
+}
+const outgoingSegment = (segments: PathSegment[], index: number): number => {
+  const next = segments[index + 1]
+  if (next && next.type !== 'M' && next.type !== 'Z') return index + 1
+  // The last node of a closed subpath continues into the first drawn segment
+  for (let m = index; m >= 0; m--) {
+    if (segments[m].type === 'M') return closingSegmentIndex(segments, m) === index ? m + 1 : -1
+  }
+  return -1
+}
+
+export type NodeHandles = { anchor: Point; in: Point | null; out: Point | null }
+
+export const getNodeHandles = (segments: PathSegment[], index: number): NodeHandles | null => {
+  const s = segments[index]
+  if (!s || s.type === 'Z') return null
+  const incoming = segments[incomingSegment(segments, index)]
+  const outgoing = segments[outgoingSegment(segments, index)]
+  return {
+    anchor: { x: s.x, y: s.y },
+    in: incoming?.type === 'C' ? { x: incoming.x2, y: incoming.y2 } : incoming?.type === 'Q' ? { x: incoming.x1, y: incoming.y1 } : null,
+    out: outgoing?.type === 'C' ? { x: outgoing.x1, y: outgoing.y1 } : outgoing?.type === 'Q' ? { x: outgoing.x1, y: outgoing.y1 } : null,
+  }
+}
+
+// Infers the node type from its handles, since SVG does not store it
+export const getNodeType = (segments: PathSegment[], index: number): NodeType => {
+  const handles = getNodeHandles(segments, index)
+  if (!handles?.in || !handles.out) return 'corner'
+  const a = { x: handles.in.x - handles.anchor.x, y: handles.in.y - handles.anchor.y }
+  const b = { x: handles.out.x - handles.anchor.x, y: handles.out.y - handles.anchor.y }
+  const la = Math.hypot(a.x, a.y)
+  const lb = Math.hypot(b.x, b.y)
+  if (!la || !lb) return 'corner'
+  const cross = (a.x * b.y - a.y * b.x) / (la * lb)
+  const dot = (a.x * b.x + a.y * b.y) / (la * lb)
+  if (Math.abs(cross) > 1e-3 || dot > 0) return 'corner'
+  return Math.abs(la - lb) < 1e-3 * Math.max(la, lb) ? 'symmetric' : 'smooth'
+}
+
+const setHandle = (segments: PathSegment[], segmentIndex: number, side: 'in' | 'out', point: Point) => {
+  const s = segments[segmentIndex]
+  if (s?.type === 'C') {
+    segments[segmentIndex] = side === 'in' ? { ...s, x2: point.x, y2: point.y } : { ...s, x1: point.x, y1: point.y }
+  } else if (s?.type === 'Q') {
+    segments[segmentIndex] = { ...s, x1: point.x, y1: point.y }
+  }
+}
+
+// Moves a node, carrying its handles (and the coincident closing point of a closed subpath) along
+export const moveNode = (segments: PathSegment[], index: number, to: Point): PathSegment[] => {
+  const s = segments[index]
+  if (!s || s.type === 'Z') return segments
+  const dx = to.x - s.x
+  const dy = to.y - s.y
+  const next = [...segments]
+  const handles = getNodeHandles(segments, index)
+  next[index] = { ...s, x: to.x, y: to.y }
+  const closing = closingSegmentIndex(segments, index)
+  if (closing >= 0) {
+    const c = next[closing] as DrawSegment
+    next[closing] = { ...c, x: to.x, y: to.y }
+  }
+  if (handles?.in && segments[incomingSegment(segments, index)]?.type === 'C') {
+    setHandle(next, incomingSegment(segments, index), 'in', { x: handles.in.x + dx, y: handles.in.y + dy })
+  }
+  if (handles?.out && segments[outgoingSegment(segments, index)]?.type === 'C') {
+    setHandle(next, outgoingSegment(segments, index), 'out', { x: handles.out.x + dx, y: handles.out.y + dy })
+  }
+  return next
+}
+
+/**
+ * Moves one control handle of a node. Smooth nodes turn the opposite handle to stay
+ * collinear (keeping its length); symmetric nodes mirror it exactly.
+ */
+export const moveHandle = (
+  segments: PathSegment[],
+  index: number,
+  side: 'in' | 'out',
+  to: Point,
+  type: NodeType = 'corner',
+): PathSegment[] => {
+  const handles = getNodeHandles(segments, index)
+  if (!handles) return segments
+  const next = [...segments]
+  const own = side === 'in' ? incomingSegment(segments, index) : outgoingSegment(segments, index)
+  const other = side === 'in' ? outgoingSegment(segments, index) : incomingSegment(segments, index)
+  setHandle(next, own, side, to)
+
+  const opposite = side === 'in' ? handles.out : handles.in
+  if (type !== 'corner' && opposite && other >= 0 && segments[other].type === 'C') {
+    const dx = to.x - handles.anchor.x
+    const dy = to.y - handles.anchor.y
+    const length = Math.hypot(dx, dy)
+    if (length) {
+      const keep = type === 'symmetric' ? length : Math.hypot(opposite.x - handles.anchor.x, opposite.y - handles.anchor.y)
+      setHandle(next, other, side === 'in' ? 'out' : 'in', {
+        x: handles.anchor.x - (dx / length) * keep,
+        y: handles.anchor.y - (dy / length) * keep,
+      })
+    }
+  }
+  return next
+}
+
+export const setNodeType = (segments: PathSegment[], index: number, type: NodeType): PathSegment[] => {
+  const handles = getNodeHandles(segments, index)
+  if (type === 'corner' || !handles?.in || !handles.out) return segments
+  // Align the incoming handle to the outgoing one
+  return moveHandle(segments, index, 'out', handles.out, type)
+}
+
+// Removes a node, merging its two segments into one (a curve if either was a curve)
+export const deleteNode = (segments: PathSegment[], index: number): PathSegment[] => {
+  const s = segments[index]
+  if (!s || s.type === 'Z') return segments
+  const next = [...segments]
+  const following = segments[index + 1]
+
+  if (s.type === 'M') {
+    // The subpath now starts where its first segment ended
+    if (following && following.type !== 'M' && following.type !== 'Z') {
+      next.splice(index, 2, { type: 'M', x: following.x, y: following.y })
+    } else {
+      next.splice(index, following?.type === 'Z' ? 2 : 1)
+    }
+    return next
+  }
+
+  if (!following || following.type === 'M' || following.type === 'Z') {
+    next.splice(index, 1)
+    return next
+  }
+
+  if (s.type === 'C' || following.type === 'C' || s.type === 'Q' || following.type === 'Q') {
+    const from = getStartPoint(segments, index)
+    const [first] = toCubicSegments([{ type: 'M', ...from }, s]).slice(1) as DrawSegment[]
+    const [second] = toCubicSegments([{ type: 'M', x: s.x, y: s.y }, following]).slice(1) as DrawSegment[]
+    next.splice(index, 2, {
+      type: 'C',
+      x1: first.type === 'C' ? first.x1 : from.x,
+      y1: first.type === 'C' ? first.y1 : from.y,
+      x2: second.type === 'C' ? second.x2 : following.x,
+      y2: second.type === 'C' ? second.y2 : following.y,
+      x: following.x,
+      y: following.y,
+    })
+    return next
+  }
+
+  next.splice(index, 1)
+  return next
+}
+
+// Turns segment `index` into a straight line or a cubic curve
+export const convertSegment = (segments: PathSegment[], index: number, to: 'line' | 'curve'): PathSegment[] => {
+  const s = segments[index]
+  if (!s || s.type === 'M' || s.type === 'Z') return segments
+  const next = [...segments]
+  if (to === 'line') {
+    next[index] = { type: 'L', x: s.x, y: s.y }
+    return next
+  }
+  if (s.type === 'C') return segments
+  const from = getStartPoint(segments, index)
+  if (s.type === 'L') {
+    next[index] = {
+      type: 'C',
+      x1: from.x + (s.x - from.x) / 3,
+      y1: from.y + (s.y - from.y) / 3,
+      x2: from.x + ((s.x - from.x) * 2) / 3,
+      y2: from.y + ((s.y - from.y) * 2) / 3,
+      x: s.x,
+      y: s.y,
+    }
+    return next
+  }
+  next.splice(index, 1, ...toCubicSegments([{ type: 'M', ...from }, s]).slice(1))
+  return next
+}
+
+// Indices of the segments that carry a draggable node
+export const getNodeIndices = (segments: PathSegment[]): number[] =>
+  segments.flatMap((s, i) => {
+    if (s.type === 'Z') return []
+    // The closing point of a closed subpath duplicates its start node
+    for (let m = i - 1; m >= 0; m--) {
+      if (segments[m].type === 'M') return closingSegmentIndex(segments, m) === i ? [] : [i]
+    }
+    return [i]
+  })
+
+export const parsePoints = (points: string | undefined): Point[] => {
+  const values = (points ?? '').trim().split(/[\s,]+/).filter(Boolean).map(Number)
+  const result: Point[] = []
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    if (Number.isFinite(values[i]) && Number.isFinite(values[i + 1])) result.push({ x: values[i], y: values[i + 1] })
+  }
+  return result
+}
+
+export const formatPoints = (points: Point[], precision = 3) =>
+  points.map((p) => `${formatNumber(p.x, precision)},${formatNumber(p.y, precision)}`).join(' ')
+
+// Index of the polygon/polyline edge nearest to `target` and the closest point on it
+export const nearestEdge = (points: Point[], target: Point, closed: boolean) => {
+  let best = { index: -1, point: target, distance: Infinity }
+  const count = closed ? points.length : points.length - 1
+  for (let i = 0; i < count; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    const lengthSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2
+    const t = lengthSq ? Math.max(0, Math.min(1, ((target.x - a.x) * (b.x - a.x) + (target.y - a.y) * (b.y - a.y)) / lengthSq)) : 0
+    const point = lerp(a, b, t)
+    const distance = Math.hypot(point.x - target.x, point.y - target.y)
+    if (distance < best.distance) best = { index: i, point, distance }
+  }
+  return best
+}
+
+// One list per subpath, each starting with its M. Drawing after a Z without a new M
+// continues from the subpath start, so an explicit M is added there.
+export const splitSubpaths = (segments: PathSegment[]): PathSegment[][] => {
+  const subpaths: PathSegment[][] = []
+  segments.forEach((s, i) => {
+    const current = subpaths[subpaths.length - 1]
+    if (s.type === 'M') subpaths.push([s])
+    else if (!current || current[current.length - 1].type === 'Z') subpaths.push([{ type: 'M', ...getStartPoint(segments, i) }, s])
+    else current.push(s)
+  })
+  return subpaths.filter((subpath) => subpath.length > 1)
+}
+
+/**
+ * Runs every subpath the other way round without changing its shape. Closed subpaths keep
+ * their start node; curves swap their control points and arcs flip their sweep.
+ */
+export const reversePathData = (segments: PathSegment[]): PathSegment[] =>
+  splitSubpaths(segments).flatMap((subpath) => {
+    const closed = subpath[subpath.length - 1].type === 'Z'
+    const drawn = subpath.filter(isDrawSegment)
+    const points = drawn.map((s) => ({ x: s.x, y: s.y }))
+    const start = points[0]
+    const end = points[points.length - 1]
+    const result: PathSegment[] = []
+    if (closed) {
+      result.push({ type: 'M', ...start })
+      if (!samePoint(start, end)) result.push({ type: 'L', ...end })
+    } else {
+      result.push({ type: 'M', ...end })
+    }
+    for (let i = drawn.length - 1; i >= 1; i--) {
+      const s = drawn[i]
+      const to = points[i - 1]
+      switch (s.type) {
+        case 'C':
+          result.push({ type: 'C', x1: s.x2, y1: s.y2, x2: s.x1, y2: s.y1, ...to })
+          break
+        case 'Q':
+          result.push({ type: 'Q', x1: s.x1, y1: s.y1, ...to })
+          break
+        case 'A':
+          result.push({ ...s, sweep: !s.sweep, ...to })
+          break
+        default:
+          result.push({ type: 'L', ...to })
+      }
+    }
+    if (closed) result.push({ type: 'Z' })
+    return result
+  })
+
+/**
+ * Links open subpaths whose ends meet into longer ones, reversing a subpath where needed
+ * so the ends line up. Closed subpaths are left alone.
+ */
+export const joinOpenSubpaths = (segments: PathSegment[], tolerance = 1e-6): PathSegment[] => {
+  const subpaths = splitSubpaths(segments)
+  const isOpen = (subpath: PathSegment[]) => subpath[subpath.length - 1].type !== 'Z'
+  const start = (subpath: PathSegment[]) => subpath[0] as Point
+  const end = (subpath: PathSegment[]) => subpath[subpath.length - 1] as Point
+  const meet = (a: Point, b: Point) => Math.abs(a.x - b.x) <= tolerance && Math.abs(a.y - b.y) <= tolerance
+  const joinAt = () => {
+    for (let i = 0; i < subpaths.length; i++) {
+      for (let j = 0; j < subpaths.length; j++) {
+        const a = subpaths[i]
+        const b = subpaths[j]
+        if (i === j || !isOpen(a) || !isOpen(b)) continue
+        if (meet(end(a), start(b))) return { i, j, joined: [...a, ...b.slice(1)] }
+        if (meet(end(a), end(b))) return { i, j, joined: [...a, ...reversePathData(b).slice(1)] }
+        if (meet(start(a), start(b))) return { i, j, joined: [...reversePathData(a), ...b.slice(1)] }
+      }
+    }
+    return null
+  }
+  for (let found = joinAt(); found; found = joinAt()) {
+    subpaths[found.i] = found.joined
+    subpaths.splice(found.j, 1)
+  }
+  return subpaths.flat()
+}
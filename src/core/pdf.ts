@@ -0,0 +1,771 @@
+import { SvgCommandError } from './commands.ts'
+import { flattenSubpaths, shapeToSegments, SHAPE_TAGS } from './geometry.ts'
+import { findByElementId, gradientToUserSpace, parsePaintUrl, readGradient } from './gradient.ts'
+import type { Gradient } from './gradient.ts'
+import { isHidden } from './layers.ts'
+import { applyToPoint, formatNumber, IDENTITY, invert, isIdentity, multiply, parseTransformList, translate } from './matrix.ts'
+import type { Matrix } from './matrix.ts'
+import { PathDataError, toCubicSegments } from './path.ts'
+import type { PathSegment } from './path.ts'
+import { getStyleValue } from './style.ts'
+import type { SvgNode } from './types.ts'
+
+// A vector PDF writer for the document tree. Shapes, paths, transforms, solid and gradient
+// paint, strokes, opacity and text in the standard PDF fonts are written as PDF drawing
+// operators; anything else is left out and listed in the warnings.
+
+export type PdfExport = {
+  bytes: Uint8Array<ArrayBuffer>
+  // Page size in points
+  width: number
+  height: number
+  // One line per kind of content that was left out or drawn differently, in the order met
+  warnings: string[]
+}
+
+type Rgb = { r: number; g: number; b: number; a: number }
+
+// Properties children take from their parents, with their initial values
+const INITIAL_STYLE: Record<string, string> = {
+  fill: 'black',
+  'fill-opacity': '1',
+  'fill-rule': 'nonzero',
+  stroke: 'none',
+  'stroke-width': '1',
+  'stroke-opacity': '1',
+  'stroke-linecap': 'butt',
+  'stroke-linejoin': 'miter',
+  'stroke-miterlimit': '4',
+  'stroke-dasharray': 'none',
+  'stroke-dashoffset': '0',
+  color: 'black',
+  'font-family': 'sans-serif',
+  'font-size': '16',
+  'font-weight': 'normal',
+  'font-style': 'normal',
+  'text-anchor': 'start',
+  'letter-spacing': 'normal',
+  'dominant-baseline': 'auto',
+  visibility: 'visible',
+}
+
+type Style = typeof INITIAL_STYLE
+
+// Elements that only hold definitions or data; they are drawn where referenced, if at all
+const UNDRAWN_TAGS = new Set([
+  'defs', 'title', 'desc', 'metadata', 'script', 'clipPath', 'mask', 'pattern', 'marker', 'symbol',
+  'linearGradient', 'radialGradient', 'filter',
+])
+
+// A PDF reader's largest page side, 200 inches
+const MAX_PAGE_SIZE = 14400
+
+const POINTS_PER_UNIT: Record<string, number> = { '': 0.75, px: 0.75, pt: 1, pc: 12, in: 72, cm: 72 / 2.54, mm: 72 / 25.4 }
+
+const NAMED_COLORS = Object.fromEntries(
+  `aliceblue f0f8ff antiquewhite faebd7 aqua 00ffff aquamarine 7fffd4 azure f0ffff beige f5f5dc bisque ffe4c4
+  black 000000 blanchedalmond ffebcd blue 0000ff blueviolet 8a2be2 brown a52a2a burlywood deb887 cadetblue 5f9ea0
+  chartreuse 7fff00 chocolate d2691e coral ff7f50 cornflowerblue 6495ed cornsilk fff8dc crimson dc143c cyan 00ffff
+  darkblue 00008b darkcyan 008b8b darkgoldenrod b8860b darkgray a9a9a9 darkgreen 006400 darkgrey a9a9a9
+  darkkhaki bdb76b darkmagenta 8b008b darkolivegreen 556b2f darkorange ff8c00 darkorchid 9932cc darkred 8b0000
+  darksalmon e9967a darkseagreen 8fbc8f darkslateblue 483d8b darkslategray 2f4f4f darkslategrey 2f4f4f
+  darkturquoise 00ced1 darkviolet 9400d3 deeppink ff1493 deepskyblue 00bfff dimgray 696969 dimgrey 696969
+  dodgerblue 1e90ff firebrick b22222 floralwhite fffaf0 forestgreen 228b22 fuchsia ff00ff gainsboro dcdcdc
+  ghostwhite f8f8ff gold ffd700 goldenrod daa520 gray 808080 green 008000 greenyellow adff2f grey 808080
+  honeydew f0fff0 hotpink ff69b4 indianred cd5c5c indigo 4b0082 ivory fffff0 khaki f0e68c lavender e6e6fa
+  lavenderblush fff0f5 lawngreen 7cfc00 lemonchiffon fffacd lightblue add8e6 lightcoral f08080 lightcyan e0ffff
+  lightgoldenrodyellow fafad2 lightgray d3d3d3 lightgreen 90ee90 lightgrey d3d3d3 lightpink ffb6c1
+  lightsalmon ffa07a lightseagreen 20b2aa lightskyblue 87cefa lightslategray 778899 lightslategrey 778899
+  lightsteelblue b0c4de lightyellow ffffe0 lime 00ff00 limegreen 32cd32 linen faf0e6 magenta ff00ff maroon 800000
+  mediumaquamarine 66cdaa mediumblue 0000cd mediumorchid ba55d3 mediumpurple 9370db mediumseagreen 3cb371
+  mediumslateblue 7b68ee mediumspringgreen 00fa9a mediumturquoise 48d1cc mediumvioletred c71585
+  midnightblue 191970 mintcream f5fffa mistyrose ffe4e1 moccasin ffe4b5 navajowhite ffdead navy 000080
+  oldlace fdf5e6 olive 808000 olivedrab 6b8e23 orange ffa500 orangered ff4500 orchid da70d6 palegoldenrod eee8aa
+  palegreen 98fb98 paleturquoise afeeee palevioletred db7093 papayawhip ffefd5 peachpuff ffdab9 peru cd853f
+  pink ffc0cb plum dda0dd powderblue b0e0e6 purple 800080 rebeccapurple 663399 red ff0000 rosybrown bc8f8f
+  royalblue 4169e1 saddlebrown 8b4513 salmon fa8072 sandybrown f4a460 seagreen 2e8b57 seashell fff5ee
+  sienna a0522d silver c0c0c0 skyblue 87ceeb slateblue 6a5acd slategray 708090 slategrey 708090 snow fffafa
+  springgreen 00ff7f steelblue 4682b4 tan d2b48c teal 008080 thistle d8bfd8 tomato ff6347 turquoise 40e0d0
+  violet ee82ee wheat f5deb3 white ffffff whitesmoke f5f5f5 yellow ffff00 yellowgreen 9acd32`
+    .trim()
+    .split(/\s+/)
+    .flatMap((word, index, words) => (index % 2 ? [] : [[word, `#${words[index + 1]}`]])),
+)
+
+// Advance widths of characters 32 to 126 in thousandths of the font size, from the fonts' AFM
+// files. The oblique and italic faces use the upright widths, which are within a few percent.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+]
+const TIMES_WIDTHS = [
+  250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278, 500, 500, 500, 500, 500, 500, 500, 500,
+  500, 500, 278, 278, 564, 564, 564, 444, 921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722,
+  556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500, 333, 444, 500, 444, 500, 444, 333, 500,
+  500, 278, 278, 500, 278, 778, 500, 500, 500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541,
+]
+const TIMES_BOLD_WIDTHS = [
+  250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250, 278, 500, 500, 500, 500, 500, 500, 500, 500,
+  500, 500, 333, 333, 570, 570, 570, 500, 930, 722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667, 944, 722, 778,
+  611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667, 333, 278, 333, 581, 500, 333, 500, 556, 444, 556, 444, 333, 500,
+  556, 278, 333, 556, 278, 833, 556, 500, 556, 556, 444, 389, 333, 556, 500, 722, 500, 500, 444, 394, 220, 394, 520,
+]
+
+type FontFamily = 'Helvetica' | 'Times' | 'Courier'
+
+const FONT_FAMILIES: Record<string, FontFamily> = {
+  'sans-serif': 'Helvetica', helvetica: 'Helvetica', 'helvetica neue': 'Helvetica', arial: 'Helvetica', 'liberation sans': 'Helvetica',
+  'system-ui': 'Helvetica', serif: 'Times', times: 'Times', 'times new roman': 'Times', 'liberation serif': 'Times',
+  monospace: 'Courier', courier: 'Courier', 'courier new': 'Courier', 'liberation mono': 'Courier',
+}
+
+// Codes of the WinAnsi characters that are not at their Latin-1 code points
+const WIN_ANSI_CODES: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b,
+  'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99,
+  'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+}
+
+// Approximate baseline shifts, in ems, for the standard fonts
+const BASELINE_SHIFTS: Record<string, number> = {
+  middle: 0.35,
+  central: 0.35,
+  hanging: 0.75,
+  'text-before-edge': 0.75,
+  'text-top': 0.75,
+  'text-after-edge': -0.2,
+  'text-bottom': -0.2,
+  ideographic: -0.2,
+}
+
+type Writer = {
+  tree: SvgNode
+  objects: string[]
+  // Resources shared by the page and all groups: fonts by base font and graphics states by
+  // their entries, each mapped to its resource name, and the objects of patterns and groups
+  fonts: Map<string, string>
+  states: Map<string, string>
+  patterns: number[]
+  groups: number[]
+  resourcesRef: number
+  // The page's default space, for the bounding boxes of transparency groups
+  page: { width: number; height: number }
+  warnings: Set<string>
+}
+
+// Content being written: the stream's operators and the page-space matrix of its coordinates
+type Stream = { out: string[]; base: Matrix }
+
+const num = (value: number) => formatNumber(value, 4)
+
+const matrixOperands = (m: Matrix) => [m.a, m.b, m.c, m.d, m.e, m.f].map(num).join(' ')
+
+const warn = (writer: Writer, message: string) => {
+  writer.warnings.add(message)
+}
+
+const addObject = (writer: Writer, body: string) => {
+  writer.objects.push(body)
+  return writer.objects.length
+}
+
+const streamObject = (entries: string, content: string) => `<< ${entries ? `${entries} ` : ''}/Length ${content.length} >>\nstream\n${content}\nendstream`
+
+// Inline style wins over the presentation attribute, as in CSS
+const property = (node: SvgNode, name: string) => getStyleValue(node.attrs.style, name) ?? node.attrs[name]
+
+const number = (value: string | undefined, fallback = 0) => {
+  const amount = parseFloat(value ?? '')
+  return Number.isFinite(amount) ? amount : fallback
+}
+
+const inheritStyle = (parent: Style, node: SvgNode): Style => {
+  const style = { ...parent }
+  for (const name of Object.keys(INITIAL_STYLE)) {
+    const value = property(node, name)?.trim()
+    if (!value || value === 'inherit') continue
+    if (name === 'font-size') {
+      // Relative sizes are resolved now, against the parent's
+      const size = parseFloat(value)
+      if (!Number.isFinite(size)) continue
+      const parentSize = number(parent['font-size'], 16)
+      style[name] = String(value.endsWith('%') ? (size / 100) * parentSize : value.endsWith('em') ? size * parentSize : size)
+    } else {
+      style[name] = value
+    }
+  }
+  return style
+}
+
+const hslToRgb = (h: number, s: number, l: number) => {
+  const k = (n: number) => (n + h / 30) % 12
+  const a = s * Math.min(l, 1 - l)
+  const channel = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1))
+  return { r: channel(0), g: channel(8), b: channel(4) }
+}
+
+// Hex, rgb(), rgba(), hsl(), hsla() and named colors, as 0–1 channels
+const parseColor = (value: string): Rgb | null => {
+  const color = value.trim().toLowerCase()
+  if (color === 'transparent') return { r: 0, g: 0, b: 0, a: 0 }
+  const hex = (NAMED_COLORS[color] ?? color).match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/)
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].replace(/./g, '$&$&') : hex[1]
+    const [r, g, b, a = 255] = digits.match(/../g)!.map((pair) => parseInt(pair, 16))
+    return { r: r / 255, g: g / 255, b: b / 255, a: a / 255 }
+  }
+  const fn = color.match(/^(rgba?|hsla?)\(([^)]*)\)$/)
+  if (!fn) return null
+  const parts = fn[2].split(/[\s,/]+/).filter(Boolean)
+  if (parts.length < 3) return null
+  const amounts = parts.map((part) => parseFloat(part))
+  if (!amounts.every(Number.isFinite)) return null
+  const fraction = (index: number, full: number) => (parts[index].endsWith('%') ? amounts[index] / 100 : amounts[index] / full)
+  const clamp = (n: number) => Math.min(1, Math.max(0, n))
+  const a = parts.length > 3 ? clamp(fraction(3, 1)) : 1
+  if (fn[1].startsWith('rgb')) return { r: clamp(fraction(0, 255)), g: clamp(fraction(1, 255)), b: clamp(fraction(2, 255)), a }
+  return { ...hslToRgb(((amounts[0] % 360) + 360) % 360, clamp(amounts[1] / 100), clamp(amounts[2] / 100)), a }
+}
+
+const colorOperands = ({ r, g, b }: Rgb) => [r, g, b].map((channel) => formatNumber(channel, 3)).join(' ')
+
+type Paint = { kind: 'color'; color: Rgb } | { kind: 'gradient'; gradient: Gradient }
+
+// A color value, with currentColor taken from the style
+const readColor = (writer: Writer, value: string, style: Style): Rgb | null => {
+  const color = parseColor(value.trim().toLowerCase() === 'currentcolor' ? style.color : value)
+  if (!color) warn(writer, `Colors that could not be read are not painted: "${value.trim()}"`)
+  return color
+}
+
+const resolvePaint = (writer: Writer, value: string, style: Style): Paint | null => {
+  const paint = value.trim()
+  if (paint === 'none') return null
+  const id = parsePaintUrl(paint)
+  if (!id) {
+    const color = readColor(writer, paint, style)
+    return color ? { kind: 'color', color } : null
+  }
+  const gradient = readGradient(writer.tree, id)
+  if (gradient) return { kind: 'gradient', gradient }
+  if (findByElementId(writer.tree, id)?.tag === 'pattern') warn(writer, 'Pattern fills and strokes are not exported')
+  // The fallback after the url() is used when the paint server cannot be
+  const fallback = paint.replace(/^url\([^)]*\)/, '').trim()
+  return fallback ? resolvePaint(writer, fallback, style) : null
+}
+
+// Gradient stops as PDF sees them: in order, with offsets that never go back and solid colors
+const gradientStops = (writer: Writer, gradient: Gradient, style: Style) => {
+  let previous = 0
+  const stops = gradient.stops.map((stop) => {
+    previous = Math.max(previous, stop.offset)
+    const color = readColor(writer, stop.color, style) ?? { r: 0, g: 0, b: 0, a: 1 }
+    return { offset: previous, color, opacity: stop.opacity * color.a }
+  })
+  const opacity = stops[0]?.opacity ?? 1
+  if (stops.some((stop) => Math.abs(stop.opacity - opacity) > 1e-3)) {
+    warn(writer, 'Gradients whose stops differ in opacity are drawn with the first stop’s opacity')
+  }
+  if (gradient.spreadMethod !== 'pad') warn(writer, 'Reflected and repeated gradients are drawn padded')
+  return { stops, opacity }
+}
+
+// Blends between consecutive stops; the first and last colors continue to the ends
+const shadingFunction = (stops: { offset: number; color: Rgb }[]) => {
+  const padded = [{ ...stops[0], offset: 0 }, ...stops, { ...stops[stops.length - 1], offset: 1 }]
+  const intervals = padded.slice(1).flatMap((stop, index) => {
+    const from = padded[index]
+    if (stop.offset <= from.offset) return []
+    return [{ from, to: stop, fn: `<< /FunctionType 2 /Domain [0 1] /C0 [${colorOperands(from.color)}] /C1 [${colorOperands(stop.color)}] /N 1 >>` }]
+  })
+  if (intervals.length === 1) return intervals[0].fn
+  const bounds = intervals.slice(1).map(({ from }) => num(from.offset))
+  return `<< /FunctionType 3 /Domain [0 1] /Functions [${intervals.map(({ fn }) => fn).join(' ')}] /Bounds [${bounds.join(' ')}] /Encode [${intervals.map(() => '0 1').join(' ')}] >>`
+}
+
+/**
+ * Sets the fill or stroke color operators for `paint` and returns its opacity, or null when
+ * nothing should be painted. `bbox` is the element's bounding box in user space, for
+ * gradients in bounding-box units, and `ctm` maps user space to page space.
+ */
+const setPaint = (
+  writer: Writer,
+  stream: Stream,
+  paint: Paint,
+  stroke: boolean,
+  style: Style,
+  ctm: Matrix,
+  bbox: () => { x: number; y: number; width: number; height: number } | null,
+): number | null => {
+  if (paint.kind === 'color') {
+    stream.out.push(`${colorOperands(paint.color)} ${stroke ? 'RG' : 'rg'}`)
+    return paint.color.a
+  }
+  const { gradient } = paint
+  const { stops, opacity } = gradientStops(writer, gradient, style)
+  if (!stops.length) return null
+  if (stops.length === 1 || stops[0].offset === stops[stops.length - 1].offset) {
+    stream.out.push(`${colorOperands(stops[stops.length - 1].color)} ${stroke ? 'RG' : 'rg'}`)
+    return opacity
+  }
+  let toUser = gradient.transform
+  if (gradient.units === 'objectBoundingBox') {
+    // A bounding-box gradient on something without area paints nothing
+    const box = bbox()
+    if (!box || box.width <= 0 || box.height <= 0) return null
+    toUser = gradientToUserSpace(gradient, box)
+  }
+  const base = invert(stream.base)
+  if (!base) return null
+  const coords =
+    gradient.kind === 'linear'
+      ? [gradient.start.x, gradient.start.y, gradient.end.x, gradient.end.y]
+      : [(gradient.focal ?? gradient.center).x, (gradient.focal ?? gradient.center).y, 0, gradient.center.x, gradient.center.y, gradient.radius]
+  const shading = `<< /ShadingType ${gradient.kind === 'linear' ? 2 : 3} /ColorSpace /DeviceRGB /Coords [${coords.map(num).join(' ')}] /Function ${shadingFunction(stops)} /Extend [true true] >>`
+  // Pattern space is the stream's own space, so the matrix goes from the gradient to there
+  const matrix = multiply(base, multiply(ctm, toUser))
+  writer.patterns.push(addObject(writer, `<< /Type /Pattern /PatternType 2 /Shading ${shading} /Matrix [${matrixOperands(matrix)}] >>`))
+  const name = `P${writer.patterns.length}`
+  stream.out.push(stroke ? `/Pattern CS /${name} SCN` : `/Pattern cs /${name} scn`)
+  return opacity
+}
+
+// Sets fill and stroke opacity through a shared graphics state. Text runs share one BT block,
+// so they always set it (`reset`) rather than keep an earlier run's opacity.
+const setOpacity = (writer: Writer, stream: Stream, fill: number, stroke: number, reset = false) => {
+  if (!reset && fill >= 1 && stroke >= 1) return
+  const entries = `/ca ${num(Math.min(1, fill))} /CA ${num(Math.min(1, stroke))}`
+  if (!writer.states.has(entries)) writer.states.set(entries, `GS${writer.states.size + 1}`)
+  stream.out.push(`/${writer.states.get(entries)} gs`)
+}
+
+const opacityOf = (value: string) => Math.min(1, Math.max(0, number(value, 1)))
+
+const setStrokeStyle = (stream: Stream, style: Style) => {
+  const caps: Record<string, number> = { butt: 0, round: 1, square: 2 }
+  const joins: Record<string, number> = { miter: 0, 'miter-clip': 0, round: 1, bevel: 2 }
+  stream.out.push(
+    `${num(number(style['stroke-width'], 1))} w ${caps[style['stroke-linecap']] ?? 0} J ${joins[style['stroke-linejoin']] ?? 0} j ${num(Math.max(1, number(style['stroke-miterlimit'], 4)))} M`,
+  )
+  const dashes = style['stroke-dasharray'] === 'none' ? [] : style['stroke-dasharray'].split(/[\s,]+/).filter(Boolean).map((dash) => parseFloat(dash))
+  // Invalid or all-zero dash arrays draw a solid line; odd ones repeat to make pairs
+  if (dashes.length && dashes.every((dash) => Number.isFinite(dash) && dash >= 0) && dashes.some((dash) => dash > 0)) {
+    const pattern = dashes.length % 2 ? [...dashes, ...dashes] : dashes
+    stream.out.push(`[${pattern.map(num).join(' ')}] ${num(number(style['stroke-dashoffset']))} d`)
+  }
+}
+
+const pathOperators = (segments: PathSegment[]) =>
+  toCubicSegments(segments).map((s) => {
+    switch (s.type) {
+      case 'M':
+        return `${num(s.x)} ${num(s.y)} m`
+      case 'L':
+        return `${num(s.x)} ${num(s.y)} l`
+      case 'C':
+        return `${[s.x1, s.y1, s.x2, s.y2, s.x, s.y].map(num).join(' ')} c`
+      default:
+        return 'h'
+    }
+  })
+
+const boundsOf = (segments: PathSegment[]) => {
+  const points = flattenSubpaths(segments, 0.1).flatMap((polyline) => polyline.points)
+  if (!points.length) return null
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+const drawShape = (writer: Writer, stream: Stream, node: SvgNode, style: Style, ctm: Matrix) => {
+  let segments: PathSegment[]
+  try {
+    segments = shapeToSegments(node) ?? []
+  } catch (error) {
+    if (!(error instanceof PathDataError)) throw error
+    warn(writer, 'Paths with invalid path data are not exported')
+    return
+  }
+  if (!segments.some((s) => s.type !== 'M' && s.type !== 'Z')) return
+  for (const marker of ['marker-start', 'marker-mid', 'marker-end']) {
+    const value = property(node, marker)
+    if (value && value !== 'none') warn(writer, 'Markers are not exported')
+  }
+
+  let bbox: ReturnType<typeof boundsOf> | undefined
+  const lazyBounds = () => (bbox === undefined ? (bbox = boundsOf(segments)) : bbox)
+  const fillPaint = node.tag === 'line' ? null : resolvePaint(writer, style.fill, style)
+  const strokePaint = number(style['stroke-width'], 1) > 0 ? resolvePaint(writer, style.stroke, style) : null
+  const fillAlpha = fillPaint && setPaint(writer, stream, fillPaint, false, style, ctm, lazyBounds)
+  const strokeAlpha = strokePaint && setPaint(writer, stream, strokePaint, true, style, ctm, lazyBounds)
+  const fill = fillAlpha !== null && fillAlpha > 0
+  const stroke = strokeAlpha !== null && strokeAlpha > 0
+  if (!fill && !stroke) return
+
+  setOpacity(writer, stream, (fillAlpha ?? 1) * opacityOf(style['fill-opacity']), (strokeAlpha ?? 1) * opacityOf(style['stroke-opacity']))
+  if (stroke) setStrokeStyle(stream, style)
+  stream.out.push(...pathOperators(segments))
+  const evenOdd = style['fill-rule'] === 'evenodd' ? '*' : ''
+  stream.out.push(fill && stroke ? `B${evenOdd}` : fill ? `f${evenOdd}` : 'S')
+}
+
+const fontFor = (writer: Writer, style: Style) => {
+  const families = style['font-family'].split(',').map((name) => name.trim().replace(/^['"]|['"]$/g, ''))
+  const family = families.map((name) => FONT_FAMILIES[name.toLowerCase()]).find(Boolean) ?? 'Helvetica'
+  if (!FONT_FAMILIES[families[0].toLowerCase()]) warn(writer, `The font "${families[0]}" is replaced with ${family}`)
+  const weight = style['font-weight']
+  const bold = weight === 'bold' || weight === 'bolder' || number(weight, 400) >= 600
+  const italic = style['font-style'] === 'italic' || style['font-style'] === 'oblique'
+  const baseFont =
+    family === 'Times'
+      ? ['Times-Roman', 'Times-Bold', 'Times-Italic', 'Times-BoldItalic'][Number(bold) + 2 * Number(italic)]
+      : `${family}${bold || italic ? '-' : ''}${bold ? 'Bold' : ''}${italic ? 'Oblique' : ''}`
+  const widths = family === 'Courier' ? null : family === 'Times' ? (bold ? TIMES_BOLD_WIDTHS : TIMES_WIDTHS) : bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  return { baseFont, widths }
+}
+
+// Character codes in WinAnsiEncoding, the encoding the standard fonts are written with
+const encodeText = (writer: Writer, text: string) =>
+  Array.from(text, (char) => {
+    const code = char.codePointAt(0)!
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code
+    if (WIN_ANSI_CODES[char]) return WIN_ANSI_CODES[char]
+    warn(writer, 'Characters outside the standard fonts’ Latin character set are replaced with "?"')
+    return 0x3f
+  })
+
+const pdfString = (codes: number[]) =>
+  `(${codes.map((code) => (code === 0x28 || code === 0x29 || code === 0x5c ? `\\${String.fromCharCode(code)}` : code < 0x20 || code > 0x7e ? `\\${code.toString(8).padStart(3, '0')}` : String.fromCharCode(code))).join('')})`
+
+type TextRun = { text: string; style: Style; x?: number; y?: number; dx: number; dy: number }
+
+// Reads the first of a list of positions, in user units or ems; per-character positions are not supported
+const position = (writer: Writer, value: string | undefined, fontSize: number) => {
+  if (value === undefined) return undefined
+  const values = value.trim().split(/[\s,]+/)
+  if (values.length > 1) warn(writer, 'Text positioned character by character is placed from its first position')
+  const amount = parseFloat(values[0])
+  if (!Number.isFinite(amount)) return undefined
+  return values[0].endsWith('em') ? amount * fontSize : amount
+}
+
+// Splits a <text> into runs of one style, each carrying the position changes before it
+const textRuns = (writer: Writer, node: SvgNode, style: Style, runs: TextRun[], pending: Omit<TextRun, 'text' | 'style'>) => {
+  const fontSize = number(style['font-size'], 16)
+  const x = position(writer, node.attrs.x, fontSize)
+  const y = position(writer, node.attrs.y, fontSize)
+  if (x !== undefined) pending.x = x
+  if (y !== undefined) pending.y = y
+  pending.dx += position(writer, node.attrs.dx, fontSize) ?? 0
+  pending.dy += position(writer, node.attrs.dy, fontSize) ?? 0
+  for (const child of node.children) {
+    if (child.tag === '#text' || child.tag === '#cdata') {
+      runs.push({ text: child.text ?? '', style, ...pending })
+      Object.assign(pending, { x: undefined, y: undefined, dx: 0, dy: 0 })
+    } else if (child.tag === 'textPath') {
+      warn(writer, 'Text on a path is not exported')
+    } else if ((child.tag === 'tspan' || child.tag === 'a') && !isHidden(child)) {
+      textRuns(writer, child, inheritStyle(style, child), runs, pending)
+    }
+  }
+}
+
+const textWidth = (codes: number[], font: ReturnType<typeof fontFor>, size: number, spacing: number) =>
+  codes.reduce((width, code) => {
+    const advance = !font.widths ? 600 : code >= 32 && code <= 126 ? font.widths[code - 32] : font.widths[0x6e - 32]
+    return width + (advance / 1000) * size + spacing
+  }, 0)
+
+const drawText = (writer: Writer, stream: Stream, node: SvgNode, style: Style) => {
+  const runs: TextRun[] = []
+  textRuns(writer, node, style, runs, { dx: 0, dy: 0 })
+  // Whitespace collapses as in HTML unless xml:space="preserve"
+  const preserve = node.attrs['xml:space'] === 'preserve'
+  let afterSpace = true
+  for (const run of runs) {
+    run.text = run.text.replace(/[\t\n\r]/g, ' ')
+    if (preserve) continue
+    run.text = run.text.replace(/ {2,}/g, ' ')
+    if (afterSpace) run.text = run.text.replace(/^ /, '')
+    if (run.text) afterSpace = run.text.endsWith(' ')
+  }
+  if (!preserve && runs.length) runs[runs.length - 1].text = runs[runs.length - 1].text.replace(/ $/, '')
+
+  // Lay out the runs in chunks that each start at an absolute position and are anchored as a whole
+  type Placed = { run: TextRun; codes: number[]; font: ReturnType<typeof fontFor>; x: number; y: number; width: number }
+  const chunks: Placed[][] = []
+  let pen = { x: 0, y: 0 }
+  for (const run of runs) {
+    if (!chunks.length || run.x !== undefined || run.y !== undefined) chunks.push([])
+    pen = { x: (run.x ?? pen.x) + run.dx, y: (run.y ?? pen.y) + run.dy }
+    if (!run.text || run.style.visibility === 'hidden' || run.style.visibility === 'collapse') continue
+    const codes = encodeText(writer, run.text)
+    const font = fontFor(writer, run.style)
+    const spacing = run.style['letter-spacing'] === 'normal' ? 0 : number(run.style['letter-spacing'])
+    const width = textWidth(codes, font, number(run.style['font-size'], 16), spacing)
+    chunks[chunks.length - 1].push({ run, codes, font, x: pen.x, y: pen.y, width })
+    pen = { x: pen.x + width, y: pen.y }
+  }
+
+  const placed = chunks.flatMap((chunk) => {
+    if (!chunk.length) return []
+    const last = chunk[chunk.length - 1]
+    const length = last.x + last.width - chunk[0].x
+    const anchor = chunk[0].run.style['text-anchor']
+    const shift = anchor === 'middle' ? -length / 2 : anchor === 'end' ? -length : 0
+    return chunk.map((entry) => ({ ...entry, x: entry.x + shift }))
+  })
+  if (!placed.length) return
+
+  stream.out.push('BT')
+  for (const { run, codes, font, x, y } of placed) {
+    const runStyle = run.style
+    const size = number(runStyle['font-size'], 16)
+    const paintOf = (value: string) => {
+      const paint = resolvePaint(writer, value, runStyle)
+      if (paint?.kind !== 'gradient') return paint
+      warn(writer, 'Gradient text is painted with the gradient’s first color')
+      const first = paint.gradient.stops[0]
+      const color = first && readColor(writer, first.color, runStyle)
+      return color ? { kind: 'color' as const, color: { ...color, a: color.a * first.opacity } } : null
+    }
+    const fillPaint = paintOf(runStyle.fill)
+    const strokePaint = number(runStyle['stroke-width'], 1) > 0 ? paintOf(runStyle.stroke) : null
+    const fillAlpha = fillPaint ? setPaint(writer, stream, fillPaint, false, runStyle, IDENTITY, () => null) : null
+    const strokeAlpha = strokePaint ? setPaint(writer, stream, strokePaint, true, runStyle, IDENTITY, () => null) : null
+    const fill = fillAlpha !== null && fillAlpha > 0
+    const stroke = strokeAlpha !== null && strokeAlpha > 0
+    setOpacity(writer, stream, (fillAlpha ?? 1) * opacityOf(runStyle['fill-opacity']), (strokeAlpha ?? 1) * opacityOf(runStyle['stroke-opacity']), true)
+    if (stroke) setStrokeStyle(stream, runStyle)
+
+    if (!writer.fonts.has(font.baseFont)) writer.fonts.set(font.baseFont, `F${writer.fonts.size + 1}`)
+    const spacing = runStyle['letter-spacing'] === 'normal' ? 0 : number(runStyle['letter-spacing'])
+    const baseline = (BASELINE_SHIFTS[runStyle['dominant-baseline']] ?? 0) * size
+    // Text space is flipped back upright, since the page's user space points down
+    stream.out.push(
+      `/${writer.fonts.get(font.baseFont)} ${num(size)} Tf ${num(spacing)} Tc ${fill && stroke ? 2 : stroke ? 1 : fill ? 0 : 3} Tr`,
+      `1 0 0 -1 ${num(x)} ${num(y + baseline)} Tm`,
+      `${pdfString(codes)} Tj`,
+    )
+  }
+  stream.out.push('ET')
+}
+
+const drawChildren = (writer: Writer, stream: Stream, node: SvgNode, style: Style, ctm: Matrix, using: Set<SvgNode>) => {
+  for (const child of node.children) drawNode(writer, stream, child, style, ctm, using)
+}
+
+// Draws a <use>: the referenced element, moved by x and y, inheriting from the <use>
+const drawUse = (writer: Writer, stream: Stream, node: SvgNode, style: Style, ctm: Matrix, using: Set<SvgNode>) => {
+  const href = node.attrs.href ?? node.attrs['xlink:href']
+  const target = href?.startsWith('#') ? findByElementId(writer.tree, href.slice(1)) : null
+  if (!target || using.has(target)) return
+  const nested = new Set(using).add(target)
+  if (target.tag !== 'symbol') {
+    drawNode(writer, stream, target, style, ctm, nested)
+    return
+  }
+  if (target.attrs.viewBox) warn(writer, 'Symbols with their own viewBox are drawn without scaling to the <use> size')
+  drawChildren(writer, stream, target, inheritStyle(style, target), ctm, nested)
+}
+
+/**
+ * Writes `node` and its subtree to `stream`. `ctm` maps the node's parent's user space to
+ * page space; `using` holds the elements being drawn through <use>, to stop reference loops.
+ */
+const drawNode = (writer: Writer, stream: Stream, node: SvgNode, parentStyle: Style, ctm: Matrix, using: Set<SvgNode>) => {
+  // Text, comments and other editors' namespaced data
+  if (node.tag.startsWith('#') || node.tag.includes(':')) return
+  if (UNDRAWN_TAGS.has(node.tag) || isHidden(node)) return
+  if (node.tag === 'style') {
+    if (node.children.some((child) => child.text?.trim())) warn(writer, 'Stylesheet rules are not applied; only attributes and inline styles are')
+    return
+  }
+  for (const [name, label] of [['clip-path', 'Clipping paths'], ['mask', 'Masks'], ['filter', 'Filters']]) {
+    const value = property(node, name)
+    if (value && value !== 'none') warn(writer, `${label} are not exported; the content is drawn unclipped and unfiltered`)
+  }
+  const opacity = opacityOf(property(node, 'opacity') ?? '1')
+  if (opacity <= 0) return
+
+  const root = node === writer.tree
+  let local = root ? IDENTITY : parseTransformList(node.attrs.transform)
+  if ((node.tag === 'use' || (node.tag === 'svg' && !root)) && (node.attrs.x || node.attrs.y)) {
+    local = multiply(local, translate(number(node.attrs.x), number(node.attrs.y)))
+  }
+  if (node.tag === 'svg' && !root) warn(writer, 'Nested <svg> elements are drawn without their own viewport')
+  const style = inheritStyle(parentStyle, node)
+  const matrix = multiply(ctm, local)
+  if (!invert(matrix)) return
+
+  stream.out.push('q')
+  if (!isIdentity(local)) stream.out.push(`${matrixOperands(local)} cm`)
+  // Group opacity applies to the content as a whole, so it is drawn as a transparency group
+  const target: Stream = opacity < 1 ? { out: [], base: matrix } : stream
+  const visible = style.visibility !== 'hidden' && style.visibility !== 'collapse'
+  if (node.tag === 'svg' || node.tag === 'g' || node.tag === 'a') {
+    drawChildren(writer, target, node, style, matrix, using)
+  } else if (node.tag === 'use') {
+    drawUse(writer, target, node, style, matrix, using)
+  } else if ((SHAPE_TAGS as readonly string[]).includes(node.tag)) {
+    if (visible) drawShape(writer, target, node, style, matrix)
+  } else if (node.tag === 'text') {
+    drawText(writer, target, node, style)
+  } else {
+    warn(writer, `<${node.tag}> elements are not exported`)
+  }
+  if (target !== stream && target.out.length) {
+    // The group's bounding box is the page, in the group's own coordinates
+    const toGroup = invert(matrix)!
+    const corners = [
+      { x: 0, y: 0 },
+      { x: writer.page.width, y: 0 },
+      { x: 0, y: writer.page.height },
+      { x: writer.page.width, y: writer.page.height },
+    ].map((p) => applyToPoint(toGroup, p))
+    const xs = corners.map((p) => p.x)
+    const ys = corners.map((p) => p.y)
+    const bbox = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)].map(num).join(' ')
+    const ref = addObject(
+      writer,
+      streamObject(`/Type /XObject /Subtype /Form /BBox [${bbox}] /Group << /S /Transparency >> /Resources ${writer.resourcesRef} 0 R`, target.out.join('\n')),
+    )
+    writer.groups.push(ref)
+    setOpacity(writer, stream, opacity, opacity)
+    stream.out.push(`/X${writer.groups.length} Do`)
+  }
+  stream.out.push('Q')
+}
+
+const parseViewBox = (value: string | undefined) => {
+  const numbers = (value ?? '').trim().split(/[\s,]+/).map(Number)
+  if (numbers.length !== 4 || !numbers.every(Number.isFinite) || numbers[2] <= 0 || numbers[3] <= 0) return null
+  const [x, y, width, height] = numbers
+  return { x, y, width, height }
+}
+
+// A length in points, or null for percentages, `auto` and anything unreadable
+const toPoints = (value: string | undefined) => {
+  const match = value?.trim().match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(px|pt|pc|in|cm|mm)?$/i)
+  if (!match) return null
+  const points = Number(match[1]) * POINTS_PER_UNIT[(match[2] ?? '').toLowerCase()]
+  return points > 0 ? points : null
+}
+
+// Fits the viewBox into the page the way preserveAspectRatio asks
+const viewBoxTransform = (viewBox: NonNullable<ReturnType<typeof parseViewBox>>, width: number, height: number, preserve = '') => {
+  const [align = 'xMidYMid', meetOrSlice = 'meet'] = preserve.trim().split(/\s+/)
+  if (align === 'none') {
+    const sx = width / viewBox.width
+    const sy = height / viewBox.height
+    return { a: sx, b: 0, c: 0, d: sy, e: -viewBox.x * sx, f: -viewBox.y * sy }
+  }
+  const fit = meetOrSlice === 'slice' ? Math.max : Math.min
+  const s = fit(width / viewBox.width, height / viewBox.height)
+  const weight = (part: string) => (part === 'Min' ? 0 : part === 'Max' ? 1 : 0.5)
+  const e = (width - viewBox.width * s) * weight(align.slice(1, 4)) - viewBox.x * s
+  const f = (height - viewBox.height * s) * weight(align.slice(5, 8)) - viewBox.y * s
+  return { a: s, b: 0, c: 0, d: s, e, f }
+}
+
+// The page size in points and the matrix from the root's user space to PDF's default space
+const pageGeometry = (writer: Writer, tree: SvgNode) => {
+  const viewBox = parseViewBox(tree.attrs.viewBox)
+  let width = toPoints(tree.attrs.width)
+  let height = toPoints(tree.attrs.height)
+  const ratio = viewBox ? viewBox.width / viewBox.height : null
+  if (width === null && height === null) {
+    if (!viewBox) warn(writer, 'The document has no width, height or viewBox, so the page is 300 × 150 px like in a browser')
+    width = viewBox ? viewBox.width * 0.75 : 225
+    height = viewBox ? viewBox.height * 0.75 : 112.5
+  }
+  width ??= ratio ? height! * ratio : 225
+  height ??= ratio ? width / ratio : 112.5
+  if (width > MAX_PAGE_SIZE || height > MAX_PAGE_SIZE) warn(writer, 'The page is larger than 200 inches, which some PDF readers cannot open')
+
+  // PDF's y axis points up from the bottom of the page
+  const flip = { a: 1, b: 0, c: 0, d: -1, e: 0, f: height }
+  const fit = viewBox ? viewBoxTransform(viewBox, width, height, tree.attrs.preserveAspectRatio) : { ...IDENTITY, a: 0.75, d: 0.75 }
+  return { width, height, matrix: multiply(flip, fit) }
+}
+
+/**
+ * Writes `tree` as a one-page vector PDF. The page size comes from the root's width and
+ * height (px, pt, pc, in, cm or mm) and its viewBox. Text is set in the standard PDF fonts
+ * (Helvetica, Times or Courier), so no fonts are embedded. Content that cannot be written,
+ * such as images, clipping, masks and filters, is skipped and named in `warnings`.
+ */
+export const exportPdf = (tree: SvgNode): PdfExport => {
+  if (tree.tag !== 'svg') throw new SvgCommandError('Only <svg> documents can be exported as PDF')
+  const writer: Writer = {
+    tree,
+    objects: [],
+    fonts: new Map(),
+    states: new Map(),
+    patterns: [],
+    groups: [],
+    resourcesRef: 0,
+    page: { width: 0, height: 0 },
+    warnings: new Set(),
+  }
+  const catalog = addObject(writer, '')
+  const pages = addObject(writer, '')
+  writer.resourcesRef = addObject(writer, '')
+  const { width, height, matrix } = pageGeometry(writer, tree)
+  writer.page = { width, height }
+
+  const stream: Stream = { out: [`${matrixOperands(matrix)} cm`], base: IDENTITY }
+  drawNode(writer, stream, tree, INITIAL_STYLE, matrix, new Set())
+  const content = addObject(writer, streamObject('', stream.out.join('\n')))
+
+  const resources: [string, string[]][] = [
+    ['Font', [...writer.fonts].map(([font, name]) => `/${name} << /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`)],
+    ['ExtGState', [...writer.states].map(([entries, name]) => `/${name} << ${entries} >>`)],
+    ['Pattern', writer.patterns.map((ref, index) => `/P${index + 1} ${ref} 0 R`)],
+    ['XObject', writer.groups.map((ref, index) => `/X${index + 1} ${ref} 0 R`)],
+  ]
+  writer.objects[writer.resourcesRef - 1] = `<< ${resources
+    .filter(([, entries]) => entries.length)
+    .map(([kind, entries]) => `/${kind} << ${entries.join(' ')} >>`)
+    .join(' ')} >>`
+  const page = addObject(
+    writer,
+    `<< /Type /Page /Parent ${pages} 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] /Resources ${writer.resourcesRef} 0 R /Contents ${content} 0 R >>`,
+  )
+  writer.objects[catalog - 1] = `<< /Type /Catalog /Pages ${pages} 0 R >>`
+  writer.objects[pages - 1] = `<< /Type /Pages /Kids [${page} 0 R] /Count 1 >>`
+  const title = tree.children.find((child) => child.tag === 'title')
+  const titleText = title?.children.map((child) => child.text ?? '').join('').trim()
+  // Text strings outside content streams can be UTF-16, so the title keeps every character
+  const utf16 = (text: string) => `<FEFF${Array.from({ length: text.length }, (_, i) => text.charCodeAt(i).toString(16).padStart(4, '0')).join('')}>`
+  const info = addObject(writer, `<< /Producer (svg-editor)${titleText ? ` /Title ${utf16(titleText)}` : ''} >>`)
+
+  // Every byte is below 256, so string offsets are byte offsets
+  let file = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'
+  const offsets = writer.objects.map((body, index) => {
+    const offset = file.length
+    file += `${index + 1} 0 obj\n${body}\nendobj\n`
+    return offset
+  })
+  const xref = file.length
+  file += `xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`
+  file += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  file += `trailer\n<< /Size ${offsets.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  return {
+    bytes: Uint8Array.from(file, (char) => char.charCodeAt(0)),
+    width,
+    height,
+    warnings: [...writer.warnings.keys()],
+  }
+}
@@ -0,0 +1,137 @@
+import { DOCUMENT_TAGS } from './clipboard.ts'
+import { SvgCommandError } from './commands.ts'
+import type { CommandResult } from './commands.ts'
+import { isLayerNode, LABEL_ATTRIBUTE } from './layers.ts'
+import { formatTransform, IDENTITY, multiply, scale, translate } from './matrix.ts'
+import type { Matrix, Point } from './matrix.ts'
+import { idAllocator, rewriteReferences, updateNode } from './tree.ts'
+import type { SvgNode } from './types.ts'
+
+export type PlaceOptions = {
+  // Where the center of the placed drawing goes, in the root's user units
+  at: Point
+  // The most room it may take up; larger drawings are scaled down to fit
+  fit?: { width: number; height: number }
+  // Usually the file name: the group's label, and the namespace for its ids and classes
+  name?: string
+}
+
+// Attributes of the placed <svg> that describe its viewport rather than how its content looks
+const VIEWPORT_ATTRIBUTES = new Set(['id', 'data-id', 'class', 'x', 'y', 'width', 'height', 'viewBox', 'preserveAspectRatio', 'version', 'baseProfile'])
+
+// CSS pixels per unit, for width and height given in absolute units
+const UNIT_SIZES: Record<string, number> = { '': 1, px: 1, pt: 4 / 3, pc: 16, mm: 96 / 25.4, cm: 96 / 2.54, in: 96 }
+
+const parseLength = (value: string | undefined): number | null => {
+  const match = /^\s*([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*([a-z]*)\s*$/i.exec(value ?? '')
+  const unit = match ? UNIT_SIZES[match[2].toLowerCase()] : undefined
+  const length = match && unit !== undefined ? parseFloat(match[1]) * unit : NaN
+  return length > 0 ? length : null
+}
+
+// The placed document's size in the host's user units, and the transform from its own user
+// space onto that viewport (the viewBox mapping, centered like the default xMidYMid meet)
+const placedFrame = (root: SvgNode): { width: number; height: number; toViewport: Matrix } => {
+  const viewBox = (root.attrs.viewBox ?? '').split(/[\s,]+/).filter(Boolean).map(Number)
+  const box = viewBox.length === 4 && viewBox.every(Number.isFinite) && viewBox[2] > 0 && viewBox[3] > 0 ? viewBox : null
+  let width = parseLength(root.attrs.width)
+  let height = parseLength(root.attrs.height)
+  if (!box) return { width: width ?? 0, height: height ?? 0, toViewport: IDENTITY }
+
+  const [x, y, w, h] = box
+  if (width === null && height === null) [width, height] = [w, h]
+  width ??= (height! * w) / h
+  height ??= (width * h) / w
+  if ((root.attrs.preserveAspectRatio ?? '').trim() === 'none') {
+    return { width, height, toViewport: multiply(scale(width / w, height / h), translate(-x, -y)) }
+  }
+  const s = Math.min(width / w, height / h)
+  return { width, height, toViewport: multiply(translate((width - w * s) / 2 - x * s, (height - h * s) / 2 - y * s), scale(s)) }
+}
+
+// Makes a file name usable as an id: "My logo (2).svg" becomes "My-logo-2"
+const toIdBase = (name: string) => {
+  const base = name.replace(/\.svgz?$/i, '').replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '')
+  return /^[A-Za-z_]/.test(base) ? base : `svg-${base}`.replace(/-$/, '')
+}
+
+const namespaceClasses = (value: string, scope: string) =>
+  value
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((name) => `${scope}-${name}`)
+    .join(' ')
+
+// Scopes a placed stylesheet to its group: every selector only matches inside `#scope`, and
+// class and id selectors use the namespaced names. Rules for the placed root itself (`svg`,
+// `:root`) apply to the group instead.
+const scopeStylesheet = (css: string, scope: string, renames: Map<string, string>) =>
+  css.replace(/([^{};]+)\{/g, (match, prelude: string) => {
+    const trimmed = prelude.trim()
+    // At-rules keep their prelude; keyframe selectors are not element selectors
+    if (trimmed.startsWith('@') || /^(from|to|[\d.]+%)$/i.test(trimmed)) return match
+    const selectors = trimmed.split(',').map((selector) => {
+      const renamed = selector
+        .trim()
+        .replace(/\.(-?[_a-zA-Z][\w-]*)/g, (_, name: string) => `.${scope}-${name}`)
+        .replace(/#(-?[_a-zA-Z][\w-]*)/g, (id, name: string) => (renames.has(name) ? `#${renames.get(name)}` : id))
+      return /^(svg|:root)(?![\w-])/.test(renamed) ? renamed.replace(/^(svg|:root)/, `#${scope}`) : `#${scope} ${renamed}`
+    })
+    return `${prelude.slice(0, prelude.indexOf(trimmed))}${selectors.join(', ')} {`
+  })
+
+/**
+ * Adds another SVG document to `tree` as a new group centered on `at`, scaled down to `fit`
+ * if it is larger. Its ids and classes get the group's id as a prefix, with the references
+ * and stylesheet rules that use them, so nothing in it can clash with the host document.
+ */
+export const placeDocument = (tree: SvgNode, placed: SvgNode, { at, fit, name = 'placed' }: PlaceOptions): CommandResult => {
+  if (placed.tag !== 'svg') throw new SvgCommandError('Only an <svg> document can be placed')
+  if (!Number.isFinite(at.x) || !Number.isFinite(at.y)) throw new SvgCommandError('The placement point must be numbers')
+  const content = placed.children.filter((child) => !child.tag.includes(':') && !DOCUMENT_TAGS.has(child.tag))
+  if (!content.some(isLayerNode)) throw new SvgCommandError('The placed SVG has nothing to draw')
+
+  const newId = idAllocator(tree)
+  const base = toIdBase(name)
+  const scope = newId(base, base)
+  const renames = new Map<string, string>()
+  const assignIds = (node: SvgNode): SvgNode => {
+    if (node.tag.startsWith('#')) return { ...node, id: newId('node') }
+    const wanted = node.attrs.id
+    const id = wanted === undefined ? newId(node.tag) : newId(`${scope}-${wanted}`, `${scope}-${wanted}`)
+    const attrs: Record<string, string> = { ...node.attrs, 'data-id': id }
+    if (wanted !== undefined) {
+      attrs.id = id
+      renames.set(wanted, id)
+    }
+    if (node.attrs.class !== undefined) attrs.class = namespaceClasses(node.attrs.class, scope)
+    return { ...node, id, attrs, children: node.children.map(assignIds) }
+  }
+  const scopeStyles = (node: SvgNode): SvgNode =>
+    node.tag === 'style'
+      ? { ...node, children: node.children.map((text) => (text.text ? { ...text, text: scopeStylesheet(text.text, scope, renames) } : text)) }
+      : { ...node, children: node.children.map(scopeStyles) }
+  const children = rewriteReferences({ ...placed, children: content.map(assignIds) }, renames).children.map(scopeStyles)
+
+  const { width, height, toViewport } = placedFrame(placed)
+  const k = fit && width > 0 && height > 0 ? Math.min(1, fit.width / width, fit.height / height) : 1
+  const transform = formatTransform(multiply(multiply(translate(at.x - (width * k) / 2, at.y - (height * k) / 2), scale(k)), toViewport))
+
+  // Presentation attributes on the placed root, such as fill or style, are inherited by its content
+  const attrs: Record<string, string> = { id: scope, 'data-id': scope, [LABEL_ATTRIBUTE]: name }
+  for (const [attr, value] of Object.entries(placed.attrs)) {
+    if (!VIEWPORT_ATTRIBUTES.has(attr) && !attr.includes(':') && attr !== 'xmlns') attrs[attr] = value
+  }
+  if (placed.attrs.class !== undefined) attrs.class = namespaceClasses(placed.attrs.class, scope)
+  if (transform) attrs.transform = transform
+  const group: SvgNode = { id: scope, tag: 'g', attrs, children }
+
+  const next = updateNode(tree, tree.id, (root) => {
+    // Prefixes such as xlink: only work where they are declared
+    for (const [attr, value] of Object.entries(placed.attrs)) {
+      if (attr.startsWith('xmlns:') && root.attrs[attr] === undefined) root.attrs[attr] = value
+    }
+    root.children.push(group)
+  })
+  return { tree: next, selection: [scope], changed: 1 }
+}
@@ -0,0 +1,114 @@
+import type { SvgNode } from './types.ts'
+import { TEXT_CONTENT_TAGS } from './xml.ts'
+
+export type SerializeOptions = {
+  // 'compact' writes everything on one line; 'pretty' puts each element on its own line
+  format?: 'compact' | 'pretty'
+  indent?: string
+  // Write the root's XML declaration/doctype (default true)
+  prolog?: boolean
+  // Declare xmlns and any known prefixes (xlink:, inkscape:, ...) the output uses (default true)
+  ensureNamespaces?: boolean
+}
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
+
+const KNOWN_NAMESPACES: Record<string, string> = {
+  svg: SVG_NAMESPACE,
+  xlink: 'http://www.w3.org/1999/xlink',
+  inkscape: 'http://www.inkscape.org/namespaces/inkscape',
+  sodipodi: 'http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  cc: 'http://creativecommons.org/ns#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+}
+
+export const escapeText = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+export const escapeAttribute = (value: string) => escapeText(value).replace(/"/g, '&quot;')
+
+const prefixOf = (name: string) => {
+  const index = name.indexOf(':')
+  return index > 0 ? name.slice(0, index) : null
+}
+
+// Prefixes used by tags and attributes below `node` that nothing in the subtree declares
+const missingNamespaces = (node: SvgNode): Record<string, string> => {
+  const used = new Set<string>()
+  const declared = new Set<string>()
+  const visit = (n: SvgNode) => {
+    if (n.tag.startsWith('#')) return
+    const tagPrefix = prefixOf(n.tag)
+    if (tagPrefix) used.add(tagPrefix)
+    for (const name of Object.keys(n.attrs)) {
+      if (name.startsWith('xmlns:')) declared.add(name.slice(6))
+      else {
+        const prefix = prefixOf(name)
+        if (prefix && prefix !== 'xml' && prefix !== 'xmlns') used.add(prefix)
+      }
+    }
+    n.children.forEach(visit)
+  }
+  visit(node)
+
+  const missing: Record<string, string> = {}
+  if (!node.attrs.xmlns && !prefixOf(node.tag)) missing.xmlns = SVG_NAMESPACE
+  for (const prefix of used) {
+    if (!declared.has(prefix) && KNOWN_NAMESPACES[prefix]) missing[`xmlns:${prefix}`] = KNOWN_NAMESPACES[prefix]
+  }
+  return missing
+}
+
+const serializeAttrs = (attrs: Record<string, string>) =>
+  Object.entries(attrs)
+    .filter(([key]) => key !== 'data-id')
+    .map(([key, value]) => ` ${key}="${escapeAttribute(value)}"`)
+    .join('')
+
+// CDATA cannot contain "]]>", so that sequence is split across two sections
+const serializeCdata = (value: string) => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+
+const serializeLeaf = (node: SvgNode): string => {
+  if (node.tag === '#text') return escapeText(node.text ?? '')
+  if (node.tag === '#comment') return `<!--${node.text ?? ''}-->`
+  return serializeCdata(node.text ?? '')
+}
+
+const serializeCompact = (node: SvgNode, extraAttrs = ''): string => {
+  if (node.tag.startsWith('#')) return serializeLeaf(node)
+  const open = `<${node.tag}${extraAttrs}${serializeAttrs(node.attrs)}`
+  const inner = (node.text ? escapeText(node.text) : '') + node.children.map((child) => serializeCompact(child)).join('')
+  return inner ? `${open}>${inner}</${node.tag}>` : `${open}/>`
+}
+
+// Text and CDATA are whitespace-sensitive, so elements holding them stay on one line
+const isInline = (node: SvgNode) =>
+  TEXT_CONTENT_TAGS.has(node.tag) ||
+  node.attrs['xml:space'] === 'preserve' ||
+  Boolean(node.text) ||
+  node.children.some((child) => child.tag === '#text' || child.tag === '#cdata')
+
+const serializePretty = (node: SvgNode, indent: string, depth: number, extraAttrs = ''): string => {
+  const pad = indent.repeat(depth)
+  if (node.tag.startsWith('#') || isInline(node) || !node.children.length) {
+    return pad + serializeCompact(node, extraAttrs)
+  }
+  const children = node.children.map((child) => serializePretty(child, indent, depth + 1)).join('\n')
+  return `${pad}<${node.tag}${extraAttrs}${serializeAttrs(node.attrs)}>\n${children}\n${pad}</${node.tag}>`
+}
+
+/**
+ * Serializes a node and its subtree to XML. Attribute values and text are escaped,
+ * empty elements self-close, comments and CDATA are written back as they were parsed,
+ * and the editor's `data-id` bookkeeping attribute is left out.
+ */
+export const serializeNode = (node: SvgNode, options: SerializeOptions = {}): string => {
+  const { format = 'compact', indent = '  ', prolog = true, ensureNamespaces = true } = options
+  if (node.tag.startsWith('#')) return serializeLeaf(node)
+
+  const declarations = ensureNamespaces ? serializeAttrs(missingNamespaces(node)) : ''
+  const body =
+    format === 'pretty' ? serializePretty(node, indent, 0, declarations) : serializeCompact(node, declarations)
+  return prolog && node.prolog ? `${node.prolog}\n${body}` : body
+}
@@ -0,0 +1,195 @@
+import { formatNumber } from './matrix.ts'
+import type { Point } from './matrix.ts'
+import { formatPoints, serializePathData } from './path.ts'
+import type { PathSegment } from './path.ts'
+import type { SvgNode } from './types.ts'
+
+export type ShapeTool = 'rect' | 'ellipse' | 'line' | 'polygon' | 'star' | 'pencil'
+
+export type ShapeOptions = {
+  // Corner radius of rectangles, in document units
+  cornerRadius?: number
+  // Number of sides of a polygon, or points of a star
+  sides?: number
+  // Inner radius of a star as a fraction of its outer radius
+  innerRadius?: number
+  // Square/circle, 45° lines and upright polygons
+  constrain?: boolean
+  // Rectangles and ellipses grow from the drag start instead of a corner
+  fromCenter?: boolean
+  // How far (in document units) the smoothed pencil stroke may stray from the trail
+  tolerance?: number
+}
+
+export type ShapeStyle = { fill: string; stroke: string; strokeWidth: string }
+
+// What the pointer did, in document coordinates. `points` is the freehand trail.
+export type ShapeGesture = { start: Point; end: Point; points?: Point[] }
+
+const DEG = Math.PI / 180
+
+const num = (value: number) => formatNumber(value, 3)
+
+// Corner-to-corner box of a drag, honoring the square and from-center modifiers
+const dragBox = ({ start, end }: ShapeGesture, { constrain, fromCenter }: ShapeOptions) => {
+  let dx = end.x - start.x
+  let dy = end.y - start.y
+  if (constrain) {
+    const side = Math.max(Math.abs(dx), Math.abs(dy))
+    dx = Math.sign(dx || 1) * side
+    dy = Math.sign(dy || 1) * side
+  }
+  const x1 = fromCenter ? start.x - dx : start.x
+  const y1 = fromCenter ? start.y - dy : start.y
+  const x2 = start.x + dx
+  const y2 = start.y + dy
+  return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) }
+}
+
+/**
+ * Corner points of a regular polygon, or of a star when `innerRatio` is below 1 (inner
+ * vertices then sit between the outer ones). `rotation` is the angle of the first vertex
+ * in degrees; -90 points it straight up.
+ */
+export const regularPolygonPoints = (center: Point, radius: number, sides: number, rotation = -90, innerRatio = 1): Point[] => {
+  const count = Math.max(3, Math.round(sides))
+  const star = innerRatio < 1
+  const step = (Math.PI * 2) / count
+  const points: Point[] = []
+  for (let i = 0; i < count; i++) {
+    const angle = rotation * DEG + i * step
+    points.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius })
+    if (star) {
+      const inner = angle + step / 2
+      points.push({ x: center.x + Math.cos(inner) * radius * innerRatio, y: center.y + Math.sin(inner) * radius * innerRatio })
+    }
+  }
+  return points
+}
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const lengthSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2
+  if (!lengthSq) return Math.hypot(p.x - a.x, p.y - a.y)
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / lengthSq))
+  return Math.hypot(p.x - (a.x + t * (b.x - a.x)), p.y - (a.y + t * (b.y - a.y)))
+}
+
+// Ramer–Douglas–Peucker: drops points that stay within `tolerance` of the simplified line
+export const simplifyPoints = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) return points
+  let farthest = 0
+  let index = 0
+  const first = points[0]
+  const last = points[points.length - 1]
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = distanceToSegment(points[i], first, last)
+    if (distance > farthest) {
+      farthest = distance
+      index = i
+    }
+  }
+  if (farthest <= tolerance) return [first, last]
+  return [...simplifyPoints(points.slice(0, index + 1), tolerance).slice(0, -1), ...simplifyPoints(points.slice(index), tolerance)]
+}
+
+/**
+ * Turns a freehand trail into smooth path data: the trail is simplified, then each
+ * remaining point is joined with a Catmull-Rom curve written as cubic Béziers.
+ */
+export const smoothPathData = (points: Point[], tolerance = 1): string => {
+  const kept = simplifyPoints(points, tolerance)
+  if (!kept.length) return ''
+  const segments: PathSegment[] = [{ type: 'M', ...kept[0] }]
+  for (let i = 1; i < kept.length; i++) {
+    const p0 = kept[i - 2] ?? kept[i - 1]
+    const p1 = kept[i - 1]
+    const p2 = kept[i]
+    const p3 = kept[i + 1] ?? p2
+    segments.push({
+      type: 'C',
+      x1: p1.x + (p2.x - p0.x) / 6,
+      y1: p1.y + (p2.y - p0.y) / 6,
+      x2: p2.x - (p3.x - p1.x) / 6,
+      y2: p2.y - (p3.y - p1.y) / 6,
+      x: p2.x,
+      y: p2.y,
+    })
+  }
+  return serializePathData(segments)
+}
+
+const element = (tag: string, id: string, attrs: Record<string, string>): SvgNode => ({
+  id,
+  tag,
+  attrs: { id, ...attrs, 'data-id': id },
+  children: [],
+})
+
+/**
+ * Builds the element a drawing tool produces for a drag gesture, styled with the given
+ * fill and stroke. Returns null while the gesture is too small to make a visible shape.
+ */
+export const createShape = (
+  tool: ShapeTool,
+  gesture: ShapeGesture,
+  style: ShapeStyle,
+  id: string,
+  options: ShapeOptions = {},
+): SvgNode | null => {
+  const { start, end } = gesture
+  const paint = { fill: style.fill, stroke: style.stroke, 'stroke-width': style.strokeWidth }
+  const outline = { fill: 'none', stroke: style.stroke, 'stroke-width': style.strokeWidth }
+
+  switch (tool) {
+    case 'rect': {
+      const box = dragBox(gesture, options)
+      if (!box.width || !box.height) return null
+      const radius = Math.min(options.cornerRadius ?? 0, box.width / 2, box.height / 2)
+      return element('rect', id, {
+        x: num(box.x),
+        y: num(box.y),
+        width: num(box.width),
+        height: num(box.height),
+        ...(radius > 0 ? { rx: num(radius), ry: num(radius) } : {}),
+        ...paint,
+      })
+    }
+    case 'ellipse': {
+      const box = dragBox(gesture, options)
+      if (!box.width || !box.height) return null
+      const center = { cx: num(box.x + box.width / 2), cy: num(box.y + box.height / 2) }
+      if (box.width === box.height) return element('circle', id, { ...center, r: num(box.width / 2), ...paint })
+      return element('ellipse', id, { ...center, rx: num(box.width / 2), ry: num(box.height / 2), ...paint })
+    }
+    case 'line': {
+      let to = end
+      if (options.constrain) {
+        const length = Math.hypot(end.x - start.x, end.y - start.y)
+        const angle = Math.round(Math.atan2(end.y - start.y, end.x - start.x) / (45 * DEG)) * 45 * DEG
+        to = { x: start.x + Math.cos(angle) * length, y: start.y + Math.sin(angle) * length }
+      }
+      if (to.x === start.x && to.y === start.y) return null
+      return element('line', id, { x1: num(start.x), y1: num(start.y), x2: num(to.x), y2: num(to.y), stroke: style.stroke, 'stroke-width': style.strokeWidth })
+    }
+    case 'polygon':
+    case 'star': {
+      // Drawn from the center; the drag direction sets the first vertex unless constrained upright
+      const radius = Math.hypot(end.x - start.x, end.y - start.y)
+      if (!radius) return null
+      const rotation = options.constrain ? -90 : Math.atan2(end.y - start.y, end.x - start.x) / DEG
+      const inner = tool === 'star' ? Math.min(0.99, Math.max(0.01, options.innerRadius ?? 0.5)) : 1
+      const points = regularPolygonPoints(start, radius, options.sides ?? 5, rotation, inner)
+      return element('polygon', id, { points: formatPoints(points), ...paint })
+    }
+    case 'pencil': {
+      const trail = gesture.points ?? [start, end]
+      if (trail.length < 2) return null
+      return element('path', id, {
+        d: smoothPathData(trail, options.tolerance),
+        ...outline,
+        'stroke-linecap': 'round',
+        'stroke-linejoin': 'round',
+      })
+    }
+  }
+}
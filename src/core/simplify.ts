@@ -0,0 +1,190 @@
+import { flattenSubpaths } from './geometry.ts'
+import type { Point } from './matrix.ts'
+import { isDrawSegment, splitSubpaths } from './path.ts'
+import type { PathSegment } from './path.ts'
+
+type Cubic = [Point, Point, Point, Point]
+
+const sub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y })
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y })
+const mul = (a: Point, k: number): Point => ({ x: a.x * k, y: a.y * k })
+const dot = (a: Point, b: Point) => a.x * b.x + a.y * b.y
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+const normalize = (a: Point): Point => {
+  const length = Math.hypot(a.x, a.y)
+  return length ? { x: a.x / length, y: a.y / length } : { x: 0, y: 0 }
+}
+
+// Turns sharper than this (in degrees) at one of the path's nodes are kept as corners
+const CORNER_ANGLE = 40
+
+const bezier = ([p0, p1, p2, p3]: Cubic, t: number): Point => {
+  const u = 1 - t
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+    y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+  }
+}
+
+const derivative = ([p0, p1, p2, p3]: Cubic, t: number): Point => {
+  const u = 1 - t
+  return add(add(mul(sub(p1, p0), 3 * u * u), mul(sub(p2, p1), 6 * u * t)), mul(sub(p3, p2), 3 * t * t))
+}
+
+const secondDerivative = ([p0, p1, p2, p3]: Cubic, t: number): Point =>
+  add(mul(add(sub(p2, mul(p1, 2)), p0), 6 * (1 - t)), mul(add(sub(p3, mul(p2, 2)), p1), 6 * t))
+
+// Least-squares cubic through `points` with the end tangents fixed (Schneider, Graphics Gems)
+const generateBezier = (points: Point[], params: number[], tan1: Point, tan2: Point): Cubic => {
+  const first = points[0]
+  const last = points[points.length - 1]
+  let c00 = 0
+  let c01 = 0
+  let c11 = 0
+  let x0 = 0
+  let x1 = 0
+  points.forEach((p, i) => {
+    const u = params[i]
+    const v = 1 - u
+    const a1 = mul(tan1, 3 * u * v * v)
+    const a2 = mul(tan2, 3 * u * u * v)
+    c00 += dot(a1, a1)
+    c01 += dot(a1, a2)
+    c11 += dot(a2, a2)
+    const rest = sub(p, add(mul(first, v * v * v + 3 * u * v * v), mul(last, 3 * u * u * v + u * u * u)))
+    x0 += dot(a1, rest)
+    x1 += dot(a2, rest)
+  })
+  const determinant = c00 * c11 - c01 * c01
+  let alpha1 = determinant ? (x0 * c11 - x1 * c01) / determinant : 0
+  let alpha2 = determinant ? (c00 * x1 - c01 * x0) / determinant : 0
+  const span = distance(first, last)
+  // Degenerate fits fall back to handles a third of the chord long
+  if (alpha1 < span * 1e-6 || alpha2 < span * 1e-6) alpha1 = alpha2 = span / 3
+  return [first, add(first, mul(tan1, alpha1)), add(last, mul(tan2, alpha2)), last]
+}
+
+const chordParameters = (points: Point[]) => {
+  const lengths = [0]
+  for (let i = 1; i < points.length; i++) lengths.push(lengths[i - 1] + distance(points[i], points[i - 1]))
+  const total = lengths[lengths.length - 1] || 1
+  return lengths.map((length) => length / total)
+}
+
+// One Newton-Raphson step moving each parameter to the point of the curve nearest its sample
+const reparameterize = (cubic: Cubic, points: Point[], params: number[]) =>
+  params.map((t, i) => {
+    const offset = sub(bezier(cubic, t), points[i])
+    const d1 = derivative(cubic, t)
+    const denominator = dot(d1, d1) + dot(offset, secondDerivative(cubic, t))
+    return denominator ? Math.min(1, Math.max(0, t - dot(offset, d1) / denominator)) : t
+  })
+
+const maxError = (cubic: Cubic, points: Point[], params: number[]) => {
+  let error = 0
+  let index = Math.floor(points.length / 2)
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distance(bezier(cubic, params[i]), points[i])
+    if (d > error) {
+      error = d
+      index = i
+    }
+  }
+  return { error, index }
+}
+
+const fitCubics = (points: Point[], tan1: Point, tan2: Point, tolerance: number, out: Cubic[]) => {
+  if (points.length === 2) {
+    const third = distance(points[0], points[1]) / 3
+    out.push([points[0], add(points[0], mul(tan1, third)), add(points[1], mul(tan2, third)), points[1]])
+    return
+  }
+  let params = chordParameters(points)
+  let cubic = generateBezier(points, params, tan1, tan2)
+  let fit = maxError(cubic, points, params)
+  // Close misses are usually fixed by re-spacing the parameters; far ones need a split
+  for (let i = 0; fit.error > tolerance && fit.error <= tolerance * 4 && i < 20; i++) {
+    params = reparameterize(cubic, points, params)
+    cubic = generateBezier(points, params, tan1, tan2)
+    fit = maxError(cubic, points, params)
+  }
+  if (fit.error <= tolerance) {
+    out.push(cubic)
+    return
+  }
+  const { index } = fit
+  const center = normalize(sub(points[index - 1], points[index + 1]))
+  fitCubics(points.slice(0, index + 1), tan1, center, tolerance, out)
+  fitCubics(points.slice(index), mul(center, -1), tan2, tolerance, out)
+}
+
+const isStraight = (points: Point[], tolerance: number) => {
+  const a = points[0]
+  const b = points[points.length - 1]
+  const length = distance(a, b)
+  if (!length) return false
+  return points.every((p) => Math.abs((b.x - a.x) * (p.y - a.y) - (p.x - a.x) * (b.y - a.y)) / length <= tolerance)
+}
+
+const turnAngle = (before: Point, at: Point, after: Point) => {
+  const d1 = normalize(sub(at, before))
+  const d2 = normalize(sub(after, at))
+  return (Math.acos(Math.min(1, Math.max(-1, dot(d1, d2)))) * 180) / Math.PI
+}
+
+// Writes one run of points (between corners) as lines and cubics within `tolerance`
+const fitRun = (points: Point[], tolerance: number, tan1?: Point, tan2?: Point): PathSegment[] => {
+  if (points.length < 2) return []
+  if (isStraight(points, tolerance)) return [{ type: 'L', ...points[points.length - 1] }]
+  const cubics: Cubic[] = []
+  fitCubics(
+    points,
+    tan1 ?? normalize(sub(points[1], points[0])),
+    tan2 ?? normalize(sub(points[points.length - 2], points[points.length - 1])),
+    tolerance,
+    cubics,
+  )
+  // A curve never strays further from its chord than its control points do
+  return cubics.map(([start, c1, c2, end]) =>
+    isStraight([start, c1, c2, end], tolerance) ? { type: 'L', ...end } : { type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y },
+  )
+}
+
+/**
+ * Redraws each subpath with as few nodes as it can while staying within `tolerance` of
+ * the original. Sharp corners are kept; everything between them is refitted with cubic
+ * Béziers. A subpath that would not get any shorter is left as it was.
+ */
+export const simplifyPath = (segments: PathSegment[], tolerance: number): PathSegment[] => {
+  const originals = splitSubpaths(segments)
+  const polylines = flattenSubpaths(segments, tolerance / 10)
+  return polylines.flatMap(({ points, closed, nodes }, index) => {
+    const original = originals[index]
+    if (points.length < 3) return original
+    const count = points.length
+    const at = (i: number) => points[(i + count) % count]
+    const corners = nodes.filter((i) => {
+      if (!closed && (i === 0 || i === count - 1)) return true
+      return turnAngle(at(i - 1), at(i), at(i + 1)) > CORNER_ANGLE
+    })
+
+    const result: PathSegment[] = []
+    if (closed && !corners.length) {
+      // A smooth loop is fitted from its first point back to itself
+      const seam = normalize(sub(at(1), at(-1)))
+      result.push({ type: 'M', ...points[0] }, ...fitRun([...points, points[0]], tolerance, seam, mul(seam, -1)), { type: 'Z' })
+    } else {
+      const ordered = closed ? [...points.slice(corners[0]), ...points.slice(0, corners[0] + 1)] : points
+      const breaks = closed ? [...corners.map((i) => (i - corners[0] + count) % count), count] : corners
+      result.push({ type: 'M', ...ordered[0] })
+      for (let i = 0; i + 1 < breaks.length; i++) result.push(...fitRun(ordered.slice(breaks[i], breaks[i + 1] + 1), tolerance))
+      if (closed) {
+        // The last run ends on the start point, which Z closes onto
+        const last = result[result.length - 1]
+        if (last.type === 'L') result.pop()
+        result.push({ type: 'Z' })
+      }
+    }
+    return result.filter(isDrawSegment).length < original.filter(isDrawSegment).length ? result : original
+  })
+}
@@ -0,0 +1,209 @@
+import type { Bounds } from './commands.ts'
+import type { GuideOrientation } from './guides.ts'
+import type { Point } from './matrix.ts'
+
+export const SNAP_TARGETS = ['grid', 'guides', 'objects', 'page', 'spacing'] as const
+
+export type SnapTarget = (typeof SNAP_TARGETS)[number]
+
+// Everything a gesture can snap to, in one coordinate system (the editor uses the root's user space)
+export type SnapContext = {
+  targets: readonly SnapTarget[]
+  gridSize: number
+  // Bounds of the other elements
+  boxes: Bounds[]
+  // The viewBox
+  page: Bounds | null
+  guides?: { orientation: GuideOrientation; position: number }[]
+  // How far a position may be pulled to snap
+  threshold: number
+}
+
+// A guide line to draw while snapped: lines up edges or centers, or marks one of several equal gaps
+export type SnapGuide = { kind: 'align' | 'spacing'; x1: number; y1: number; x2: number; y2: number }
+
+export type SnapResult = { offset: Point; guides: SnapGuide[] }
+
+type Axis = 'x' | 'y'
+
+type Span = { start: number; end: number }
+
+const along = (box: Bounds, axis: Axis): Span => (axis === 'x' ? { start: box.x, end: box.x + box.width } : { start: box.y, end: box.y + box.height })
+
+const across = (box: Bounds, axis: Axis): Span => along(box, axis === 'x' ? 'y' : 'x')
+
+const line = (kind: SnapGuide['kind'], axis: Axis, at: number, from: number, to: number): SnapGuide =>
+  axis === 'x' ? { kind, x1: at, y1: from, x2: at, y2: to } : { kind, x1: from, y1: at, x2: to, y2: at }
+
+// A position to line up with, and how far the matching guide reaches across the other axis
+type Stop = { value: number; from: number; to: number }
+
+const boxStops = (box: Bounds, axis: Axis): Stop[] => {
+  const own = along(box, axis)
+  const other = across(box, axis)
+  return [own.start, (own.start + own.end) / 2, own.end].map((value) => ({ value, from: other.start, to: other.end }))
+}
+
+const stopsFor = (context: SnapContext, axis: Axis): Stop[] => [
+  ...(context.targets.includes('objects') ? context.boxes.flatMap((box) => boxStops(box, axis)) : []),
+  ...(context.targets.includes('page') && context.page ? boxStops(context.page, axis) : []),
+]
+
+// One way of snapping along an axis: the distance to move, and the guides it draws around the moved box
+type Candidate = { delta: number; guides: (moved: Bounds) => SnapGuide[] }
+
+// Lines up any of `values` with the other elements, the page or the grid
+const alignCandidates = (values: number[], context: SnapContext, axis: Axis): Candidate[] => {
+  const candidates: Candidate[] = []
+  for (const stop of stopsFor(context, axis)) {
+    for (const value of values) {
+      candidates.push({
+        delta: stop.value - value,
+        guides: (moved) => {
+          const other = across(moved, axis)
+          return [line('align', axis, stop.value, Math.min(stop.from, other.start), Math.max(stop.to, other.end))]
+        },
+      })
+    }
+  }
+  // The grid and guide lines are drawn already, so snapping to them adds no smart guides
+  if (context.targets.includes('grid') && context.gridSize > 0) {
+    for (const value of values) candidates.push({ delta: Math.round(value / context.gridSize) * context.gridSize - value, guides: () => [] })
+  }
+  if (context.targets.includes('guides')) {
+    const orientation = axis === 'x' ? 'vertical' : 'horizontal'
+    for (const guide of context.guides ?? []) {
+      if (guide.orientation !== orientation) continue
+      for (const value of values) candidates.push({ delta: guide.position - value, guides: () => [] })
+    }
+  }
+  return candidates
+}
+
+// Horizontal (for x) or vertical guide across the gap between two boxes, halfway along their overlap
+const gapGuide = (a: Bounds, b: Bounds, axis: Axis): SnapGuide => {
+  const first = across(a, axis)
+  const second = across(b, axis)
+  const from = Math.max(first.start, second.start)
+  const to = Math.min(first.end, second.end)
+  const at = from <= to ? (from + to) / 2 : (first.start + first.end + second.start + second.end) / 4
+  return line('spacing', axis === 'x' ? 'y' : 'x', at, along(a, axis).end, along(b, axis).start)
+}
+
+/**
+ * Positions that leave equal gaps between the moving box and its neighbours on the same row
+ * (for x) or column (for y): halfway between the nearest box on either side, or one gap past
+ * a pair of boxes that already have that gap between them.
+ */
+const spacingCandidates = (box: Bounds, context: SnapContext, axis: Axis): Candidate[] => {
+  const own = along(box, axis)
+  const size = own.end - own.start
+  const center = (own.start + own.end) / 2
+  const row = across(box, axis)
+  const neighbours = context.boxes.filter((other) => {
+    const span = across(other, axis)
+    return span.start < row.end && span.end > row.start
+  })
+  const before = neighbours.filter((other) => along(other, axis).end <= center).sort((a, b) => along(b, axis).end - along(a, axis).end)
+  const after = neighbours.filter((other) => along(other, axis).start >= center).sort((a, b) => along(a, axis).start - along(b, axis).start)
+  const candidates: Candidate[] = []
+
+  const [left, right] = [before[0], after[0]]
+  if (left && right) {
+    const start = (along(left, axis).end + along(right, axis).start - size) / 2
+    if (start >= along(left, axis).end) {
+      candidates.push({ delta: start - own.start, guides: (moved) => [gapGuide(left, moved, axis), gapGuide(moved, right, axis)] })
+    }
+  }
+  if (left) {
+    // The nearest box before `left` that does not overlap it
+    const previous = before.find((other) => along(other, axis).end <= along(left, axis).start)
+    if (previous) {
+      const start = along(left, axis).end + along(left, axis).start - along(previous, axis).end
+      candidates.push({ delta: start - own.start, guides: (moved) => [gapGuide(previous, left, axis), gapGuide(left, moved, axis)] })
+    }
+  }
+  if (right) {
+    const next = after.find((other) => along(other, axis).start >= along(right, axis).end)
+    if (next) {
+      const start = along(right, axis).start - (along(next, axis).start - along(right, axis).end) - size
+      candidates.push({ delta: start - own.start, guides: (moved) => [gapGuide(moved, right, axis), gapGuide(right, next, axis)] })
+    }
+  }
+  return candidates
+}
+
+// The smallest move within the threshold, and every candidate that needs that same move
+const pick = (candidates: Candidate[], threshold: number) => {
+  let best: number | null = null
+  for (const { delta } of candidates) {
+    if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best) - 1e-9)) best = delta
+  }
+  if (best === null) return { delta: 0, chosen: [] }
+  const delta = best
+  return { delta, chosen: candidates.filter((candidate) => Math.abs(candidate.delta - delta) < 1e-6) }
+}
+
+// Joins align guides that lie on the same line into one; spacing guides mark separate gaps
+const mergeGuides = (guides: SnapGuide[]) => {
+  const merged = new Map<string, SnapGuide>()
+  for (const guide of guides) {
+    const vertical = guide.x1 === guide.x2
+    const key =
+      guide.kind === 'spacing'
+        ? [guide.x1, guide.y1, guide.x2, guide.y2].map((n) => n.toFixed(6)).join()
+        : vertical
+          ? `x ${guide.x1.toFixed(6)}`
+          : `y ${guide.y1.toFixed(6)}`
+    const existing = merged.get(key)
+    if (!existing || guide.kind === 'spacing') {
+      merged.set(key, existing ?? guide)
+      continue
+    }
+    merged.set(
+      key,
+      vertical
+        ? { ...existing, y1: Math.min(existing.y1, guide.y1), y2: Math.max(existing.y2, guide.y2) }
+        : { ...existing, x1: Math.min(existing.x1, guide.x1), x2: Math.max(existing.x2, guide.x2) },
+    )
+  }
+  return Array.from(merged.values())
+}
+
+const snap = (box: Bounds, x: Candidate[], y: Candidate[], threshold: number): SnapResult => {
+  const snapX = pick(x, threshold)
+  const snapY = pick(y, threshold)
+  const moved = { ...box, x: box.x + snapX.delta, y: box.y + snapY.delta }
+  return {
+    offset: { x: snapX.delta, y: snapY.delta },
+    guides: mergeGuides([...snapX.chosen, ...snapY.chosen].flatMap((candidate) => candidate.guides(moved))),
+  }
+}
+
+/**
+ * Snaps a box being dragged: its edges and center line up with other elements, the page,
+ * guides or the grid, or it lands where the gaps to its neighbours are equal. Each axis
+ * snaps on its own.
+ */
+export const snapBounds = (box: Bounds, context: SnapContext): SnapResult => {
+  const candidates = (axis: Axis) => {
+    const own = along(box, axis)
+    return [
+      ...alignCandidates([own.start, (own.start + own.end) / 2, own.end], context, axis),
+      ...(context.targets.includes('spacing') ? spacingCandidates(box, context, axis) : []),
+    ]
+  }
+  return snap(box, candidates('x'), candidates('y'), context.threshold)
+}
+
+/**
+ * Snaps a single point, such as a corner being drawn or a resize handle, to the grid, guides
+ * and the edges and centers of other elements and the page. `axes` limits which coordinates may move.
+ */
+export const snapPoint = (point: Point, context: SnapContext, axes: { x: boolean; y: boolean } = { x: true, y: true }): SnapResult =>
+  snap(
+    { ...point, width: 0, height: 0 },
+    axes.x ? alignCandidates([point.x], context, 'x') : [],
+    axes.y ? alignCandidates([point.y], context, 'y') : [],
+    context.threshold,
+  )
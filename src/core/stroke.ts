@@ -0,0 +1,161 @@
+import { booleanOperation } from './boolean.ts'
+import type { FillRule } from './boolean.ts'
+import { flattenSubpaths } from './geometry.ts'
+import type { Point } from './matrix.ts'
+import { splitSubpaths } from './path.ts'
+import type { PathSegment } from './path.ts'
+import { simplifyPath } from './simplify.ts'
+
+export type LineJoin = 'miter' | 'round' | 'bevel'
+
+export type LineCap = 'butt' | 'round' | 'square'
+
+export type StrokeStyle = { width: number; linejoin?: LineJoin; linecap?: LineCap; miterLimit?: number }
+
+const sub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y })
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y })
+const mul = (a: Point, k: number): Point => ({ x: a.x * k, y: a.y * k })
+
+const direction = (from: Point, to: Point): Point => {
+  const length = Math.hypot(to.x - from.x, to.y - from.y)
+  return { x: (to.x - from.x) / length, y: (to.y - from.y) / length }
+}
+
+// Left-hand normal scaled to `length`
+const normal = (d: Point, length: number): Point => ({ x: -d.y * length, y: d.x * length })
+
+const signedArea = (points: Point[]) =>
+  points.reduce((sum, p, i) => {
+    const q = points[(i + 1) % points.length]
+    return sum + p.x * q.y - q.x * p.y
+  }, 0)
+
+// Points along the circle around `center` from angle `from` to `to`, `tolerance` apart at most
+const arcPoints = (center: Point, radius: number, from: number, to: number, tolerance: number): Point[] => {
+  const step = 2 * Math.acos(Math.max(-1, 1 - tolerance / radius)) || Math.PI / 8
+  const steps = Math.max(1, Math.ceil(Math.abs(to - from) / step))
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = from + ((to - from) * i) / steps
+    return { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius }
+  })
+}
+
+/**
+ * The areas a stroke covers along one polyline: a quadrilateral per edge, a join where two
+ * edges meet and a cap at each open end. All of them run the same way round, so filling
+ * them together with the nonzero rule gives the stroke.
+ */
+const strokePieces = (points: Point[], closed: boolean, style: StrokeStyle, tolerance: number): Point[][] => {
+  const half = style.width / 2
+  const linejoin = style.linejoin ?? 'miter'
+  const linecap = style.linecap ?? 'butt'
+  const pieces: Point[][] = []
+
+  if (points.length === 1) {
+    // A zero-length subpath only shows its caps
+    const [p] = points
+    if (linecap === 'round') pieces.push(arcPoints(p, half, 0, Math.PI * 2, tolerance))
+    if (linecap === 'square') pieces.push([add(p, { x: -half, y: -half }), add(p, { x: half, y: -half }), add(p, { x: half, y: half }), add(p, { x: -half, y: half })])
+    return pieces
+  }
+
+  const count = closed ? points.length : points.length - 1
+  for (let i = 0; i < count; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    const n = normal(direction(a, b), half)
+    pieces.push([add(a, n), add(b, n), sub(b, n), sub(a, n)])
+  }
+
+  const corners = closed ? points.map((_, i) => i) : points.map((_, i) => i).slice(1, -1)
+  for (const i of corners) {
+    const p = points[i]
+    const d0 = direction(points[(i - 1 + points.length) % points.length], p)
+    const d1 = direction(p, points[(i + 1) % points.length])
+    const turn = d0.x * d1.y - d0.y * d1.x
+    if (Math.abs(turn) < 1e-12 && d0.x * d1.x + d0.y * d1.y > 0) continue
+    // The join fills the gap on the outside of the turn
+    const side = turn > 0 ? -1 : 1
+    const a = add(p, normal(d0, half * side))
+    const b = add(p, normal(d1, half * side))
+    if (linejoin === 'round') {
+      // The outside arc is the short way round from one edge's normal to the other's
+      const from = Math.atan2(a.y - p.y, a.x - p.x)
+      let sweep = Math.atan2(b.y - p.y, b.x - p.x) - from
+      if (sweep > Math.PI) sweep -= Math.PI * 2
+      if (sweep < -Math.PI) sweep += Math.PI * 2
+      pieces.push([p, ...arcPoints(p, half, from, from + sweep, tolerance)])
+      continue
+    }
+    const cosine = Math.max(-1, Math.min(1, -(d0.x * d1.x + d0.y * d1.y)))
+    // Miter length over stroke width is 1 / sin(θ / 2), θ being the angle between the edges
+    const ratio = 1 / Math.sqrt((1 - cosine) / 2)
+    if (linejoin === 'miter' && ratio <= (style.miterLimit ?? 4)) {
+      const bisector = direction(p, add(a, sub(b, p)))
+      pieces.push([p, a, add(p, mul(bisector, half * ratio)), b])
+    } else {
+      pieces.push([p, a, b])
+    }
+  }
+
+  if (!closed && linecap !== 'butt') {
+    for (const [end, before] of [
+      [points[0], points[1]],
+      [points[points.length - 1], points[points.length - 2]],
+    ]) {
+      const d = direction(before, end)
+      const n = normal(d, half)
+      if (linecap === 'square') {
+        const out = mul(d, half)
+        pieces.push([add(end, n), add(add(end, n), out), add(sub(end, n), out), sub(end, n)])
+      } else {
+        const start = Math.atan2(n.y, n.x)
+        pieces.push(arcPoints(end, half, start, start - Math.PI, tolerance))
+      }
+    }
+  }
+
+  return pieces.map((piece) => (signedArea(piece) < 0 ? piece.reverse() : piece))
+}
+
+const piecesToSegments = (pieces: Point[][]): PathSegment[] =>
+  pieces.flatMap((piece) => [
+    { type: 'M' as const, ...piece[0] },
+    ...piece.slice(1).map((p) => ({ type: 'L' as const, ...p })),
+    { type: 'Z' as const },
+  ])
+
+/**
+ * The area a stroke paints, as path data that can be filled instead. Curves are followed
+ * to within `tolerance` and the outline is refitted with curves afterwards. Dashes are
+ * not applied.
+ */
+export const outlineStroke = (segments: PathSegment[], style: StrokeStyle, tolerance = 0.02): PathSegment[] => {
+  if (!(style.width > 0)) return []
+  // The outline is traced finer than the tolerance so refitting has room to smooth it
+  const fine = tolerance / 4
+  const pieces = flattenSubpaths(segments, fine).flatMap(({ points, closed }) => strokePieces(points, closed, style, fine))
+  const [outline] = booleanOperation([{ segments: piecesToSegments(pieces) }], 'union', fine)
+  return outline ? simplifyPath(outline, tolerance) : []
+}
+
+/**
+ * Grows the filled area of a path by `distance` (or shrinks it, when negative) with
+ * rounded corners. Open subpaths are treated as closed, the way they are filled.
+ */
+export const offsetPath = (segments: PathSegment[], distance: number, fillRule: FillRule = 'nonzero', tolerance = 0.02): PathSegment[] => {
+  const closed = splitSubpaths(segments).flatMap((subpath) => (subpath[subpath.length - 1].type === 'Z' ? subpath : [...subpath, { type: 'Z' as const }]))
+  if (!distance) return closed
+  const fine = tolerance / 4
+  const band = outlineBand(closed, Math.abs(distance), fine)
+  const [result] = booleanOperation([{ segments: closed, fillRule }, { segments: band }], distance > 0 ? 'union' : 'subtract', fine)
+  return result ? simplifyPath(result, tolerance) : []
+}
+
+// Everything within `distance` of the outline
+const outlineBand = (segments: PathSegment[], distance: number, tolerance: number) =>
+  piecesToSegments(
+    flattenSubpaths(segments, tolerance).flatMap(({ points, closed }) =>
+      strokePieces(points, closed, { width: distance * 2, linejoin: 'round', linecap: 'round' }, tolerance),
+    ),
+  )
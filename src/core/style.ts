@@ -0,0 +1,40 @@
+import type { SvgNode } from './types.ts'
+
+const parseStyleEntries = (style: string): string[][] =>
+  style
+    .split(';')
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => p.split(':').map((s) => s.trim()))
+
+export const getStyleValue = (style: string | undefined, key: string): string | undefined => {
+  if (!style) return undefined
+  const found = parseStyleEntries(style).find(([k]) => k === key)
+  return found ? found[1] : undefined
+}
+
+export const applyStyleValue = (style: string | undefined, key: string, value: string | undefined) => {
+  const entries = style ? parseStyleEntries(style).filter(([k]) => k !== key && k.length > 0) : []
+  if (value && value.length > 0) {
+    entries.push([key, value])
+  }
+  if (!entries.length) return ''
+  return entries.map(([k, v]) => `${k}: ${v}`).join('; ')
+}
+
+export const getAttrOrStyle = (node: SvgNode | null, key: string): string | undefined => {
+  if (!node) return undefined
+  return node.attrs[key] ?? getStyleValue(node.attrs.style, key)
+}
+
+// Mutates `node` in place; meant to be called from an updateNode/updateMultipleNodes callback.
+// Fill and stroke are mirrored into the inline style so they win over stylesheet rules.
+export const setNodeAttribute = (node: SvgNode, key: string, value: string) => {
+  if (key === 'fill' || key === 'stroke') {
+    const styleValue = applyStyleValue(node.attrs.style, key, value || undefined)
+    if (styleValue) node.attrs.style = styleValue
+    else delete node.attrs.style
+  }
+  if (value) node.attrs[key] = value
+  else delete node.attrs[key]
+}
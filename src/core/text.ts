@@ -0,0 +1,129 @@
+import { formatNumber } from './matrix.ts'
+import type { Point } from './matrix.ts'
+import { applyStyleValue, getAttrOrStyle, getStyleValue } from './style.ts'
+import type { SvgNode } from './types.ts'
+
+// Font settings the typography panel edits. They are written as presentation attributes.
+export const TYPOGRAPHY_PROPERTIES = [
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'letter-spacing',
+  'text-anchor',
+  'dominant-baseline',
+] as const
+
+export type TypographyProperty = (typeof TYPOGRAPHY_PROPERTIES)[number]
+
+export const DEFAULT_LINE_HEIGHT = 1.25
+
+const DEFAULT_FONT_SIZE = 16
+
+// Line height as a multiple of the font size, read from the inline style like Inkscape writes it
+export const getLineHeight = (node: SvgNode): number => {
+  const value = getStyleValue(node.attrs.style, 'line-height')
+  if (!value) return DEFAULT_LINE_HEIGHT
+  const amount = parseFloat(value)
+  if (!Number.isFinite(amount) || amount <= 0) return DEFAULT_LINE_HEIGHT
+  return value.trim().endsWith('%') ? amount / 100 : amount
+}
+
+const getFontSize = (node: SvgNode) => {
+  const size = parseFloat(getAttrOrStyle(node, 'font-size') ?? '')
+  return Number.isFinite(size) && size > 0 ? size : DEFAULT_FONT_SIZE
+}
+
+// A tspan that starts a new line: Inkscape marks them with sodipodi:role, we write x + dy
+const isLineTspan = (node: SvgNode) =>
+  node.tag === 'tspan' && (node.attrs['sodipodi:role'] === 'line' || (node.attrs.x !== undefined && node.attrs.dy !== undefined))
+
+const textContent = (node: SvgNode): string =>
+  node.tag === '#text' || node.tag === '#cdata' ? (node.text ?? '') : node.children.map(textContent).join('')
+
+/**
+ * Splits a `<text>` element into lines. Each line tspan starts a new line; its `dy` is
+ * divided by the line height to recover blank lines in between. Other content (plain
+ * text, styled tspans) belongs to the current line.
+ */
+export const getTextLines = (node: SvgNode): string[] => {
+  const fontSize = getFontSize(node)
+  const lineHeight = getLineHeight(node) * fontSize
+  const lines = ['']
+  let hasContent = false
+  for (const child of node.children) {
+    if (child.tag === '#comment') continue
+    if (isLineTspan(child)) {
+      const dy = child.attrs.dy
+      let breaks = hasContent ? 1 : 0
+      if (dy !== undefined) {
+        const amount = parseFloat(dy)
+        const em = getAttrOrStyle(child, 'font-size') ? getFontSize(child) : fontSize
+        const pixels = dy.trim().endsWith('em') ? amount * em : amount
+        breaks = Number.isFinite(pixels) ? Math.max(0, Math.round(pixels / lineHeight)) : breaks
+      }
+      for (let i = 0; i < breaks; i++) lines.push('')
+    }
+    lines[lines.length - 1] += textContent(child)
+    hasContent = true
+  }
+  return lines
+}
+
+/**
+ * Replaces the content of a `<text>` element with `lines`. A single line is written as
+ * plain text; further lines become `<tspan x dy>` children, where `dy` skips over blank
+ * lines (an empty tspan cannot move the pen). Mutates `node` in place.
+ */
+export const setTextLines = (node: SvgNode, lines: string[], lineHeight = getLineHeight(node)) => {
+  const x = node.attrs.x?.split(/[\s,]+/)[0] || '0'
+  const children: SvgNode[] = []
+  if (lines[0]) children.push({ id: `${node.id}-text-1`, tag: '#text', attrs: {}, children: [], text: lines[0] })
+
+  let pending = 0
+  lines.slice(1).forEach((line, index) => {
+    pending++
+    // Trailing blank lines are kept as empty tspans so editing does not lose them
+    if (!line && index < lines.length - 2) return
+    const id = `${node.id}-line-${index + 2}`
+    children.push({
+      id,
+      tag: 'tspan',
+      attrs: { x, dy: `${formatNumber(pending * lineHeight, 3)}em`, 'data-id': id },
+      children: line ? [{ id: `${id}-text`, tag: '#text', attrs: {}, children: [], text: line }] : [],
+    })
+    pending = 0
+  })
+  node.children = children
+
+  if (lineHeight !== DEFAULT_LINE_HEIGHT || getStyleValue(node.attrs.style, 'line-height')) {
+    const style = applyStyleValue(node.attrs.style, 'line-height', formatNumber(lineHeight, 3))
+    if (style) node.attrs.style = style
+    else delete node.attrs.style
+  }
+}
+
+// Writes a font setting as an attribute, dropping any inline-style copy that would override it
+export const setTypography = (node: SvgNode, property: TypographyProperty, value: string) => {
+  if (getStyleValue(node.attrs.style, property) !== undefined) {
+    const style = applyStyleValue(node.attrs.style, property, undefined)
+    if (style) node.attrs.style = style
+    else delete node.attrs.style
+  }
+  if (value) node.attrs[property] = value
+  else delete node.attrs[property]
+}
+
+export type TextStyle = { fill: string } & Partial<Record<TypographyProperty, string>>
+
+// An empty `<text>` element at `at`, ready to receive lines
+export const createTextElement = (id: string, at: Point, style: TextStyle, lineHeight = DEFAULT_LINE_HEIGHT): SvgNode => {
+  const attrs: Record<string, string> = { id, x: formatNumber(at.x, 3), y: formatNumber(at.y, 3), fill: style.fill }
+  for (const property of TYPOGRAPHY_PROPERTIES) {
+    const value = style[property]
+    if (value) attrs[property] = value
+  }
+  if (lineHeight !== DEFAULT_LINE_HEIGHT) attrs.style = `line-height: ${formatNumber(lineHeight, 3)}`
+  attrs['data-id'] = id
+  return { id, tag: 'text', attrs, children: [] }
+}
@@ -0,0 +1,258 @@
+import { IDENTITY, multiply, parseTransformList } from './matrix.ts'
+import type { Matrix } from './matrix.ts'
+import type { SvgNode } from './types.ts'
+
+// Trees are treated as immutable: edits copy the path from the root down to what changed and
+// share every other node with the previous version. That is what lets lookups be cached per
+// tree object and lets the editor skip re-rendering subtrees that are still the same objects.
+
+type TreeIndex = {
+  nodes: Map<string, SvgNode>
+  parents: Map<string, SvgNode | null>
+}
+
+const indexes = new WeakMap<SvgNode, TreeIndex>()
+
+/**
+ * Every node of `tree` by id, and each one's parent, built on first use and cached for as long
+ * as the tree object lives. Where ids repeat, the first node in document order wins.
+ */
+export const indexTree = (tree: SvgNode): TreeIndex => {
+  let index = indexes.get(tree)
+  if (!index) {
+    const nodes = new Map<string, SvgNode>()
+    const parents = new Map<string, SvgNode | null>()
+    walkNodes(tree, (node, parent) => {
+      if (nodes.has(node.id)) return
+      nodes.set(node.id, node)
+      parents.set(node.id, parent)
+    })
+    index = { nodes, parents }
+    indexes.set(tree, index)
+  }
+  return index
+}
+
+export const cloneNode = (node: SvgNode): SvgNode => ({
+  ...node,
+  attrs: { ...node.attrs },
+  children: node.children.map(cloneNode),
+})
+
+// Ids of the listed nodes and all of their ancestors: the path an edit has to copy
+const pathsTo = (tree: SvgNode, ids: Iterable<string>): Set<string> => {
+  const { nodes, parents } = indexTree(tree)
+  const path = new Set<string>()
+  for (const id of ids) {
+    let node = nodes.get(id) ?? null
+    while (node && !path.has(node.id)) {
+      path.add(node.id)
+      node = parents.get(node.id) ?? null
+    }
+  }
+  return path
+}
+
+/**
+ * Returns a new tree where `mutate` has changed the nodes listed in `ids`. Each target is a copy
+ * with its own attrs and children array that `mutate` may change freely; its descendants are
+ * still shared with `tree` and must be replaced rather than changed in place. Only the targets'
+ * ancestors are copied besides, and `tree` comes back as it is when none of the ids are in it.
+ */
+export const updateMultipleNodes = (tree: SvgNode, ids: Set<string>, mutate: (target: SvgNode) => void): SvgNode => {
+  const path = pathsTo(tree, ids)
+  const rebuild = (node: SvgNode): SvgNode => {
+    if (!path.has(node.id)) return node
+    const next = { ...node, attrs: { ...node.attrs }, children: [...node.children] }
+    if (ids.has(node.id)) {
+      mutate(next)
+      // `mutate` may have looked the copy up before changing it
+      indexes.delete(next)
+    }
+    next.children = next.children.map(rebuild)
+    return next
+  }
+  return rebuild(tree)
+}
+
+export const updateNode = (tree: SvgNode, id: string, mutate: (target: SvgNode) => void): SvgNode =>
+  updateMultipleNodes(tree, new Set([id]), mutate)
+
+export const findNode = (node: SvgNode | null, id: string | null): SvgNode | null => {
+  if (!node || !id) return null
+  return indexTree(node).nodes.get(id) ?? null
+}
+
+export const findParent = (node: SvgNode, targetId: string): SvgNode | null => indexTree(node).parents.get(targetId) ?? null
+
+export const removeMultipleNodes = (tree: SvgNode, ids: Set<string>): SvgNode | null => {
+  if (ids.has(tree.id)) return null
+  const { parents } = indexTree(tree)
+  const path = pathsTo(
+    tree,
+    Array.from(ids, (id) => parents.get(id)?.id).filter((id) => id !== undefined),
+  )
+  const rebuild = (node: SvgNode): SvgNode =>
+    path.has(node.id)
+      ? { ...node, attrs: { ...node.attrs }, children: node.children.filter((child) => !ids.has(child.id)).map(rebuild) }
+      : node
+  return rebuild(tree)
+}
+
+/**
+ * Copy of `node` and its subtree under fresh ids from `newId`, normally the document's
+ * idAllocator: "logo" becomes "logo-copy-1", and copying that again gives "logo-copy-2".
+ * id attributes follow the new ids, and references between the copied elements (a group's
+ * own gradient, say) point at the copies while references to anything else stay put.
+ */
+export const assignNewIds = (node: SvgNode, newId: (prefix: string) => string): SvgNode => {
+  const renames = new Map<string, string>()
+  const assignIds = (n: SvgNode): SvgNode => {
+    const id = newId(`${n.id.replace(/-copy-\d+$/, '')}-copy`)
+    if (n.tag.startsWith('#')) return { ...n, id }
+    const attrs: Record<string, string> = { ...n.attrs, 'data-id': id }
+    if (n.attrs.id !== undefined) {
+      attrs.id = id
+      renames.set(n.attrs.id, id)
+    }
+    return { ...n, id, attrs, children: n.children.map(assignIds) }
+  }
+  return rewriteReferences(assignIds(node), renames)
+}
+
+export const getFirstText = (node: SvgNode | null): string | undefined => {
+  if (!node) return undefined
+  if (node.tag === '#text') return node.text
+  for (const child of node.children) {
+    const found = getFirstText(child)
+    if (found !== undefined) return found
+  }
+  return undefined
+}
+
+export const walkNodes = (node: SvgNode, visit: (node: SvgNode, parent: SvgNode | null) => void, parent: SvgNode | null = null) => {
+  visit(node, parent)
+  for (const child of node.children) {
+    walkNodes(child, visit, node)
+  }
+}
+
+// Hands out `${prefix}-N` ids that clash neither with `tree` nor with each other. A
+// `preferred` id is handed out as it is while still free.
+export const idAllocator = (tree: SvgNode) => {
+  const taken = new Set<string>()
+  walkNodes(tree, (node) => {
+    taken.add(node.id)
+    if (node.attrs.id) taken.add(node.attrs.id)
+  })
+  return (prefix: string, preferred?: string) => {
+    if (preferred && !taken.has(preferred)) {
+      taken.add(preferred)
+      return preferred
+    }
+    let counter = 1
+    while (taken.has(`${prefix}-${counter}`)) counter++
+    const id = `${prefix}-${counter}`
+    taken.add(id)
+    return id
+  }
+}
+
+// The first free `${prefix}-N` id, for adding a single element
+export const createUniqueId = (tree: SvgNode, prefix: string): string => idAllocator(tree)(prefix)
+
+// Maps the coordinates of `id`'s children into the root's user space: the product of the
+// transforms from the root's children down to `id` itself. Nested <svg> viewports are not included.
+export const userSpaceMatrix = (tree: SvgNode, id: string): Matrix => {
+  const { nodes, parents } = indexTree(tree)
+  const lineage: SvgNode[] = []
+  for (let node = nodes.get(id) ?? null; node && node !== tree; node = parents.get(node.id) ?? null) lineage.unshift(node)
+  return lineage.reduce((m, node) => multiply(m, parseTransformList(node.attrs.transform)), IDENTITY)
+}
+
+// Drops ids whose ancestor is also listed, so a transform is not applied twice to the same element
+export const filterTopLevel = (tree: SvgNode, ids: Iterable<string>): string[] => {
+  const wanted = new Set(ids)
+  const result: string[] = []
+  const visit = (node: SvgNode) => {
+    if (wanted.has(node.id)) {
+      result.push(node.id)
+      return
+    }
+    node.children.forEach(visit)
+  }
+  visit(tree)
+  return result
+}
+
+// Returns the tree with a <defs> under the root (adding one at the top if needed) and its node id
+export const ensureDefs = (tree: SvgNode): { tree: SvgNode; defsId: string } => {
+  const existing = tree.children.find((child) => child.tag === 'defs')
+  if (existing) return { tree, defsId: existing.id }
+  const defsId = createUniqueId(tree, 'defs')
+  return {
+    tree: updateNode(tree, tree.id, (root) => {
+      root.children.unshift({ id: defsId, tag: 'defs', attrs: { 'data-id': defsId }, children: [] })
+    }),
+    defsId,
+  }
+}
+
+const URL_REFERENCE = /url\(\s*(['"]?)#([^'")\s]+)\1\s*\)/g
+
+// Accessibility attributes holding a space-separated list of ids, without a "#"
+const IDREF_ATTRIBUTES = new Set([
+  'aria-activedescendant',
+  'aria-controls',
+  'aria-describedby',
+  'aria-details',
+  'aria-errormessage',
+  'aria-flowto',
+  'aria-labelledby',
+  'aria-owns',
+])
+
+const splitIdrefs = (value: string) => value.split(/\s+/).filter(Boolean)
+
+/**
+ * Points url(#id) values, "#id" links and aria id lists at new ids after elements' id attributes changed.
+ * `renames` maps old ids to new ones; stylesheets in <style> are rewritten too.
+ */
+export const rewriteReferences = (tree: SvgNode, renames: Map<string, string>): SvgNode => {
+  const rewriteUrls = (value: string) =>
+    value.replace(URL_REFERENCE, (match, quote: string, id: string) => {
+      const to = renames.get(id)
+      return to === undefined ? match : `url(${quote}#${to}${quote})`
+    })
+  const rewrite = (node: SvgNode, inStyle: boolean): SvgNode => {
+    if (node.tag.startsWith('#')) return inStyle && node.text ? { ...node, text: rewriteUrls(node.text) } : node
+    const attrs: Record<string, string> = {}
+    for (const [name, value] of Object.entries(node.attrs)) {
+      const link = (name === 'href' || name === 'xlink:href') && value.startsWith('#') ? renames.get(value.slice(1)) : undefined
+      if (IDREF_ATTRIBUTES.has(name)) attrs[name] = splitIdrefs(value).map((id) => renames.get(id) ?? id).join(' ')
+      else attrs[name] = link !== undefined ? `#${link}` : rewriteUrls(value)
+    }
+    return { ...node, attrs, children: node.children.map((child) => rewrite(child, node.tag === 'style')) }
+  }
+  return rewrite(tree, false)
+}
+
+/** Every id the subtree refers to through url(#id) values, "#id" links and aria id lists. */
+export const referencedIds = (node: SvgNode): Set<string> => {
+  const ids = new Set<string>()
+  const collect = (value: string) => {
+    for (const [, , id] of value.matchAll(URL_REFERENCE)) ids.add(id)
+  }
+  walkNodes(node, (n, parent) => {
+    if (n.tag.startsWith('#')) {
+      if (parent?.tag === 'style' && n.text) collect(n.text)
+      return
+    }
+    for (const [name, value] of Object.entries(n.attrs)) {
+      if ((name === 'href' || name === 'xlink:href') && value.startsWith('#')) ids.add(value.slice(1))
+      else if (IDREF_ATTRIBUTES.has(name)) splitIdrefs(value).forEach((id) => ids.add(id))
+      else collect(value)
+    }
+  })
+  return ids
+}
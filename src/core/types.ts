@@ -0,0 +1,10 @@
+export type SvgNode = {
+  id: string
+  // Element name, or one of the pseudo-tags '#text', '#comment' and '#cdata'
+  tag: string
+  attrs: Record<string, string>
+  children: SvgNode[]
+  text?: string
+  // Only set on the root: XML declaration, doctype and comments that preceded <svg>
+  prolog?: string
+}
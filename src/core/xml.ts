@@ -0,0 +1,242 @@
+import type { SvgNode } from './types.ts'
+
+export class SvgParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SvgParseError'
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+}
+
+export const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      // Out-of-range code points and lone surrogates are no characters, so the text stays as written
+      const valid = code <= 0x10ffff && !(code >= 0xd800 && code <= 0xdfff)
+      return valid ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity] ?? match
+  })
+
+type RawElement = {
+  kind: 'element'
+  tag: string
+  attrs: [string, string][]
+  children: RawChild[]
+  // Offset of the opening "<" in the source, used to recover the prolog
+  start: number
+}
+
+type RawChild = RawElement | { kind: '#text' | '#comment' | '#cdata'; value: string }
+
+// Elements whose text is content, so their whitespace is kept exactly as written
+export const TEXT_CONTENT_TAGS = new Set(['text', 'tspan', 'textPath', 'title', 'desc', 'style', 'script'])
+
+const NAME_CHAR = /[^\s/>=]/
+
+// Minimal non-validating XML reader. It understands elements, attributes, text, CDATA,
+// comments, processing instructions and doctypes, which is all an SVG file needs, and it
+// runs anywhere (no DOMParser), so the CLI and the editor share the same tree shape.
+const readDocument = (markup: string): RawElement[] => {
+  let pos = 0
+  const roots: RawElement[] = []
+  const stack: RawElement[] = []
+
+  const fail = (message: string): never => {
+    throw new SvgParseError(`${message} at offset ${pos}`)
+  }
+
+  const pushChild = (child: RawChild) => {
+    const parent = stack[stack.length - 1]
+    if (parent) parent.children.push(child)
+    else if (child.kind === 'element') roots.push(child)
+  }
+
+  const skipPast = (terminator: string) => {
+    const end = markup.indexOf(terminator, pos)
+    if (end < 0) fail(`Expected "${terminator}"`)
+    const body = markup.slice(pos, end)
+    pos = end + terminator.length
+    return body
+  }
+
+  const readName = () => {
+    const start = pos
+    while (pos < markup.length && NAME_CHAR.test(markup[pos])) pos++
+    if (start === pos) fail('Expected a name')
+    return markup.slice(start, pos)
+  }
+
+  const skipSpace = () => {
+    while (pos < markup.length && /\s/.test(markup[pos])) pos++
+  }
+
+  while (pos < markup.length) {
+    if (markup[pos] !== '<') {
+      const end = markup.indexOf('<', pos)
+      const text = markup.slice(pos, end < 0 ? markup.length : end)
+      pos = end < 0 ? markup.length : end
+      pushChild({ kind: '#text', value: decodeEntities(text) })
+      continue
+    }
+
+    if (markup.startsWith('<!--', pos)) {
+      pos += 4
+      pushChild({ kind: '#comment', value: skipPast('-->') })
+    } else if (markup.startsWith('<![CDATA[', pos)) {
+      pos += 9
+      pushChild({ kind: '#cdata', value: skipPast(']]>') })
+    } else if (markup.startsWith('<?', pos)) {
+      pos += 2
+      skipPast('?>')
+    } else if (markup.startsWith('<!', pos)) {
+      // Doctype, possibly with an internal subset in brackets
+      let depth = 0
+      while (pos < markup.length) {
+        const ch = markup[pos++]
+        if (ch === '[') depth++
+        else if (ch === ']') depth--
+        else if (ch === '>' && depth <= 0) break
+      }
+    } else if (markup[pos + 1] === '/') {
+      pos += 2
+      const name = readName()
+      skipSpace()
+      if (markup[pos] !== '>') fail('Expected ">"')
+      pos++
+      const open = stack.pop()
+      if (!open || open.tag !== name) fail(`Unexpected closing tag </${name}>`)
+    } else {
+      const start = pos++
+      const element: RawElement = { kind: 'element', tag: readName(), attrs: [], children: [], start }
+      for (;;) {
+        skipSpace()
+        if (markup.startsWith('/>', pos)) {
+          pos += 2
+          pushChild(element)
+          break
+        }
+        if (markup[pos] === '>') {
+          pos++
+          pushChild(element)
+          stack.push(element)
+          break
+        }
+        if (pos >= markup.length) fail(`Unterminated <${element.tag}>`)
+        const name = readName()
+        skipSpace()
+        if (markup[pos] !== '=') {
+          // HTML-style boolean attribute
+          element.attrs.push([name, ''])
+          continue
+        }
+        pos++
+        skipSpace()
+        const quote = markup[pos]
+        if (quote !== '"' && quote !== "'") fail(`Expected a quoted value for "${name}"`)
+        pos++
+        element.attrs.push([name, decodeEntities(skipPast(quote))])
+      }
+    }
+  }
+
+  if (stack.length) fail(`Unclosed <${stack[stack.length - 1].tag}>`)
+  return roots
+}
+
+const findSvgRoot = (elements: RawChild[]): RawElement | null => {
+  for (const element of elements) {
+    if (element.kind !== 'element') continue
+    if (element.tag === 'svg' || element.tag.endsWith(':svg')) return element
+    const nested = findSvgRoot(element.children)
+    if (nested) return nested
+  }
+  return null
+}
+
+/**
+ * Parses SVG markup into an `SvgNode` tree. Every element gets a stable id taken from
+ * `data-id`, then `id`, then a generated `node-N`; an id already used by an earlier element
+ * gets a `-2`, `-3`… suffix, so node ids are unique even when the `id` attributes (which are
+ * kept as written) repeat. Comments and CDATA sections become
+ * `#comment`/`#cdata` nodes, whitespace is kept inside text-content elements (and under
+ * `xml:space="preserve"`) and dropped between other elements, and anything written before
+ * the root `<svg>` (XML declaration, doctype, comments) is kept verbatim in `prolog`.
+ * Returns null when the markup has no `<svg>` element and throws `SvgParseError` when it
+ * is not well-formed.
+ */
+export const parseSvgMarkup = (markup: string): SvgNode | null => {
+  const roots = readDocument(markup)
+  const root = findSvgRoot(roots)
+  if (!root) return null
+
+  // Written ids are claimed up front so generated ones never take them from a later element
+  const written = new Set<string>()
+  const collect = (el: RawElement) => {
+    const lookup = new Map(el.attrs)
+    const id = lookup.get('data-id') ?? lookup.get('id')
+    if (id !== undefined) written.add(id)
+    el.children.forEach((child) => child.kind === 'element' && collect(child))
+  }
+  collect(root)
+
+  const taken = new Set<string>()
+  let counter = 0
+  const claim = (wanted: string | undefined, generate: () => string) => {
+    let id = wanted !== undefined && !taken.has(wanted) ? wanted : undefined
+    for (let n = 2; id === undefined; n++) {
+      const candidate = wanted === undefined ? generate() : `${wanted}-${n}`
+      if (!taken.has(candidate) && !written.has(candidate)) id = candidate
+    }
+    taken.add(id)
+    return id
+  }
+
+  const walk = (el: RawElement, preserveSpace: boolean): SvgNode => {
+    const lookup = new Map(el.attrs)
+    const id = claim(lookup.get('data-id') ?? lookup.get('id'), () => `node-${++counter}`)
+    const attrs: Record<string, string> = {}
+    for (const [name, value] of el.attrs) {
+      attrs[name] = value
+    }
+    attrs['data-id'] = id
+
+    const space = lookup.get('xml:space')
+    const keepSpace = space ? space === 'preserve' : preserveSpace || TEXT_CONTENT_TAGS.has(el.tag)
+    const children: SvgNode[] = []
+    el.children.forEach((child) => {
+      if (child.kind === 'element') {
+        children.push(walk(child, keepSpace))
+        return
+      }
+      const text = child.kind === '#text' && !keepSpace ? child.value.trim() : child.value
+      if (child.kind === '#text' && !text.trim() && !(keepSpace && text)) return
+      children.push({
+        id: claim(undefined, () => `${child.kind.slice(1)}-${++counter}`),
+        tag: child.kind,
+        attrs: {},
+        children: [],
+        text,
+      })
+    })
+
+    return { id, tag: el.tag, attrs, children }
+  }
+
+  const tree = walk(root, false)
+  const prolog = roots[0] === root ? markup.slice(0, root.start).trim() : ''
+  if (prolog) tree.prolog = prolog
+  return tree
+}
+
+// Element tags are names; text, comments and CDATA use "#" pseudo-tags
+export const isElementNode = (node: SvgNode) => !node.tag.startsWith('#')
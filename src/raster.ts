@@ -0,0 +1,154 @@
+// Raster exports: named presets for size, format, background and file name, and drawing SVG
+// markup into PNG, JPEG or WebP files with a canvas
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp'
+
+// How big the image is: a multiple of the drawing's own size, a width and/or height in pixels
+// (both given: the drawing is fitted inside and centered), or a print resolution
+export type RasterSize =
+  | { mode: 'scale'; scale: number }
+  | { mode: 'pixels'; width?: number; height?: number }
+  | { mode: 'dpi'; dpi: number }
+
+export type RasterPreset = {
+  id: string
+  name: string
+  format: RasterFormat
+  size: RasterSize
+  // A CSS colour filled in behind the drawing, or null to keep it transparent (JPEG falls back to white)
+  background: string | null
+  // 0 to 1, for JPEG and WebP
+  quality: number
+  // File name without extension; {name}, {preset}, {width}, {height} and {scale} are filled in
+  fileName: string
+}
+
+export type RasterFile = { fileName: string; blob: Blob; width: number; height: number }
+
+export const RASTER_FORMATS: { format: RasterFormat; label: string; type: string; extension: string }[] = [
+  { format: 'png', label: 'PNG', type: 'image/png', extension: 'png' },
+  { format: 'jpeg', label: 'JPEG', type: 'image/jpeg', extension: 'jpg' },
+  { format: 'webp', label: 'WebP', type: 'image/webp', extension: 'webp' },
+]
+
+// CSS pixels are defined at 96 per inch
+const CSS_DPI = 96
+
+const preset = (id: string, name: string, size: RasterSize, fileName: string, format: RasterFormat = 'png'): RasterPreset => ({
+  id,
+  name,
+  format,
+  size,
+  background: null,
+  quality: 0.92,
+  fileName,
+})
+
+const ICON_SIZES = [16, 32, 48, 64, 128, 180, 192, 256, 512, 1024]
+
+export const DEFAULT_RASTER_PRESETS: RasterPreset[] = [
+  preset('png-1x', 'PNG 1x', { mode: 'scale', scale: 1 }, '{name}'),
+  preset('png-2x', 'PNG 2x', { mode: 'scale', scale: 2 }, '{name}@2x'),
+  preset('png-3x', 'PNG 3x', { mode: 'scale', scale: 3 }, '{name}@3x'),
+  { ...preset('jpeg-2x', 'JPEG 2x', { mode: 'scale', scale: 2 }, '{name}@2x', 'jpeg'), background: '#ffffff', quality: 0.85 },
+  { ...preset('webp-2x', 'WebP 2x', { mode: 'scale', scale: 2 }, '{name}@2x', 'webp'), quality: 0.85 },
+  preset('print-300', 'Print 300 dpi', { mode: 'dpi', dpi: 300 }, '{name}-300dpi'),
+  ...ICON_SIZES.map((size) => preset(`icon-${size}`, `Icon ${size}`, { mode: 'pixels', width: size, height: size }, 'icon-{width}x{height}')),
+]
+
+// Presets that make up the app icon set, for selecting them all at once
+export const APP_ICON_PRESET_IDS = ICON_SIZES.map((size) => `icon-${size}`)
+
+/** Pixel size of an image of `size` made from a drawing of `natural` CSS pixels. */
+export const rasterSize = (size: RasterSize, natural: { width: number; height: number }): { width: number; height: number } => {
+  const ratio = natural.width / natural.height
+  switch (size.mode) {
+    case 'scale':
+      return { width: Math.round(natural.width * size.scale), height: Math.round(natural.height * size.scale) }
+    case 'dpi':
+      return rasterSize({ mode: 'scale', scale: size.dpi / CSS_DPI }, natural)
+    case 'pixels': {
+      const width = size.width ?? Math.round((size.height ?? natural.height) * ratio)
+      const height = size.height ?? Math.round(width / ratio)
+      return { width, height }
+    }
+  }
+}
+
+// Characters file systems do not allow in names
+const UNSAFE_FILE_NAME = /[\\/:*?"<>|]+/g
+
+export const formatFileName = (template: string, values: Record<string, string | number>) => {
+  const name = template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match))
+  return name.replace(UNSAFE_FILE_NAME, '-').trim() || 'export'
+}
+
+const loadImage = (markup: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }))
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('The SVG could not be drawn as an image'))
+    }
+    image.src = url
+  })
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The browser could not encode the image'))), type, quality)
+  })
+
+/**
+ * Draws `markup` once per preset. `name` fills the {name} of file name templates; drawings
+ * without an intrinsic size count as 800×600.
+ */
+export const renderRasters = async (markup: string, presets: RasterPreset[], name: string): Promise<RasterFile[]> => {
+  const image = await loadImage(markup)
+  const natural = { width: image.naturalWidth || 800, height: image.naturalHeight || 600 }
+  const files: RasterFile[] = []
+  for (const entry of presets) {
+    const { width, height } = rasterSize(entry.size, natural)
+    if (!(width > 0 && height > 0) || width * height > 16384 * 16384) {
+      throw new Error(`${entry.name}: ${width}×${height} is not an image size the browser can draw`)
+    }
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas drawing is not available')
+    const format = RASTER_FORMATS.find(({ format }) => format === entry.format) ?? RASTER_FORMATS[0]
+    const background = entry.background ?? (entry.format === 'jpeg' ? '#ffffff' : null)
+    if (background) {
+      ctx.fillStyle = background
+      ctx.fillRect(0, 0, width, height)
+    }
+    // Fit the drawing inside, centered, when the box has another aspect ratio
+    const scale = Math.min(width / natural.width, height / natural.height)
+    const drawnWidth = natural.width * scale
+    const drawnHeight = natural.height * scale
+    ctx.drawImage(image, (width - drawnWidth) / 2, (height - drawnHeight) / 2, drawnWidth, drawnHeight)
+
+    const blob = await toBlob(canvas, format.type, entry.quality)
+    // Browsers that cannot encode a format hand back a PNG instead
+    if (blob.type !== format.type) throw new Error(`This browser cannot save ${format.label} images`)
+    const scaleLabel = Number((width / natural.width).toFixed(2))
+    const fileName = formatFileName(entry.fileName, { name, preset: entry.name, width, height, scale: scaleLabel })
+    files.push({ fileName: `${fileName}.${format.extension}`, blob, width, height })
+  }
+  return files
+}
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
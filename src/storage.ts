@@ -0,0 +1,187 @@
+import { serializeNode } from './core/index.ts'
+import type { HistoryEntry, SvgNode } from './core/index.ts'
+import type { RasterPreset } from './raster.ts'
+
+// The local document library and the last session, kept in IndexedDB so that reloading
+// the tab or a crash loses at most the last autosave interval
+
+const DB_NAME = 'svg-editor'
+const DB_VERSION = 1
+const DOCUMENTS = 'documents'
+const SESSION = 'session'
+const SESSION_KEY = 'last'
+// The session store also keeps editor settings that outlive any one document
+const RASTER_PRESETS_KEY = 'raster-presets'
+
+// Written at the top of exported libraries, so imports can tell them from other JSON files
+export const LIBRARY_FORMAT = 'svg-editor-library'
+
+export type StoredDocument = {
+  id: string
+  name: string
+  tree: SvgNode
+  // Undo steps around the current one (capped when saving); `tree` is the document after the first `historyIndex`
+  history: HistoryEntry[]
+  historyIndex: number
+  // UTF-8 bytes of the exported markup, for the library list
+  size: number
+  createdAt: number
+  updatedAt: number
+}
+
+export type DocumentSummary = Pick<StoredDocument, 'id' | 'name' | 'size' | 'createdAt' | 'updatedAt'>
+
+// Editor settings restored along with the document
+export type SessionView = {
+  zoom: number
+  showGrid: boolean
+  gridSize: number
+  showRulers: boolean
+  showLayers: boolean
+  canvasBg: string
+  exportFormat: 'compact' | 'pretty'
+  selectedIds: string[]
+}
+
+export type StoredSession = {
+  documentId: string
+  view: SessionView
+  savedAt: number
+}
+
+// One library document in an exported archive: markup only, without undo history
+export type ArchivedDocument = { name: string; svg: string; createdAt: number; updatedAt: number }
+
+export type LibraryArchive = { format: typeof LIBRARY_FORMAT; version: 1; exportedAt: number; documents: ArchivedDocument[] }
+
+/** Thrown when the browser refuses a write because the site's storage quota is used up. */
+export class StorageFullError extends Error {
+  constructor() {
+    super('Browser storage is full')
+    this.name = 'StorageFullError'
+  }
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(DOCUMENTS, { keyPath: 'id' })
+      request.result.createObjectStore(SESSION)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      database = null
+      reject(request.error)
+    }
+  })
+  return database
+}
+
+const toStorageError = (error: DOMException | null) =>
+  error?.name === 'QuotaExceededError' ? new StorageFullError() : error ?? new Error('Storage request failed')
+
+// Runs one request in its own transaction and resolves once that transaction has committed
+const run = async <T>(store: string, mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(store, mode)
+    const request = makeRequest(transaction.objectStore(store))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onabort = () => reject(toStorageError(transaction.error ?? request.error))
+  })
+}
+
+export const listDocuments = async (): Promise<DocumentSummary[]> => {
+  const documents = await run<StoredDocument[]>(DOCUMENTS, 'readonly', (store) => store.getAll())
+  return documents
+    .map(({ id, name, size, createdAt, updatedAt }) => ({ id, name, size, createdAt, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export const loadDocument = async (id: string): Promise<StoredDocument | null> =>
+  (await run<StoredDocument | undefined>(DOCUMENTS, 'readonly', (store) => store.get(id))) ?? null
+
+/** Adds or replaces a document. Rejects with StorageFullError when over quota. */
+export const saveDocument = async (entry: StoredDocument) => {
+  await run(DOCUMENTS, 'readwrite', (store) => store.put(entry))
+}
+
+export const deleteDocument = async (id: string) => {
+  await run(DOCUMENTS, 'readwrite', (store) => store.delete(id))
+}
+
+export const renameDocument = async (id: string, name: string) => {
+  const entry = await loadDocument(id)
+  if (entry) await saveDocument({ ...entry, name, updatedAt: Date.now() })
+}
+
+// Copies a document under a new id and name; the copy starts without undo history
+export const duplicateDocument = async (id: string, name: string): Promise<string | null> => {
+  const entry = await loadDocument(id)
+  if (!entry) return null
+  const now = Date.now()
+  const copy = { ...entry, id: crypto.randomUUID(), name, history: [], historyIndex: 0, createdAt: now, updatedAt: now }
+  await saveDocument(copy)
+  return copy.id
+}
+
+export const loadSession = async (): Promise<StoredSession | null> =>
+  (await run<StoredSession | undefined>(SESSION, 'readonly', (store) => store.get(SESSION_KEY))) ?? null
+
+export const saveSession = async (session: StoredSession) => {
+  await run(SESSION, 'readwrite', (store) => store.put(session, SESSION_KEY))
+}
+
+export const clearSession = async () => {
+  await run(SESSION, 'readwrite', (store) => store.delete(SESSION_KEY))
+}
+
+// The raster export presets as last saved, or null before the first save
+export const loadRasterPresets = async (): Promise<RasterPreset[] | null> =>
+  (await run<RasterPreset[] | undefined>(SESSION, 'readonly', (store) => store.get(RASTER_PRESETS_KEY))) ?? null
+
+export const saveRasterPresets = async (presets: RasterPreset[]) => {
+  await run(SESSION, 'readwrite', (store) => store.put(presets, RASTER_PRESETS_KEY))
+}
+
+// How much of the site's quota is used, where the browser tells
+export const estimateStorage = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null
+  const { usage, quota } = await navigator.storage.estimate()
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null
+}
+
+// The whole library as one JSON file, newest first, with each document as SVG markup
+export const exportLibrary = async (): Promise<LibraryArchive> => {
+  const documents = await run<StoredDocument[]>(DOCUMENTS, 'readonly', (store) => store.getAll())
+  return {
+    format: LIBRARY_FORMAT,
+    version: 1,
+    exportedAt: Date.now(),
+    documents: documents
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(({ name, tree, createdAt, updatedAt }) => ({ name, svg: serializeNode(tree, { format: 'pretty' }), createdAt, updatedAt })),
+  }
+}
+
+/**
+ * Reads an exported library, returning null for anything that is not one. Documents without
+ * a name or markup are left out, and timestamps that are not numbers become the import time.
+ */
+export const readLibraryArchive = (text: string): ArchivedDocument[] | null => {
+  let archive: Partial<LibraryArchive>
+  try {
+    archive = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (archive?.format !== LIBRARY_FORMAT || !Array.isArray(archive.documents)) return null
+  const now = Date.now()
+  const time = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : now)
+  return archive.documents
+    .filter((entry) => typeof entry?.name === 'string' && typeof entry.svg === 'string')
+    .map((entry) => ({ name: entry.name, svg: entry.svg, createdAt: time(entry.createdAt), updatedAt: time(entry.updatedAt) }))
+}